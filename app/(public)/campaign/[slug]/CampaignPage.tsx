@@ -13,6 +13,7 @@ import { CampaignDebugData } from '@/lib/types/debug';
 import { LiveDebugData, LiveAgentResult } from '@/lib/services/campaignGenerator';
 import { createClient } from '@/lib/supabase/client';
 import { useStreamingCampaign } from '@/lib/hooks/useStreamingCampaign';
+import { waitForCheckoutCompletion } from '@/lib/utils/checkoutStatus';
 
 interface Props {
   campaign: CampaignData | null;
@@ -108,6 +109,14 @@ function convertDebugDataToLiveDebug(debugData: CampaignDebugData): LiveDebugDat
 }
 
 // Map server status to step index for visual indicators
+// Headline price and volume: the campaign's cheapest pricing tier, or the legacy tier 1 columns
+function getStartingTier(campaign: CampaignData): { price: number; emails: number } {
+  const tier = campaign.pricingTiers?.[0];
+  return tier
+    ? { price: tier.priceInCents / 100, emails: tier.emails }
+    : { price: campaign.priceTier1, emails: campaign.priceTier1Emails };
+}
+
 const statusToStepIndex: Record<string, number> = {
   'scraping_website': 0,
   'analyzing_company': 1,
@@ -193,6 +202,8 @@ export default function CampaignPage({ campaign: initialCampaign, slug }: Props)
   const [customerEmail, setCustomerEmail] = useState<string | null>(null);
   const [isCompletingCheckout, setIsCompletingCheckout] = useState(false);
   const [currentUserEmail, setCurrentUserEmail] = useState<string | undefined>(undefined);
+  const [creditBalance, setCreditBalance] = useState<number | null>(null);
+  const [isLaunchingWithCredits, setIsLaunchingWithCredits] = useState(false);
   
   // Sync campaign state when props change (e.g., after router.refresh())
   // This is critical for when the campaign transitions from 'generating' to 'draft'/'complete'
@@ -251,6 +262,53 @@ export default function CampaignPage({ campaign: initialCampaign, slug }: Props)
     
     return () => subscription.unsubscribe();
   }, []);
+
+  // Signed-in members can launch with their organization's lead credits instead of paying
+  useEffect(() => {
+    if (!currentUserEmail) return;
+
+    const fetchCredits = async () => {
+      try {
+        const response = await fetch('/api/billing/credits');
+        if (response.ok) {
+          const data = await response.json();
+          setCreditBalance(data.balance);
+        }
+      } catch (error) {
+        console.error('[CampaignPage] Error fetching credits:', error);
+      }
+    };
+
+    fetchCredits();
+  }, [currentUserEmail]);
+
+  const availableCredits = currentUserEmail ? creditBalance : null;
+
+  const handleLaunchWithCredits = async () => {
+    if (!campaign) return;
+
+    setIsLaunchingWithCredits(true);
+    try {
+      const response = await fetch('/api/generate-leads', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ campaignId: campaign.id, leadsCount: getStartingTier(campaign).emails }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        alert(data.error || 'Failed to launch campaign');
+        setIsLaunchingWithCredits(false);
+        return;
+      }
+
+      window.location.href = `/app/campaigns/${slug}`;
+    } catch (error) {
+      console.error('[CampaignPage] Error launching with credits:', error);
+      alert('Failed to launch campaign');
+      setIsLaunchingWithCredits(false);
+    }
+  };
   
   // Check if campaign is still generating
   const isGenerating = campaign?.status === 'generating';
@@ -323,16 +381,11 @@ export default function CampaignPage({ campaign: initialCampaign, slug }: Props)
     if (sessionId && !showPaymentSuccess && !isCompletingCheckout) {
       setIsCompletingCheckout(true);
       
-      // Complete the checkout
-      fetch('/api/checkout/complete', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          sessionId,
-          campaignSlug: slug,
-        }),
+      // Wait for the Stripe webhook to complete the checkout
+      waitForCheckoutCompletion({
+        sessionId,
+        campaignSlug: slug,
       })
-        .then(res => res.json())
         .then(data => {
           if (data.autoLoginUrl) {
             // Redirect to auto-login URL - this will log them in and redirect to dashboard
@@ -792,7 +845,7 @@ export default function CampaignPage({ campaign: initialCampaign, slug }: Props)
                     const companies = [...new Set((campaign.qualifiedLeads || []).map(lead => lead.company))]
                       .filter(isValidCompany)
                       .slice(0, 5);
-                    const remainingCount = Math.max(0, (campaign.priceTier1Emails || 0) - companies.length);
+                    const remainingCount = Math.max(0, (getStartingTier(campaign).emails || 0) - companies.length);
                     return (
                       <>
                         {companies.map((company, i) => (
@@ -819,7 +872,7 @@ export default function CampaignPage({ campaign: initialCampaign, slug }: Props)
             <div className="p-6">
               <div className="flex justify-center gap-12 md:gap-16">
                 <div className="text-center">
-                  <p className="text-2xl font-bold text-slate-900">{campaign.priceTier1Emails}</p>
+                  <p className="text-2xl font-bold text-slate-900">{getStartingTier(campaign).emails}</p>
                   <p className="text-xs text-slate-500">emails sent</p>
                 </div>
                 <div className="text-center">
@@ -827,7 +880,7 @@ export default function CampaignPage({ campaign: initialCampaign, slug }: Props)
                   <p className="text-xs text-slate-500">expected reply rate</p>
                 </div>
                 <div className="text-center">
-                  <p className="text-2xl font-bold text-sky-600">~{Math.round((campaign.priceTier1Emails || 500) * 0.02)}</p>
+                  <p className="text-2xl font-bold text-sky-600">~{Math.round((getStartingTier(campaign).emails || 500) * 0.02)}</p>
                   <p className="text-xs text-slate-500">expected replies</p>
                 </div>
               </div>
@@ -948,12 +1001,12 @@ export default function CampaignPage({ campaign: initialCampaign, slug }: Props)
                
               <div className="relative z-10">
                 <div className="flex items-baseline gap-1 mb-2">
-                  <span className="text-5xl font-black text-slate-900 tracking-tight">${campaign.priceTier1}</span>
+                  <span className="text-5xl font-black text-slate-900 tracking-tight">${getStartingTier(campaign).price.toLocaleString()}</span>
                   <span className="text-slate-500 font-medium">/ campaign</span>
                 </div>
                 
                 <p className="text-slate-500 mb-8 font-medium">
-                  Reach <strong>{campaign.priceTier1Emails} verified prospects</strong> with personalized messages.
+                  Reach <strong>{getStartingTier(campaign).emails} verified prospects</strong> with personalized messages.
                 </p>
                 
                 <button 
@@ -963,6 +1016,18 @@ export default function CampaignPage({ campaign: initialCampaign, slug }: Props)
                   <span>Launch Campaign</span>
                   <span>🚀</span>
                 </button>
+
+                {availableCredits !== null && availableCredits >= getStartingTier(campaign).emails && (
+                  <button
+                    onClick={handleLaunchWithCredits}
+                    disabled={isLaunchingWithCredits}
+                    className="w-full mt-3 border border-slate-300 text-slate-700 font-semibold py-3 rounded-xl hover:bg-slate-50 transition-colors disabled:opacity-50"
+                  >
+                    {isLaunchingWithCredits
+                      ? 'Launching...'
+                      : `Use ${getStartingTier(campaign).emails.toLocaleString()} lead credits (${availableCredits.toLocaleString()} available)`}
+                  </button>
+                )}
                 
                 <div className="mt-4 flex items-center justify-center gap-2 text-xs text-slate-400">
                   <svg className="w-4 h-4 text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" /></svg>
@@ -1002,7 +1067,6 @@ export default function CampaignPage({ campaign: initialCampaign, slug }: Props)
         isOpen={showCheckout}
         onClose={() => setShowCheckout(false)}
         campaign={campaign}
-        tier="tier1"
         currentUserEmail={currentUserEmail}
       />
       
@@ -9,8 +9,10 @@ import {
   useStripe,
   useElements,
 } from '@stripe/react-stripe-js';
-import { CampaignData } from '@/lib/types';
+import { CampaignData, PricingTier } from '@/lib/types';
+import { PriceQuote } from '@/lib/services/pricing';
 import { createClient } from '@/lib/supabase/client';
+import { waitForCheckoutCompletion } from '@/lib/utils/checkoutStatus';
 
 const stripePromise = loadStripe(
   process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY!,
@@ -27,12 +29,151 @@ interface CheckoutSheetProps {
   isOpen: boolean;
   onClose: () => void;
   campaign: CampaignData;
-  tier?: 'tier1' | 'tier2';
+  // Pricing tier key selected when the sheet opens - defaults to the cheapest
+  tier?: string;
   currentUserEmail?: string;
 }
 
 type SheetState = 'form' | 'processing' | 'success' | 'error';
 
+// Whole dollars unless a discount left cents
+function formatPrice(cents: number): string {
+  return `$${(cents / 100).toLocaleString('en-US', {
+    minimumFractionDigits: cents % 100 ? 2 : 0,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+// Tier picker, promo code and price breakdown
+function OrderSummary({
+  tiers,
+  selectedTier,
+  quote,
+  onSelectTier,
+  onApplyPromoCode,
+  onRemovePromoCode,
+}: {
+  tiers: PricingTier[];
+  selectedTier: string | undefined;
+  quote: PriceQuote | null;
+  onSelectTier: (key: string) => void;
+  onApplyPromoCode: (code: string) => Promise<string | null>;
+  onRemovePromoCode: () => void;
+}) {
+  const [promoInput, setPromoInput] = useState('');
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const applyPromoCode = async () => {
+    if (!promoInput.trim()) return;
+
+    setIsApplying(true);
+    const error = await onApplyPromoCode(promoInput);
+    setPromoError(error);
+    if (!error) setPromoInput('');
+    setIsApplying(false);
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-5 shadow-sm border border-slate-200 mb-4 space-y-4">
+      {/* Tier Picker - only when the campaign is sold in more than one size */}
+      {tiers.length > 1 && (
+        <div className="grid grid-cols-2 gap-2">
+          {tiers.map((tier) => {
+            const isSelected = tier.key === (selectedTier || tiers[0].key);
+            return (
+              <button
+                key={tier.key}
+                type="button"
+                onClick={() => !isSelected && onSelectTier(tier.key)}
+                className={`text-left px-3 py-2.5 rounded-md border transition-colors ${
+                  isSelected
+                    ? 'border-blue-600 ring-1 ring-blue-600 bg-blue-50/50'
+                    : 'border-slate-300 hover:border-slate-400'
+                }`}
+              >
+                <p className="text-sm font-semibold text-slate-900">{tier.label}</p>
+                <p className="text-xs text-slate-500">
+                  {tier.emails.toLocaleString()} emails · {formatPrice(tier.priceInCents)}
+                </p>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Promo Code */}
+      {quote?.promoCode ? (
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-emerald-600 font-medium">
+            {quote.promoCode.code} applied
+            {quote.promoCode.description && (
+              <span className="text-slate-500 font-normal"> · {quote.promoCode.description}</span>
+            )}
+          </span>
+          <button
+            type="button"
+            onClick={onRemovePromoCode}
+            className="text-slate-400 hover:text-slate-600 text-xs"
+          >
+            Remove
+          </button>
+        </div>
+      ) : (
+        <div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={promoInput}
+              onChange={(e) => {
+                setPromoInput(e.target.value);
+                if (promoError) setPromoError(null);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  applyPromoCode();
+                }
+              }}
+              placeholder="Promo code"
+              className="flex-1 px-3 py-2 bg-white border border-slate-300 rounded-md text-sm text-slate-900 placeholder:text-slate-400 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 uppercase"
+            />
+            <button
+              type="button"
+              onClick={applyPromoCode}
+              disabled={isApplying || !promoInput.trim()}
+              className="px-4 py-2 text-sm font-medium text-slate-700 border border-slate-300 rounded-md hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isApplying ? 'Applying...' : 'Apply'}
+            </button>
+          </div>
+          {promoError && (
+            <p className="mt-1.5 text-sm text-red-500">{promoError}</p>
+          )}
+        </div>
+      )}
+
+      {/* Price Breakdown */}
+      {quote && quote.discount > 0 && (
+        <div className="text-sm space-y-1 pt-3 border-t border-slate-100">
+          <div className="flex justify-between text-slate-500">
+            <span>Subtotal</span>
+            <span>{formatPrice(quote.subtotal)}</span>
+          </div>
+          <div className="flex justify-between text-emerald-600">
+            <span>Discount</span>
+            <span>-{formatPrice(quote.discount)}</span>
+          </div>
+          <div className="flex justify-between font-semibold text-slate-900">
+            <span>Total</span>
+            <span>{formatPrice(quote.total)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 // Inline Login Form Component
 function InlineLoginForm({
   email,
@@ -230,14 +371,12 @@ function InlineLoginForm({
 function PaymentForm({
   campaign,
   price,
-  emails,
   onSuccess,
   onError,
   currentUserEmail,
 }: {
   campaign: CampaignData;
-  price: number;
-  emails: number;
+  price: string;
   onSuccess: (email: string) => void;
   onError: (message: string) => void;
   currentUserEmail?: string;
@@ -497,7 +636,7 @@ function PaymentForm({
                     Processing...
                   </>
                 ) : (
-                  <>Pay ${price}</>
+                  <>Pay {price}</>
                 )}
               </button>
 
@@ -530,17 +669,24 @@ export default function CheckoutSheet({
   isOpen,
   onClose,
   campaign,
-  tier = 'tier1',
+  tier,
   currentUserEmail,
 }: CheckoutSheetProps) {
   const [state, setState] = useState<SheetState>('form');
   const [clientSecret, setClientSecret] = useState<string | null>(null);
   const [paymentIntentId, setPaymentIntentId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [selectedTier, setSelectedTier] = useState<string | undefined>(tier);
+  const [promoCode, setPromoCode] = useState<string | null>(null);
+  // Set from the PaymentIntent's response, so it's always what the buyer will be charged
+  const [quote, setQuote] = useState<PriceQuote | null>(null);
 
-  const price = tier === 'tier1' ? campaign.priceTier1 : campaign.priceTier2;
-  const emails =
-    tier === 'tier1' ? campaign.priceTier1Emails : campaign.priceTier2Emails;
+  const tiers = campaign.pricingTiers || [];
+  const currentTier = quote?.tier || tiers.find(t => t.key === selectedTier) || tiers[0];
+  const emails = currentTier ? currentTier.emails : campaign.priceTier1Emails;
+  const price = formatPrice(
+    quote ? quote.total : currentTier ? currentTier.priceInCents : campaign.priceTier1 * 100
+  );
 
   const createPaymentIntent = useCallback(async () => {
     try {
@@ -551,7 +697,8 @@ export default function CheckoutSheet({
           campaignSlug: campaign.slug,
           campaignId: campaign.id,
           campaignName: `${campaign.companyName} Outreach Campaign`,
-          tier,
+          tier: selectedTier,
+          promoCode,
           customerEmail: currentUserEmail,
         }),
       });
@@ -564,12 +711,57 @@ export default function CheckoutSheet({
 
       setClientSecret(data.clientSecret);
       setPaymentIntentId(data.paymentIntentId);
+      setQuote(data.quote);
     } catch (err) {
       console.error('Error creating payment intent:', err);
       setError(err instanceof Error ? err.message : 'Something went wrong');
       setState('error');
     }
-  }, [campaign.slug, campaign.id, campaign.companyName, tier, currentUserEmail]);
+  }, [campaign.slug, campaign.id, campaign.companyName, selectedTier, promoCode, currentUserEmail]);
+
+  // A new tier or promo code needs a new PaymentIntent for the new amount
+  const repriceCheckout = () => {
+    setClientSecret(null);
+    setPaymentIntentId(null);
+    setQuote(null);
+  };
+
+  const handleSelectTier = (key: string) => {
+    setSelectedTier(key);
+    repriceCheckout();
+  };
+
+  // Check the code before repricing, so a bad code shows next to the input
+  const handleApplyPromoCode = async (code: string): Promise<string | null> => {
+    try {
+      const response = await fetch('/api/checkout/quote', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          campaignId: campaign.id,
+          tier: currentTier?.key,
+          promoCode: code,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        return data.error || 'This promo code isn\'t valid';
+      }
+
+      setPromoCode(data.quote.promoCode.code);
+      repriceCheckout();
+      return null;
+    } catch (err) {
+      console.error('Error applying promo code:', err);
+      return 'Something went wrong';
+    }
+  };
+
+  const handleRemovePromoCode = () => {
+    setPromoCode(null);
+    repriceCheckout();
+  };
 
   useEffect(() => {
     if (isOpen && !clientSecret) {
@@ -585,30 +777,26 @@ export default function CheckoutSheet({
         setPaymentIntentId(null);
         setState('form');
         setError(null);
+        setSelectedTier(tier);
+        setPromoCode(null);
+        setQuote(null);
       }, 300);
       return () => clearTimeout(timer);
     }
-  }, [isOpen]);
+  }, [isOpen, tier]);
 
-  const handleSuccess = async (email: string) => {
+  const handleSuccess = async () => {
     setState('processing');
 
     try {
-      // Call complete endpoint to set up account and get auto-login URL
-      const response = await fetch('/api/checkout/complete', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          paymentIntentId,
-          campaignSlug: campaign.slug,
-          email,
-          origin: window.location.origin, // Pass origin for correct redirect
-        }),
+      // Wait for the Stripe webhook to set up the account, then get the auto-login URL
+      const data = await waitForCheckoutCompletion({
+        paymentIntentId,
+        campaignSlug: campaign.slug,
+        origin: window.location.origin, // Pass origin for correct redirect
       });
 
-      const data = await response.json();
-
-      if (response.ok && data.autoLoginUrl) {
+      if (data.autoLoginUrl) {
         // Redirect to magic link which will auto-login and go to dashboard
         window.location.href = data.autoLoginUrl;
         return;
@@ -715,12 +903,12 @@ export default function CheckoutSheet({
                     {campaign.companyName} Outreach
                   </h2>
                   <p className="text-slate-500 text-sm">
-                    {emails} personalized emails
+                    {emails.toLocaleString()} personalized emails
                   </p>
                 </div>
                 <div className="flex items-center gap-4">
                   <div className="text-right">
-                    <p className="text-2xl font-bold text-slate-900">${price}</p>
+                    <p className="text-2xl font-bold text-slate-900">{price}</p>
                     <p className="text-slate-400 text-xs">one-time</p>
                   </div>
                   <button
@@ -744,17 +932,31 @@ export default function CheckoutSheet({
                 </div>
               </div>
 
+              {/* Tier and Promo Code */}
+              {state === 'form' && (
+                <div onPointerDownCapture={(e) => e.stopPropagation()}>
+                  <OrderSummary
+                    tiers={tiers}
+                    selectedTier={selectedTier}
+                    quote={quote}
+                    onSelectTier={handleSelectTier}
+                    onApplyPromoCode={handleApplyPromoCode}
+                    onRemovePromoCode={handleRemovePromoCode}
+                  />
+                </div>
+              )}
+
               {/* Form State */}
               {state === 'form' && clientSecret && (
                 <div 
                   className="bg-white rounded-xl p-5 shadow-sm border border-slate-200"
                   onPointerDownCapture={(e) => e.stopPropagation()}
                 >
-                  <Elements stripe={stripePromise} options={elementsOptions}>
+                  {/* Keyed so a repriced PaymentIntent remounts Elements */}
+                  <Elements key={clientSecret} stripe={stripePromise} options={elementsOptions}>
                     <PaymentForm
                       campaign={campaign}
                       price={price}
-                      emails={emails}
                       onSuccess={handleSuccess}
                       onError={handleError}
                       currentUserEmail={currentUserEmail}
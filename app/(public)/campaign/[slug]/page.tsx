@@ -1,4 +1,7 @@
-import { supabase, isDemoMode, transformSupabaseCampaign, SupabaseCampaignRow } from '@/lib/supabase';
+import { redirect } from 'next/navigation';
+import { supabase, supabaseAdmin, isDemoMode, transformSupabaseCampaign, SupabaseCampaignRow } from '@/lib/supabase';
+import { authorizeCampaign } from '@/lib/services/campaignAccess';
+import { getCampaignPricingTiers } from '@/lib/services/pricing';
 import { CampaignData } from '@/lib/types';
 import CampaignPage from './CampaignPage';
 
@@ -129,21 +132,33 @@ async function getCampaignData(slug: string): Promise<CampaignData | null> {
     return null;
   }
 
-  if (!supabase) return null;
+  if (!supabase || !supabaseAdmin) return null;
 
-  const { data, error } = await supabase
+  // Unclaimed campaigns are public previews - claimed ones are only shown to their organization
+  const access = await authorizeCampaign({ slug }, { allowPreview: true });
+  if (!access.success) {
+    if (access.status === 401) {
+      redirect(`/login?returnUrl=${encodeURIComponent(`/campaign/${slug}`)}`);
+    }
+    // Campaign not found - return null to show domain entry form
+    return null;
+  }
+
+  const { data, error } = await supabaseAdmin
     .from('campaigns')
     .select('*')
-    .eq('slug', slug)
+    .eq('id', access.campaign.id)
     .single();
 
   if (error || !data) {
-    // Campaign not found - return null to show domain entry form
     return null;
   }
 
   // Transform from Supabase format (snake_case) to CampaignData (camelCase)
-  return transformSupabaseCampaign(data as SupabaseCampaignRow);
+  return {
+    ...transformSupabaseCampaign(data as SupabaseCampaignRow),
+    pricingTiers: await getCampaignPricingTiers(data),
+  };
 }
 
 export default async function Page({ params }: Props) {
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revokeApiKey } from '@/lib/services/apiKeys';
+import { can, getMemberContext } from '@/lib/services/organizationMembers';
+
+/**
+ * DELETE /api/api-keys/[id]
+ * 
+ * Revoke an API key. The row is kept so settings can show when it was revoked.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!can(member, 'settings:manage')) {
+      return NextResponse.json(
+        { error: 'Only owners and admins can manage API keys' },
+        { status: 403 }
+      );
+    }
+
+    const revoked = await revokeApiKey(member.organizationId, id);
+    if (!revoked) {
+      return NextResponse.json(
+        { error: 'API key not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[api-keys] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke API key' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiKey, listApiKeys, MAX_ACTIVE_API_KEYS } from '@/lib/services/apiKeys';
+import { can, getMemberContext } from '@/lib/services/organizationMembers';
+
+/**
+ * GET /api/api-keys
+ * 
+ * List the organization's API keys (prefix only - secrets are never returned again)
+ */
+export async function GET() {
+  try {
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!can(member, 'settings:manage')) {
+      return NextResponse.json(
+        { error: 'Only owners and admins can manage API keys' },
+        { status: 403 }
+      );
+    }
+
+    const apiKeys = await listApiKeys(member.organizationId);
+
+    return NextResponse.json({ apiKeys });
+  } catch (error) {
+    console.error('[api-keys] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch API keys' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/api-keys
+ * 
+ * Create an API key for /api/v1.
+ * Body: { name: string }
+ * The response is the only time the full key is returned.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!can(member, 'settings:manage')) {
+      return NextResponse.json(
+        { error: 'Only owners and admins can manage API keys' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+    if (!name) {
+      return NextResponse.json(
+        { error: 'name is required' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await listApiKeys(member.organizationId);
+    if (existing.filter(key => !key.revoked_at).length >= MAX_ACTIVE_API_KEYS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_ACTIVE_API_KEYS} active API keys - revoke one first` },
+        { status: 400 }
+      );
+    }
+
+    const { apiKey, secret } = await createApiKey(member.organizationId, name, member.userId);
+
+    return NextResponse.json({
+      success: true,
+      apiKey,
+      secret,
+    });
+  } catch (error) {
+    console.error('[api-keys] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create API key' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { getCreditBalance, listCreditLedger } from '@/lib/services/credits';
+import { getMemberContext } from '@/lib/services/organizationMembers';
+
+/**
+ * GET /api/billing/credits
+ * 
+ * The organization's lead-credit balance and its latest ledger entries.
+ * Any member can read it - campaigns are launched from the balance.
+ */
+export async function GET() {
+  try {
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const [balance, ledger] = await Promise.all([
+      getCreditBalance(member.organizationId),
+      listCreditLedger(member.organizationId),
+    ]);
+
+    return NextResponse.json({
+      balance,
+      ledger: ledger.map(entry => ({
+        id: entry.id,
+        amount: entry.amount,
+        reason: entry.reason,
+        campaignId: entry.campaign_id,
+        createdAt: entry.created_at,
+      })),
+    });
+  } catch (error) {
+    console.error('[billing/credits] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch credits' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createPortalSession, ensureOrganizationCustomer } from '@/lib/services/billing';
+import { can, getMemberContext } from '@/lib/services/organizationMembers';
+
+/**
+ * POST /api/billing/portal
+ * 
+ * Open the Stripe customer portal to update cards and download invoices.
+ * Returns { url } to redirect to - the portal links back to billing settings.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!can(member, 'billing:manage')) {
+      return NextResponse.json(
+        { error: 'Only the organization owner can manage billing' },
+        { status: 403 }
+      );
+    }
+
+    const customerId = await ensureOrganizationCustomer(member.organizationId, member.email);
+    const url = await createPortalSession(customerId, `${request.nextUrl.origin}/app/settings?tab=billing`);
+
+    return NextResponse.json({ url });
+  } catch (error) {
+    console.error('[billing/portal] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to open billing portal' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { getOrganizationCustomerId, listPaymentMethods, listReceipts } from '@/lib/services/billing';
+import { can, getMemberContext } from '@/lib/services/organizationMembers';
+
+/**
+ * GET /api/billing
+ * 
+ * The organization's saved cards and payment history, with links to Stripe receipts
+ */
+export async function GET() {
+  try {
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!can(member, 'billing:manage')) {
+      return NextResponse.json(
+        { error: 'Only the organization owner can manage billing' },
+        { status: 403 }
+      );
+    }
+
+    const customerId = await getOrganizationCustomerId(member.organizationId);
+    if (!customerId) {
+      return NextResponse.json({ hasCustomer: false, paymentMethods: [], receipts: [] });
+    }
+
+    const [paymentMethods, receipts] = await Promise.all([
+      listPaymentMethods(customerId),
+      listReceipts(customerId),
+    ]);
+
+    return NextResponse.json({ hasCustomer: true, paymentMethods, receipts });
+  } catch (error) {
+    console.error('[billing] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch billing details' },
+      { status: 500 }
+    );
+  }
+}
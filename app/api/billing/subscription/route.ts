@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { can, getMemberContext } from '@/lib/services/organizationMembers';
+import {
+  createSubscriptionCheckout,
+  getOrganizationSubscription,
+  listSubscriptionPlans,
+} from '@/lib/services/subscriptions';
+
+/**
+ * GET /api/billing/subscription
+ * 
+ * The organization's lead-credit subscription (null if it never subscribed) and the plans on offer
+ */
+export async function GET() {
+  try {
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const [subscription, plans] = await Promise.all([
+      getOrganizationSubscription(member.organizationId),
+      listSubscriptionPlans(),
+    ]);
+
+    return NextResponse.json({
+      subscription: subscription && {
+        status: subscription.status,
+        planId: subscription.plan_id,
+        currentPeriodEnd: subscription.current_period_end,
+        cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      },
+      plans: plans.map(plan => ({
+        id: plan.id,
+        name: plan.name,
+        description: plan.description,
+        monthlyCredits: plan.monthly_credits,
+        maxRolloverCredits: plan.max_rollover_credits,
+      })),
+    });
+  } catch (error) {
+    console.error('[billing/subscription] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch subscription' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/billing/subscription
+ * 
+ * Subscribe the organization to a plan through Stripe Checkout.
+ * Body: { planId }
+ * Returns { url } to redirect to - credits are granted by the Stripe webhook once the first invoice is paid.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!can(member, 'billing:manage')) {
+      return NextResponse.json(
+        { error: 'Only the organization owner can manage billing' },
+        { status: 403 }
+      );
+    }
+
+    const { planId } = await request.json();
+    if (!planId) {
+      return NextResponse.json(
+        { error: 'Plan ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await createSubscriptionCheckout(
+      member.organizationId,
+      member.email,
+      planId,
+      `${request.nextUrl.origin}/app/settings?tab=billing`
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ url: result.url });
+  } catch (error) {
+    console.error('[billing/subscription] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start subscription' },
+      { status: 500 }
+    );
+  }
+}
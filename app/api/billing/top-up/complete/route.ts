@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { stripe } from '@/lib/stripe';
+import { fromPaymentIntent, fulfillPayment } from '@/lib/services/fulfilment';
+import { can, getMemberContext } from '@/lib/services/organizationMembers';
+
+/**
+ * POST /api/billing/top-up/complete
+ * 
+ * Queue the leads for a top-up the buyer had to authenticate with their bank.
+ * The Stripe webhook fulfils it too - whichever runs first does the work.
+ * Body: { paymentIntentId: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { paymentIntentId } = await request.json();
+
+    if (!paymentIntentId) {
+      return NextResponse.json(
+        { error: 'Missing payment identifier' },
+        { status: 400 }
+      );
+    }
+
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!can(member, 'billing:manage')) {
+      return NextResponse.json(
+        { error: 'Only the organization owner can manage billing' },
+        { status: 403 }
+      );
+    }
+
+    const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+    if (paymentIntent.metadata.kind !== 'top_up' || paymentIntent.metadata.organizationId !== member.organizationId) {
+      return NextResponse.json(
+        { error: 'Payment not found' },
+        { status: 404 }
+      );
+    }
+
+    if (paymentIntent.status !== 'succeeded') {
+      return NextResponse.json(
+        { error: 'Payment not completed' },
+        { status: 400 }
+      );
+    }
+
+    const payment = await fulfillPayment(fromPaymentIntent(paymentIntent), request.nextUrl.origin);
+
+    return NextResponse.json({
+      status: 'succeeded',
+      paymentIntentId,
+      leadsAdded: payment.leads,
+    });
+  } catch (error) {
+    console.error('[billing/top-up/complete] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to complete top-up' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { createTopUpPayment } from '@/lib/services/billing';
+import { fromPaymentIntent, fulfillPayment } from '@/lib/services/fulfilment';
+import { authorizeCampaign } from '@/lib/services/campaignAccess';
+import { getLatestLeadGenerationJob } from '@/lib/services/jobs';
+
+/**
+ * POST /api/billing/top-up
+ * 
+ * Buy another batch of leads for a paid campaign with the organization's saved card.
+ * Body: { campaignId: string }
+ * Returns { status: 'succeeded', leadsAdded } once the new leads are queued, or
+ * { status: 'requires_action', clientSecret } if the bank asks the buyer to authenticate
+ * (confirm with Stripe.js, then call /api/billing/top-up/complete).
+ * A declined card is a 402 with the bank's reason.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { campaignId } = await request.json();
+
+    const authorization = await authorizeCampaign({ campaignId }, { permission: 'billing:manage' });
+    if (!authorization.success) {
+      return NextResponse.json(
+        { error: authorization.error },
+        { status: authorization.status }
+      );
+    }
+
+    const { campaign, member } = authorization;
+    if (!campaign.paid_at || !member) {
+      return NextResponse.json(
+        { error: 'Only paid campaigns can be topped up' },
+        { status: 400 }
+      );
+    }
+
+    // Don't charge for leads the running job wouldn't pick up
+    const latestJob = await getLatestLeadGenerationJob(campaign.id);
+    if (latestJob && (latestJob.status === 'queued' || latestJob.status === 'running')) {
+      return NextResponse.json(
+        { error: 'Lead generation is still running for this campaign' },
+        { status: 409 }
+      );
+    }
+
+    const supabase = createAdminClient();
+    const { data: details } = await supabase
+      .from('campaigns')
+      .select('company_name')
+      .eq('id', campaign.id)
+      .single();
+
+    const result = await createTopUpPayment(
+      { id: campaign.id, slug: campaign.slug, company_name: details?.company_name || null },
+      member.organizationId,
+      latestJob?.id || null
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { paymentIntent } = result;
+    if (paymentIntent.status === 'requires_action') {
+      return NextResponse.json({
+        status: 'requires_action',
+        paymentIntentId: paymentIntent.id,
+        clientSecret: paymentIntent.client_secret,
+      });
+    }
+
+    // Fulfil now so the campaign updates straight away - the webhook finds it already done
+    const payment = await fulfillPayment(fromPaymentIntent(paymentIntent), request.nextUrl.origin);
+
+    return NextResponse.json({
+      status: 'succeeded',
+      paymentIntentId: paymentIntent.id,
+      leadsAdded: payment.leads,
+    });
+  } catch (error) {
+    console.error('[billing/top-up] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to buy more leads' },
+      { status: 500 }
+    );
+  }
+}
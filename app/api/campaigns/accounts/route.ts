@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { enqueueLeadGenerationJob, triggerJobWorker } from '@/lib/services/jobs';
+import { getMaxContactsPerAccount, MAX_TARGET_ACCOUNTS, parseTargetAccounts } from '@/lib/services/accountTargeting';
+import { createCampaignFromSource } from '@/lib/services/campaignCopies';
+import { launchCampaignWithCredits, refundCampaignCredits } from '@/lib/services/credits';
+import { can, getMemberContext } from '@/lib/services/organizationMembers';
+import { ICPPersona } from '@/lib/services/agents/icpBrainstormer';
+import { Campaign } from '@/lib/types/database';
+
+interface AccountCampaignRequest {
+  campaignId: string;
+  accounts: string | string[];
+  maxContactsPerAccount?: number;
+  personaId?: string;
+}
+
+/**
+ * POST /api/campaigns/accounts
+ *
+ * Build an account-based campaign: find decision-makers at a named list of companies
+ * (the persona's titles, capped per company) and write to them with the company profile
+ * and personas of one of the organization's campaigns. It's paid for with the organization's
+ * lead credits: one per contact it's allowed to find (accounts × contacts per account) is held
+ * up front - 402 if there aren't enough - and the credits for contacts the search doesn't turn up
+ * are given back when the run completes.
+ * Body: {
+ *   campaignId: string - campaign whose company profile and personas to write with,
+ *   accounts: string | string[] - company domains or names (one per line, or an array),
+ *   maxContactsPerAccount?: number (default 3, max 10),
+ *   personaId?: string - persona whose titles to search for (default: the campaign's selected persona)
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!can(member, 'campaigns:manage')) {
+      return NextResponse.json(
+        { error: 'Only owners and admins can create campaigns' },
+        { status: 403 }
+      );
+    }
+
+    const body: AccountCampaignRequest = await request.json().catch(() => ({}));
+    const { campaignId, personaId } = body;
+    const accounts = body.accounts ? parseTargetAccounts(body.accounts) : [];
+    const maxContactsPerAccount = getMaxContactsPerAccount(body.maxContactsPerAccount);
+
+    if (!campaignId || accounts.length === 0) {
+      return NextResponse.json(
+        { error: 'campaignId and at least one account are required' },
+        { status: 400 }
+      );
+    }
+
+    if (accounts.length > MAX_TARGET_ACCOUNTS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_TARGET_ACCOUNTS} accounts per campaign` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient();
+    const { data: source } = await supabase
+      .from('campaigns')
+      .select('*')
+      .eq('id', campaignId)
+      .eq('organization_id', member.organizationId)
+      .single();
+
+    if (!source) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      );
+    }
+
+    const personas = (source.icp_personas || []) as ICPPersona[];
+    if (!source.company_profile || personas.length === 0) {
+      return NextResponse.json(
+        { error: 'This campaign has no company profile or personas yet - wait for it to finish generating' },
+        { status: 400 }
+      );
+    }
+
+    if (personaId && !personas.some(persona => persona.id === personaId)) {
+      return NextResponse.json(
+        { error: 'Persona not found on this campaign' },
+        { status: 400 }
+      );
+    }
+
+    // The most it can deliver - accounts often have fewer matching contacts, which settle as a refund
+    const leadsCount = accounts.length * maxContactsPerAccount;
+    const campaign = await createCampaignFromSource(source as Campaign, member.userId, personaId, {
+      lead_sources: source.lead_sources,
+      target_accounts: accounts,
+      max_contacts_per_account: maxContactsPerAccount,
+    });
+
+    // There's no checkout for a copied campaign - it launches with credits or not at all
+    const launch = await launchCampaignWithCredits(campaign.id, member, leadsCount);
+    if (!launch.success) {
+      await supabase.from('campaigns').delete().eq('id', campaign.id);
+      return NextResponse.json(
+        { error: launch.error, creditBalance: launch.balance },
+        { status: launch.status }
+      );
+    }
+
+    let job;
+    try {
+      ({ job } = await enqueueLeadGenerationJob(campaign.id, leadsCount));
+    } catch (error) {
+      // Don't leave a campaign that will never get its leads
+      await refundCampaignCredits(campaign.id);
+      await supabase.from('campaigns').delete().eq('id', campaign.id);
+      throw error;
+    }
+
+    console.log(`[campaigns/accounts] Campaign ${campaign.id} created from ${source.id} for ${accounts.length} accounts (up to ${maxContactsPerAccount} contacts each)`);
+    triggerJobWorker(request.nextUrl.origin, job.id);
+
+    return NextResponse.json({
+      success: true,
+      campaign,
+      jobId: job.id,
+      accounts: accounts.length,
+      maxContactsPerAccount,
+      creditBalance: launch.balance,
+    }, { status: 202 });
+  } catch (error) {
+    console.error('[campaigns/accounts] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create account-based campaign' },
+      { status: 500 }
+    );
+  }
+}
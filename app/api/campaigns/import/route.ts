@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { enqueueLeadGenerationJob, triggerJobWorker } from '@/lib/services/jobs';
+import { isLeadImportMapping, mapImportRows, MAX_IMPORT_ROWS } from '@/lib/services/leadImport';
+import { createCampaignFromSource } from '@/lib/services/campaignCopies';
+import { launchCampaignWithCredits, refundCampaignCredits } from '@/lib/services/credits';
+import { can, getMemberContext } from '@/lib/services/organizationMembers';
+import { ICPPersona } from '@/lib/services/agents/icpBrainstormer';
+import { Campaign } from '@/lib/types/database';
+import { parseCsv } from '@/lib/utils/csv';
+
+interface ImportLeadsRequest {
+  campaignId: string;
+  csv: string;
+  mapping: unknown;
+  enrichMissingEmails?: boolean;
+  personaId?: string;
+}
+
+// Roughly 2,500 rows with long notes columns
+const MAX_CSV_LENGTH = 5_000_000;
+
+// Rejected rows returned to the client - enough to spot a bad mapping
+const MAX_REJECTED_ROWS_RETURNED = 50;
+
+/**
+ * POST /api/campaigns/import
+ *
+ * Build a new campaign from an uploaded list of prospects. The new campaign copies the
+ * company profile and personas of one of the organization's campaigns, and the list goes
+ * through the usual lead generation job (enrich → verify → write → insert → upload)
+ * with the uploaded rows in place of a lead search. It's paid for with the organization's
+ * lead credits: one per uploaded row is held up front (402 if there aren't enough), and the
+ * credits for rows the job drops (suppressed, recently contacted, undeliverable) are given
+ * back when it completes.
+ * Body: {
+ *   campaignId: string - campaign whose company profile and personas to write with,
+ *   csv: string - the file's contents, header row first,
+ *   mapping: LeadImportMapping - CSV column index per lead field,
+ *   enrichMissingEmails?: boolean - look up missing emails with Icypeas,
+ *   personaId?: string - persona to write for (default: the campaign's selected persona)
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!can(member, 'campaigns:manage')) {
+      return NextResponse.json(
+        { error: 'Only owners and admins can create campaigns' },
+        { status: 403 }
+      );
+    }
+
+    const body: ImportLeadsRequest = await request.json().catch(() => ({}));
+    const { campaignId, csv, mapping, enrichMissingEmails = false, personaId } = body;
+
+    if (!campaignId || typeof csv !== 'string' || !csv.trim()) {
+      return NextResponse.json(
+        { error: 'campaignId and csv are required' },
+        { status: 400 }
+      );
+    }
+
+    if (csv.length > MAX_CSV_LENGTH) {
+      return NextResponse.json(
+        { error: 'File is too large' },
+        { status: 400 }
+      );
+    }
+
+    const [headers, ...rows] = parseCsv(csv);
+    if (!headers || rows.length === 0) {
+      return NextResponse.json(
+        { error: 'The file has no rows below the header' },
+        { status: 400 }
+      );
+    }
+
+    if (!isLeadImportMapping(mapping, headers.length)) {
+      return NextResponse.json(
+        { error: 'Invalid column mapping' },
+        { status: 400 }
+      );
+    }
+
+    if (mapping.first_name === undefined && mapping.full_name === undefined) {
+      return NextResponse.json(
+        { error: 'Map a column to First Name or Full Name' },
+        { status: 400 }
+      );
+    }
+
+    const { leads, rejected } = mapImportRows(rows, mapping);
+
+    if (leads.length === 0) {
+      return NextResponse.json(
+        { error: 'No usable rows - each row needs a name and an email or company', rejected: rejected.slice(0, MAX_REJECTED_ROWS_RETURNED) },
+        { status: 400 }
+      );
+    }
+
+    if (leads.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json(
+        { error: `Lists are limited to ${MAX_IMPORT_ROWS.toLocaleString()} leads per campaign` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient();
+    const { data: source } = await supabase
+      .from('campaigns')
+      .select('*')
+      .eq('id', campaignId)
+      .eq('organization_id', member.organizationId)
+      .single();
+
+    if (!source) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!source.company_profile) {
+      return NextResponse.json(
+        { error: 'This campaign has no company profile yet - wait for it to finish generating' },
+        { status: 400 }
+      );
+    }
+
+    const personas = (source.icp_personas || []) as ICPPersona[];
+    if (personaId && !personas.some(persona => persona.id === personaId)) {
+      return NextResponse.json(
+        { error: 'Persona not found on this campaign' },
+        { status: 400 }
+      );
+    }
+
+    const campaign = await createCampaignFromSource(source as Campaign, member.userId, personaId, {});
+
+    // There's no checkout for a copied campaign - it launches with credits or not at all
+    const launch = await launchCampaignWithCredits(campaign.id, member, leads.length);
+    if (!launch.success) {
+      await supabase.from('campaigns').delete().eq('id', campaign.id);
+      return NextResponse.json(
+        { error: launch.error, creditBalance: launch.balance },
+        { status: launch.status }
+      );
+    }
+
+    let job;
+    try {
+      ({ job } = await enqueueLeadGenerationJob(campaign.id, leads.length, { leads, enrichMissingEmails: !!enrichMissingEmails }));
+    } catch (error) {
+      // Don't leave a campaign that will never get its leads
+      await refundCampaignCredits(campaign.id);
+      await supabase.from('campaigns').delete().eq('id', campaign.id);
+      throw error;
+    }
+
+    console.log(`[campaigns/import] Campaign ${campaign.id} created from ${source.id} with ${leads.length} imported leads (${rejected.length} rows rejected)`);
+    triggerJobWorker(request.nextUrl.origin, job.id);
+
+    return NextResponse.json({
+      success: true,
+      campaign,
+      jobId: job.id,
+      imported: leads.length,
+      rejectedCount: rejected.length,
+      rejected: rejected.slice(0, MAX_REJECTED_ROWS_RETURNED),
+      creditBalance: launch.balance,
+    }, { status: 202 });
+  } catch (error) {
+    console.error('[campaigns/import] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to import leads' },
+      { status: 500 }
+    );
+  }
+}
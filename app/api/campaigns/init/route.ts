@@ -1,64 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase';
+import { getNextAvailableSlug } from '@/lib/services/campaignSlugs';
+import { parseLeadSources } from '@/lib/services/leadSources';
+import { extractCompanyName } from '@/lib/services/websiteScraper';
 import { domainToSlug } from '@/lib/utils/slugify';
 
 interface InitRequest {
   domain: string;
   debug?: boolean;
-}
-
-/**
- * Find the next available slug for a domain.
- * If 'dynamicmockups' exists, returns 'dynamicmockups-2', then 'dynamicmockups-3', etc.
- */
-async function getNextAvailableSlug(baseSlug: string): Promise<string> {
-  if (!supabaseAdmin) {
-    return baseSlug; // Demo mode - just use base slug
-  }
-
-  // Check if base slug exists
-  const { data: baseExists } = await supabaseAdmin
-    .from('campaigns')
-    .select('slug')
-    .eq('slug', baseSlug)
-    .single();
-
-  if (!baseExists) {
-    return baseSlug; // Base slug is available
-  }
-
-  // Find all existing slugs that match the pattern: baseSlug or baseSlug-N
-  const { data: existingSlugs } = await supabaseAdmin
-    .from('campaigns')
-    .select('slug')
-    .or(`slug.eq.${baseSlug},slug.like.${baseSlug}-%`);
-
-  if (!existingSlugs || existingSlugs.length === 0) {
-    return baseSlug;
-  }
-
-  // Extract the highest number suffix
-  let maxNumber = 1; // Base slug counts as "1"
-  for (const row of existingSlugs) {
-    if (row.slug === baseSlug) {
-      continue; // Base slug, already counted as 1
-    }
-    const match = row.slug.match(new RegExp(`^${baseSlug}-(\\d+)$`));
-    if (match) {
-      const num = parseInt(match[1], 10);
-      if (num > maxNumber) {
-        maxNumber = num;
-      }
-    }
-  }
-
-  return `${baseSlug}-${maxNumber + 1}`;
+  leadSources?: string[];
 }
 
 /**
  * POST /api/campaigns/init
  * Creates a placeholder campaign immediately and starts generation in the background.
  * Returns the slug so frontend can redirect immediately.
+ * leadSources optionally picks the lead providers (deployment default when omitted).
  */
 export async function POST(request: NextRequest) {
   try {
@@ -72,6 +29,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const leadSources = body.leadSources === undefined ? [] : parseLeadSources(body.leadSources);
+    if (!leadSources) {
+      return NextResponse.json(
+        { error: 'leadSources must be a list of configured lead sources' },
+        { status: 400 }
+      );
+    }
+
     // Clean the domain
     const cleanDomain = domain.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').split('/')[0];
 
@@ -102,6 +67,7 @@ export async function POST(request: NextRequest) {
         price_tier_1_emails: 500,
         price_tier_2: 399,
         price_tier_2_emails: 2500,
+        lead_sources: leadSources.length > 0 ? leadSources : null,
         status: 'generating',
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
@@ -132,12 +98,3 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
-
-function extractCompanyName(domain: string): string {
-  let cleanDomain = domain.replace(/^https?:\/\//, '');
-  cleanDomain = cleanDomain.replace(/^www\./, '');
-  const parts = cleanDomain.split('.');
-  const name = parts[0] || 'Company';
-  return name.charAt(0).toUpperCase() + name.slice(1);
-}
-
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { authorizeCampaign } from '@/lib/services/campaignAccess';
+import { listLeadSources, parseLeadSources } from '@/lib/services/leadSources';
+
+/**
+ * GET /api/campaigns/settings?campaignId=xxx
+ *
+ * A campaign's lead generation settings and the lead sources it can choose from.
+ * leadSources is empty when the campaign uses the deployment default.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const campaignId = request.nextUrl.searchParams.get('campaignId');
+
+    const authorization = await authorizeCampaign({ campaignId }, { request });
+    if (!authorization.success) {
+      return NextResponse.json(
+        { error: authorization.error },
+        { status: authorization.status }
+      );
+    }
+
+    const supabase = createAdminClient();
+    const { data: campaign, error } = await supabase
+      .from('campaigns')
+      .select('lead_sources')
+      .eq('id', authorization.campaign.id)
+      .single();
+
+    if (error || !campaign) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      leadSources: campaign.lead_sources || [],
+      availableLeadSources: listLeadSources(),
+    });
+  } catch (error) {
+    console.error('[campaigns/settings] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load campaign settings' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/campaigns/settings
+ *
+ * Change a campaign's lead generation settings.
+ * Body: { campaignId: string; leadSources: string[] }
+ * An empty leadSources list goes back to the deployment default. Applies to lead
+ * generation runs that start after the change.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    const authorization = await authorizeCampaign(
+      { campaignId: body.campaignId },
+      { permission: 'campaigns:manage', request }
+    );
+    if (!authorization.success) {
+      return NextResponse.json(
+        { error: authorization.error },
+        { status: authorization.status }
+      );
+    }
+
+    const leadSources = parseLeadSources(body.leadSources);
+    if (!leadSources) {
+      return NextResponse.json(
+        { error: 'leadSources must be a list of configured lead sources' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient();
+    const { error } = await supabase
+      .from('campaigns')
+      .update({ lead_sources: leadSources.length > 0 ? leadSources : null })
+      .eq('id', authorization.campaign.id);
+
+    if (error) {
+      console.error('[campaigns/settings] Failed to update campaign:', error);
+      return NextResponse.json(
+        { error: 'Failed to update campaign settings' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, leadSources });
+  } catch (error) {
+    console.error('[campaigns/settings] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update campaign settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase';
+import { getCampaignProgressFor, isProgressActive } from '@/lib/services/progressStore';
+import { authorizeCampaign } from '@/lib/services/campaignAccess';
 
 /**
  * GET /api/campaigns/status?slug=xxx
- * Check the current status of a campaign from the database.
- * Used as a fallback when in-memory progress isn't available.
+ * Check the current status of a campaign from the database,
+ * including generation progress from the persisted progress store.
+ * Open to anyone while the campaign is a public preview, then to its organization's members.
  */
 export async function GET(request: NextRequest) {
   const slug = request.nextUrl.searchParams.get('slug');
@@ -18,9 +21,14 @@ export async function GET(request: NextRequest) {
   }
 
   try {
+    const authorization = await authorizeCampaign({ slug }, { allowPreview: true, request });
+    if (!authorization.success) {
+      return NextResponse.json({ error: authorization.error }, { status: authorization.status });
+    }
+
     const { data, error } = await supabaseAdmin
       .from('campaigns')
-      .select('status, updated_at')
+      .select('id, status, updated_at')
       .eq('slug', slug)
       .single();
 
@@ -28,10 +36,21 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
     }
 
+    const progress = await getCampaignProgressFor({ campaignId: data.id, slug });
+
     return NextResponse.json({
       success: true,
       status: data.status,
       updatedAt: data.updated_at,
+      progress: progress ? {
+        status: progress.status,
+        message: progress.message,
+        progress: progress.progress,
+        liveDebug: progress.liveDebug,
+        error: progress.error,
+        active: isProgressActive(progress),
+        updatedAt: progress.updatedAt,
+      } : null,
     });
   } catch (error) {
     console.error('[API/status] Error:', error);
@@ -1,41 +1,89 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { stripe, getPriceForTier } from '@/lib/stripe';
+import { stripe } from '@/lib/stripe';
+import { ensureOrganizationCustomer } from '@/lib/services/billing';
+import { can, getMemberContext } from '@/lib/services/organizationMembers';
+import {
+  getPricingCampaign,
+  getQuoteMetadata,
+  quoteCampaignPrice,
+  releasePromoRedemption,
+  reservePromoRedemption,
+} from '@/lib/services/pricing';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { campaignSlug, campaignId, tier, campaignName, customerEmail } = body;
+    const { campaignSlug, campaignId, tier, campaignName, customerEmail, promoCode } = body;
 
-    if (!campaignSlug || !tier) {
+    if (!campaignSlug) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       );
     }
 
-    const priceConfig = getPriceForTier(tier as 'tier1' | 'tier2');
+    // Priced from the campaign's pricing plan, less any promo code
+    const pricing = await quoteCampaignPrice(await getPricingCampaign(campaignId), tier, promoCode);
+    if (!pricing.success) {
+      return NextResponse.json(
+        { error: pricing.error },
+        { status: pricing.status }
+      );
+    }
+    const { quote } = pricing;
+
+    // Members who manage billing pay as the organization's Stripe customer so the card is saved
+    // for top-ups, and the campaign goes to their organization at fulfilment.
+    // Everyone else gets a customer of their own, linked to their organization at fulfilment.
+    const member = await getMemberContext();
+    const billingMember = member && can(member, 'billing:manage') ? member : null;
+    const customerId = billingMember
+      ? await ensureOrganizationCustomer(billingMember.organizationId, billingMember.email)
+      : (await stripe.customers.create({
+          email: customerEmail || undefined,
+          metadata: { campaignId: campaignId || '', campaignSlug },
+        })).id;
+
+    // Hold one of the promo code's uses until the payment is fulfilled or cancelled
+    const reservation = await reservePromoRedemption(quote);
+    if ('error' in reservation) {
+      return NextResponse.json(
+        { error: reservation.error },
+        { status: 400 }
+      );
+    }
+    const { redemptionId } = reservation;
 
     // Create a PaymentIntent
-    const paymentIntent = await stripe.paymentIntents.create({
-      amount: priceConfig.priceInCents,
-      currency: 'usd',
-      automatic_payment_methods: {
-        enabled: true,
-      },
-      metadata: {
-        campaignSlug,
-        campaignId: campaignId || '',
-        tier,
-        emails: priceConfig.emails.toString(),
-        campaignName: campaignName || '',
-      },
-      receipt_email: customerEmail || undefined,
-      description: `${campaignName || 'Cold Outreach Campaign'} - ${priceConfig.emails} emails`,
-    });
+    let paymentIntent;
+    try {
+      paymentIntent = await stripe.paymentIntents.create({
+        amount: quote.total,
+        currency: 'usd',
+        customer: customerId,
+        setup_future_usage: 'off_session',
+        automatic_payment_methods: {
+          enabled: true,
+        },
+        metadata: {
+          campaignSlug,
+          campaignId: campaignId || '',
+          ...getQuoteMetadata(quote, redemptionId),
+          campaignName: campaignName || '',
+          ...(billingMember && { organizationId: billingMember.organizationId, userId: billingMember.userId }),
+        },
+        receipt_email: customerEmail || undefined,
+        description: `${campaignName || 'Cold Outreach Campaign'} - ${quote.tier.emails} emails`,
+      });
+    } catch (error) {
+      if (redemptionId) await releasePromoRedemption({ redemptionId });
+      throw error;
+    }
 
     return NextResponse.json({
       clientSecret: paymentIntent.client_secret,
       paymentIntentId: paymentIntent.id,
+      quote,
     });
   } catch (error) {
     console.error('Error creating payment intent:', error);
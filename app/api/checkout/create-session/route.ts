@@ -1,53 +1,82 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { stripe, getPriceForTier } from '@/lib/stripe';
+import { stripe } from '@/lib/stripe';
+import {
+  getPricingCampaign,
+  getQuoteMetadata,
+  quoteCampaignPrice,
+  releasePromoRedemption,
+  reservePromoRedemption,
+} from '@/lib/services/pricing';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { campaignSlug, campaignId, tier, campaignName } = body;
+    const { campaignSlug, campaignId, tier, campaignName, promoCode } = body;
 
-    if (!campaignSlug || !tier) {
+    if (!campaignSlug) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       );
     }
 
-    const priceConfig = getPriceForTier(tier as 'tier1' | 'tier2');
+    const pricing = await quoteCampaignPrice(await getPricingCampaign(campaignId), tier, promoCode);
+    if (!pricing.success) {
+      return NextResponse.json(
+        { error: pricing.error },
+        { status: pricing.status }
+      );
+    }
+    const { quote } = pricing;
     
     // Get origin from request headers (works in single-repo app)
     const origin = request.headers.get('origin') || 'http://localhost:3000';
 
+    // Hold one of the promo code's uses until the payment is fulfilled or the session expires
+    const reservation = await reservePromoRedemption(quote);
+    if ('error' in reservation) {
+      return NextResponse.json(
+        { error: reservation.error },
+        { status: 400 }
+      );
+    }
+    const { redemptionId } = reservation;
+
     // Create Stripe Checkout Session for embedded checkout (minimal UI)
-    const session = await stripe.checkout.sessions.create({
-      ui_mode: 'embedded',
-      line_items: [
-        {
-          price_data: {
-            currency: 'usd',
-            product_data: {
-              name: campaignName || 'Cold Outreach Campaign',
-              description: `${priceConfig.emails} personalized cold emails`,
+    let session;
+    try {
+      session = await stripe.checkout.sessions.create({
+        ui_mode: 'embedded',
+        line_items: [
+          {
+            price_data: {
+              currency: 'usd',
+              product_data: {
+                name: campaignName || 'Cold Outreach Campaign',
+                description: `${quote.tier.emails} personalized cold emails`,
+              },
+              unit_amount: quote.total,
             },
-            unit_amount: priceConfig.priceInCents,
+            quantity: 1,
           },
-          quantity: 1,
+        ],
+        mode: 'payment',
+        return_url: `${origin}/campaign/${campaignSlug}?session_id={CHECKOUT_SESSION_ID}`,
+        // Minimal checkout options
+        billing_address_collection: 'auto', // Only collect when required by payment method
+        phone_number_collection: { enabled: false },
+        // Disable shipping (not needed for digital product)
+        shipping_address_collection: undefined,
+        metadata: {
+          campaignSlug,
+          campaignId: campaignId || '',
+          ...getQuoteMetadata(quote, redemptionId),
         },
-      ],
-      mode: 'payment',
-      return_url: `${origin}/campaign/${campaignSlug}?session_id={CHECKOUT_SESSION_ID}`,
-      // Minimal checkout options
-      billing_address_collection: 'auto', // Only collect when required by payment method
-      phone_number_collection: { enabled: false },
-      // Disable shipping (not needed for digital product)
-      shipping_address_collection: undefined,
-      metadata: {
-        campaignSlug,
-        campaignId: campaignId || '',
-        tier,
-        emails: priceConfig.emails.toString(),
-      },
-    });
+      });
+    } catch (error) {
+      if (redemptionId) await releasePromoRedemption({ redemptionId });
+      throw error;
+    }
 
     return NextResponse.json({ 
       clientSecret: session.client_secret,
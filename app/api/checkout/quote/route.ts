@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPricingCampaign, quoteCampaignPrice } from '@/lib/services/pricing';
+
+/**
+ * POST /api/checkout/quote
+ *
+ * Price a campaign's tier for the checkout sheet, checking a promo code if one was entered.
+ * Body: { campaignId?, tier?, promoCode? }
+ * Returns { tiers, quote } - amounts in cents
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { campaignId, tier, promoCode } = await request.json();
+
+    const pricing = await quoteCampaignPrice(await getPricingCampaign(campaignId), tier, promoCode);
+    if (!pricing.success) {
+      return NextResponse.json(
+        { error: pricing.error },
+        { status: pricing.status }
+      );
+    }
+
+    return NextResponse.json({ tiers: pricing.tiers, quote: pricing.quote });
+  } catch (error) {
+    console.error('[checkout/quote] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to price checkout' },
+      { status: 500 }
+    );
+  }
+}
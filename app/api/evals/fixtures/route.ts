@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { isInternalRequest } from '@/lib/services/campaignAccess';
+import { buildFixtureFromCampaign } from '@/lib/services/evals';
+
+/**
+ * GET /api/evals/fixtures?slug=...
+ * 
+ * An eval fixture built from a generated campaign, to save under evals/fixtures.
+ * Internal only - it includes the campaign's leads.
+ */
+export async function GET(request: NextRequest) {
+  if (!process.env.CRON_SECRET || !isInternalRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const slug = request.nextUrl.searchParams.get('slug');
+  if (!slug) {
+    return NextResponse.json(
+      { error: 'Slug is required' },
+      { status: 400 }
+    );
+  }
+
+  if (!supabaseAdmin) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 500 }
+    );
+  }
+
+  const { data: campaign, error } = await supabaseAdmin
+    .from('campaigns')
+    .select('*')
+    .eq('slug', slug)
+    .single();
+
+  if (error || !campaign) {
+    return NextResponse.json(
+      { error: 'Campaign not found' },
+      { status: 404 }
+    );
+  }
+
+  const fixture = buildFixtureFromCampaign(campaign);
+  if (!fixture) {
+    return NextResponse.json(
+      { error: 'Campaign has no company profile or personas yet' },
+      { status: 422 }
+    );
+  }
+
+  return NextResponse.json(fixture);
+}
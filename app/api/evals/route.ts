@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isInternalRequest } from '@/lib/services/campaignAccess';
+import {
+  EVAL_TARGETS,
+  EvalTarget,
+  EvalVariant,
+  formatEvalReport,
+  loadEvalFixtures,
+  runEvals,
+} from '@/lib/services/evals';
+
+// Live variants and the judge make one model call per case
+export const maxDuration = 300;
+
+interface RunEvalsRequest {
+  // Fixture ids from evals/fixtures - all of them if unset
+  fixtures?: string[];
+  targets?: EvalTarget[];
+  variants?: EvalVariant[];
+  judge?: boolean;
+}
+
+/**
+ * POST /api/evals
+ * 
+ * Run the offline evals (lib/services/evals) and return the report with its text rendering.
+ * Internal only - live variants and the judge spend model credits.
+ */
+export async function POST(request: NextRequest) {
+  if (!process.env.CRON_SECRET || !isInternalRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body: RunEvalsRequest = await request.json().catch(() => ({}));
+
+    const unknownTargets = (body.targets || []).filter(target => !EVAL_TARGETS.includes(target));
+    if (unknownTargets.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown targets: ${unknownTargets.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.variants && (body.variants.length === 0 || body.variants.some(v => !v?.name))) {
+      return NextResponse.json(
+        { error: 'Every variant needs a name' },
+        { status: 400 }
+      );
+    }
+
+    const fixtures = await loadEvalFixtures(body.fixtures);
+    if (fixtures.length === 0) {
+      return NextResponse.json(
+        { error: 'No fixtures to run' },
+        { status: 400 }
+      );
+    }
+
+    const report = await runEvals({
+      fixtures,
+      targets: body.targets,
+      variants: body.variants,
+      judge: body.judge,
+    });
+    const text = formatEvalReport(report);
+
+    console.log(`[evals] Report:\n${text}`);
+
+    return NextResponse.json({ report, text });
+  } catch (error) {
+    console.error('[evals] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to run evals' },
+      { status: 500 }
+    );
+  }
+}
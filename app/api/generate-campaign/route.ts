@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase';
-import { generateCampaign, getCampaignProgress } from '@/lib/services/campaignGenerator';
+import { generateCampaign, getCampaignProgress, toCampaignRow } from '@/lib/services/campaignGenerator';
+import { getNextAvailableSlug } from '@/lib/services/campaignSlugs';
+import { extractCompanyName } from '@/lib/services/websiteScraper';
 import { ICPSettings } from '@/lib/types';
 import { domainToSlug } from '@/lib/utils/slugify';
 
@@ -11,54 +13,6 @@ interface GenerateRequest {
   debug?: boolean;
 }
 
-/**
- * Find the next available slug for a domain.
- * If 'dynamicmockups' exists, returns 'dynamicmockups-2', then 'dynamicmockups-3', etc.
- */
-async function getNextAvailableSlug(baseSlug: string): Promise<string> {
-  if (!supabaseAdmin) {
-    return baseSlug; // Demo mode - just use base slug
-  }
-
-  // Check if base slug exists
-  const { data: baseExists } = await supabaseAdmin
-    .from('campaigns')
-    .select('slug')
-    .eq('slug', baseSlug)
-    .single();
-
-  if (!baseExists) {
-    return baseSlug; // Base slug is available
-  }
-
-  // Find all existing slugs that match the pattern: baseSlug or baseSlug-N
-  const { data: existingSlugs } = await supabaseAdmin
-    .from('campaigns')
-    .select('slug')
-    .or(`slug.eq.${baseSlug},slug.like.${baseSlug}-%`);
-
-  if (!existingSlugs || existingSlugs.length === 0) {
-    return baseSlug;
-  }
-
-  // Extract the highest number suffix
-  let maxNumber = 1; // Base slug counts as "1"
-  for (const row of existingSlugs) {
-    if (row.slug === baseSlug) {
-      continue; // Base slug, already counted as 1
-    }
-    const match = row.slug.match(new RegExp(`^${baseSlug}-(\\d+)$`));
-    if (match) {
-      const num = parseInt(match[1], 10);
-      if (num > maxNumber) {
-        maxNumber = num;
-      }
-    }
-  }
-
-  return `${baseSlug}-${maxNumber + 1}`;
-}
-
 export async function POST(request: NextRequest) {
   try {
     const body: GenerateRequest = await request.json();
@@ -84,43 +38,7 @@ export async function POST(request: NextRequest) {
       const { campaign: campaignData, debugData } = result;
 
       // Transform to database format (snake_case for Supabase)
-      const campaign = {
-        id: campaignData.id,
-        slug: campaignData.slug,
-        domain: campaignData.domain || domain,
-        company_name: campaignData.companyName,
-        website_url: campaignData.websiteUrl,
-        loom_video_url: '',
-        website_screenshot_url: '',
-        location: campaignData.location,
-        helps_with: campaignData.helpsWith,
-        great_at: campaignData.greatAt,
-        icp_attributes: campaignData.icpAttributes,
-        qualified_leads: (campaignData.qualifiedLeads || []).map((lead) => ({
-          id: lead.id,
-          name: lead.name,
-          title: lead.title,
-          company: lead.company,
-          linkedin_url: lead.linkedinUrl,
-          profile_picture_url: lead.profilePictureUrl,
-          why_picked: lead.whyPicked,
-          email_subject: lead.emailSubject,
-          email_body: lead.emailBody,
-        })),
-        target_geo: campaignData.targetGeo,
-        price_tier_1: campaignData.priceTier1,
-        price_tier_1_emails: campaignData.priceTier1Emails,
-        price_tier_2: campaignData.priceTier2,
-        price_tier_2_emails: campaignData.priceTier2Emails,
-        created_at: campaignData.createdAt,
-        updated_at: campaignData.updatedAt || new Date().toISOString(),
-        sales_navigator_url: campaignData.salesNavigatorUrl || null,
-        company_profile: campaignData.companyProfile || null,
-        icp_personas: campaignData.icpPersonas || null,
-        persona_rankings: campaignData.personaRankings || null,
-        linkedin_filters: campaignData.linkedinFilters || null,
-        pipeline_debug: campaignData.pipelineDebug || null,
-      };
+      const campaign = toCampaignRow(campaignData, domain);
 
       // Insert new campaign to Supabase (slug is guaranteed unique)
       if (supabaseAdmin) {
@@ -233,7 +151,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'Domain is required' }, { status: 400 });
   }
 
-  const progress = getCampaignProgress(domain);
+  const progress = await getCampaignProgress(domain);
   
   if (!progress) {
     return NextResponse.json({
@@ -248,14 +166,6 @@ export async function GET(request: NextRequest) {
   });
 }
 
-function extractCompanyName(domain: string): string {
-  let cleanDomain = domain.replace(/^https?:\/\//, '');
-  cleanDomain = cleanDomain.replace(/^www\./, '');
-  const parts = cleanDomain.split('.');
-  const name = parts[0] || 'Company';
-  return name.charAt(0).toUpperCase() + name.slice(1);
-}
-
 function generateMockLeads(companyName: string, icpSettings?: ICPSettings) {
   const defaultTitles = ['CEO', 'Founder', 'VP of Sales', 'Head of Growth', 'COO'];
   const titles = icpSettings?.titles && icpSettings.titles.length > 0 
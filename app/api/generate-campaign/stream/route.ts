@@ -1,29 +1,25 @@
 import { NextRequest } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
 import { supabaseAdmin } from '@/lib/supabase';
 import { domainToSlug } from '@/lib/utils/slugify';
-import { scrapeWebsite, extractCompanyName, ScrapedWebsite } from '@/lib/services/websiteScraper';
-import { CompanyProfile } from '@/lib/services/agents/companyProfiler';
-import { ICPPersona } from '@/lib/services/agents/icpBrainstormer';
-import { ICPSettings, QualifiedLead, CompanyInfo } from '@/lib/types';
+import { authorizeCampaign } from '@/lib/services/campaignAccess';
+import { getNextAvailableSlug } from '@/lib/services/campaignSlugs';
+import { scrapeWebsite, extractCompanyName } from '@/lib/services/websiteScraper';
+import { companyProfilerPrompt, companyProfileSchema } from '@/lib/services/agents/companyProfiler';
+import { ICPPersona, icpBrainstormerPrompt, icpBrainstormSchema } from '@/lib/services/agents/icpBrainstormer';
+import { coldEmailRankerPrompt, coldEmailRankingSchema } from '@/lib/services/agents/coldEmailRanker';
+import { icpSettingsSchema, linkedInFilterBuilderPrompt } from '@/lib/services/agents/linkedinFilterBuilder';
+import { generateStructured, LLMAgent, Schema } from '@/lib/services/llm';
+import { PromptVersions, RenderedPrompt, renderPrompt } from '@/lib/services/prompts';
+import { QualifiedLead, CompanyInfo } from '@/lib/types';
 import { findLeads } from '@/lib/services/leadFinder';
 import { generateEmailsForLeads } from '@/lib/services/emailWriter';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-/**
- * Clean up common LLM JSON output issues before parsing
- */
-function cleanJsonString(str: string): string {
-  return str
-    .replace(/,(\s*[}\]])/g, '$1')
-    .replace(/[\x00-\x1F\x7F]/g, (match) => {
-      if (match === '\n' || match === '\r' || match === '\t') return match;
-      return '';
-    });
-}
+import { CampaignProgress, CampaignStatus, LiveDebugData } from '@/lib/services/campaignGenerator';
+import {
+  saveCampaignProgress,
+  getCampaignProgressFor,
+  isProgressActive,
+  StoredCampaignProgress,
+} from '@/lib/services/progressStore';
 
 /**
  * SSE Streaming endpoint for campaign generation
@@ -33,6 +29,13 @@ function cleanJsonString(str: string): string {
  * 
  * Accepts campaignId to UPDATE an existing placeholder campaign
  * created by /api/campaigns/init
+ * 
+ * Existing campaigns must be unclaimed previews or belong to the caller's
+ * organization (campaigns:manage).
+ * 
+ * Progress is written to the persisted progress store as events are sent. If a
+ * generation is already running for the campaign (e.g. the page was reloaded),
+ * the stream reattaches to it instead of starting a second pipeline.
  */
 export async function POST(request: NextRequest) {
   const body = await request.json();
@@ -45,14 +48,39 @@ export async function POST(request: NextRequest) {
     });
   }
 
+  // The campaign is written with the admin client - check the caller may drive its generation
+  if (campaignId || existingSlug) {
+    const authorization = await authorizeCampaign(
+      { campaignId, slug: existingSlug },
+      { allowPreview: true, permission: 'campaigns:manage' }
+    );
+    if (!authorization.success) {
+      return new Response(JSON.stringify({ error: authorization.error }), {
+        status: authorization.status,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  }
+
+  // Reattach to a generation that is already running for this campaign (on any instance)
+  const runningProgress = (campaignId || existingSlug)
+    ? await getCampaignProgressFor({ campaignId, slug: existingSlug })
+    : null;
+
   // Create a TransformStream for SSE
   const encoder = new TextEncoder();
   const stream = new TransformStream();
   const writer = stream.writable.getWriter();
   let streamClosed = false;
 
+  // Mirrors every event into the persisted progress store (not needed when reattaching)
+  const isReattach = isProgressActive(runningProgress);
+  const progressRecorder = isReattach ? null : createProgressRecorder(domain, campaignId);
+
   // Helper to send SSE events (safe - checks if stream is still open)
+  // Progress is recorded even after the client disconnects so a reload can reattach
   const sendEvent = async (event: string, data: unknown) => {
+    progressRecorder?.record(event, data as Record<string, unknown>);
     if (streamClosed) return;
     try {
       const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
@@ -63,18 +91,52 @@ export async function POST(request: NextRequest) {
     }
   };
 
+  if (isReattach) {
+    console.log(`[StreamAPI] Reattaching to running generation for ${domain} (${runningProgress.status})`);
+
+    (async () => {
+      try {
+        await streamRunningGeneration(runningProgress, sendEvent, () => streamClosed);
+      } catch (error) {
+        console.error('[StreamAPI] Reattach error:', error);
+        await sendEvent('error', {
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      } finally {
+        if (!streamClosed) {
+          try {
+            await writer.close();
+          } catch {
+            // Stream already closed - ignore
+          }
+        }
+      }
+    })();
+
+    return new Response(stream.readable, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    });
+  }
+
   // Run campaign generation in background
   (async () => {
     try {
       // Use existing slug if provided (from init), otherwise generate new one
       const slug = existingSlug || await getNextAvailableSlug(domainToSlug(domain));
       const pipelineId = `stream-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      const pipelineStart = Date.now();
+      // Recorded in pipeline_debug so results can be traced back to the prompts that produced them
+      const promptVersions: PromptVersions = {};
       
       await sendEvent('start', { 
         pipelineId, 
         domain, 
         slug,
-        startedAt: new Date().toISOString() 
+        startedAt: new Date(pipelineStart).toISOString() 
       });
 
       // ========================================
@@ -110,12 +172,16 @@ export async function POST(request: NextRequest) {
       });
       
       const profilerStartTime = Date.now();
+      const profilerPrompt = renderPrompt(companyProfilerPrompt, { scrapedWebsite, domain });
+      promptVersions[profilerPrompt.id] = profilerPrompt.version;
       const companyProfile = await runStreamingAgent(
         'Company Profiler',
-        buildCompanyProfilerPrompt(scrapedWebsite, domain),
+        'company-profiler',
+        profilerPrompt,
         4096,
+        companyProfileSchema,
         sendEvent
-      ) as unknown as CompanyProfile;
+      );
       console.log('[StreamAPI] Company Profiler completed:', companyProfile?.name);
       
       await sendEvent('agent_complete', {
@@ -136,13 +202,17 @@ export async function POST(request: NextRequest) {
       });
       
       const brainstormStartTime = Date.now();
+      const brainstormPrompt = renderPrompt(icpBrainstormerPrompt, { companyProfile });
+      promptVersions[brainstormPrompt.id] = brainstormPrompt.version;
       const icpResult = await runStreamingAgent(
         'ICP Brainstormer',
-        buildICPBrainstormerPrompt(companyProfile),
+        'icp-brainstormer',
+        brainstormPrompt,
         8192,
+        icpBrainstormSchema,
         sendEvent
-      ) as unknown as { personas: ICPPersona[]; reasoning: string };
-      const personas: ICPPersona[] = icpResult.personas || [];
+      );
+      const personas: ICPPersona[] = icpResult.personas;
       
       await sendEvent('agent_complete', {
         agent: 'ICP Brainstormer',
@@ -163,12 +233,16 @@ export async function POST(request: NextRequest) {
       });
       
       const rankStartTime = Date.now();
+      const rankPrompt = renderPrompt(coldEmailRankerPrompt, { companyProfile, personas });
+      promptVersions[rankPrompt.id] = rankPrompt.version;
       const rankResult = await runStreamingAgent(
         'Cold Email Ranker',
-        buildColdEmailRankerPrompt(companyProfile, personas),
+        'cold-email-ranker',
+        rankPrompt,
         4096,
+        coldEmailRankingSchema(personas),
         sendEvent
-      ) as unknown as { evaluations: unknown[]; selectedPersonaId: string; selectedPersonaName: string; selectionReasoning?: string };
+      );
       
       const selectedPersona = personas.find((p: ICPPersona) => p.id === rankResult.selectedPersonaId) || personas[0];
       
@@ -190,12 +264,20 @@ export async function POST(request: NextRequest) {
       });
       
       const filterStartTime = Date.now();
+      const filterPrompt = renderPrompt(linkedInFilterBuilderPrompt, {
+        persona: selectedPersona,
+        selectionReasoning: rankResult.selectionReasoning,
+        companyContext: companyProfile,
+      });
+      promptVersions[filterPrompt.id] = filterPrompt.version;
       const filters = await runStreamingAgent(
         'LinkedIn Filter Builder',
-        buildLinkedInFilterPrompt(selectedPersona, companyProfile),
+        'linkedin-filter-builder',
+        filterPrompt,
         2048,
+        icpSettingsSchema,
         sendEvent
-      ) as unknown as ICPSettings;
+      );
       
       await sendEvent('agent_complete', {
         agent: 'LinkedIn Filter Builder',
@@ -283,6 +365,9 @@ export async function POST(request: NextRequest) {
         );
         
         console.log(`[StreamAPI] Email Writer generated ${qualifiedLeads.length} emails`);
+        if (qualifiedLeads[0]?.promptVersion) {
+          promptVersions['email-writer'] = qualifiedLeads[0].promptVersion;
+        }
         await sendEvent('agent_complete', {
           agent: 'Email Writer',
           duration: Date.now() - emailStartTime,
@@ -330,6 +415,7 @@ export async function POST(request: NextRequest) {
         why_picked: lead.whyPicked,
         email_subject: lead.emailSubject,
         email_body: lead.emailBody,
+        prompt_version: lead.promptVersion,
       }));
 
       const campaign = {
@@ -357,6 +443,14 @@ export async function POST(request: NextRequest) {
         icp_personas: personas,
         persona_rankings: rankResult.evaluations,
         linkedin_filters: filters,
+        pipeline_debug: {
+          pipelineId,
+          startedAt: new Date(pipelineStart).toISOString(),
+          completedAt: new Date().toISOString(),
+          totalDurationMs: Date.now() - pipelineStart,
+          promptVersions,
+          steps: {},
+        },
         status: 'draft',
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
@@ -411,6 +505,8 @@ export async function POST(request: NextRequest) {
         message: error instanceof Error ? error.message : 'Unknown error' 
       });
     } finally {
+      progressRecorder?.stop();
+
       // Safely close the stream (may already be closed if client disconnected)
       if (!streamClosed) {
         try {
@@ -431,6 +527,214 @@ export async function POST(request: NextRequest) {
   });
 }
 
+// How often a reattached stream polls the progress store (ms)
+const REATTACH_POLL_INTERVAL_MS = 1000;
+
+// Heartbeat so long-running agents (e.g. Lead Finder) don't look stale to reattaching clients
+const PROGRESS_HEARTBEAT_MS = 20_000;
+
+// Token updates are persisted at most this often (ms)
+const PROGRESS_TOKEN_SAVE_INTERVAL_MS = 2000;
+
+// Which CampaignStatus each streaming agent reports
+const AGENT_STATUS: Record<string, CampaignStatus> = {
+  'Website Scraper': 'scraping_website',
+  'Company Profiler': 'analyzing_company',
+  'ICP Brainstormer': 'analyzing_company',
+  'Cold Email Ranker': 'analyzing_company',
+  'LinkedIn Filter Builder': 'analyzing_company',
+  'Lead Finder': 'finding_leads',
+  'Email Writer': 'writing_emails',
+};
+
+/**
+ * Track SSE events as CampaignProgress/LiveDebugData and persist them to the progress store
+ */
+function createProgressRecorder(domain: string, campaignId?: string) {
+  let slug: string | undefined;
+  let lastTokenSave = 0;
+  const liveDebug: LiveDebugData = {
+    pipelineId: '',
+    domain,
+    startedAt: new Date().toISOString(),
+    currentAgent: '',
+    completedAgents: [],
+  };
+  const progress: CampaignProgress = {
+    status: 'scraping_website',
+    message: 'Starting...',
+    progress: 0,
+    liveDebug,
+  };
+
+  const save = () => {
+    saveCampaignProgress(domain, { ...progress, liveDebug: { ...liveDebug } }, { slug, campaignId });
+  };
+
+  const heartbeat = setInterval(save, PROGRESS_HEARTBEAT_MS);
+
+  return {
+    record(event: string, data: Record<string, unknown>) {
+      switch (event) {
+        case 'start':
+          slug = data.slug as string;
+          liveDebug.pipelineId = data.pipelineId as string;
+          liveDebug.startedAt = data.startedAt as string;
+          break;
+
+        case 'agent_start':
+          liveDebug.currentAgent = data.agent as string;
+          liveDebug.currentAgentFields = undefined;
+          progress.status = AGENT_STATUS[data.agent as string] || progress.status;
+          progress.message = data.message as string;
+          progress.progress = data.progress as number;
+          break;
+
+        case 'agent_token': {
+          liveDebug.currentAgentFields = data.fields as Record<string, unknown>;
+          // Tokens arrive every 500ms - persist less often
+          const now = Date.now();
+          if (now - lastTokenSave < PROGRESS_TOKEN_SAVE_INTERVAL_MS) return;
+          lastTokenSave = now;
+          break;
+        }
+
+        case 'agent_complete':
+          liveDebug.completedAgents.push({
+            name: data.agent as string,
+            duration: data.duration as number,
+            result: data.result as string,
+            details: data.details as string[] | undefined,
+            output: data.output,
+          });
+          liveDebug.currentAgentFields = undefined;
+          progress.progress = data.progress as number;
+          break;
+
+        case 'complete':
+          slug = data.slug as string;
+          liveDebug.currentAgent = '';
+          progress.status = 'complete';
+          progress.message = data.message as string;
+          progress.progress = 100;
+          break;
+
+        case 'error':
+          progress.status = 'error';
+          progress.message = data.message as string;
+          progress.error = (data.error as string) || (data.message as string);
+          break;
+
+        default:
+          return;
+      }
+
+      save();
+    },
+
+    stop() {
+      clearInterval(heartbeat);
+    },
+  };
+}
+
+/**
+ * Stream a generation that is already running elsewhere by polling the progress store.
+ * Sends a `resume` snapshot first, then the same agent_* / complete / error events
+ * the original stream would have sent.
+ */
+async function streamRunningGeneration(
+  initial: StoredCampaignProgress,
+  sendEvent: (event: string, data: unknown) => Promise<void>,
+  isClosed: () => boolean
+): Promise<void> {
+  const lookup = { campaignId: initial.campaignId, slug: initial.slug };
+
+  await sendEvent('resume', {
+    pipelineId: initial.liveDebug?.pipelineId,
+    slug: initial.slug,
+    startedAt: initial.liveDebug?.startedAt,
+    progress: initial.progress,
+    message: initial.message,
+    currentAgent: initial.liveDebug?.currentAgent || '',
+    completedAgents: initial.liveDebug?.completedAgents || [],
+    currentAgentFields: initial.liveDebug?.currentAgentFields || {},
+  });
+
+  let last = initial;
+
+  while (!isClosed()) {
+    await new Promise(resolve => setTimeout(resolve, REATTACH_POLL_INTERVAL_MS));
+
+    const current = await getCampaignProgressFor(lookup);
+    if (!current || current.updatedAt === last.updatedAt) {
+      if (!isProgressActive(last)) {
+        await sendEvent('error', { message: 'Campaign generation stopped responding. Please try again.' });
+        return;
+      }
+      continue;
+    }
+
+    const previousCompleted = last.liveDebug?.completedAgents.length || 0;
+    for (const agent of current.liveDebug?.completedAgents.slice(previousCompleted) || []) {
+      await sendEvent('agent_complete', {
+        agent: agent.name,
+        duration: agent.duration,
+        result: agent.result,
+        output: agent.output,
+        details: agent.details,
+        progress: current.progress,
+      });
+    }
+
+    const currentAgent = current.liveDebug?.currentAgent;
+    if (currentAgent && currentAgent !== last.liveDebug?.currentAgent) {
+      await sendEvent('agent_start', {
+        agent: currentAgent,
+        message: current.message,
+        progress: current.progress,
+      });
+    }
+
+    const fields = current.liveDebug?.currentAgentFields;
+    if (currentAgent && fields && JSON.stringify(fields) !== JSON.stringify(last.liveDebug?.currentAgentFields)) {
+      await sendEvent('agent_token', {
+        agent: currentAgent,
+        fields,
+        fieldCount: Object.keys(fields).length,
+        tokenCount: 0,
+      });
+    }
+
+    if (current.status === 'complete') {
+      let campaign: unknown = current.campaign || null;
+      if (supabaseAdmin) {
+        const query = supabaseAdmin.from('campaigns').select('*');
+        const { data } = await (current.campaignId
+          ? query.eq('id', current.campaignId)
+          : query.eq('slug', current.slug)
+        ).maybeSingle();
+        campaign = data || campaign;
+      }
+
+      await sendEvent('complete', {
+        slug: current.slug,
+        campaign,
+        progress: 100,
+        message: current.message,
+      });
+      return;
+    }
+
+    if (current.status === 'error') {
+      await sendEvent('error', { message: current.error || current.message });
+      return;
+    }
+
+    last = current;
+  }
+}
+
 // Server-side throttle interval for token batching (ms)
 // 500ms = 2 updates/second, good balance between responsiveness and client load
 const SERVER_TOKEN_BATCH_INTERVAL_MS = 500;
@@ -602,32 +906,30 @@ const AGENT_FIELD_DEFS: Record<string, { name: string; type: 'string' | 'array'
 /**
  * Run an agent with real-time token streaming
  * Sends PRE-PARSED fields to client - no client-side parsing needed!
+ * The final output is validated against the agent's schema (and retried with the
+ * problems fed back) by the shared LLM client.
  */
-async function runStreamingAgent(
+async function runStreamingAgent<T extends object>(
   agentName: string,
-  prompt: string,
+  agent: LLMAgent,
+  prompt: RenderedPrompt,
   maxTokens: number,
+  schema: Schema<T>,
   sendEvent: (event: string, data: unknown) => Promise<void>
-): Promise<Record<string, unknown>> {
+): Promise<T> {
   console.log(`[StreamAgent] Starting ${agentName} with ${maxTokens} max tokens`);
-  let responseText = '';
   let tokenCount = 0;
   let lastSendTime = Date.now();
   const fieldDefs = AGENT_FIELD_DEFS[agentName] || [];
-  
-  const stream = anthropic.messages.stream({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: maxTokens,
-    messages: [{ role: 'user', content: prompt }],
-  });
-  console.log(`[StreamAgent] ${agentName} stream created, waiting for tokens...`);
 
-  for await (const event of stream) {
-    if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
-      const token = event.delta.text;
-      responseText += token;
+  const { data } = await generateStructured({
+    agent,
+    prompt: prompt.text,
+    maxTokens,
+    schema,
+    onText: async (responseText) => {
       tokenCount++;
-      
+
       // Only send batched updates every SERVER_TOKEN_BATCH_INTERVAL_MS
       const now = Date.now();
       if (now - lastSendTime >= SERVER_TOKEN_BATCH_INTERVAL_MS) {
@@ -644,213 +946,17 @@ async function runStreamingAgent(
         });
         lastSendTime = now;
       }
-    }
-  }
-
-  // Parse JSON from response
-  const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error(`[${agentName}] Failed to parse response as JSON`);
-  }
-
-  try {
-    const cleanedJson = cleanJsonString(jsonMatch[0]);
-    const parsed = JSON.parse(cleanedJson);
-    
-    // Send final parsed state
-    await sendEvent('agent_token', { 
-      agent: agentName, 
-      fields: parsed, // Full parsed object
-      fieldCount: Object.keys(parsed).length,
-      tokenCount,
-      complete: true
-    });
-    
-    return parsed;
-  } catch (parseError) {
-    console.error(`[${agentName}] JSON parse error:`, parseError);
-    throw new Error(`[${agentName}] Failed to parse JSON`);
-  }
-}
-
-// ========================================
-// PROMPT BUILDERS
-// ========================================
-
-function buildCompanyProfilerPrompt(website: ScrapedWebsite, domain: string): string {
-  return `You are a company research analyst. Analyze this website and extract a structured company profile.
-
-## Website Data
-URL: ${website.url}
-Title: ${website.title}
-Description: ${website.description}
-
-## Content
-${website.markdown.slice(0, 8000)}
-
-Respond with ONLY valid JSON:
-{
-  "name": "Company Name",
-  "domain": "${domain}",
-  "tagline": "Main tagline",
-  "productOrService": "What they sell",
-  "problemTheySolve": "Core problem they address",
-  "howTheySolveIt": "Solution approach",
-  "targetMarket": "Who they serve",
-  "existingCustomerTypes": ["Type 1", "Type 2"],
-  "caseStudiesOrTestimonials": ["Case study 1"],
-  "geography": {
-    "primaryMarkets": ["Country 1"],
-    "officeLocations": [],
-    "evidenceSignals": ["Signal 1"],
-    "confidence": "medium",
-    "reasoning": "Geographic reasoning"
-  },
-  "industry": "Industry",
-  "competitiveAdvantage": "What makes them different",
-  "pricingModel": "freemium | enterprise | SMB | unknown",
-  "companyMaturity": "early-stage | growth | established | enterprise",
-  "salesMotion": "self-serve | sales-led | hybrid | unknown"
-}`;
-}
-
-function buildICPBrainstormerPrompt(profile: CompanyProfile): string {
-  return `You are a sales strategist. Generate 4 buyer personas for this company.
-
-## Company
-Name: ${profile.name}
-Product: ${profile.productOrService}
-Problem: ${profile.problemTheySolve}
-Target: ${profile.targetMarket}
-Industry: ${profile.industry}
-
-## Case Studies
-${profile.caseStudiesOrTestimonials?.join(', ') || 'None'}
-
-Respond with ONLY valid JSON:
-{
-  "personas": [
-    {
-      "id": "icp_a",
-      "name": "The [Name]",
-      "titles": ["Title 1", "Title 2", "Title 3"],
-      "seniority": "vp",
-      "department": "Sales",
-      "companySize": "50-200",
-      "companyStage": "Series A/B",
-      "industries": ["SaaS"],
-      "painPoints": ["Pain 1"],
-      "goals": ["Goal 1"],
-      "dayToDay": "Brief description",
-      "buyingTriggers": ["Trigger 1"],
-      "valueTheySeek": "Value",
-      "whyThisPersona": "Why this persona"
-    }
-  ],
-  "reasoning": "Overall reasoning"
-}`;
-}
-
-function buildColdEmailRankerPrompt(profile: CompanyProfile, personas: ICPPersona[]): string {
-  const personasSummary = personas.map(p => 
-    `- ${p.id}: ${p.name} (${p.titles?.slice(0, 2).join(', ')})`
-  ).join('\n');
-
-  return `You are a cold email expert. Select the persona MOST LIKELY TO RESPOND to cold email.
-
-## Company
-${profile.name} - ${profile.productOrService}
-Pricing: ${profile.pricingModel}
-
-## Personas
-${personasSummary}
-
-Score each on: Inbox Accessibility, Pain Urgency, Decision Authority, Reachability, Response Likelihood (1-10)
-
-Respond with ONLY valid JSON:
-{
-  "evaluations": [
-    {
-      "personaId": "icp_a",
-      "personaName": "The...",
-      "overallScore": 7.5,
-      "inboxAccessibility": 6,
-      "painUrgency": 8,
-      "decisionAuthority": 7,
-      "reachability": 8,
-      "responseLikelihood": 7,
-      "strengths": ["Strength 1"],
-      "weaknesses": ["Weakness 1"],
-      "recommendation": "Brief recommendation"
-    }
-  ],
-  "selectedPersonaId": "icp_a",
-  "selectedPersonaName": "The...",
-  "selectionReasoning": "Why this persona is best for cold email"
-}`;
-}
-
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-function buildLinkedInFilterPrompt(persona: ICPPersona, _profile: CompanyProfile): string {
-  return `Translate this ICP to LinkedIn Sales Navigator filters.
-
-## Persona
-Name: ${persona.name}
-Titles: ${persona.titles?.join(', ')}
-Company Size: ${persona.companySize}
-Industries: ${persona.industries?.join(', ')}
-
-## Geography IDs
-- United States: 103644278
-- United Kingdom: 101165590
-- Canada: 101174742
-- Germany: 101282230
-
-## Industry IDs
-- Software Development: 4
-- IT Services: 96
-- Financial Services: 43
-- Marketing Services: 1862
-
-Respond with ONLY valid JSON:
-{
-  "titles": ["Title 1", "Title 2"],
-  "companySize": "50-200",
-  "industries": [{ "id": "4", "text": "Software Development" }],
-  "locations": [{ "id": "103644278", "text": "United States" }]
-}`;
-}
+    },
+  });
 
-/**
- * Find the next available slug
- */
-async function getNextAvailableSlug(baseSlug: string): Promise<string> {
-  if (!supabaseAdmin) return baseSlug;
-
-  const { data: baseExists } = await supabaseAdmin
-    .from('campaigns')
-    .select('slug')
-    .eq('slug', baseSlug)
-    .single();
-
-  if (!baseExists) return baseSlug;
-
-  const { data: existingSlugs } = await supabaseAdmin
-    .from('campaigns')
-    .select('slug')
-    .or(`slug.eq.${baseSlug},slug.like.${baseSlug}-%`);
-
-  if (!existingSlugs || existingSlugs.length === 0) return baseSlug;
-
-  let maxNumber = 1;
-  for (const row of existingSlugs) {
-    if (row.slug === baseSlug) continue;
-    const match = row.slug.match(new RegExp(`^${baseSlug}-(\\d+)$`));
-    if (match) {
-      const num = parseInt(match[1], 10);
-      if (num > maxNumber) maxNumber = num;
-    }
-  }
+  // Send final parsed state
+  await sendEvent('agent_token', { 
+    agent: agentName, 
+    fields: data, // Full validated object
+    fieldCount: Object.keys(data).length,
+    tokenCount,
+    complete: true
+  });
 
-  return `${baseSlug}-${maxNumber + 1}`;
+  return data;
 }
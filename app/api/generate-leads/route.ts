@@ -1,51 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
-import { findLeads, findLeadsWithEmails } from '@/lib/services/leadFinder';
-import { shouldUseArk } from '@/lib/services/arkLeadFinder';
-import { generateEmailForLead } from '@/lib/services/emailWriter';
-import { CompanyProfile } from '@/lib/services/agents/companyProfiler';
-import { ICPPersona } from '@/lib/services/agents/icpBrainstormer';
-import { emailBisonClient } from '@/lib/services/emailbison';
+import {
+  enqueueLeadGenerationJob,
+  getLatestLeadGenerationJob,
+  getPostCheckoutLeadsCount,
+  getSkippedLeadsSummary,
+  triggerJobWorker,
+} from '@/lib/services/jobs';
+import { authorizeCampaign } from '@/lib/services/campaignAccess';
+import { launchCampaignWithCredits, refundCampaignCredits, SpendCreditsResult } from '@/lib/services/credits';
+import { can, getMemberContext, MemberContext } from '@/lib/services/organizationMembers';
+import { getCampaignPricingTiers, getPricingCampaign } from '@/lib/services/pricing';
 
 interface GenerateLeadsRequest {
   campaignId: string;
   leadsCount: number;
 }
 
-/**
- * Get the number of leads to generate for post-purchase lead generation.
- * 
- * Environment variables:
- * - POST_CHECKOUT_LEADS_MAX: Caps the maximum leads for post-purchase generation
- *   (e.g., set to 10 during testing to save API credits)
- * 
- * Note: LEADS_COUNT_OVERRIDE is for PRE-purchase preview in campaignGenerator.ts
- */
-function getPostCheckoutLeadsCount(requestedCount: number): number {
-  const maxCap = process.env.POST_CHECKOUT_LEADS_MAX;
-  if (maxCap) {
-    const parsed = parseInt(maxCap, 10);
-    if (!isNaN(parsed) && parsed > 0 && requestedCount > parsed) {
-      console.log(`[generate-leads] Capping to POST_CHECKOUT_LEADS_MAX: ${parsed} (requested: ${requestedCount})`);
-      return parsed;
-    }
-  }
-  
-  return requestedCount;
-}
-
 /**
  * POST /api/generate-leads
  * 
- * Generates leads for a paid campaign and inserts them into the leads table.
- * This is called after payment completion to populate the full 500 leads.
+ * Queues lead generation for a paid campaign. Called after payment completion.
+ * The work (search → enrich → write → insert → upload) runs in /api/jobs/worker
+ * as a resumable job, so a timeout here no longer leaves a half-built campaign.
+ * Only our own server (CRON_SECRET) or the campaign's owners and admins may call it.
+ *
+ * A signed-in member can also launch an unpaid campaign - their own, or a preview they just
+ * generated - with the organization's lead credits: leadsCount credits are spent
+ * (the campaign's smallest pricing tier if omitted) and no checkout is needed. Nothing is spent
+ * when the campaign already has a job or leads, and the credits are given back if the job
+ * can't be queued.
  */
 export async function POST(request: NextRequest) {
-  const startTime = Date.now();
-  
   try {
     const body: GenerateLeadsRequest = await request.json();
-    const { campaignId, leadsCount: requestedLeadsCount } = body;
+    const { campaignId } = body;
+    let requestedLeadsCount = body.leadsCount;
+    let creditBalance: number | undefined;
 
     if (!campaignId) {
       return NextResponse.json(
@@ -54,24 +45,67 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const supabase = createAdminClient();
-
-    // 1. Get campaign details
-    const { data: campaign, error: campaignError } = await supabase
-      .from('campaigns')
-      .select('*')
-      .eq('id', campaignId)
-      .single();
+    // 1. Check the caller may run lead generation for this campaign
+    const authorization = await authorizeCampaign(
+      { campaignId },
+      { allowPreview: true, permission: 'campaigns:manage', request }
+    );
 
-    if (campaignError || !campaign) {
-      console.error('[generate-leads] Campaign not found:', campaignError);
+    if (!authorization.success) {
+      console.warn(`[generate-leads] Rejected request for campaign ${campaignId}: ${authorization.error}`);
       return NextResponse.json(
-        { error: 'Campaign not found' },
-        { status: 404 }
+        { error: authorization.error },
+        { status: authorization.status }
       );
     }
 
-    // Check if leads already exist for this campaign (prevent duplicate generation)
+    // Unpaid campaigns can only be launched by a member spending lead credits
+    let creditsMember: MemberContext | null = null;
+    let credits = 0;
+    if (!authorization.campaign.paid_at) {
+      creditsMember = authorization.access === 'preview' ? await getMemberContext() : authorization.member;
+
+      if (!creditsMember) {
+        return NextResponse.json(
+          { error: 'Campaign has not been paid for' },
+          { status: 402 }
+        );
+      }
+
+      if (!can(creditsMember, 'campaigns:manage')) {
+        return NextResponse.json(
+          { error: 'Your role doesn\'t allow this' },
+          { status: 403 }
+        );
+      }
+
+      credits = requestedLeadsCount
+        || (await getCampaignPricingTiers(await getPricingCampaign(campaignId)))[0].emails;
+
+      if (!Number.isInteger(credits) || credits <= 0) {
+        return NextResponse.json(
+          { error: 'leadsCount must be a positive whole number' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const supabase = createAdminClient();
+
+    // 2. Skip campaigns that already have a job or leads - before any credits are spent
+    const existingJob = await getLatestLeadGenerationJob(campaignId);
+    if (existingJob) {
+      console.log(`[generate-leads] Campaign ${campaignId} already has job ${existingJob.id} (${existingJob.status}). Skipping.`);
+      return NextResponse.json({
+        success: true,
+        jobId: existingJob.id,
+        jobStatus: existingJob.status,
+        skipped: true,
+        skippedLeads: getSkippedLeadsSummary(existingJob.state),
+      });
+    }
+
+    // Leads generated outside the job queue (prevent duplicate generation)
     const { count: existingLeadsCount } = await supabase
       .from('leads')
       .select('*', { count: 'exact', head: true })
@@ -87,301 +121,63 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Apply POST_CHECKOUT_LEADS_MAX cap if set (for testing to save API credits)
-    const leadsCount = getPostCheckoutLeadsCount(requestedLeadsCount);
-
-    console.log(`[generate-leads] Starting lead generation for campaign ${campaignId} (${leadsCount} leads)`);
-
-    // 2. Extract ICP settings from campaign
-    const icpSettings = campaign.linkedin_filters || {
-      titles: campaign.icp_attributes?.[0]?.split(', ') || ['Founder', 'CEO'],
-      companySize: campaign.icp_attributes?.[1] || '10-200 employees',
-      industries: campaign.icp_attributes?.[2]?.split(', ') || ['SaaS', 'Technology'],
-      locations: [campaign.location || 'United States'],
-    };
-
-    // 3. Find leads using the lead finder service
-    // If using AI Ark, use findLeadsWithEmails to get enriched emails via Icypeas
-    let leads: Array<{
-      about: string;
-      company: string;
-      company_id: string;
-      first_name: string;
-      full_name: string;
-      job_title: string;
-      last_name: string;
-      linkedin_url: string;
-      location: string;
-      profile_id: string;
-      profile_picture?: string;
-      email?: string;  // Enriched via Icypeas
-    }> = [];
-
-    try {
-      const useArk = shouldUseArk();
-      
-      if (useArk) {
-        // Use AI Ark + Icypeas enrichment
-        console.log(`[generate-leads] Using AI Ark with email enrichment (target: ${leadsCount})`);
-        const result = await findLeadsWithEmails(icpSettings, leadsCount);
-        leads = result.leads || [];
-        console.log(`[generate-leads] Found ${leads.length} leads with emails`);
-      } else {
-        // Use Apify (no email enrichment)
-        const result = await findLeads(icpSettings, campaign.sales_navigator_url, leadsCount);
-        leads = result.leads || [];
-        console.log(`[generate-leads] Found ${leads.length} leads (no email enrichment)`);
+    // 3. Spend the credits for an unpaid campaign
+    let launch: SpendCreditsResult | null = null;
+    const launchedAt = new Date();
+    if (creditsMember) {
+      launch = await launchCampaignWithCredits(campaignId, creditsMember, credits);
+      if (!launch.success) {
+        return NextResponse.json(
+          { error: launch.error, creditBalance: launch.balance },
+          { status: launch.status }
+        );
       }
-    } catch (leadError) {
-      console.error('[generate-leads] Error finding leads:', leadError);
-      // Continue with empty leads - we'll update status to reflect the error
-    }
 
-    if (leads.length === 0) {
-      // Update campaign status to indicate no leads found
-      await supabase
-        .from('campaigns')
-        .update({ status: 'ready' }) // Still mark as ready, just with 0 leads
-        .eq('id', campaignId);
-
-      return NextResponse.json({
-        success: true,
-        message: 'No leads found for the given criteria',
-        leadsGenerated: 0,
-      });
+      // A retried launch keeps the count its credits were spent on
+      requestedLeadsCount = launch.leads;
+      creditBalance = launch.balance;
     }
 
-    // 4. Build company info for email generation
-    const companyInfo = {
-      name: campaign.company_name,
-      domain: campaign.domain || '',
-      description: campaign.company_profile?.tagline || '',
-      whatTheyDo: campaign.helps_with || campaign.company_profile?.productOrService || '',
-      valueProposition: campaign.great_at || campaign.company_profile?.competitiveAdvantage || '',
-      targetCustomers: campaign.company_profile?.targetMarket || '',
-      industry: campaign.company_profile?.industry || '',
-    };
-
-    // Email writer context for better personalization
-    const emailContext = campaign.company_profile ? {
-      companyProfile: campaign.company_profile as CompanyProfile,
-      selectedPersona: campaign.icp_personas?.find(
-        (p: ICPPersona) => p.id === campaign.persona_rankings?.selectedPersonaId
-      ),
-      selectionReasoning: campaign.persona_rankings?.selectionReasoning,
-    } : undefined;
-
-    // 5. Generate emails and insert leads in batches
-    const BATCH_SIZE = 10; // Process 10 leads at a time for parallel email generation
-    let totalInserted = 0;
-
-    for (let i = 0; i < leads.length; i += BATCH_SIZE) {
-      const batch = leads.slice(i, i + BATCH_SIZE);
-      
-      // Generate emails in parallel for this batch
-      const leadsWithEmails = await Promise.all(
-        batch.map(async (lead) => {
-          try {
-            const emailContent = await generateEmailForLead(lead, companyInfo, 'Bella', emailContext);
-            return {
-              campaign_id: campaignId,
-              first_name: lead.first_name,
-              last_name: lead.last_name,
-              email: lead.email || null, // Use enriched email from Icypeas
-              title: lead.job_title,
-              company: lead.company,
-              linkedin_url: lead.linkedin_url,
-              profile_picture_url: lead.profile_picture || null,
-              location: lead.location,
-              about: lead.about,
-              why_picked: emailContent.whyPicked,
-              email_subject: emailContent.emailSubject,
-              email_body: emailContent.emailBody,
-              status: 'pending',
-            };
-          } catch (emailError) {
-            console.error(`[generate-leads] Error generating email for ${lead.full_name}:`, emailError);
-            // Return lead without personalized email - use a fallback
-            return {
-              campaign_id: campaignId,
-              first_name: lead.first_name,
-              last_name: lead.last_name,
-              email: lead.email || null, // Use enriched email from Icypeas
-              title: lead.job_title,
-              company: lead.company,
-              linkedin_url: lead.linkedin_url,
-              profile_picture_url: lead.profile_picture || null,
-              location: lead.location,
-              about: lead.about,
-              why_picked: `${lead.job_title} at ${lead.company}`,
-              email_subject: `Quick question for ${lead.first_name}`,
-              email_body: `Hi {{first_name}},\n\nI came across {{company}} and thought you might be interested in what we do at ${companyInfo.name}.\n\n${companyInfo.whatTheyDo}\n\nWould you be open to a quick chat?\n\nBest,\nBella`,
-              status: 'pending',
-            };
-          }
-        })
-      );
-
-      // Insert batch into leads table
-      const { error: insertError } = await supabase
-        .from('leads')
-        .insert(leadsWithEmails);
+    // Apply POST_CHECKOUT_LEADS_MAX cap if set (for testing to save API credits)
+    const leadsCount = getPostCheckoutLeadsCount(requestedLeadsCount);
 
-      if (insertError) {
-        console.error(`[generate-leads] Error inserting batch ${i / BATCH_SIZE + 1}:`, insertError);
-      } else {
-        totalInserted += leadsWithEmails.length;
-        console.log(`[generate-leads] Inserted batch ${i / BATCH_SIZE + 1}: ${totalInserted}/${leads.length} leads`);
-      }
+    // 4. Queue the job (returns the existing one if a job was queued since the check above)
+    const spentNow = launch?.success && !launch.alreadySpent;
+    let queued;
+    try {
+      queued = await enqueueLeadGenerationJob(campaignId, leadsCount);
+    } catch (error) {
+      if (spentNow) await refundCampaignCredits(campaignId);
+      throw error;
     }
+    const { job, created } = queued;
 
-    // 6. Create EmailBison campaign and upload leads
-    let emailbisonCampaignId: string | null = null;
-    const leadsWithEmailAddresses = leads.filter(l => l.email);
-    
-    if (leadsWithEmailAddresses.length > 0) {
-      try {
-        console.log(`[generate-leads] Creating EmailBison campaign for ${leadsWithEmailAddresses.length} leads with emails...`);
-        
-        // Create campaign in EmailBison
-        const campaignName = `ColdMessage - ${campaign.company_name} - ${campaign.slug}`;
-        const ebCampaign = await emailBisonClient.createCampaign(campaignName);
-        emailbisonCampaignId = ebCampaign.campaign_id;
-        
-        console.log(`[generate-leads] EmailBison campaign created: ${emailbisonCampaignId}`);
-        
-        // Update campaign with EmailBison ID
-        await supabase
-          .from('campaigns')
-          .update({
-            emailbison_campaign_id: emailbisonCampaignId,
-            emailbison_status: 'draft',
-          })
-          .eq('id', campaignId);
-        
-        // Add sequence step using template variables
-        // Each lead's personalized email is stored in custom_variables (email_subject, email_body)
-        await emailBisonClient.addSequenceSteps(emailbisonCampaignId, {
-          title: 'Initial Outreach',
-          sequence_steps: [
-            {
-              email_subject: '{{custom.email_subject}}',
-              email_body: '{{custom.email_body}}',
-              wait_in_days: 0,
-            },
-          ],
-        });
-        console.log(`[generate-leads] Added sequence step to EmailBison campaign`);
-        
-        // Fetch inserted leads with their IDs to map back
-        const { data: insertedLeads } = await supabase
-          .from('leads')
-          .select('id, email, first_name, last_name, company, title, linkedin_url, why_picked, email_subject, email_body')
-          .eq('campaign_id', campaignId)
-          .not('email', 'is', null);
-        
-        if (insertedLeads && insertedLeads.length > 0) {
-          // Debug: Log first lead's data to verify email_subject/email_body are present
-          console.log(`[generate-leads] First lead sample:`, JSON.stringify({
-            email: insertedLeads[0].email,
-            email_subject: insertedLeads[0].email_subject,
-            email_body_length: insertedLeads[0].email_body?.length || 0,
-          }));
-          
-          // Create lookup function to find existing EmailBison lead IDs from our DB
-          const lookupExistingLeadId = async (email: string): Promise<string | null> => {
-            const { data } = await supabase
-              .from('leads')
-              .select('emailbison_lead_id')
-              .eq('email', email)
-              .not('emailbison_lead_id', 'is', null)
-              .limit(1)
-              .single();
-            return data?.emailbison_lead_id || null;
-          };
-          
-          // Upload leads to EmailBison with smart deduplication
-          // Convert email_body newlines to <br> tags for HTML rendering
-          // EmailBison expects custom_variables as array of { name, value } objects
-          const ebLeads = insertedLeads.map(lead => ({
-            email: lead.email!,
-            first_name: lead.first_name,
-            last_name: lead.last_name,
-            company: lead.company,
-            title: lead.title,
-            custom_variables: [
-              { name: 'email_subject', value: lead.email_subject || '' },
-              { name: 'email_body', value: (lead.email_body || '').replace(/\n/g, '<br>') },
-              { name: 'linkedin_url', value: lead.linkedin_url || '' },
-              { name: 'why_picked', value: lead.why_picked || '' },
-            ],
-          }));
-          
-          const uploadResponse = await emailBisonClient.uploadLeads(
-            emailbisonCampaignId,
-            ebLeads,
-            lookupExistingLeadId
-          );
-          
-          console.log(`[generate-leads] Uploaded ${uploadResponse.uploaded} leads to EmailBison (${uploadResponse.skipped_active} skipped - already in active sequences)`);
-          
-          // Map EmailBison lead IDs back to our leads using the emailToLeadId mapping
-          if (uploadResponse.emailToLeadId) {
-            for (const lead of insertedLeads) {
-              const ebLeadId = uploadResponse.emailToLeadId[lead.email!];
-              if (ebLeadId) {
-                await supabase
-                  .from('leads')
-                  .update({ emailbison_lead_id: ebLeadId })
-                  .eq('id', lead.id);
-              }
-            }
-          }
-        }
-        
-        // Resume campaign to start sending
-        await emailBisonClient.resumeCampaign(emailbisonCampaignId);
-        
-        // Update campaign status to active
-        await supabase
-          .from('campaigns')
-          .update({ emailbison_status: 'active' })
-          .eq('id', campaignId);
-        
-        console.log(`[generate-leads] EmailBison campaign launched`);
-        
-      } catch (ebError) {
-        console.error('[generate-leads] Error creating EmailBison campaign:', ebError);
-        // Don't fail the whole request - leads are already created
-      }
+    if (created) {
+      console.log(`[generate-leads] Queued lead generation for campaign ${campaignId} (${leadsCount} leads)`);
+      triggerJobWorker(request.nextUrl.origin, job.id);
     } else {
-      console.log(`[generate-leads] No leads with email addresses - skipping EmailBison`);
-    }
+      console.log(`[generate-leads] Campaign ${campaignId} already has job ${job.id} (${job.status}). Skipping.`);
 
-    // 7. Update campaign status to active
-    const { error: updateError } = await supabase
-      .from('campaigns')
-      .update({ status: 'active' })
-      .eq('id', campaignId);
-
-    if (updateError) {
-      console.error('[generate-leads] Error updating campaign status:', updateError);
+      // A job queued before these credits were spent (e.g. a card checkout) doesn't use them.
+      // One queued since then is this launch's, by a concurrent request for the same campaign.
+      if (spentNow && new Date(job.created_at) < launchedAt) {
+        await refundCampaignCredits(campaignId);
+        creditBalance = undefined;
+      }
     }
 
-    const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
-    console.log(`[generate-leads] Completed: ${totalInserted} leads in ${elapsed}s`);
-
     return NextResponse.json({
       success: true,
-      leadsGenerated: totalInserted,
-      leadsWithEmails: leadsWithEmailAddresses.length,
-      emailbisonCampaignId,
-      durationSeconds: parseFloat(elapsed),
-    });
+      jobId: job.id,
+      jobStatus: job.status,
+      skipped: !created,
+      skippedLeads: getSkippedLeadsSummary(job.state),
+      ...(creditBalance !== undefined && { creditBalance }),
+    }, { status: created ? 202 : 200 });
   } catch (error) {
     console.error('[generate-leads] Error:', error);
     return NextResponse.json(
-      { error: 'Failed to generate leads' },
+      { error: 'Failed to queue lead generation' },
       { status: 500 }
     );
   }
@@ -390,7 +186,8 @@ export async function POST(request: NextRequest) {
 /**
  * GET /api/generate-leads?campaignId=xxx
  * 
- * Check lead generation progress for a campaign
+ * Check lead generation progress for a campaign, including the job's current stage
+ * and the leads it skipped (suppressed, or already in another of the organization's campaigns)
  */
 export async function GET(request: NextRequest) {
   const campaignId = request.nextUrl.searchParams.get('campaignId');
@@ -402,6 +199,15 @@ export async function GET(request: NextRequest) {
     );
   }
 
+  const authorization = await authorizeCampaign({ campaignId }, { request });
+
+  if (!authorization.success) {
+    return NextResponse.json(
+      { error: authorization.error },
+      { status: authorization.status }
+    );
+  }
+
   const supabase = createAdminClient();
 
   // Get campaign with lead count
@@ -428,12 +234,37 @@ export async function GET(request: NextRequest) {
     ? Math.round((leadsGenerated || 0) / campaign.leads_purchased * 100)
     : 0;
 
+  const job = await getLatestLeadGenerationJob(campaignId);
+
+  // Polling doubles as a safety net: restart the worker if a queued job is due
+  // or a running job's worker died without releasing it
+  if (job && job.status !== 'completed' && job.status !== 'failed') {
+    const now = new Date();
+    const isDue = job.status === 'queued' && new Date(job.run_after) <= now;
+    const isStale = job.status === 'running' && job.locked_until !== null && new Date(job.locked_until) < now;
+    if (isDue || isStale) {
+      triggerJobWorker(request.nextUrl.origin, job.id);
+    }
+  }
+
   return NextResponse.json({
     campaignId,
     status: campaign.status,
     leadsPurchased: campaign.leads_purchased,
     leadsGenerated: leadsGenerated || 0,
     progress,
+    job: job ? {
+      id: job.id,
+      status: job.status,
+      stage: job.stage,
+      progress: job.progress,
+      attempts: job.attempts,
+      maxAttempts: job.max_attempts,
+      error: job.error,
+      failedStage: job.failed_stage,
+      updatedAt: job.updated_at,
+    } : null,
+    skippedLeads: job ? getSkippedLeadsSummary(job.state) : null,
   });
 }
 
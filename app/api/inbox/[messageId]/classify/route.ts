@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { can, getMemberContext } from '@/lib/services/organizationMembers';
+import { classifyInboxMessage } from '@/lib/services/replyClassification';
+
+/**
+ * POST /api/inbox/[messageId]/classify
+ * 
+ * (Re)classify an inbound reply - for messages the webhook couldn't classify,
+ * or replies saved before classification existed
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ messageId: string }> }
+) {
+  try {
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!can(member, 'inbox:reply')) {
+      return NextResponse.json(
+        { error: 'Your role can\'t classify inbox messages' },
+        { status: 403 }
+      );
+    }
+
+    const supabase = createAdminClient();
+    const { messageId } = await params;
+
+    // Classification runs with the admin client - check the message belongs to the member's organization first
+    const { data: message } = await supabase
+      .from('inbox_messages')
+      .select('id, campaigns!inner(organization_id)')
+      .eq('id', messageId)
+      .eq('campaigns.organization_id', member.organizationId)
+      .maybeSingle();
+
+    if (!message) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      );
+    }
+
+    const classification = await classifyInboxMessage(message.id);
+    if (!classification) {
+      return NextResponse.json(
+        { error: 'Only inbound replies with a body can be classified' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      classification: { ...classification, debug: undefined },
+    });
+  } catch (error) {
+    console.error('Error classifying inbox message:', error);
+    return NextResponse.json(
+      { error: 'Failed to classify message' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { can, getMemberContext } from '@/lib/services/organizationMembers';
+import { draftReply, isReplyLabel, CompanyProfile, ICPPersona } from '@/lib/services/agents';
+
+/**
+ * POST /api/inbox/[messageId]/draft
+ *
+ * Draft a response to an inbound reply from the thread, the lead and the campaign's
+ * company profile and selected persona. Nothing is sent - the draft goes into the
+ * composer and is sent through /api/inbox/[messageId]/reply once the user has edited it.
+ *
+ * Body (all optional):
+ * - meetingLink: Booking link to offer (defaults to campaigns.meeting_link)
+ * - instructions: Extra guidance for this draft
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ messageId: string }> }
+) {
+  try {
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!can(member, 'inbox:reply')) {
+      return NextResponse.json(
+        { error: 'Your role can\'t reply to inbox messages' },
+        { status: 403 }
+      );
+    }
+
+    const supabase = createAdminClient();
+    const { messageId } = await params;
+    const { meetingLink, instructions } = await request.json().catch(() => ({}));
+
+    // The admin client skips RLS - only load messages from the member's organization
+    const { data: message, error: messageError } = await supabase
+      .from('inbox_messages')
+      .select('*, leads(*), campaigns!inner(*)')
+      .eq('id', messageId)
+      .eq('campaigns.organization_id', member.organizationId)
+      .single();
+
+    if (messageError || !message) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      );
+    }
+
+    const campaign = message.campaigns;
+    if (!campaign) {
+      return NextResponse.json(
+        { error: 'Message is not linked to a campaign' },
+        { status: 400 }
+      );
+    }
+
+    // Same thread grouping as GET /api/inbox/[messageId]
+    let threadQuery = supabase
+      .from('inbox_messages')
+      .select('direction, body, received_at')
+      .eq('campaign_id', message.campaign_id)
+      .order('received_at', { ascending: true });
+
+    if (message.emailbison_thread_id) {
+      threadQuery = threadQuery.eq('emailbison_thread_id', message.emailbison_thread_id);
+    } else {
+      threadQuery = threadQuery.eq('lead_id', message.lead_id);
+    }
+
+    const { data: thread } = await threadQuery;
+
+    // Answer this message - drop anything after it
+    const replyTime = new Date(message.received_at).getTime();
+    const threadUpToMessage = (thread || []).filter(msg => new Date(msg.received_at).getTime() <= replyTime);
+
+    // The cold email itself isn't in inbox_messages - lead it with the copy we sent
+    const lead = message.leads;
+    const coldEmail = lead?.email_body
+      ? [{ direction: 'outbound' as const, body: lead.email_body, receivedAt: 'initial email' }]
+      : [];
+
+    const personas = campaign.icp_personas as ICPPersona[] | null;
+    const selectedPersonaId = (campaign.persona_rankings as { selectedPersonaId?: string } | null)?.selectedPersonaId;
+
+    const draft = await draftReply({
+      thread: [
+        ...coldEmail,
+        ...threadUpToMessage.map(msg => ({
+          direction: msg.direction,
+          body: msg.body,
+          receivedAt: msg.received_at,
+        })),
+      ],
+      subject: message.subject,
+      lead: {
+        firstName: lead?.first_name || 'there',
+        lastName: lead?.last_name,
+        title: lead?.title,
+        company: lead?.company,
+      },
+      senderCompanyName: campaign.company_name,
+      companyProfile: (campaign.company_profile as CompanyProfile | null) || undefined,
+      selectedPersona: personas?.find(p => p.id === selectedPersonaId),
+      replyLabel: isReplyLabel(message.reply_label) ? message.reply_label : undefined,
+      meetingLink: typeof meetingLink === 'string' && meetingLink.trim() ? meetingLink.trim() : campaign.meeting_link,
+      instructions: typeof instructions === 'string' ? instructions.trim() || undefined : undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      draft: draft.body,
+      strategy: draft.strategy,
+      reasoning: draft.reasoning,
+    });
+  } catch (error) {
+    console.error('Error drafting reply:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to draft reply',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
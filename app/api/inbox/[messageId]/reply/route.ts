@@ -1,13 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase/server';
-import { emailBisonClient } from '@/lib/services/emailbison';
+import { createAdminClient } from '@/lib/supabase/server';
+import { can, getMemberContext } from '@/lib/services/organizationMembers';
+import { sendInboxReply } from '@/lib/services/inboxReplies';
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ messageId: string }> }
 ) {
   try {
-    const supabase = await createClient();
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!can(member, 'inbox:reply')) {
+      return NextResponse.json(
+        { error: 'Your role can\'t reply to inbox messages' },
+        { status: 403 }
+      );
+    }
+
+    const supabase = createAdminClient();
     const { messageId } = await params;
     const { body: replyBody, senderEmailId } = await request.json();
 
@@ -18,82 +34,33 @@ export async function POST(
       );
     }
 
-    // Get the original message
-    const { data: message, error: messageError } = await supabase
+    // The admin client skips RLS - check the message belongs to the member's organization first
+    const { data: message } = await supabase
       .from('inbox_messages')
-      .select('*, leads(*), campaigns(*)')
+      .select('id, campaigns!inner(organization_id)')
       .eq('id', messageId)
-      .single();
+      .eq('campaigns.organization_id', member.organizationId)
+      .maybeSingle();
 
-    if (messageError || !message) {
+    if (!message) {
       return NextResponse.json(
         { error: 'Message not found' },
         { status: 404 }
       );
     }
 
-    // EmailBison uses reply_id (the message ID) not thread_id
-    const replyId = message.emailbison_reply_id || message.emailbison_thread_id;
-    if (!replyId) {
-      return NextResponse.json(
-        { error: 'Reply ID not found - cannot send reply' },
-        { status: 400 }
-      );
-    }
+    const result = await sendInboxReply(supabase, messageId, replyBody, senderEmailId);
 
-    // Get sender email ID - either from request or campaign settings
-    // TODO: Store sender_email_id on campaign when it's configured in EmailBison
-    const senderEmailIdToUse = senderEmailId || message.campaigns?.emailbison_sender_email_id;
-    if (!senderEmailIdToUse) {
+    if (!result.success) {
       return NextResponse.json(
-        { error: 'Sender email ID not configured - please set up sender in EmailBison' },
-        { status: 400 }
+        { error: result.error },
+        { status: result.notFound ? 404 : 400 }
       );
     }
 
-    // Build recipient info from the original message
-    const toEmails = [{
-      name: message.leads?.first_name 
-        ? `${message.leads.first_name} ${message.leads.last_name || ''}`.trim()
-        : 'Recipient',
-      email_address: message.from_email,
-    }];
-
-    // Send reply via EmailBison API
-    await emailBisonClient.sendReply(
-      replyId,
-      replyBody,
-      senderEmailIdToUse,
-      toEmails,
-      'html'
-    );
-
-    // Insert outbound message into inbox_messages
-    const { data: outboundMessage, error: insertError } = await supabase
-      .from('inbox_messages')
-      .insert({
-        campaign_id: message.campaign_id,
-        lead_id: message.lead_id,
-        emailbison_thread_id: message.emailbison_thread_id,
-        direction: 'outbound',
-        subject: message.subject?.startsWith('Re:') ? message.subject : `Re: ${message.subject || ''}`,
-        body: replyBody,
-        from_email: null, // Will be set by EmailBison
-        to_email: message.from_email,
-        received_at: new Date(),
-        is_read: true,
-      })
-      .select()
-      .single();
-
-    if (insertError) {
-      console.error('Error inserting outbound message:', insertError);
-      // Don't fail - the reply was sent via EmailBison
-    }
-
     return NextResponse.json({
       success: true,
-      message: outboundMessage,
+      message: result.outboundMessage,
     });
   } catch (error) {
     console.error('Error sending reply:', error);
@@ -106,4 +73,3 @@ export async function POST(
     );
   }
 }
-
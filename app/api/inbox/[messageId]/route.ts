@@ -1,14 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { can, getMemberContext } from '@/lib/services/organizationMembers';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ messageId: string }> }
 ) {
   try {
-    const supabase = await createClient();
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const supabase = createAdminClient();
     const { messageId } = await params;
 
+    // The admin client skips RLS - only load messages from the member's organization
     const { data: message, error } = await supabase
       .from('inbox_messages')
       .select(`
@@ -23,13 +33,15 @@ export async function GET(
           profile_picture_url,
           campaign_id
         ),
-        campaigns (
+        campaigns!inner (
           id,
           slug,
-          company_name
+          company_name,
+          organization_id
         )
       `)
       .eq('id', messageId)
+      .eq('campaigns.organization_id', member.organizationId)
       .single();
 
     if (error || !message) {
@@ -84,10 +96,40 @@ export async function PATCH(
   { params }: { params: Promise<{ messageId: string }> }
 ) {
   try {
-    const supabase = await createClient();
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!can(member, 'inbox:reply')) {
+      return NextResponse.json(
+        { error: 'Your role can\'t update inbox messages' },
+        { status: 403 }
+      );
+    }
+
+    const supabase = createAdminClient();
     const { messageId } = await params;
     const body = await request.json();
 
+    // The admin client skips RLS - check the message belongs to the member's organization first
+    const { data: message } = await supabase
+      .from('inbox_messages')
+      .select('id, campaigns!inner(organization_id)')
+      .eq('id', messageId)
+      .eq('campaigns.organization_id', member.organizationId)
+      .maybeSingle();
+
+    if (!message) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      );
+    }
+
     const updates: Record<string, unknown> = {};
     if (body.is_read !== undefined) {
       updates.is_read = body.is_read;
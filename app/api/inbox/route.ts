@@ -1,17 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { getMemberContext } from '@/lib/services/organizationMembers';
+import { isReplyLabel } from '@/lib/services/agents';
 
 export async function GET(request: NextRequest) {
   try {
-    const supabase = await createClient();
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const supabase = createAdminClient();
     const searchParams = request.nextUrl.searchParams;
     
     const campaignId = searchParams.get('campaignId');
     const unreadOnly = searchParams.get('unreadOnly') === 'true';
     const interestedOnly = searchParams.get('interestedOnly') === 'true';
+    // Reply classifier label: interested, not_now, wrong_person, unsubscribe, out_of_office, objection
+    const label = searchParams.get('label');
     const limit = parseInt(searchParams.get('limit') || '50', 10);
     const offset = parseInt(searchParams.get('offset') || '0', 10);
 
+    // The admin client skips RLS - scope to the member's organization's campaigns
+    let campaignsQuery = supabase
+      .from('campaigns')
+      .select('id')
+      .eq('organization_id', member.organizationId);
+
+    if (campaignId) {
+      campaignsQuery = campaignsQuery.eq('id', campaignId);
+    }
+
+    const { data: campaigns } = await campaignsQuery;
+    const campaignIds = (campaigns || []).map(c => c.id);
+
+    if (campaignIds.length === 0) {
+      return NextResponse.json({ messages: [], unreadCount: 0, total: 0 });
+    }
+
     // Build query
     let query = supabase
       .from('inbox_messages')
@@ -33,14 +62,11 @@ export async function GET(request: NextRequest) {
           company_name
         )
       `)
+      .in('campaign_id', campaignIds)
       .eq('direction', 'inbound')
       .order('received_at', { ascending: false })
       .range(offset, offset + limit - 1);
 
-    if (campaignId) {
-      query = query.eq('campaign_id', campaignId);
-    }
-
     if (unreadOnly) {
       query = query.eq('is_read', false);
     }
@@ -49,6 +75,10 @@ export async function GET(request: NextRequest) {
       query = query.eq('is_interested', true);
     }
 
+    if (isReplyLabel(label)) {
+      query = query.eq('reply_label', label);
+    }
+
     const { data: messages, error } = await query;
 
     if (error) {
@@ -60,18 +90,13 @@ export async function GET(request: NextRequest) {
     }
 
     // Get unread count
-    let unreadCountQuery = supabase
+    const { count: unreadCount } = await supabase
       .from('inbox_messages')
       .select('*', { count: 'exact', head: true })
+      .in('campaign_id', campaignIds)
       .eq('direction', 'inbound')
       .eq('is_read', false);
 
-    if (campaignId) {
-      unreadCountQuery = unreadCountQuery.eq('campaign_id', campaignId);
-    }
-
-    const { count: unreadCount } = await unreadCountQuery;
-
     return NextResponse.json({
       messages: messages || [],
       unreadCount: unreadCount || 0,
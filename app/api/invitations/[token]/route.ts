@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { acceptInvitation, getInvitationByToken, getInvitationStatus } from '@/lib/services/organizationInvitations';
+
+/**
+ * GET /api/invitations/[token]
+ *
+ * Show an invitation to the signed-in user before they accept it
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const found = await getInvitationByToken(token);
+    if (!found) {
+      return NextResponse.json(
+        { error: 'Invitation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      organizationName: found.organizationName,
+      email: found.invitation.email,
+      role: found.invitation.role,
+      expiresAt: found.invitation.expires_at,
+      status: getInvitationStatus(found.invitation),
+      signedInAs: user.email || null,
+    });
+  } catch (error) {
+    console.error('[invitations] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch invitation' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/invitations/[token]
+ *
+ * Accept an invitation and join the organization as the signed-in user
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const result = await acceptInvitation(token, user);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    console.log(`[invitations] ${user.id} joined organization ${result.organizationId} as ${result.role}`);
+
+    return NextResponse.json({
+      success: true,
+      organizationId: result.organizationId,
+      role: result.role,
+    });
+  } catch (error) {
+    console.error('[invitations] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to accept invitation' },
+      { status: 500 }
+    );
+  }
+}
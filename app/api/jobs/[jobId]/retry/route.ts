@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getLeadGenerationJob,
+  getLatestLeadGenerationJob,
+  retryLeadGenerationJob,
+  triggerJobWorker,
+  LeadGenerationStage,
+} from '@/lib/services/jobs';
+import { authorizeCampaign } from '@/lib/services/campaignAccess';
+
+/**
+ * POST /api/jobs/[jobId]/retry
+ * 
+ * Requeue a lead generation job from the dashboard.
+ * Body: { fromStage?: 'search' | 'enrich' | 'verify' | 'write' | 'insert' | 'upload' }
+ * Without fromStage the job resumes where it stopped.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const fromStage = body.fromStage as LeadGenerationStage | undefined;
+
+    const job = await getLeadGenerationJob(jobId);
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    // Jobs are read with the admin client - check access through the job's campaign
+    const authorization = await authorizeCampaign({ campaignId: job.campaign_id }, { permission: 'campaigns:manage' });
+    if (!authorization.success) {
+      return NextResponse.json(
+        { error: authorization.status === 404 ? 'Job not found' : authorization.error },
+        { status: authorization.status }
+      );
+    }
+
+    const latestJob = await getLatestLeadGenerationJob(job.campaign_id);
+    if (latestJob?.id !== job.id) {
+      return NextResponse.json(
+        { error: 'Only the latest job for a campaign can be retried' },
+        { status: 400 }
+      );
+    }
+
+    let updatedJob;
+    try {
+      updatedJob = await retryLeadGenerationJob(job, fromStage);
+    } catch (retryError) {
+      return NextResponse.json(
+        { error: retryError instanceof Error ? retryError.message : 'Failed to retry job' },
+        { status: 400 }
+      );
+    }
+
+    triggerJobWorker(request.nextUrl.origin, updatedJob.id);
+
+    return NextResponse.json({
+      success: true,
+      job: {
+        id: updatedJob.id,
+        status: updatedJob.status,
+        stage: updatedJob.stage,
+      },
+    });
+  } catch (error) {
+    console.error('[jobs/retry] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processLeadGenerationJobs, triggerJobWorker } from '@/lib/services/jobs';
+import { isInternalRequest } from '@/lib/services/campaignAccess';
+
+// Each invocation stops itself before this (see JOB_TIME_BUDGET_MS)
+export const maxDuration = 300;
+
+/**
+ * Only the cron scheduler and our own server may run the worker
+ */
+function isAuthorized(request: NextRequest): boolean {
+  if (!process.env.CRON_SECRET) {
+    console.error('[jobs/worker] CRON_SECRET is not set - rejecting request');
+    return false;
+  }
+
+  return isInternalRequest(request);
+}
+
+async function runWorker(request: NextRequest, jobId?: string) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { processed, hasMore } = await processLeadGenerationJobs({ jobId });
+
+    // Keep going without waiting for the next cron tick
+    if (hasMore) {
+      triggerJobWorker(request.nextUrl.origin);
+    }
+
+    return NextResponse.json({ success: true, processed, hasMore });
+  } catch (error) {
+    console.error('[jobs/worker] Error:', error);
+    return NextResponse.json(
+      { error: 'Worker failed' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/jobs/worker
+ * 
+ * Cron entry point - picks up queued jobs, retries that are due, and jobs whose worker died
+ */
+export async function GET(request: NextRequest) {
+  return runWorker(request);
+}
+
+/**
+ * POST /api/jobs/worker
+ * 
+ * Internal trigger, optionally for a specific job: { jobId?: string }
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  return runWorker(request, body.jobId || undefined);
+}
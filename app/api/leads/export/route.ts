@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { can, getMemberContext } from '@/lib/services/organizationMembers';
+import {
+  DEFAULT_LEAD_EXPORT_COLUMNS,
+  getExportHeaders,
+  getExportValues,
+  isLeadExportColumn,
+  isLeadExportFormat,
+  iterateExportLeads,
+  toCsvLine,
+} from '@/lib/services/leadExport';
+import { buildXlsx } from '@/lib/utils/xlsx';
+
+// XLSX is built in memory (it's a zip) - CSV streams and has no limit
+const MAX_XLSX_ROWS = 50_000;
+const MAX_SELECTED_LEADS = 10_000;
+
+/**
+ * POST /api/leads/export
+ * 
+ * Download the organization's leads as CSV (streamed) or XLSX.
+ * Body: {
+ *   format?: 'csv' | 'xlsx' (default csv),
+ *   columns?: LeadExportColumn[] (default: everything except email subject/body),
+ *   campaignId?: string - only this campaign's leads,
+ *   leadIds?: string[] - only these leads
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!can(member, 'leads:export')) {
+      return NextResponse.json(
+        { error: 'Your role can\'t export leads' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const format = isLeadExportFormat(body.format) ? body.format : 'csv';
+    const requestedColumns = Array.isArray(body.columns) ? body.columns.filter(isLeadExportColumn) : [];
+    const columns = requestedColumns.length > 0 ? requestedColumns : DEFAULT_LEAD_EXPORT_COLUMNS;
+    const leadIds: string[] | undefined = Array.isArray(body.leadIds)
+      ? body.leadIds.filter((id: unknown): id is string => typeof id === 'string')
+      : undefined;
+
+    if (leadIds && leadIds.length > MAX_SELECTED_LEADS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_SELECTED_LEADS} selected leads per export` },
+        { status: 400 }
+      );
+    }
+
+    // The admin client skips RLS - every query below is scoped to the member's organization
+    const supabase = createAdminClient();
+
+    let campaignsQuery = supabase
+      .from('campaigns')
+      .select('id, company_name, slug')
+      .eq('organization_id', member.organizationId);
+
+    if (typeof body.campaignId === 'string') {
+      campaignsQuery = campaignsQuery.eq('id', body.campaignId);
+    }
+
+    const { data: campaigns } = await campaignsQuery;
+
+    if (body.campaignId && (!campaigns || campaigns.length === 0)) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      );
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    const baseName = body.campaignId && campaigns?.[0] ? `leads-${campaigns[0].slug}-${date}` : `leads-${date}`;
+    const headers = getExportHeaders(columns);
+    const leadPages = iterateExportLeads(supabase, campaigns || [], { leadIds });
+
+    if (format === 'xlsx') {
+      const rows: string[][] = [headers];
+      for await (const leads of leadPages) {
+        for (const lead of leads) {
+          rows.push(getExportValues(lead, columns));
+        }
+        if (rows.length > MAX_XLSX_ROWS + 1) {
+          return NextResponse.json(
+            { error: `XLSX exports are limited to ${MAX_XLSX_ROWS.toLocaleString()} leads - use CSV or export one campaign at a time` },
+            { status: 400 }
+          );
+        }
+      }
+
+      return new Response(new Uint8Array(buildXlsx('Leads', rows)), {
+        headers: {
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'Content-Disposition': `attachment; filename="${baseName}.xlsx"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          // BOM so Excel reads the file as UTF-8
+          controller.enqueue(encoder.encode('\uFEFF' + toCsvLine(headers)));
+          for await (const leads of leadPages) {
+            controller.enqueue(encoder.encode(leads.map(lead => toCsvLine(getExportValues(lead, columns))).join('')));
+          }
+          controller.close();
+        } catch (error) {
+          console.error('[leads/export] Export failed mid-stream:', error);
+          controller.error(error);
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${baseName}.csv"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('[leads/export] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to export leads' },
+      { status: 500 }
+    );
+  }
+}
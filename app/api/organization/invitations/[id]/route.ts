@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { can, getMemberContext } from '@/lib/services/organizationMembers';
+import { revokeInvitation } from '@/lib/services/organizationInvitations';
+
+/**
+ * DELETE /api/organization/invitations/[id]
+ *
+ * Revoke a pending invitation. The link in the email stops working.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!can(member, 'members:manage')) {
+      return NextResponse.json(
+        { error: 'Only owners and admins can manage the team' },
+        { status: 403 }
+      );
+    }
+
+    const revoked = await revokeInvitation(member.organizationId, id);
+    if (!revoked) {
+      return NextResponse.json(
+        { error: 'Invitation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[organization/invitations] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke invitation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { can, getMemberContext } from '@/lib/services/organizationMembers';
+import { createInvitation, listPendingInvitations, MAX_PENDING_INVITATIONS } from '@/lib/services/organizationInvitations';
+import { isOrganizationRole } from '@/lib/services/organizationRoles';
+
+/**
+ * POST /api/organization/invitations
+ *
+ * Invite someone to the organization. They get a magic-link email that signs them in
+ * and opens the accept page.
+ * Body: { email: string; role: 'admin' | 'sdr' | 'viewer' }
+ * The response includes the invite link, in case the email doesn't arrive.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!can(member, 'members:manage')) {
+      return NextResponse.json(
+        { error: 'Only owners and admins can invite team members' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return NextResponse.json(
+        { error: 'A valid email is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isOrganizationRole(body.role) || body.role === 'owner') {
+      return NextResponse.json(
+        { error: 'role must be admin, sdr or viewer' },
+        { status: 400 }
+      );
+    }
+
+    if (email === member.email?.toLowerCase()) {
+      return NextResponse.json(
+        { error: 'You\'re already a member' },
+        { status: 400 }
+      );
+    }
+
+    const pending = await listPendingInvitations(member.organizationId);
+    if (pending.length >= MAX_PENDING_INVITATIONS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_PENDING_INVITATIONS} pending invitations - revoke some first` },
+        { status: 400 }
+      );
+    }
+
+    const { invitation, inviteUrl, emailSent } = await createInvitation(
+      member.organizationId,
+      email,
+      body.role,
+      member.userId,
+      request.nextUrl.origin
+    );
+
+    console.log(`[organization/invitations] ${member.userId} invited ${email} as ${body.role} to organization ${member.organizationId}`);
+
+    return NextResponse.json({
+      success: true,
+      invitation,
+      inviteUrl,
+      emailSent,
+    });
+  } catch (error) {
+    console.error('[organization/invitations] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create invitation' },
+      { status: 500 }
+    );
+  }
+}
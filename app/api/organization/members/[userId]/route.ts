@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { can, getMemberContext, removeMember, updateMemberRole } from '@/lib/services/organizationMembers';
+import { isOrganizationRole } from '@/lib/services/organizationRoles';
+
+/**
+ * PATCH /api/organization/members/[userId]
+ *
+ * Change a member's role.
+ * Body: { role: 'admin' | 'sdr' | 'viewer' }
+ * The owner's role can't be changed.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { userId } = await params;
+
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!can(member, 'members:manage')) {
+      return NextResponse.json(
+        { error: 'Only owners and admins can manage the team' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (!isOrganizationRole(body.role) || body.role === 'owner') {
+      return NextResponse.json(
+        { error: 'role must be admin, sdr or viewer' },
+        { status: 400 }
+      );
+    }
+
+    if (userId === member.userId) {
+      return NextResponse.json(
+        { error: 'You can\'t change your own role' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await updateMemberRole(member.organizationId, userId, body.role);
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[organization/members] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update member' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/organization/members/[userId]
+ *
+ * Remove a member from the organization. Members can also remove themselves (leave).
+ * The owner can't be removed.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { userId } = await params;
+
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (userId !== member.userId && !can(member, 'members:manage')) {
+      return NextResponse.json(
+        { error: 'Only owners and admins can manage the team' },
+        { status: 403 }
+      );
+    }
+
+    const removed = await removeMember(member.organizationId, userId);
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      );
+    }
+
+    console.log(`[organization/members] ${member.userId} removed ${userId} from organization ${member.organizationId}`);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[organization/members] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove member' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { can, getMemberContext, listMembers } from '@/lib/services/organizationMembers';
+import { listPendingInvitations } from '@/lib/services/organizationInvitations';
+
+/**
+ * GET /api/organization/members
+ *
+ * List the organization's members, the signed-in user's own role and, for
+ * members who can manage the team, pending invitations
+ */
+export async function GET() {
+  try {
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const canManage = can(member, 'members:manage');
+    const [members, invitations] = await Promise.all([
+      listMembers(member.organizationId),
+      canManage ? listPendingInvitations(member.organizationId) : Promise.resolve([]),
+    ]);
+
+    return NextResponse.json({
+      userId: member.userId,
+      role: member.role,
+      canManage,
+      members,
+      invitations,
+    });
+  } catch (error) {
+    console.error('[organization/members] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch team members' },
+      { status: 500 }
+    );
+  }
+}
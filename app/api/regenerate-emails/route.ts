@@ -4,6 +4,7 @@ import { generateEmailsForLeads, EmailWriterContext } from '@/lib/services/email
 import { LinkedInLead, CompanyInfo } from '@/lib/types';
 import { CompanyProfile } from '@/lib/services/agents/companyProfiler';
 import { ICPPersona } from '@/lib/services/agents/icpBrainstormer';
+import { authorizeCampaign } from '@/lib/services/campaignAccess';
 
 interface RegenerateRequest {
   slug: string;
@@ -12,6 +13,7 @@ interface RegenerateRequest {
 /**
  * Regenerate just the email copy for an existing campaign.
  * Uses the same leads but re-runs the email writer with current prompts.
+ * Open to anyone while the campaign is a public preview, then to its organization's owners and admins.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -25,6 +27,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const authorization = await authorizeCampaign({ slug }, { allowPreview: true, permission: 'campaigns:manage' });
+    if (!authorization.success) {
+      return NextResponse.json(
+        { error: authorization.error },
+        { status: authorization.status }
+      );
+    }
+
     console.log(`[API] Regenerating emails for campaign: ${slug}`);
 
     if (!supabaseAdmin) {
@@ -144,6 +154,7 @@ export async function POST(request: NextRequest) {
       why_picked: lead.whyPicked,
       email_subject: lead.emailSubject,
       email_body: lead.emailBody,
+      prompt_version: lead.promptVersion,
       location: lead.location,
       about: lead.about,
     }));
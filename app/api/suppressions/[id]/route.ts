@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { removeSuppression } from '@/lib/services/suppression';
+import { can, getMemberContext } from '@/lib/services/organizationMembers';
+
+/**
+ * DELETE /api/suppressions/[id]
+ * 
+ * Remove an entry from the organization's do-not-contact list
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!can(member, 'settings:manage')) {
+      return NextResponse.json(
+        { error: 'Only owners and admins can change the do-not-contact list' },
+        { status: 403 }
+      );
+    }
+
+    const removed = await removeSuppression(member.organizationId, id);
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'Suppression not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[suppressions] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove suppression' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { can, getMemberContext } from '@/lib/services/organizationMembers';
+import {
+  addSuppressions,
+  detectSuppressionType,
+  isSuppressionType,
+  listSuppressions,
+  SuppressionEntry,
+} from '@/lib/services/suppression';
+
+const MAX_ENTRIES_PER_REQUEST = 1000;
+
+/**
+ * GET /api/suppressions
+ * 
+ * List the organization's do-not-contact entries.
+ * Query: type (email | domain | linkedin_url), search, limit, offset
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const type = searchParams.get('type');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100', 10) || 100, 500);
+    const offset = parseInt(searchParams.get('offset') || '0', 10) || 0;
+
+    const { suppressions, total } = await listSuppressions(member.organizationId, {
+      type: isSuppressionType(type) ? type : undefined,
+      search: searchParams.get('search') || undefined,
+      limit,
+      offset,
+    });
+
+    return NextResponse.json({ suppressions, total });
+  } catch (error) {
+    console.error('[suppressions] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch suppressions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/suppressions
+ * 
+ * Add manual entries to the organization's do-not-contact list.
+ * Body: { entries: Array<{ value: string; type?: 'email' | 'domain' | 'linkedin_url' }> }
+ * Entries without a type are detected from the value. Invalid and duplicate values are skipped.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const member = await getMemberContext();
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!can(member, 'settings:manage')) {
+      return NextResponse.json(
+        { error: 'Only owners and admins can change the do-not-contact list' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const rawEntries: unknown[] = Array.isArray(body.entries) ? body.entries : [];
+
+    if (rawEntries.length === 0) {
+      return NextResponse.json(
+        { error: 'entries is required' },
+        { status: 400 }
+      );
+    }
+    if (rawEntries.length > MAX_ENTRIES_PER_REQUEST) {
+      return NextResponse.json(
+        { error: `At most ${MAX_ENTRIES_PER_REQUEST} entries per request` },
+        { status: 400 }
+      );
+    }
+
+    const entries: SuppressionEntry[] = [];
+    for (const raw of rawEntries) {
+      const entry = (typeof raw === 'string' ? { value: raw } : raw) as { value?: unknown; type?: unknown };
+      if (typeof entry?.value !== 'string' || !entry.value.trim()) continue;
+
+      entries.push({
+        type: isSuppressionType(entry.type) ? entry.type : detectSuppressionType(entry.value),
+        value: entry.value,
+        reason: 'manual',
+      });
+    }
+
+    const added = await addSuppressions(member.organizationId, entries);
+
+    return NextResponse.json({
+      success: true,
+      added,
+      skipped: rawEntries.length - added,
+    });
+  } catch (error) {
+    console.error('[suppressions] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to add suppressions' },
+      { status: 500 }
+    );
+  }
+}
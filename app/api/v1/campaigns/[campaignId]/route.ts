@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { authenticateApiKey } from '@/lib/services/apiKeys';
+import { getCampaignProgressFor } from '@/lib/services/progressStore';
+
+/**
+ * GET /api/v1/campaigns/[campaignId]
+ * 
+ * A campaign with its profile, personas and lead counts by status.
+ * While status is 'generating', `generation` reports progress; if it failed, status is
+ * 'error' and generation_error says why.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ campaignId: string }> }
+) {
+  try {
+    const auth = await authenticateApiKey(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: 'Invalid or missing API key' },
+        { status: 401 }
+      );
+    }
+
+    const { campaignId } = await params;
+    const supabase = createAdminClient();
+
+    const { data: campaign } = await supabase
+      .from('campaigns')
+      .select('id, slug, domain, company_name, website_url, status, emailbison_status, leads_purchased, generation_error, company_profile, icp_personas, persona_rankings, linkedin_filters, lead_sources, min_email_grade, created_at, updated_at')
+      .eq('id', campaignId)
+      .eq('organization_id', auth.organizationId)
+      .maybeSingle();
+
+    if (!campaign) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data: leadStatuses } = await supabase
+      .from('leads')
+      .select('status')
+      .eq('campaign_id', campaignId);
+
+    const leadCounts: Record<string, number> = {};
+    for (const lead of leadStatuses || []) {
+      const status = lead.status || 'unknown';
+      leadCounts[status] = (leadCounts[status] || 0) + 1;
+    }
+
+    let generation = null;
+    if (campaign.status === 'generating') {
+      const progress = await getCampaignProgressFor({ campaignId });
+      generation = progress
+        ? { status: progress.status, progress: progress.progress, message: progress.message, error: progress.error }
+        : null;
+    }
+
+    return NextResponse.json({
+      campaign,
+      leadCounts,
+      totalLeads: (leadStatuses || []).length,
+      generation,
+    });
+  } catch (error) {
+    console.error('[API/v1] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,217 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { authenticateApiKey } from '@/lib/services/apiKeys';
+import { generateCampaign, toCampaignRow } from '@/lib/services/campaignGenerator';
+import { getNextAvailableSlug } from '@/lib/services/campaignSlugs';
+import { parseLeadSources } from '@/lib/services/leadSources';
+import { extractCompanyName } from '@/lib/services/websiteScraper';
+import { ICPSettings } from '@/lib/types';
+import { domainToSlug } from '@/lib/utils/slugify';
+
+interface CreateCampaignRequest {
+  domain: string;
+  icpSettings?: ICPSettings;
+  salesNavigatorUrl?: string;
+  leadSources?: string[];
+}
+
+// Generation runs after the response (see POST)
+export const maxDuration = 300;
+
+// Columns returned for campaigns - the full row carries pipeline debug data
+const CAMPAIGN_COLUMNS = 'id, slug, domain, company_name, website_url, status, emailbison_status, leads_purchased, generation_error, created_at, updated_at';
+
+/**
+ * GET /api/v1/campaigns
+ * 
+ * List the organization's campaigns, newest first.
+ * Query: status, limit (max 100), offset
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateApiKey(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: 'Invalid or missing API key' },
+        { status: 401 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get('status');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 100);
+    const offset = parseInt(searchParams.get('offset') || '0', 10) || 0;
+
+    const supabase = createAdminClient();
+    let query = supabase
+      .from('campaigns')
+      .select(CAMPAIGN_COLUMNS, { count: 'exact' })
+      .eq('organization_id', auth.organizationId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data: campaigns, count, error } = await query;
+
+    if (error) {
+      console.error('[API/v1] Failed to list campaigns:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch campaigns' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ campaigns: campaigns || [], total: count || 0 });
+  } catch (error) {
+    console.error('[API/v1] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/v1/campaigns
+ * 
+ * Create a campaign from a domain. Returns 202 with the campaign as soon as it exists;
+ * generation (website analysis, personas, sample leads) runs after the response.
+ * Poll GET /api/v1/campaigns/[campaignId] until status is no longer 'generating' -
+ * 'draft' when it's ready, 'error' (with generation_error) if generation failed.
+ * 
+ * Body: { domain: string; icpSettings?: ICPSettings; salesNavigatorUrl?: string; leadSources?: string[] }
+ * leadSources picks the lead providers, e.g. ["ark", "apify"] - the deployment default when omitted.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateApiKey(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: 'Invalid or missing API key' },
+        { status: 401 }
+      );
+    }
+
+    const body: CreateCampaignRequest = await request.json().catch(() => ({}));
+    const { domain, icpSettings, salesNavigatorUrl } = body;
+
+    if (!domain || typeof domain !== 'string') {
+      return NextResponse.json(
+        { error: 'domain is required' },
+        { status: 400 }
+      );
+    }
+
+    const cleanDomain = domain.toLowerCase().trim().replace(/^https?:\/\//, '').replace(/^www\./, '').split('/')[0];
+    if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(cleanDomain)) {
+      return NextResponse.json(
+        { error: 'domain is not a valid domain name' },
+        { status: 400 }
+      );
+    }
+
+    const leadSources = body.leadSources === undefined ? [] : parseLeadSources(body.leadSources);
+    if (!leadSources) {
+      return NextResponse.json(
+        { error: 'leadSources must be a list of configured lead sources' },
+        { status: 400 }
+      );
+    }
+
+    const slug = await getNextAvailableSlug(domainToSlug(cleanDomain));
+    const campaignId = crypto.randomUUID();
+    const supabase = createAdminClient();
+
+    // Placeholder campaign, same as /api/campaigns/init - filled in once generation completes
+    const { data: campaign, error } = await supabase
+      .from('campaigns')
+      .insert({
+        id: campaignId,
+        slug,
+        domain: cleanDomain,
+        company_name: extractCompanyName(cleanDomain),
+        website_url: `https://${cleanDomain}`,
+        loom_video_url: '',
+        website_screenshot_url: '',
+        location: '',
+        helps_with: '',
+        great_at: '',
+        icp_attributes: [],
+        qualified_leads: [],
+        target_geo: { region: 'us' as const, states: [], cities: [] },
+        price_tier_1: 100,
+        price_tier_1_emails: 500,
+        price_tier_2: 399,
+        price_tier_2_emails: 2500,
+        lead_sources: leadSources.length > 0 ? leadSources : null,
+        organization_id: auth.organizationId,
+        status: 'generating',
+      })
+      .select(CAMPAIGN_COLUMNS)
+      .single();
+
+    if (error || !campaign) {
+      console.error('[API/v1] Failed to create placeholder campaign:', error);
+      return NextResponse.json(
+        { error: 'Failed to create campaign' },
+        { status: 500 }
+      );
+    }
+
+    console.log(`[API/v1] Creating campaign for ${cleanDomain} (slug: ${slug}, key: ${auth.apiKeyId})`);
+
+    after(async () => {
+      try {
+        const { campaign: campaignData } = await generateCampaign({
+          domain: cleanDomain,
+          slug,
+          icpSettings,
+          salesNavigatorUrl,
+          campaignId,
+        });
+
+        // Keep the placeholder's identity - the generator assigns its own ID and timestamps
+        const row = toCampaignRow(campaignData, cleanDomain);
+        const { error: updateError } = await supabase
+          .from('campaigns')
+          .update({
+            ...row,
+            id: campaignId,
+            created_at: undefined,
+            status: 'draft',
+          })
+          .eq('id', campaignId);
+
+        if (updateError) {
+          console.error(`[API/v1] Failed to save generated campaign ${campaignId}:`, updateError);
+        }
+      } catch (generationError) {
+        console.error(`[API/v1] Campaign generation failed for ${campaignId}:`, generationError);
+
+        // Otherwise the campaign would poll as 'generating' forever
+        const { error: updateError } = await supabase
+          .from('campaigns')
+          .update({
+            status: 'error',
+            generation_error: generationError instanceof Error ? generationError.message : 'Unknown error',
+          })
+          .eq('id', campaignId);
+
+        if (updateError) {
+          console.error(`[API/v1] Failed to mark campaign ${campaignId} as failed:`, updateError);
+        }
+      }
+    });
+
+    return NextResponse.json({ success: true, campaign }, { status: 202 });
+  } catch (error) {
+    console.error('[API/v1] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { authenticateApiKey } from '@/lib/services/apiKeys';
+import { sendInboxReply } from '@/lib/services/inboxReplies';
+
+/**
+ * POST /api/v1/inbox/[messageId]/reply
+ * 
+ * Reply to an inbound message through EmailBison.
+ * Body: { body: string; senderEmailId?: number } - senderEmailId defaults to the campaign's sender
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ messageId: string }> }
+) {
+  try {
+    const auth = await authenticateApiKey(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: 'Invalid or missing API key' },
+        { status: 401 }
+      );
+    }
+
+    const { messageId } = await params;
+    const { body: replyBody, senderEmailId } = await request.json().catch(() => ({}));
+
+    if (typeof replyBody !== 'string' || !replyBody.trim()) {
+      return NextResponse.json(
+        { error: 'body is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient();
+
+    // The admin client skips RLS - check the message belongs to the key's organization first
+    const { data: message } = await supabase
+      .from('inbox_messages')
+      .select('id, campaigns!inner(organization_id)')
+      .eq('id', messageId)
+      .eq('campaigns.organization_id', auth.organizationId)
+      .maybeSingle();
+
+    if (!message) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await sendInboxReply(supabase, messageId, replyBody, senderEmailId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.notFound ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result.outboundMessage,
+    });
+  } catch (error) {
+    console.error('[API/v1] Error sending reply:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to send reply',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
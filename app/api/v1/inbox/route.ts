@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { authenticateApiKey } from '@/lib/services/apiKeys';
+import { isReplyLabel } from '@/lib/services/agents';
+
+const MESSAGE_COLUMNS = 'id, campaign_id, lead_id, direction, subject, body, from_email, to_email, received_at, is_read, is_interested, reply_label, reply_confidence, emailbison_thread_id';
+
+/**
+ * GET /api/v1/inbox
+ * 
+ * List inbound replies across the organization's campaigns, newest first.
+ * Query: campaignId, label (reply classifier label), unreadOnly, interestedOnly,
+ * since (ISO timestamp - only replies received after it), limit (max 200), offset
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateApiKey(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: 'Invalid or missing API key' },
+        { status: 401 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const campaignId = searchParams.get('campaignId');
+    const label = searchParams.get('label');
+    const since = searchParams.get('since');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 200);
+    const offset = parseInt(searchParams.get('offset') || '0', 10) || 0;
+
+    if (since && isNaN(new Date(since).getTime())) {
+      return NextResponse.json(
+        { error: 'since must be an ISO timestamp' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient();
+
+    // Scope to the organization's campaigns
+    let campaignsQuery = supabase
+      .from('campaigns')
+      .select('id')
+      .eq('organization_id', auth.organizationId);
+
+    if (campaignId) {
+      campaignsQuery = campaignsQuery.eq('id', campaignId);
+    }
+
+    const { data: campaigns } = await campaignsQuery;
+    const campaignIds = (campaigns || []).map(c => c.id);
+
+    if (campaignId && campaignIds.length === 0) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      );
+    }
+    if (campaignIds.length === 0) {
+      return NextResponse.json({ messages: [], total: 0 });
+    }
+
+    let query = supabase
+      .from('inbox_messages')
+      .select(`${MESSAGE_COLUMNS}, leads (id, first_name, last_name, email, company, title)`, { count: 'exact' })
+      .in('campaign_id', campaignIds)
+      .eq('direction', 'inbound')
+      .order('received_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (searchParams.get('unreadOnly') === 'true') {
+      query = query.eq('is_read', false);
+    }
+    if (searchParams.get('interestedOnly') === 'true') {
+      query = query.eq('is_interested', true);
+    }
+    if (isReplyLabel(label)) {
+      query = query.eq('reply_label', label);
+    }
+    if (since) {
+      query = query.gt('received_at', new Date(since).toISOString());
+    }
+
+    const { data: messages, count, error } = await query;
+
+    if (error) {
+      console.error('[API/v1] Failed to list inbox messages:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch messages' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ messages: messages || [], total: count || 0 });
+  } catch (error) {
+    console.error('[API/v1] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { authenticateApiKey } from '@/lib/services/apiKeys';
+
+const LEAD_COLUMNS = 'id, campaign_id, first_name, last_name, title, company, email, email_grade, linkedin_url, location, status, why_picked, email_subject, email_body, lead_source, sent_at, opened_at, replied_at, created_at';
+
+/**
+ * GET /api/v1/leads
+ * 
+ * List leads across the organization's campaigns, newest first.
+ * Query: campaignId, status, limit (max 500), offset
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateApiKey(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: 'Invalid or missing API key' },
+        { status: 401 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const campaignId = searchParams.get('campaignId');
+    const status = searchParams.get('status');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100', 10) || 100, 500);
+    const offset = parseInt(searchParams.get('offset') || '0', 10) || 0;
+
+    const supabase = createAdminClient();
+
+    // Scope to the organization's campaigns
+    let campaignsQuery = supabase
+      .from('campaigns')
+      .select('id')
+      .eq('organization_id', auth.organizationId);
+
+    if (campaignId) {
+      campaignsQuery = campaignsQuery.eq('id', campaignId);
+    }
+
+    const { data: campaigns } = await campaignsQuery;
+    const campaignIds = (campaigns || []).map(c => c.id);
+
+    if (campaignId && campaignIds.length === 0) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      );
+    }
+    if (campaignIds.length === 0) {
+      return NextResponse.json({ leads: [], total: 0 });
+    }
+
+    let query = supabase
+      .from('leads')
+      .select(LEAD_COLUMNS, { count: 'exact' })
+      .in('campaign_id', campaignIds)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data: leads, count, error } = await query;
+
+    if (error) {
+      console.error('[API/v1] Failed to list leads:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch leads' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ leads: leads || [], total: count || 0 });
+  } catch (error) {
+    console.error('[API/v1] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
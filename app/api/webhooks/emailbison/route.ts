@@ -1,17 +1,50 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { handleEmailBisonWebhook } from '@/lib/services/emailbison/webhooks';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { handleEmailBisonWebhook, verifyEmailBisonWebhook } from '@/lib/services/emailbison/webhooks';
 import { EmailBisonWebhookPayload } from '@/lib/services/emailbison/types';
+import { classifyInboxMessage } from '@/lib/services/replyClassification';
 
 export async function POST(request: NextRequest) {
   try {
-    const payload: EmailBisonWebhookPayload = await request.json();
+    // Read the raw body - the signature is computed over the exact bytes EmailBison sent
+    const rawBody = await request.text();
+
+    if (!verifyEmailBisonWebhook(rawBody, request.headers, request.nextUrl.searchParams)) {
+      console.warn('[EmailBison Webhook] Rejected request with invalid or missing signature');
+      return NextResponse.json(
+        { error: 'Invalid signature' },
+        { status: 401 }
+      );
+    }
+
+    let payload: EmailBisonWebhookPayload;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON payload' },
+        { status: 400 }
+      );
+    }
 
     console.log('[EmailBison Webhook] Received event:', payload.event);
 
     // Handle the webhook
-    await handleEmailBisonWebhook(payload);
+    const { duplicate, inboxMessageId } = await handleEmailBisonWebhook(payload, rawBody);
 
-    return NextResponse.json({ success: true }, { status: 200 });
+    // Classify new replies once EmailBison has its response - the LLM call shouldn't hold up the webhook.
+    // A failure here leaves the message unclassified; POST /api/inbox/[messageId]/classify reruns it.
+    if (inboxMessageId) {
+      after(async () => {
+        try {
+          await classifyInboxMessage(inboxMessageId);
+        } catch (error) {
+          console.error(`[EmailBison Webhook] Failed to classify reply ${inboxMessageId}:`, error);
+        }
+      });
+    }
+
+    // Duplicates still return 200 so EmailBison stops retrying
+    return NextResponse.json({ success: true, duplicate }, { status: 200 });
   } catch (error) {
     console.error('Error processing EmailBison webhook:', error);
     return NextResponse.json(
@@ -25,4 +58,3 @@ export async function POST(request: NextRequest) {
 export async function GET() {
   return NextResponse.json({ status: 'ok' });
 }
-
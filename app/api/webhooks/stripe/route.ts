@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleStripeEvent, verifyStripeWebhook } from '@/lib/services/stripeWebhooks';
+
+/**
+ * POST /api/webhooks/stripe
+ * 
+ * Stripe webhook - the source of truth for fulfilment. Successful payments create the
+ * buyer's account, mark the campaign paid and queue lead generation here, whether or not
+ * the buyer's browser ever reaches /api/checkout/complete.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Read the raw body - the signature is computed over the exact bytes Stripe sent
+    const rawBody = await request.text();
+
+    const event = verifyStripeWebhook(rawBody, request.headers.get('stripe-signature'));
+    if (!event) {
+      console.warn('[Stripe Webhook] Rejected request with invalid or missing signature');
+      return NextResponse.json(
+        { error: 'Invalid signature' },
+        { status: 401 }
+      );
+    }
+
+    console.log(`[Stripe Webhook] Received event: ${event.type} (${event.id})`);
+
+    const { duplicate } = await handleStripeEvent(event, request.nextUrl.origin);
+
+    // Duplicates still return 200 so Stripe stops retrying
+    return NextResponse.json({ received: true, duplicate }, { status: 200 });
+  } catch (error) {
+    console.error('Error processing Stripe webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to process webhook' },
+      { status: 500 }
+    );
+  }
+}
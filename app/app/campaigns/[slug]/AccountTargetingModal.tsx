@@ -0,0 +1,163 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Building2, Loader2, X } from 'lucide-react';
+import {
+  DEFAULT_MAX_CONTACTS_PER_ACCOUNT,
+  MAX_CONTACTS_PER_ACCOUNT_LIMIT,
+  MAX_TARGET_ACCOUNTS,
+  parseTargetAccounts,
+} from '@/lib/services/accountTargeting';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  campaign: {
+    id: string;
+    company_name: string;
+    icp_personas: Array<{ id: string; name: string; titles?: string[] }> | null;
+    persona_rankings: { selectedPersonaId?: string } | null;
+  };
+}
+
+export default function AccountTargetingModal({ isOpen, onClose, campaign }: Props) {
+  const router = useRouter();
+  const [accountsText, setAccountsText] = useState('');
+  const [maxContacts, setMaxContacts] = useState(DEFAULT_MAX_CONTACTS_PER_ACCOUNT);
+  const [personaId, setPersonaId] = useState(campaign.persona_rankings?.selectedPersonaId || campaign.icp_personas?.[0]?.id || '');
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState('');
+
+  const accounts = useMemo(() => parseTargetAccounts(accountsText), [accountsText]);
+  const personas = campaign.icp_personas || [];
+  const persona = personas.find(p => p.id === personaId);
+  const tooMany = accounts.length > MAX_TARGET_ACCOUNTS;
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError('');
+    try {
+      const response = await fetch('/api/campaigns/accounts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          campaignId: campaign.id,
+          accounts,
+          maxContactsPerAccount: maxContacts,
+          personaId: personaId || undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to create campaign');
+        return;
+      }
+
+      router.push(`/app/campaigns/${data.campaign.slug}`);
+    } catch (err) {
+      console.error('Error creating account-based campaign:', err);
+      setError('Failed to create campaign');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
+          />
+
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="relative w-full max-w-lg bg-[var(--dash-bg)] border border-white/10 rounded-2xl p-6 shadow-2xl"
+          >
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-lg font-semibold text-white">Target named accounts</h2>
+              <button onClick={onClose} className="p-1.5 text-white/40 hover:text-white/70 transition-colors">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <p className="text-sm text-white/50 mb-6">
+              Creates a new campaign that finds decision-makers at these companies, with emails written from {campaign.company_name}&apos;s profile.
+            </p>
+
+            {/* Accounts */}
+            <div className="mb-6">
+              <label className="block text-sm text-white/50 mb-2">Companies (domains or names, one per line)</label>
+              <textarea
+                value={accountsText}
+                onChange={(e) => setAccountsText(e.target.value)}
+                rows={8}
+                placeholder={'acme.com\nglobex.io\nInitech'}
+                className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white text-sm font-mono outline-none focus:border-cyan-500/50 transition-colors resize-none"
+              />
+              <p className={`text-xs mt-1 ${tooMany ? 'text-amber-400' : 'text-white/40'}`}>
+                {accounts.length} account{accounts.length === 1 ? '' : 's'}
+                {tooMany && ` - at most ${MAX_TARGET_ACCOUNTS} per campaign`}
+              </p>
+            </div>
+
+            {/* Options */}
+            <div className="grid grid-cols-2 gap-3 mb-6">
+              {personas.length > 0 && (
+                <div>
+                  <label className="block text-sm text-white/50 mb-2">Persona</label>
+                  <select
+                    value={personaId}
+                    onChange={(e) => setPersonaId(e.target.value)}
+                    className="w-full px-4 py-2.5 bg-white/5 border border-white/10 rounded-xl text-white text-sm outline-none focus:border-cyan-500/50 transition-colors"
+                  >
+                    {personas.map(p => (
+                      <option key={p.id} value={p.id} className="bg-gray-900">{p.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm text-white/50 mb-2">Contacts per account</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_CONTACTS_PER_ACCOUNT_LIMIT}
+                  value={maxContacts}
+                  onChange={(e) => setMaxContacts(Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), MAX_CONTACTS_PER_ACCOUNT_LIMIT))}
+                  className="w-full px-4 py-2.5 bg-white/5 border border-white/10 rounded-xl text-white text-sm outline-none focus:border-cyan-500/50 transition-colors"
+                />
+              </div>
+            </div>
+            {persona?.titles && persona.titles.length > 0 && (
+              <p className="text-xs text-white/40 -mt-3 mb-6">
+                Searching for: {persona.titles.join(', ')}
+              </p>
+            )}
+
+            {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+            <button
+              onClick={handleCreate}
+              disabled={isCreating || accounts.length === 0 || tooMany}
+              className="w-full flex items-center justify-center gap-2 px-5 py-3 bg-cyan-500 text-white font-medium rounded-xl hover:bg-cyan-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isCreating ? <Loader2 className="w-5 h-5 animate-spin" /> : <Building2 className="w-5 h-5" />}
+              {isCreating ? 'Creating campaign...' : `Find up to ${accounts.length * maxContacts} contacts`}
+            </button>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
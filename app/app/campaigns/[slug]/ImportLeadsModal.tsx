@@ -0,0 +1,255 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FileUp, Loader2, Upload, X } from 'lucide-react';
+import {
+  guessLeadImportMapping,
+  LEAD_IMPORT_FIELDS,
+  LeadImportField,
+  LeadImportMapping,
+  mapImportRows,
+  MAX_IMPORT_ROWS,
+} from '@/lib/services/leadImport';
+import { parseCsv } from '@/lib/utils/csv';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  campaign: {
+    id: string;
+    company_name: string;
+    icp_personas: Array<{ id: string; name: string }> | null;
+    persona_rankings: { selectedPersonaId?: string } | null;
+  };
+}
+
+export default function ImportLeadsModal({ isOpen, onClose, campaign }: Props) {
+  const router = useRouter();
+  const [fileName, setFileName] = useState('');
+  const [csv, setCsv] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<LeadImportMapping>({});
+  const [enrichMissingEmails, setEnrichMissingEmails] = useState(true);
+  const [personaId, setPersonaId] = useState(campaign.persona_rankings?.selectedPersonaId || '');
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState('');
+
+  const headers = rows[0] || [];
+  const personas = campaign.icp_personas || [];
+
+  // Same mapping the server applies, so the counts here match what gets imported
+  const preview = useMemo(() => {
+    if (rows.length < 2) return null;
+    const { leads, rejected } = mapImportRows(rows.slice(1), mapping);
+    return {
+      leads: leads.length,
+      missingEmails: leads.filter(lead => !lead.email).length,
+      rejected,
+    };
+  }, [rows, mapping]);
+
+  const handleFile = async (file: File) => {
+    setError('');
+    const text = await file.text();
+    const parsed = parseCsv(text);
+
+    if (parsed.length < 2) {
+      setError('The file has no rows below the header');
+      return;
+    }
+
+    setFileName(file.name);
+    setCsv(text);
+    setRows(parsed);
+    setMapping(guessLeadImportMapping(parsed[0]));
+  };
+
+  const setFieldColumn = (field: LeadImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = parseInt(value, 10);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError('');
+    try {
+      const response = await fetch('/api/campaigns/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          campaignId: campaign.id,
+          csv,
+          mapping,
+          enrichMissingEmails,
+          personaId: personaId || undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Import failed');
+        return;
+      }
+
+      router.push(`/app/campaigns/${data.campaign.slug}`);
+    } catch (err) {
+      console.error('Error importing leads:', err);
+      setError('Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const hasName = mapping.first_name !== undefined || mapping.full_name !== undefined;
+  const tooMany = !!preview && preview.leads > MAX_IMPORT_ROWS;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
+          />
+
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="relative w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-[var(--dash-bg)] border border-white/10 rounded-2xl p-6 shadow-2xl"
+          >
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-lg font-semibold text-white">Import your own list</h2>
+              <button onClick={onClose} className="p-1.5 text-white/40 hover:text-white/70 transition-colors">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <p className="text-sm text-white/50 mb-6">
+              Creates a new campaign for these prospects, with emails written from {campaign.company_name}&apos;s profile.
+            </p>
+
+            {/* File */}
+            <label className="flex flex-col items-center justify-center gap-2 px-4 py-6 mb-6 border border-dashed border-white/20 rounded-xl text-white/60 hover:border-cyan-500/40 hover:text-white/80 transition-colors cursor-pointer">
+              <FileUp className="w-6 h-6" />
+              <span className="text-sm">
+                {fileName ? `${fileName} · ${rows.length - 1} rows` : 'Choose a CSV file'}
+              </span>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                }}
+              />
+            </label>
+
+            {headers.length > 0 && (
+              <>
+                {/* Column mapping */}
+                <div className="mb-6">
+                  <label className="block text-sm text-white/50 mb-2">Columns</label>
+                  <div className="grid grid-cols-2 gap-3">
+                    {LEAD_IMPORT_FIELDS.map(field => (
+                      <div key={field.key}>
+                        <span className="block text-xs text-white/40 mb-1">{field.label}</span>
+                        <select
+                          value={mapping[field.key] ?? ''}
+                          onChange={(e) => setFieldColumn(field.key, e.target.value)}
+                          className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm outline-none focus:border-cyan-500/50 transition-colors"
+                        >
+                          <option value="" className="bg-gray-900">Not mapped</option>
+                          {headers.map((header, i) => (
+                            <option key={i} value={i} className="bg-gray-900">{header || `Column ${i + 1}`}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Options */}
+                <div className="space-y-4 mb-6">
+                  {personas.length > 0 && (
+                    <div>
+                      <label className="block text-sm text-white/50 mb-2">Write for persona</label>
+                      <select
+                        value={personaId}
+                        onChange={(e) => setPersonaId(e.target.value)}
+                        className="w-full px-4 py-2.5 bg-white/5 border border-white/10 rounded-xl text-white text-sm outline-none focus:border-cyan-500/50 transition-colors"
+                      >
+                        {personas.map(persona => (
+                          <option key={persona.id} value={persona.id} className="bg-gray-900">{persona.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  <label className="flex items-center gap-2 text-sm text-white/70 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={enrichMissingEmails}
+                      onChange={(e) => setEnrichMissingEmails(e.target.checked)}
+                      className="w-4 h-4 rounded border-white/20 bg-white/5"
+                    />
+                    Find missing emails (by name and company)
+                  </label>
+                </div>
+
+                {/* Preview */}
+                {preview && (
+                  <div className="p-4 bg-white/5 border border-white/10 rounded-xl mb-6 text-sm">
+                    <p className="text-white/80">
+                      {preview.leads} lead{preview.leads === 1 ? '' : 's'} ready
+                      {preview.missingEmails > 0 && ` · ${preview.missingEmails} without an email${enrichMissingEmails ? " (we'll look them up)" : " (won't be sent)"}`}
+                    </p>
+                    {preview.rejected.length > 0 && (
+                      <div className="mt-2 text-white/40">
+                        <p>{preview.rejected.length} row{preview.rejected.length === 1 ? '' : 's'} skipped:</p>
+                        <ul className="mt-1 space-y-0.5">
+                          {preview.rejected.slice(0, 5).map(row => (
+                            <li key={row.line}>Row {row.line}: {row.reason}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    {tooMany && (
+                      <p className="mt-2 text-amber-400">
+                        Lists are limited to {MAX_IMPORT_ROWS.toLocaleString()} leads - split the file into several campaigns.
+                      </p>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+
+            {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+            <button
+              onClick={handleImport}
+              disabled={isImporting || !preview || preview.leads === 0 || !hasName || tooMany}
+              className="w-full flex items-center justify-center gap-2 px-5 py-3 bg-cyan-500 text-white font-medium rounded-xl hover:bg-cyan-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isImporting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Upload className="w-5 h-5" />}
+              {isImporting ? 'Creating campaign...' : `Create campaign${preview ? ` with ${preview.leads} leads` : ''}`}
+            </button>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
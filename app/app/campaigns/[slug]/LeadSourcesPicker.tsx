@@ -0,0 +1,93 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+
+interface LeadSourceOption {
+  id: string;
+  name: string;
+  configured: boolean;
+}
+
+interface Props {
+  campaignId: string;
+  disabled?: boolean;
+}
+
+/**
+ * Which providers the campaign finds leads with. None selected = the deployment default.
+ */
+export default function LeadSourcesPicker({ campaignId, disabled }: Props) {
+  const [options, setOptions] = useState<LeadSourceOption[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch(`/api/campaigns/settings?campaignId=${campaignId}`);
+        if (!response.ok) return;
+        const data = await response.json();
+        setOptions(data.availableLeadSources);
+        setSelected(data.leadSources);
+      } catch (fetchError) {
+        console.error('Error fetching campaign settings:', fetchError);
+      }
+    };
+
+    fetchSettings();
+  }, [campaignId]);
+
+  const toggle = async (id: string) => {
+    const previous = selected;
+    const next = selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id];
+    setSelected(next);
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/campaigns/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ campaignId, leadSources: next }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save lead sources');
+      }
+    } catch (err) {
+      setSelected(previous);
+      setError(err instanceof Error ? err.message : 'Failed to save lead sources');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (options.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+      <span className="text-white/40">Lead sources:</span>
+      {options.map(option => (
+        <button
+          key={option.id}
+          onClick={() => toggle(option.id)}
+          disabled={disabled || isSaving || !option.configured}
+          title={option.configured ? undefined : `${option.name} is not configured`}
+          className={`px-3 py-1 rounded-full transition-colors disabled:opacity-50 ${
+            selected.includes(option.id)
+              ? 'bg-cyan-500/20 text-cyan-400'
+              : 'bg-white/5 text-white/50 hover:bg-white/10'
+          }`}
+        >
+          {option.name}
+        </button>
+      ))}
+      {selected.length === 0 && <span className="text-white/30">(default)</span>}
+      {isSaving && <Loader2 className="w-3 h-3 text-white/40 animate-spin" />}
+      {error && <span className="text-red-400">{error}</span>}
+    </div>
+  );
+}
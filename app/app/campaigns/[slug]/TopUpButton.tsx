@@ -0,0 +1,88 @@
+'use client';
+
+import { useState } from 'react';
+import { loadStripe } from '@stripe/stripe-js';
+import { Loader2, Plus } from 'lucide-react';
+
+interface Props {
+  campaignId: string;
+  onTopUp: (leadsAdded: number) => void;
+}
+
+export default function TopUpButton({ campaignId, onTopUp }: Props) {
+  const [isBuying, setIsBuying] = useState(false);
+
+  const handleTopUp = async () => {
+    setIsBuying(true);
+    try {
+      // A top-up is the campaign's cheapest tier - /api/billing/top-up charges the same quote
+      const quoteResponse = await fetch('/api/checkout/quote', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ campaignId }),
+      });
+      const { quote, error } = await quoteResponse.json();
+
+      if (!quoteResponse.ok) {
+        alert(error || 'Failed to buy more leads');
+        return;
+      }
+
+      const price = `$${(quote.total / 100).toLocaleString()}`;
+      if (!confirm(`Charge the organization's saved card ${price} for ${quote.tier.emails} more leads? They're added to this campaign.`)) return;
+
+      const response = await fetch('/api/billing/top-up', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ campaignId }),
+      });
+      let data = await response.json();
+
+      if (!response.ok) {
+        alert(data.error || 'Failed to buy more leads');
+        return;
+      }
+
+      // The bank wants the buyer to authenticate before the charge goes through
+      if (data.status === 'requires_action') {
+        const stripe = await loadStripe(process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY!);
+        const result = await stripe?.handleNextAction({ clientSecret: data.clientSecret });
+
+        if (!result || result.error) {
+          alert(result?.error?.message || 'Payment was not completed');
+          return;
+        }
+
+        const completeResponse = await fetch('/api/billing/top-up/complete', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ paymentIntentId: data.paymentIntentId }),
+        });
+        data = await completeResponse.json();
+
+        if (!completeResponse.ok) {
+          alert(data.error || 'Failed to buy more leads');
+          return;
+        }
+      }
+
+      onTopUp(data.leadsAdded);
+    } catch (error) {
+      console.error('Error buying more leads:', error);
+      alert('Failed to buy more leads');
+    } finally {
+      setIsBuying(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleTopUp}
+      disabled={isBuying}
+      className="inline-flex items-center gap-2 px-4 py-2 bg-cyan-500 text-white text-sm rounded-lg hover:bg-cyan-400 transition-colors disabled:opacity-50"
+    >
+      {isBuying ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+      Buy more leads
+    </button>
+  );
+}
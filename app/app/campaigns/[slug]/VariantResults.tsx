@@ -0,0 +1,74 @@
+'use client';
+
+import { Trophy } from 'lucide-react';
+import {
+  EmailVariant,
+  MIN_SENT_FOR_WINNER,
+  pickWinningVariant,
+  summarizeVariants,
+  VariantLead,
+} from '@/lib/services/emailVariants';
+
+interface Props {
+  variants: EmailVariant[];
+  leads: VariantLead[];
+}
+
+const sourceLabels: Record<EmailVariant['source'], string> = {
+  pain_point: 'Pain point',
+  buying_trigger: 'Buying trigger',
+};
+
+function formatRate(rate: number, sent: number): string {
+  return sent > 0 ? `${(rate * 100).toFixed(1)}%` : '-';
+}
+
+export default function VariantResults({ variants, leads }: Props) {
+  const stats = summarizeVariants(variants, leads);
+  const winner = pickWinningVariant(stats);
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-xl overflow-hidden mb-8">
+      <div className="p-4 border-b border-white/10 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">A/B Variants</h3>
+        <span className="text-sm text-white/40">
+          {winner
+            ? `Variant ${winner.variantId} is winning`
+            : `Winner shown once every variant has ${MIN_SENT_FOR_WINNER} sends`}
+        </span>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-white/40 border-b border-white/10">
+            <th className="px-4 py-2 font-medium">Variant</th>
+            <th className="px-4 py-2 font-medium">Angle</th>
+            <th className="px-4 py-2 font-medium text-right">Leads</th>
+            <th className="px-4 py-2 font-medium text-right">Sent</th>
+            <th className="px-4 py-2 font-medium text-right">Open rate</th>
+            <th className="px-4 py-2 font-medium text-right">Reply rate</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stats.map((row, i) => (
+            <tr key={row.variantId} className="border-b border-white/5 last:border-0">
+              <td className="px-4 py-3 text-white font-medium">
+                <span className="flex items-center gap-1.5">
+                  {row.variantId}
+                  {winner?.variantId === row.variantId && <Trophy className="w-4 h-4 text-amber-400" />}
+                </span>
+              </td>
+              <td className="px-4 py-3">
+                <p className="text-white/80">{row.angle}</p>
+                <p className="text-white/40 text-xs">{sourceLabels[variants[i].source]}</p>
+              </td>
+              <td className="px-4 py-3 text-white/60 text-right">{row.leads}</td>
+              <td className="px-4 py-3 text-white/60 text-right">{row.sent}</td>
+              <td className="px-4 py-3 text-white/80 text-right">{formatRate(row.openRate, row.sent)}</td>
+              <td className="px-4 py-3 text-white/80 text-right">{formatRate(row.replyRate, row.sent)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
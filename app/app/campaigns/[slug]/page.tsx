@@ -17,7 +17,18 @@ import {
   Eye,
   MessageSquare,
   XCircle,
+  Ban,
+  AlertTriangle,
+  RotateCcw,
+  FileUp,
+  Building2,
 } from 'lucide-react';
+import ImportLeadsModal from './ImportLeadsModal';
+import AccountTargetingModal from './AccountTargetingModal';
+import TopUpButton from './TopUpButton';
+import LeadSourcesPicker from './LeadSourcesPicker';
+import VariantResults from './VariantResults';
+import type { EmailVariant } from '@/lib/services/emailVariants';
 
 interface Campaign {
   id: string;
@@ -30,6 +41,11 @@ interface Campaign {
   paid_at: string | null;
   icp_attributes: string[] | null;
   company_profile: Record<string, unknown> | null;
+  icp_personas: Array<{ id: string; name: string; titles?: string[] }> | null;
+  persona_rankings: { selectedPersonaId?: string } | null;
+  target_accounts: string[] | null;
+  max_contacts_per_account: number | null;
+  email_variants: EmailVariant[] | null;
 }
 
 interface Lead {
@@ -37,6 +53,7 @@ interface Lead {
   first_name: string;
   last_name: string;
   email: string | null;
+  email_grade: 'A' | 'B' | 'C' | 'D' | 'F' | null;
   title: string;
   company: string;
   linkedin_url: string | null;
@@ -45,16 +62,71 @@ interface Lead {
   why_picked: string | null;
   email_subject: string | null;
   email_body: string | null;
-  status: 'pending' | 'sent' | 'opened' | 'replied' | 'bounced';
+  email_sequence: Array<{
+    step: number;
+    emailSubject: string;
+    emailBody: string;
+    waitInDays: number;
+  }> | null;
+  copy_lint: {
+    issues: Array<{ rule: string; severity: 'error' | 'warning'; step: number; message: string }>;
+    attempts: number;
+    usedFallback: boolean;
+  } | null;
+  variant_id: string | null;
+  status: 'pending' | 'sent' | 'opened' | 'replied' | 'bounced' | 'suppressed' | 'undeliverable';
+  sent_at: string | null;
+  opened_at: string | null;
+  replied_at: string | null;
   created_at: string;
 }
 
+type JobStage = 'search' | 'enrich' | 'verify' | 'write' | 'insert' | 'upload';
+
+interface LeadGenerationJob {
+  id: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  stage: JobStage;
+  progress: { stage: JobStage; completed: number; total: number; message?: string } | null;
+  attempts: number;
+  maxAttempts: number;
+  error: string | null;
+  failedStage: JobStage | null;
+}
+
+interface SkippedLeadsSummary {
+  total: number;
+  suppressed: number;
+  duplicates: number;
+  undeliverable: number;
+  cooldownDays: number;
+}
+
+const jobStages: Array<{ id: JobStage; label: string }> = [
+  { id: 'search', label: 'Finding leads' },
+  { id: 'enrich', label: 'Finding emails' },
+  { id: 'verify', label: 'Verifying emails' },
+  { id: 'write', label: 'Writing emails' },
+  { id: 'insert', label: 'Saving leads' },
+  { id: 'upload', label: 'Launching campaign' },
+];
+
 const statusConfig = {
   pending: { label: 'Pending', icon: Clock, color: 'text-white/40', bg: 'bg-white/5' },
   sent: { label: 'Sent', icon: Send, color: 'text-sky-400', bg: 'bg-sky-500/10' },
   opened: { label: 'Opened', icon: Eye, color: 'text-amber-400', bg: 'bg-amber-500/10' },
   replied: { label: 'Replied', icon: MessageSquare, color: 'text-emerald-400', bg: 'bg-emerald-500/10' },
   bounced: { label: 'Bounced', icon: XCircle, color: 'text-red-400', bg: 'bg-red-500/10' },
+  suppressed: { label: 'Do Not Contact', icon: Ban, color: 'text-white/30', bg: 'bg-white/5' },
+  undeliverable: { label: 'Risky Email', icon: AlertTriangle, color: 'text-amber-400/70', bg: 'bg-amber-500/5' },
+};
+
+const emailGradeColors = {
+  A: 'bg-emerald-500/10 text-emerald-400',
+  B: 'bg-sky-500/10 text-sky-400',
+  C: 'bg-amber-500/10 text-amber-400',
+  D: 'bg-orange-500/10 text-orange-400',
+  F: 'bg-red-500/10 text-red-400',
 };
 
 export default function CampaignDetailPage() {
@@ -65,6 +137,13 @@ export default function CampaignDetailPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedLead, setSelectedLead] = useState<Lead | null>(null);
+  const [job, setJob] = useState<LeadGenerationJob | null>(null);
+  const [skippedLeads, setSkippedLeads] = useState<SkippedLeadsSummary | null>(null);
+  const [retryStage, setRetryStage] = useState<JobStage | ''>('');
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [retryError, setRetryError] = useState<string | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [showAccounts, setShowAccounts] = useState(false);
   const [stats, setStats] = useState({
     total: 0,
     sent: 0,
@@ -92,6 +171,20 @@ export default function CampaignDetailPage() {
 
       setCampaign(campaignData);
 
+      // Fetch lead generation job progress for paid campaigns and imported lists
+      if (campaignData.paid_at || campaignData.status === 'generating') {
+        try {
+          const response = await fetch(`/api/generate-leads?campaignId=${campaignData.id}`);
+          if (response.ok) {
+            const data = await response.json();
+            setJob(data.job);
+            setSkippedLeads(data.skippedLeads);
+          }
+        } catch (jobError) {
+          console.error('Error fetching lead generation job:', jobError);
+        }
+      }
+
       // Fetch leads for this campaign
       const { data: leadsData, error: leadsError } = await supabase
         .from('leads')
@@ -133,6 +226,33 @@ export default function CampaignDetailPage() {
     return () => clearInterval(interval);
   }, [slug, campaign?.status]);
 
+  const handleRetryJob = async () => {
+    if (!job) return;
+    setIsRetrying(true);
+    setRetryError(null);
+
+    try {
+      const response = await fetch(`/api/jobs/${job.id}/retry`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fromStage: retryStage || undefined }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to retry');
+      }
+
+      setJob({ ...job, status: 'queued', stage: data.job.stage, error: null, failedStage: null, attempts: 0 });
+      setCampaign(prev => prev ? { ...prev, status: 'generating' } : prev);
+      setRetryStage('');
+    } catch (err) {
+      setRetryError(err instanceof Error ? err.message : 'Failed to retry');
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -212,7 +332,13 @@ export default function CampaignDetailPage() {
             </h1>
             <p className="text-white/60">
               Created {new Date(campaign.created_at).toLocaleDateString()}
+              {campaign.target_accounts && campaign.target_accounts.length > 0 && (
+                <> · {campaign.target_accounts.length} target accounts, up to {campaign.max_contacts_per_account} contacts each</>
+              )}
             </p>
+            {campaign.company_profile && (
+              <LeadSourcesPicker campaignId={campaign.id} disabled={campaign.status === 'generating'} />
+            )}
           </div>
 
           <div className="flex items-center gap-3">
@@ -234,6 +360,35 @@ export default function CampaignDetailPage() {
                campaign.status.charAt(0).toUpperCase() + campaign.status.slice(1)}
             </span>
 
+            {campaign.paid_at && campaign.status !== 'generating' && (
+              <TopUpButton
+                campaignId={campaign.id}
+                onTopUp={(leadsAdded) => setCampaign(prev => prev ? {
+                  ...prev,
+                  status: 'generating',
+                  leads_purchased: prev.leads_purchased + leadsAdded,
+                } : prev)}
+              />
+            )}
+
+            {campaign.company_profile && (
+              <>
+                <button
+                  onClick={() => setShowAccounts(true)}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-white/10 text-white text-sm rounded-lg hover:bg-white/20 transition-colors"
+                >
+                  <Building2 className="w-4 h-4" />
+                  Target accounts
+                </button>
+                <button
+                  onClick={() => setShowImport(true)}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-white/10 text-white text-sm rounded-lg hover:bg-white/20 transition-colors"
+                >
+                  <FileUp className="w-4 h-4" />
+                  Import list
+                </button>
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -259,6 +414,52 @@ export default function CampaignDetailPage() {
                   {stats.total} / {campaign.leads_purchased}
                 </span>
               </div>
+              {job && job.status !== 'failed' && (
+                <p className="text-xs text-white/40 mt-3">
+                  Step {jobStages.findIndex(s => s.id === job.stage) + 1} of {jobStages.length}:{' '}
+                  {jobStages.find(s => s.id === job.stage)?.label}
+                  {job.progress && job.progress.total > 0 && ` (${job.progress.completed}/${job.progress.total})`}
+                  {job.attempts > 0 && ` · retry ${job.attempts}/${job.maxAttempts}`}
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Failed Lead Generation */}
+      {job?.status === 'failed' && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-6 mb-8">
+          <div className="flex items-start gap-4">
+            <AlertTriangle className="w-8 h-8 text-red-400 flex-shrink-0" />
+            <div className="flex-1">
+              <h3 className="text-lg font-semibold text-white mb-1">
+                Lead generation stopped at &ldquo;{jobStages.find(s => s.id === (job.failedStage || job.stage))?.label}&rdquo;
+              </h3>
+              <p className="text-white/60 text-sm mb-4">
+                {job.error || 'Something went wrong.'} Your progress so far is saved.
+              </p>
+              <div className="flex flex-wrap items-center gap-3">
+                <select
+                  value={retryStage}
+                  onChange={(e) => setRetryStage(e.target.value as JobStage | '')}
+                  className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-white focus:outline-none focus:border-cyan-500/50"
+                >
+                  <option value="">Resume where it stopped</option>
+                  {jobStages.map(s => (
+                    <option key={s.id} value={s.id}>Rerun from: {s.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleRetryJob}
+                  disabled={isRetrying}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors disabled:opacity-50"
+                >
+                  {isRetrying ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                  Retry
+                </button>
+              </div>
+              {retryError && <p className="text-sm text-red-400 mt-3">{retryError}</p>}
             </div>
           </div>
         </div>
@@ -282,13 +483,27 @@ export default function CampaignDetailPage() {
         ))}
       </div>
 
+      {/* A/B Variants */}
+      {campaign.email_variants && campaign.email_variants.length > 0 && (
+        <VariantResults variants={campaign.email_variants} leads={leads} />
+      )}
+
       {/* Two Column Layout: Leads List + Email Preview */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Leads List */}
         <div className="bg-white/5 border border-white/10 rounded-xl overflow-hidden">
           <div className="p-4 border-b border-white/10 flex items-center justify-between">
             <h3 className="text-lg font-semibold text-white">Leads</h3>
-            <span className="text-sm text-white/40">{leads.length} total</span>
+            <span className="text-sm text-white/40">
+              {leads.length} total
+              {skippedLeads && skippedLeads.total > 0 && (
+                <span
+                  title={`${skippedLeads.duplicates} already in your other campaigns (last ${skippedLeads.cooldownDays} days), ${skippedLeads.suppressed} on your Do Not Contact list, ${skippedLeads.undeliverable} with risky emails`}
+                >
+                  {' '}· {skippedLeads.total} skipped
+                </span>
+              )}
+            </span>
           </div>
 
           {leads.length === 0 ? (
@@ -377,11 +592,24 @@ export default function CampaignDetailPage() {
                     {selectedLead.email && (
                       <span className="text-white/40 ml-2">&lt;{selectedLead.email}&gt;</span>
                     )}
+                    {selectedLead.email_grade && (
+                      <span
+                        className={`ml-2 px-1.5 py-0.5 text-xs rounded ${emailGradeColors[selectedLead.email_grade]}`}
+                        title="Email deliverability grade"
+                      >
+                        {selectedLead.email_grade}
+                      </span>
+                    )}
                   </span>
                 </div>
                 <div className="flex items-center gap-3 text-sm">
                   <span className="text-white/40 w-12">Subject:</span>
                   <span className="text-white font-medium">{selectedLead.email_subject || 'No subject'}</span>
+                  {selectedLead.variant_id && (
+                    <span className="px-1.5 py-0.5 text-xs rounded bg-white/10 text-white/60" title="A/B variant">
+                      Variant {selectedLead.variant_id}
+                    </span>
+                  )}
                 </div>
               </div>
 
@@ -394,6 +622,53 @@ export default function CampaignDetailPage() {
                 </pre>
               </div>
 
+              {/* Copy check */}
+              {selectedLead.copy_lint && (
+                <div className="mt-4 p-4 bg-amber-500/10 border border-amber-500/20 rounded-lg">
+                  <p className="flex items-center gap-1.5 text-xs text-amber-400 font-semibold uppercase tracking-wider mb-1">
+                    <AlertTriangle className="w-3.5 h-3.5" />
+                    Copy check
+                  </p>
+                  {selectedLead.copy_lint.usedFallback && (
+                    <p className="text-white/70 text-sm mb-1">
+                      {selectedLead.copy_lint.issues.length > 0
+                        ? `The written copy failed our checks after ${selectedLead.copy_lint.attempts} attempts, so generic copy is used:`
+                        : 'The email writer failed for this lead, so generic copy is used.'}
+                    </p>
+                  )}
+                  <ul className="space-y-0.5">
+                    {selectedLead.copy_lint.issues.map((issue, i) => (
+                      <li key={i} className="text-white/60 text-sm">
+                        {issue.step === 1 ? 'Email' : `Follow-up ${issue.step - 1}`}: {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Follow-ups */}
+              {selectedLead.email_sequence && selectedLead.email_sequence.length > 0 && (
+                <div className="mt-6 space-y-4">
+                  {selectedLead.email_sequence.map((followUp) => (
+                    <div key={followUp.step}>
+                      <div className="flex items-center justify-between mb-2 text-xs">
+                        <span className="text-white/60 font-semibold uppercase tracking-wider">
+                          Follow-up {followUp.step - 1}
+                        </span>
+                        <span className="text-white/40">+{followUp.waitInDays} days</span>
+                      </div>
+                      <div className="bg-white/5 rounded-lg p-4">
+                        <pre className="text-white/80 text-sm whitespace-pre-wrap font-sans leading-relaxed">
+                          {followUp.emailBody
+                            .replace(/\{\{first_name\}\}/g, selectedLead.first_name)
+                            .replace(/\{\{company\}\}/g, selectedLead.company)}
+                        </pre>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Why Picked */}
               {selectedLead.why_picked && (
                 <div className="mt-6 p-4 bg-cyan-500/10 border border-cyan-500/20 rounded-lg">
@@ -491,6 +766,17 @@ export default function CampaignDetailPage() {
           </div>
         </div>
       </div>
+
+      <ImportLeadsModal
+        isOpen={showImport}
+        onClose={() => setShowImport(false)}
+        campaign={campaign}
+      />
+      <AccountTargetingModal
+        isOpen={showAccounts}
+        onClose={() => setShowAccounts(false)}
+        campaign={campaign}
+      />
     </div>
   );
 }
@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import Link from 'next/link';
 import { createClient } from '@/lib/supabase/client';
+import { findOrganizationMembership } from '@/lib/services/organizationRoles';
 import { 
   Plus, 
   Search, 
@@ -96,14 +97,10 @@ export default function CampaignsPage() {
         return;
       }
 
-      // Get organization
-      const { data: org } = await supabase
-        .from('organizations')
-        .select('id')
-        .eq('owner_id', user.id)
-        .single();
+      // Get organization (as owner or team member)
+      const membership = await findOrganizationMembership(supabase, user.id);
 
-      if (!org) {
+      if (!membership) {
         setLoading(false);
         return;
       }
@@ -112,7 +109,7 @@ export default function CampaignsPage() {
       const { data: campaignsData, error } = await supabase
         .from('campaigns')
         .select('id, slug, company_name, status, leads_purchased, created_at, updated_at')
-        .eq('organization_id', org.id)
+        .eq('organization_id', membership.organizationId)
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -14,9 +14,29 @@ import {
   Clock,
   Loader2,
   Send,
-  CheckCircle
+  CheckCircle,
+  Sparkles
 } from 'lucide-react';
 import { createClient } from '@/lib/supabase/client';
+import { findOrganizationMembership } from '@/lib/services/organizationRoles';
+
+type ReplyLabel = 'interested' | 'not_now' | 'wrong_person' | 'unsubscribe' | 'out_of_office' | 'objection';
+
+const replyLabelConfig: Record<ReplyLabel, { label: string; className: string }> = {
+  interested: { label: 'Interested', className: 'bg-emerald-500/20 text-emerald-400' },
+  not_now: { label: 'Not now', className: 'bg-sky-500/20 text-sky-400' },
+  wrong_person: { label: 'Referral', className: 'bg-violet-500/20 text-violet-400' },
+  objection: { label: 'Objection', className: 'bg-amber-500/20 text-amber-400' },
+  out_of_office: { label: 'Out of office', className: 'bg-white/10 text-white/50' },
+  unsubscribe: { label: 'Unsubscribe', className: 'bg-red-500/20 text-red-400' },
+};
+
+// Booking link offered in AI drafts, remembered per browser
+const MEETING_LINK_STORAGE_KEY = 'inbox-meeting-link';
+
+type InboxFilter = 'all' | 'unread' | ReplyLabel;
+
+const inboxFilters: InboxFilter[] = ['all', 'unread', 'interested', 'not_now', 'wrong_person', 'objection', 'out_of_office', 'unsubscribe'];
 
 interface InboxMessage {
   id: string;
@@ -29,6 +49,13 @@ interface InboxMessage {
   is_read: boolean;
   is_archived: boolean;
   is_interested: boolean | null;
+  reply_label: ReplyLabel | null;
+  reply_confidence: number | null;
+  reply_classification: {
+    reasoning?: string;
+    followUpHint?: string;
+    referral?: { name?: string; email?: string; title?: string };
+  } | null;
   emailbison_thread_id: string | null;
   leads: {
     id: string;
@@ -60,17 +87,22 @@ export default function InboxPage() {
   const [messages, setMessages] = useState<InboxMessage[]>([]);
   const [selectedMessage, setSelectedMessage] = useState<InboxMessage | null>(null);
   const [thread, setThread] = useState<ThreadMessage[]>([]);
-  const [filter, setFilter] = useState<'all' | 'unread' | 'interested'>('all');
+  const [filter, setFilter] = useState<InboxFilter>('all');
+  const [classifying, setClassifying] = useState(false);
   const [loading, setLoading] = useState(true);
   const [unreadCount, setUnreadCount] = useState(0);
   const [replying, setReplying] = useState(false);
   const [replyText, setReplyText] = useState('');
+  const [drafting, setDrafting] = useState(false);
+  const [draftReasoning, setDraftReasoning] = useState<string | null>(null);
+  const [meetingLink, setMeetingLink] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
   const [selectedCampaignId, setSelectedCampaignId] = useState<string | null>(null);
 
   useEffect(() => {
     fetchCampaigns();
+    setMeetingLink(localStorage.getItem(MEETING_LINK_STORAGE_KEY) || '');
   }, []);
 
   useEffect(() => {
@@ -80,9 +112,14 @@ export default function InboxPage() {
   const fetchCampaigns = async () => {
     try {
       const supabase = createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+      const membership = user ? await findOrganizationMembership(supabase, user.id) : null;
+      if (!membership) return;
+
       const { data } = await supabase
         .from('campaigns')
         .select('id, slug, company_name')
+        .eq('organization_id', membership.organizationId)
         .order('created_at', { ascending: false });
       
       if (data && data.length > 0) {
@@ -119,7 +156,10 @@ export default function InboxPage() {
       if (filter === 'unread') {
         params.append('unreadOnly', 'true');
       } else if (filter === 'interested') {
+        // Includes replies EmailBison flagged as interested before classification
         params.append('interestedOnly', 'true');
+      } else if (filter !== 'all') {
+        params.append('label', filter);
       }
 
       const response = await fetch(`/api/inbox?${params.toString()}`);
@@ -177,6 +217,65 @@ export default function InboxPage() {
     }
   };
 
+  const classifyMessage = async (messageId: string) => {
+    setClassifying(true);
+    try {
+      const response = await fetch(`/api/inbox/${messageId}/classify`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        console.error('Error classifying message:', data.error);
+        return;
+      }
+
+      const { label, confidence, reasoning, followUpHint, referral } = data.classification;
+      const update = {
+        reply_label: label,
+        reply_confidence: confidence,
+        reply_classification: { reasoning, followUpHint, referral },
+      };
+
+      setMessages(prev => prev.map(msg =>
+        msg.id === messageId ? { ...msg, ...update } : msg
+      ));
+
+      if (selectedMessage?.id === messageId) {
+        setSelectedMessage(prev => prev ? { ...prev, ...update } : null);
+      }
+    } catch (error) {
+      console.error('Error classifying message:', error);
+    } finally {
+      setClassifying(false);
+    }
+  };
+
+  const handleDraft = async () => {
+    if (!selectedMessage) return;
+
+    try {
+      setDrafting(true);
+      localStorage.setItem(MEETING_LINK_STORAGE_KEY, meetingLink.trim());
+
+      const response = await fetch(`/api/inbox/${selectedMessage.id}/draft`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ meetingLink: meetingLink.trim() || undefined }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setReplyText(data.draft);
+        setDraftReasoning(data.reasoning || null);
+      } else {
+        alert(data.error || 'Failed to draft reply');
+      }
+    } catch (error) {
+      console.error('Error drafting reply:', error);
+      alert('Failed to draft reply');
+    } finally {
+      setDrafting(false);
+    }
+  };
+
   const handleReply = async () => {
     if (!replyText.trim() || !selectedMessage) return;
 
@@ -190,6 +289,7 @@ export default function InboxPage() {
 
       if (response.ok) {
         setReplyText('');
+        setDraftReasoning(null);
         // Refresh thread to show the reply
         await fetchThread(selectedMessage.id);
       } else {
@@ -274,8 +374,8 @@ export default function InboxPage() {
           </div>
 
           {/* Filters */}
-          <div className="flex gap-2">
-            {(['all', 'unread', 'interested'] as const).map((f) => (
+          <div className="flex flex-wrap gap-2">
+            {inboxFilters.map((f) => (
               <button
                 key={f}
                 onClick={() => setFilter(f)}
@@ -285,7 +385,7 @@ export default function InboxPage() {
                     : 'text-white/40 hover:text-white/60'
                 }`}
               >
-                {f.charAt(0).toUpperCase() + f.slice(1)}
+                {f === 'all' || f === 'unread' ? f.charAt(0).toUpperCase() + f.slice(1) : replyLabelConfig[f].label}
                 {f === 'unread' && unreadCount > 0 && (
                   <span className="ml-1.5 px-1.5 py-0.5 bg-cyan-500/20 text-cyan-400 text-xs rounded-full">
                     {unreadCount}
@@ -345,6 +445,11 @@ export default function InboxPage() {
                           {message.is_interested && (
                             <CheckCircle className="w-3.5 h-3.5 text-emerald-400" />
                           )}
+                          {message.reply_label && message.reply_label !== 'interested' && (
+                            <span className={`px-1.5 py-0.5 rounded-full text-[10px] ${replyLabelConfig[message.reply_label].className}`}>
+                              {replyLabelConfig[message.reply_label].label}
+                            </span>
+                          )}
                         </div>
                         <span className="text-xs text-white/30">{formatTime(message.received_at)}</span>
                       </div>
@@ -390,7 +495,15 @@ export default function InboxPage() {
                       <h2 className="text-lg font-semibold text-white">
                         {lead ? `${lead.first_name} ${lead.last_name}` : 'Unknown'}
                       </h2>
-                      {selectedMessage.is_interested && (
+                      {selectedMessage.reply_label ? (
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-xs ${replyLabelConfig[selectedMessage.reply_label].className}`}
+                          title={selectedMessage.reply_classification?.reasoning}
+                        >
+                          {replyLabelConfig[selectedMessage.reply_label].label}
+                          {selectedMessage.reply_confidence !== null && ` · ${Math.round(selectedMessage.reply_confidence * 100)}%`}
+                        </span>
+                      ) : selectedMessage.is_interested && (
                         <span className="px-2 py-0.5 bg-emerald-500/20 text-emerald-400 rounded-full text-xs">
                           Interested
                         </span>
@@ -400,9 +513,29 @@ export default function InboxPage() {
                       {lead?.title} at {lead?.company}
                     </p>
                     <p className="text-sm text-white/40">{selectedMessage.from_email}</p>
+                    {selectedMessage.reply_classification?.followUpHint && (
+                      <p className="text-xs text-sky-400/70 mt-1">Follow up: {selectedMessage.reply_classification.followUpHint}</p>
+                    )}
+                    {selectedMessage.reply_classification?.referral && (
+                      <p className="text-xs text-violet-400/70 mt-1">
+                        Referred to {[
+                          selectedMessage.reply_classification.referral.name,
+                          selectedMessage.reply_classification.referral.title,
+                          selectedMessage.reply_classification.referral.email,
+                        ].filter(Boolean).join(' · ')}
+                      </p>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => classifyMessage(selectedMessage.id)}
+                    disabled={classifying}
+                    title={selectedMessage.reply_label ? 'Reclassify reply' : 'Classify reply'}
+                    className="p-2 text-white/40 hover:text-white/60 hover:bg-white/5 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {classifying ? <Loader2 className="w-5 h-5 animate-spin" /> : <Sparkles className="w-5 h-5" />}
+                  </button>
                   <button 
                     onClick={() => markAsRead(selectedMessage.id)}
                     className="p-2 text-white/40 hover:text-white/60 hover:bg-white/5 rounded-lg transition-colors"
@@ -471,6 +604,12 @@ export default function InboxPage() {
                   className="w-full p-4 bg-white/5 border border-white/10 rounded-xl text-white placeholder:text-white/30 outline-none focus:border-cyan-500/50 transition-colors resize-none mb-3"
                   rows={4}
                 />
+                {draftReasoning && (
+                  <p className="text-xs text-white/40 -mt-1 mb-3">
+                    <Sparkles className="w-3 h-3 inline mr-1" />
+                    {draftReasoning}
+                  </p>
+                )}
                 <div className="flex items-center gap-3">
                   <button
                     onClick={handleReply}
@@ -493,6 +632,23 @@ export default function InboxPage() {
                     <Forward className="w-4 h-4" />
                     Forward
                   </button>
+                  <div className="flex items-center gap-2 ml-auto">
+                    <input
+                      type="url"
+                      value={meetingLink}
+                      onChange={(e) => setMeetingLink(e.target.value)}
+                      placeholder="Meeting link (optional)"
+                      className="w-56 px-3 py-2.5 bg-white/5 border border-white/10 rounded-xl text-sm text-white placeholder:text-white/30 outline-none focus:border-cyan-500/50 transition-colors"
+                    />
+                    <button
+                      onClick={handleDraft}
+                      disabled={drafting}
+                      className="flex items-center gap-2 px-4 py-2.5 bg-white/5 text-white/70 font-medium rounded-xl hover:bg-white/10 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {drafting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                      {replyText.trim() ? 'Redraft' : 'Draft reply'}
+                    </button>
+                  </div>
                 </div>
               </div>
             </div>
@@ -0,0 +1,141 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Loader2, Users } from 'lucide-react';
+import { getRoleLabel, isOrganizationRole } from '@/lib/services/organizationRoles';
+import { createClient } from '@/lib/supabase/client';
+
+interface Invitation {
+  organizationName: string | null;
+  email: string;
+  role: string;
+  expiresAt: string;
+  status: 'pending' | 'accepted' | 'revoked' | 'expired';
+  signedInAs: string | null;
+}
+
+const STATUS_MESSAGES: Record<Exclude<Invitation['status'], 'pending'>, string> = {
+  accepted: 'This invitation has already been used.',
+  revoked: 'This invitation was revoked.',
+  expired: 'This invitation has expired. Ask for a new one.',
+};
+
+export default function AcceptInvitationPage() {
+  const params = useParams();
+  const token = params.token as string;
+  const router = useRouter();
+  const [invitation, setInvitation] = useState<Invitation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchInvitation = async () => {
+      try {
+        const response = await fetch(`/api/invitations/${token}`);
+        const data = await response.json();
+        if (!response.ok) {
+          setError(data.error || 'Invitation not found');
+          return;
+        }
+        setInvitation(data);
+      } catch (err) {
+        console.error('Error fetching invitation:', err);
+        setError('Failed to load invitation');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchInvitation();
+  }, [token]);
+
+  const handleAccept = async () => {
+    setIsAccepting(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/invitations/${token}`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to accept invitation');
+        return;
+      }
+
+      router.push('/app');
+    } catch (err) {
+      console.error('Error accepting invitation:', err);
+      setError('Failed to accept invitation');
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
+  const handleSwitchAccount = async () => {
+    await createClient().auth.signOut();
+    router.push(`/login?returnUrl=${encodeURIComponent(`/app/invitations/${token}`)}`);
+  };
+
+  const wrongAccount = !!invitation?.signedInAs && invitation.signedInAs.toLowerCase() !== invitation.email;
+
+  return (
+    <div className="min-h-screen p-8">
+      <div className="max-w-md mx-auto pt-24">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-white/[0.03] border border-white/10 rounded-2xl p-8 text-center"
+        >
+          <div className="w-16 h-16 rounded-2xl bg-gradient-to-br from-cyan-500/20 to-sky-500/20 flex items-center justify-center mx-auto mb-6 border border-cyan-500/20">
+            <Users className="w-8 h-8 text-cyan-400" />
+          </div>
+
+          {loading ? (
+            <Loader2 className="w-6 h-6 text-white/40 animate-spin mx-auto" />
+          ) : !invitation ? (
+            <p className="text-white/60">{error}</p>
+          ) : (
+            <>
+              <h1 className="text-2xl font-bold text-white mb-2">
+                Join {invitation.organizationName || 'the team'}
+              </h1>
+              <p className="text-white/50 mb-8">
+                You&apos;ve been invited as {isOrganizationRole(invitation.role) ? getRoleLabel(invitation.role) : invitation.role}.
+              </p>
+
+              {invitation.status !== 'pending' ? (
+                <p className="text-amber-400 text-sm">{STATUS_MESSAGES[invitation.status]}</p>
+              ) : wrongAccount ? (
+                <>
+                  <p className="text-sm text-white/60 mb-6">
+                    This invitation is for <strong className="text-white">{invitation.email}</strong>, but you&apos;re signed in as {invitation.signedInAs}.
+                  </p>
+                  <button
+                    onClick={handleSwitchAccount}
+                    className="w-full px-5 py-3 bg-white/10 text-white font-medium rounded-xl hover:bg-white/20 transition-colors"
+                  >
+                    Sign in as {invitation.email}
+                  </button>
+                </>
+              ) : (
+                <>
+                  {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+                  <button
+                    onClick={handleAccept}
+                    disabled={isAccepting}
+                    className="w-full flex items-center justify-center gap-2 px-5 py-3 bg-cyan-500 text-white font-medium rounded-xl hover:bg-cyan-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isAccepting && <Loader2 className="w-5 h-5 animate-spin" />}
+                    {isAccepting ? 'Joining...' : 'Accept invitation'}
+                  </button>
+                </>
+              )}
+            </>
+          )}
+        </motion.div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Download, FileSpreadsheet, FileText, Loader2, X } from 'lucide-react';
+import {
+  DEFAULT_LEAD_EXPORT_COLUMNS,
+  LEAD_EXPORT_COLUMNS,
+  LeadExportColumn,
+  LeadExportFormat,
+} from '@/lib/services/leadExport';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  campaigns: Array<{ id: string; company_name: string }>;
+  // When set, only these leads are exported
+  selectedLeadIds?: string[];
+}
+
+export default function ExportLeadsModal({ isOpen, onClose, campaigns, selectedLeadIds }: Props) {
+  const [format, setFormat] = useState<LeadExportFormat>('csv');
+  const [columns, setColumns] = useState<LeadExportColumn[]>(DEFAULT_LEAD_EXPORT_COLUMNS);
+  const [campaignId, setCampaignId] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  const hasSelection = !!selectedLeadIds && selectedLeadIds.length > 0;
+
+  const toggleColumn = (column: LeadExportColumn) => {
+    setColumns(prev =>
+      prev.includes(column) ? prev.filter(c => c !== column) : [...prev, column]
+    );
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError('');
+    try {
+      const response = await fetch('/api/leads/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          format,
+          columns,
+          ...(hasSelection ? { leadIds: selectedLeadIds } : campaignId ? { campaignId } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || 'Export failed');
+        return;
+      }
+
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || `leads.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      onClose();
+    } catch (err) {
+      console.error('Error exporting leads:', err);
+      setError('Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
+          />
+
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="relative w-full max-w-lg bg-[var(--dash-bg)] border border-white/10 rounded-2xl p-6 shadow-2xl"
+          >
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-lg font-semibold text-white">
+                Export {hasSelection ? `${selectedLeadIds.length} selected lead${selectedLeadIds.length > 1 ? 's' : ''}` : 'leads'}
+              </h2>
+              <button onClick={onClose} className="p-1.5 text-white/40 hover:text-white/70 transition-colors">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {/* Format */}
+            <div className="grid grid-cols-2 gap-3 mb-6">
+              {([
+                { value: 'csv', label: 'CSV', icon: FileText },
+                { value: 'xlsx', label: 'Excel (XLSX)', icon: FileSpreadsheet },
+              ] as const).map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setFormat(option.value)}
+                  className={`flex items-center gap-2 px-4 py-3 rounded-xl border text-sm font-medium transition-colors ${
+                    format === option.value
+                      ? 'bg-cyan-500/10 border-cyan-500/40 text-cyan-400'
+                      : 'bg-white/5 border-white/10 text-white/60 hover:text-white'
+                  }`}
+                >
+                  <option.icon className="w-4 h-4" />
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {/* Scope */}
+            {!hasSelection && campaigns.length > 1 && (
+              <div className="mb-6">
+                <label className="block text-sm text-white/50 mb-2">Campaign</label>
+                <select
+                  value={campaignId}
+                  onChange={(e) => setCampaignId(e.target.value)}
+                  className="w-full px-4 py-2.5 bg-white/5 border border-white/10 rounded-xl text-white text-sm outline-none focus:border-cyan-500/50 transition-colors"
+                >
+                  <option value="" className="bg-gray-900">All campaigns</option>
+                  {campaigns.map(campaign => (
+                    <option key={campaign.id} value={campaign.id} className="bg-gray-900">{campaign.company_name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Columns */}
+            <div className="mb-6">
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm text-white/50">Columns</label>
+                <button
+                  onClick={() => setColumns(columns.length === LEAD_EXPORT_COLUMNS.length ? [] : LEAD_EXPORT_COLUMNS.map(c => c.key))}
+                  className="text-xs text-cyan-400 hover:text-cyan-300 transition-colors"
+                >
+                  {columns.length === LEAD_EXPORT_COLUMNS.length ? 'Clear all' : 'Select all'}
+                </button>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {LEAD_EXPORT_COLUMNS.map(column => (
+                  <label key={column.key} className="flex items-center gap-2 text-sm text-white/70 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={columns.includes(column.key)}
+                      onChange={() => toggleColumn(column.key)}
+                      className="w-4 h-4 rounded border-white/20 bg-white/5"
+                    />
+                    {column.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+            <button
+              onClick={handleExport}
+              disabled={isExporting || columns.length === 0}
+              className="w-full flex items-center justify-center gap-2 px-5 py-3 bg-cyan-500 text-white font-medium rounded-xl hover:bg-cyan-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isExporting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Download className="w-5 h-5" />}
+              {isExporting ? 'Exporting...' : `Download ${format.toUpperCase()}`}
+            </button>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
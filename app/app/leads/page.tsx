@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { createClient } from '@/lib/supabase/client';
+import { findOrganizationMembership } from '@/lib/services/organizationRoles';
+import ExportLeadsModal from './ExportLeadsModal';
 import { 
   Search, 
   Filter,
@@ -14,6 +16,8 @@ import {
   MapPin,
   CheckCircle2,
   XCircle,
+  Ban,
+  AlertTriangle,
   Clock,
   Loader2,
   Send
@@ -28,7 +32,7 @@ interface Lead {
   company: string;
   location: string | null;
   linkedin_url: string | null;
-  status: 'pending' | 'sent' | 'opened' | 'replied' | 'bounced';
+  status: 'pending' | 'sent' | 'opened' | 'replied' | 'bounced' | 'suppressed' | 'undeliverable';
   campaign_id: string;
   campaign_name?: string;
   created_at: string;
@@ -65,6 +69,18 @@ const statusConfig = {
     bg: 'bg-red-500/10',
     text: 'text-red-400'
   },
+  suppressed: { 
+    label: 'Do Not Contact', 
+    icon: Ban,
+    bg: 'bg-white/5',
+    text: 'text-white/30'
+  },
+  undeliverable: { 
+    label: 'Risky Email', 
+    icon: AlertTriangle,
+    bg: 'bg-amber-500/5',
+    text: 'text-amber-400/70'
+  },
 };
 
 export default function LeadsPage() {
@@ -72,6 +88,8 @@ export default function LeadsPage() {
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<'all' | 'pending' | 'sent' | 'opened' | 'replied' | 'bounced'>('all');
   const [selectedLeads, setSelectedLeads] = useState<string[]>([]);
+  const [campaigns, setCampaigns] = useState<Array<{ id: string; company_name: string }>>([]);
+  const [exportScope, setExportScope] = useState<'all' | 'selected' | null>(null);
   const [statusCounts, setStatusCounts] = useState({
     pending: 0,
     sent: 0,
@@ -91,14 +109,10 @@ export default function LeadsPage() {
         return;
       }
 
-      // Get organization
-      const { data: org } = await supabase
-        .from('organizations')
-        .select('id')
-        .eq('owner_id', user.id)
-        .single();
+      // Get organization (as owner or team member)
+      const membership = await findOrganizationMembership(supabase, user.id);
 
-      if (!org) {
+      if (!membership) {
         setLoading(false);
         return;
       }
@@ -107,13 +121,14 @@ export default function LeadsPage() {
       const { data: campaigns } = await supabase
         .from('campaigns')
         .select('id, company_name')
-        .eq('organization_id', org.id);
+        .eq('organization_id', membership.organizationId);
 
       if (!campaigns || campaigns.length === 0) {
         setLoading(false);
         return;
       }
 
+      setCampaigns(campaigns);
       const campaignIds = campaigns.map(c => c.id);
       const campaignNames = Object.fromEntries(campaigns.map(c => [c.id, c.company_name]));
 
@@ -199,9 +214,12 @@ export default function LeadsPage() {
             {leads.length.toLocaleString()} total leads across all campaigns
           </p>
         </div>
-        <button className="flex items-center gap-2 px-5 py-3 bg-white/5 border border-white/10 text-white font-medium rounded-xl hover:bg-white/10 transition-colors">
+        <button
+          onClick={() => setExportScope('all')}
+          className="flex items-center gap-2 px-5 py-3 bg-white/5 border border-white/10 text-white font-medium rounded-xl hover:bg-white/10 transition-colors"
+        >
           <Download className="w-5 h-5" />
-          Export CSV
+          Export
         </button>
       </div>
 
@@ -273,7 +291,10 @@ export default function LeadsPage() {
             {selectedLeads.length} lead{selectedLeads.length > 1 ? 's' : ''} selected
           </span>
           <div className="flex items-center gap-2">
-            <button className="px-3 py-1.5 text-sm text-white/70 hover:text-white transition-colors">
+            <button
+              onClick={() => setExportScope('selected')}
+              className="px-3 py-1.5 text-sm text-white/70 hover:text-white transition-colors"
+            >
               Export
             </button>
             <button 
@@ -410,6 +431,13 @@ export default function LeadsPage() {
         })}
       </div>
       )}
+
+      <ExportLeadsModal
+        isOpen={exportScope !== null}
+        onClose={() => setExportScope(null)}
+        campaigns={campaigns}
+        selectedLeadIds={exportScope === 'selected' ? selectedLeads : undefined}
+      />
     </div>
   );
 }
@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { createClient } from '@/lib/supabase/client';
+import { findOrganizationMembership } from '@/lib/services/organizationRoles';
 import Link from 'next/link';
 import { 
   Mail, 
@@ -66,14 +67,10 @@ export default function DashboardPage() {
         return;
       }
 
-      // Get organization
-      const { data: org } = await supabase
-        .from('organizations')
-        .select('id')
-        .eq('owner_id', user.id)
-        .single();
+      // Get organization (as owner or team member)
+      const membership = await findOrganizationMembership(supabase, user.id);
 
-      if (!org) {
+      if (!membership) {
         setLoading(false);
         return;
       }
@@ -82,7 +79,7 @@ export default function DashboardPage() {
       const { data: campaigns } = await supabase
         .from('campaigns')
         .select('id, slug, company_name, status, created_at')
-        .eq('organization_id', org.id)
+        .eq('organization_id', membership.organizationId)
         .order('created_at', { ascending: false })
         .limit(5);
 
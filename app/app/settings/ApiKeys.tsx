@@ -0,0 +1,188 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Check, Copy, Key, Loader2, Plus, Trash2 } from 'lucide-react';
+
+interface ApiKey {
+  id: string;
+  name: string;
+  key_prefix: string;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+export default function ApiKeys() {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newKeyName, setNewKeyName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchApiKeys = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/api-keys');
+      if (response.ok) {
+        const data = await response.json();
+        setApiKeys(data.apiKeys);
+      }
+    } catch (error) {
+      console.error('Error fetching API keys:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchApiKeys();
+  }, [fetchApiKeys]);
+
+  const handleCreate = async () => {
+    if (!newKeyName.trim()) return;
+
+    setIsCreating(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newKeyName }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage(data.error || 'Failed to create API key');
+        return;
+      }
+
+      setCreatedSecret(data.secret);
+      setCopied(false);
+      setNewKeyName('');
+      setApiKeys(prev => [data.apiKey, ...prev]);
+    } catch (error) {
+      console.error('Error creating API key:', error);
+      setMessage('Failed to create API key');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdSecret) return;
+    await navigator.clipboard.writeText(createdSecret);
+    setCopied(true);
+  };
+
+  const handleRevoke = async (id: string) => {
+    if (!confirm('Revoke this key? Anything using it will stop working immediately.')) return;
+
+    const response = await fetch(`/api/api-keys/${id}`, { method: 'DELETE' });
+    if (response.ok) {
+      setApiKeys(prev => prev.map(key =>
+        key.id === id ? { ...key, revoked_at: new Date().toISOString() } : key
+      ));
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/[0.03] border border-white/10 rounded-2xl p-6"
+    >
+      <h2 className="text-lg font-semibold text-white mb-2">API Keys</h2>
+      <p className="text-white/50 mb-6">
+        Keys give full access to your organization&apos;s campaigns, leads and inbox through <code className="text-white/70">/api/v1</code>.
+      </p>
+
+      {createdSecret && (
+        <div className="p-4 bg-cyan-500/10 border border-cyan-500/20 rounded-xl mb-6">
+          <p className="text-sm text-cyan-300 mb-2">Copy your new key now - it won&apos;t be shown again.</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 px-3 py-2 bg-white/5 rounded-lg text-white text-sm font-mono break-all">
+              {createdSecret}
+            </code>
+            <button
+              onClick={handleCopy}
+              className="flex items-center gap-1.5 px-3 py-2 text-sm text-cyan-400 hover:text-cyan-300 transition-colors"
+            >
+              {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-5 h-5 text-white/40 animate-spin" />
+        </div>
+      ) : apiKeys.length === 0 ? (
+        <div className="flex flex-col items-center py-8 text-white/40">
+          <Key className="w-6 h-6 mb-2" />
+          <p className="text-sm">No API keys yet</p>
+        </div>
+      ) : (
+        <div className="space-y-3 mb-6">
+          {apiKeys.map((apiKey) => (
+            <div
+              key={apiKey.id}
+              className={`p-4 bg-white/5 border border-white/10 rounded-xl ${apiKey.revoked_at ? 'opacity-50' : ''}`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-medium text-white">{apiKey.name}</span>
+                <span className="text-xs text-white/40">
+                  {apiKey.revoked_at
+                    ? `Revoked ${formatDate(apiKey.revoked_at)}`
+                    : `Created ${formatDate(apiKey.created_at)}${apiKey.last_used_at ? ` · Last used ${formatDate(apiKey.last_used_at)}` : ''}`}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 px-3 py-2 bg-white/5 rounded-lg text-white/60 text-sm font-mono">
+                  {apiKey.key_prefix}••••••••••••••••
+                </code>
+                {!apiKey.revoked_at && (
+                  <button
+                    onClick={() => handleRevoke(apiKey.id)}
+                    className="p-2 text-white/30 hover:text-red-400 transition-colors"
+                    title="Revoke"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <input
+          type="text"
+          value={newKeyName}
+          onChange={(e) => setNewKeyName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          placeholder="Key name, e.g. HubSpot sync"
+          className="flex-1 px-4 py-2.5 bg-white/5 border border-white/10 rounded-xl text-white text-sm outline-none focus:border-cyan-500/50 transition-colors"
+        />
+        <button
+          onClick={handleCreate}
+          disabled={isCreating || !newKeyName.trim()}
+          className="flex items-center gap-2 px-4 py-2.5 bg-white/5 border border-white/10 text-white/70 text-sm font-medium rounded-xl hover:bg-white/10 transition-colors disabled:opacity-50"
+        >
+          {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          Generate New Key
+        </button>
+      </div>
+      {message && <p className="text-sm text-red-400 mt-3">{message}</p>}
+    </motion.div>
+  );
+}
@@ -0,0 +1,364 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Coins, CreditCard, ExternalLink, FileText, Loader2 } from 'lucide-react';
+
+interface PaymentMethod {
+  id: string;
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+  isDefault: boolean;
+}
+
+interface Receipt {
+  id: string;
+  amount: number;
+  currency: string;
+  description: string | null;
+  status: string;
+  refunded: boolean;
+  receiptUrl: string | null;
+  created: string;
+}
+
+interface SubscriptionPlan {
+  id: string;
+  name: string;
+  description: string | null;
+  monthlyCredits: number;
+  maxRolloverCredits: number | null;
+}
+
+interface Subscription {
+  status: string;
+  planId: string | null;
+  currentPeriodEnd: string | null;
+  cancelAtPeriodEnd: boolean;
+}
+
+interface CreditEntry {
+  id: string;
+  amount: number;
+  reason: string;
+  campaignId: string | null;
+  createdAt: string;
+}
+
+const CREDIT_REASON_LABELS: Record<string, string> = {
+  grant: 'Monthly credits',
+  rollover_expiry: 'Expired (over rollover limit)',
+  campaign: 'Campaign launched',
+  adjustment: 'Adjustment',
+};
+
+// Matches LIVE_STATUSES in lib/services/subscriptions.ts
+const LIVE_SUBSCRIPTION_STATUSES = ['active', 'trialing', 'past_due'];
+
+function describeRollover(plan: SubscriptionPlan): string {
+  if (plan.maxRolloverCredits === null) return 'Unused credits roll over';
+  if (plan.maxRolloverCredits === 0) return 'Credits reset monthly';
+  return `Up to ${plan.maxRolloverCredits.toLocaleString()} unused credits roll over`;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase() }).format(amount / 100);
+}
+
+export default function Billing() {
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [receipts, setReceipts] = useState<Receipt[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isOpeningPortal, setIsOpeningPortal] = useState(false);
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+  const [subscription, setSubscription] = useState<Subscription | null>(null);
+  const [creditBalance, setCreditBalance] = useState(0);
+  const [creditLedger, setCreditLedger] = useState<CreditEntry[]>([]);
+  const [subscribingPlanId, setSubscribingPlanId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchBilling = async () => {
+      try {
+        const [billingResponse, subscriptionResponse, creditsResponse] = await Promise.all([
+          fetch('/api/billing'),
+          fetch('/api/billing/subscription'),
+          fetch('/api/billing/credits'),
+        ]);
+        const [data, subscriptionData, creditsData] = await Promise.all([
+          billingResponse.json(),
+          subscriptionResponse.json(),
+          creditsResponse.json(),
+        ]);
+        if (!billingResponse.ok) {
+          setError(data.error || 'Failed to load billing details');
+          return;
+        }
+        setPaymentMethods(data.paymentMethods);
+        setReceipts(data.receipts);
+
+        if (subscriptionResponse.ok) {
+          setPlans(subscriptionData.plans);
+          setSubscription(subscriptionData.subscription);
+        }
+        if (creditsResponse.ok) {
+          setCreditBalance(creditsData.balance);
+          setCreditLedger(creditsData.ledger);
+        }
+      } catch (err) {
+        console.error('Error fetching billing details:', err);
+        setError('Failed to load billing details');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBilling();
+  }, []);
+
+  const handleOpenPortal = async () => {
+    setIsOpeningPortal(true);
+    try {
+      const response = await fetch('/api/billing/portal', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to open billing portal');
+        return;
+      }
+      window.location.href = data.url;
+    } catch (err) {
+      console.error('Error opening billing portal:', err);
+      setError('Failed to open billing portal');
+    } finally {
+      setIsOpeningPortal(false);
+    }
+  };
+
+  const handleSubscribe = async (planId: string) => {
+    setSubscribingPlanId(planId);
+    try {
+      const response = await fetch('/api/billing/subscription', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ planId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Failed to start subscription');
+        return;
+      }
+      window.location.href = data.url;
+    } catch (err) {
+      console.error('Error starting subscription:', err);
+      alert('Failed to start subscription');
+    } finally {
+      setSubscribingPlanId(null);
+    }
+  };
+
+  const isSubscribed = !!subscription && LIVE_SUBSCRIPTION_STATUSES.includes(subscription.status);
+  const currentPlan = isSubscribed ? plans.find(plan => plan.id === subscription.planId) : undefined;
+
+  const portalButton = (label: string) => (
+    <button
+      onClick={handleOpenPortal}
+      disabled={isOpeningPortal}
+      className="flex items-center gap-1.5 text-sm text-cyan-400 hover:text-cyan-300 transition-colors disabled:opacity-50"
+    >
+      {isOpeningPortal ? <Loader2 className="w-4 h-4 animate-spin" /> : <ExternalLink className="w-4 h-4" />}
+      {label}
+    </button>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-6"
+    >
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-5 h-5 text-white/40 animate-spin" />
+        </div>
+      ) : error ? (
+        <div className="bg-white/[0.03] border border-white/10 rounded-2xl p-6">
+          <p className="text-sm text-white/50">{error}</p>
+        </div>
+      ) : (
+        <>
+          <div className="bg-white/[0.03] border border-white/10 rounded-2xl p-6">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-lg font-semibold text-white">Current Plan</h2>
+              {isSubscribed && portalButton('Change plan')}
+            </div>
+
+            {isSubscribed ? (
+              <div className="flex items-center justify-between p-4 bg-cyan-500/10 border border-cyan-500/20 rounded-xl">
+                <div>
+                  <p className="font-semibold text-white">{currentPlan?.name || 'Subscription'}</p>
+                  <p className="text-sm text-white/50">
+                    {currentPlan && `${currentPlan.monthlyCredits.toLocaleString()} lead credits a month • ${describeRollover(currentPlan)}`}
+                  </p>
+                  {subscription.currentPeriodEnd && (
+                    <p className="text-xs text-white/40 mt-1">
+                      {subscription.cancelAtPeriodEnd ? 'Ends' : 'Renews'} {formatDate(subscription.currentPeriodEnd)}
+                    </p>
+                  )}
+                </div>
+                <span className="px-3 py-1 bg-cyan-500/20 text-cyan-400 text-sm font-medium rounded-full capitalize">
+                  {subscription.status.replace('_', ' ')}
+                </span>
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center justify-between p-4 bg-cyan-500/10 border border-cyan-500/20 rounded-xl">
+                  <div>
+                    <p className="font-semibold text-white">Pay Per Campaign</p>
+                    <p className="text-sm text-white/50">No monthly fees • Pay only when you launch</p>
+                  </div>
+                  <span className="px-3 py-1 bg-cyan-500/20 text-cyan-400 text-sm font-medium rounded-full">
+                    Active
+                  </span>
+                </div>
+
+                {plans.length > 0 && (
+                  <div className="grid gap-3 sm:grid-cols-2 mt-4">
+                    {plans.map((plan) => (
+                      <div key={plan.id} className="p-4 bg-white/5 border border-white/10 rounded-xl">
+                        <p className="font-medium text-white">{plan.name}</p>
+                        <p className="text-sm text-white/50 mb-1">
+                          {plan.monthlyCredits.toLocaleString()} lead credits a month
+                        </p>
+                        <p className="text-xs text-white/40 mb-4">{plan.description || describeRollover(plan)}</p>
+                        <button
+                          onClick={() => handleSubscribe(plan.id)}
+                          disabled={subscribingPlanId !== null}
+                          className="flex items-center gap-2 px-4 py-2 bg-cyan-500 text-white text-sm rounded-lg hover:bg-cyan-400 transition-colors disabled:opacity-50"
+                        >
+                          {subscribingPlanId === plan.id && <Loader2 className="w-4 h-4 animate-spin" />}
+                          Subscribe
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          {(isSubscribed || creditLedger.length > 0) && (
+            <div className="bg-white/[0.03] border border-white/10 rounded-2xl p-6">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-lg font-semibold text-white">Lead Credits</h2>
+                <span className="flex items-center gap-1.5 text-sm text-white">
+                  <Coins className="w-4 h-4 text-cyan-400" />
+                  {creditBalance.toLocaleString()} available
+                </span>
+              </div>
+
+              {creditLedger.length === 0 ? (
+                <p className="text-sm text-white/40">
+                  Credits arrive when your first invoice is paid. Each credit is one lead in a campaign.
+                </p>
+              ) : (
+                <div className="divide-y divide-white/5">
+                  {creditLedger.map((entry) => (
+                    <div key={entry.id} className="flex items-center gap-4 py-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-white truncate">{CREDIT_REASON_LABELS[entry.reason] || entry.reason}</p>
+                        <p className="text-xs text-white/40">{formatDate(entry.createdAt)}</p>
+                      </div>
+                      <span className={`text-sm ${entry.amount > 0 ? 'text-emerald-400' : 'text-white/70'}`}>
+                        {entry.amount > 0 ? '+' : ''}{entry.amount.toLocaleString()}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="bg-white/[0.03] border border-white/10 rounded-2xl p-6">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-lg font-semibold text-white">Payment Method</h2>
+              {portalButton(paymentMethods.length > 0 ? 'Update' : 'Add card')}
+            </div>
+
+            {paymentMethods.length === 0 ? (
+              <p className="text-sm text-white/40">
+                No saved card yet. The card you pay for a campaign with is saved for top-ups.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {paymentMethods.map((method) => (
+                  <div key={method.id} className="flex items-center justify-between p-4 bg-white/5 border border-white/10 rounded-xl">
+                    <div className="flex items-center gap-4">
+                      <div className="w-12 h-8 bg-white/10 rounded flex items-center justify-center text-white/60">
+                        <CreditCard className="w-5 h-5" />
+                      </div>
+                      <div>
+                        <p className="font-medium text-white capitalize">{method.brand} •••• {method.last4}</p>
+                        <p className="text-sm text-white/40">
+                          Expires {String(method.expMonth).padStart(2, '0')}/{String(method.expYear).slice(-2)}
+                        </p>
+                      </div>
+                    </div>
+                    {method.isDefault && (
+                      <span className="px-2 py-0.5 bg-white/10 text-white/60 text-xs rounded-full">Default</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white/[0.03] border border-white/10 rounded-2xl p-6">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-lg font-semibold text-white">Payment History</h2>
+              {receipts.length > 0 && portalButton('Invoices')}
+            </div>
+
+            {receipts.length === 0 ? (
+              <div className="flex flex-col items-center py-8 text-white/40">
+                <FileText className="w-6 h-6 mb-2" />
+                <p className="text-sm">No payments yet</p>
+              </div>
+            ) : (
+              <div className="divide-y divide-white/5">
+                {receipts.map((receipt) => (
+                  <div key={receipt.id} className="flex items-center gap-4 py-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-white truncate">{receipt.description || 'Payment'}</p>
+                      <p className="text-xs text-white/40">{formatDate(receipt.created)}</p>
+                    </div>
+                    <span className="text-sm text-white/70">
+                      {formatAmount(receipt.amount, receipt.currency)}
+                      {receipt.refunded && <span className="text-white/40"> (refunded)</span>}
+                      {receipt.status === 'failed' && <span className="text-red-400"> (failed)</span>}
+                    </span>
+                    {receipt.receiptUrl && (
+                      <a
+                        href={receipt.receiptUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-sm text-cyan-400 hover:text-cyan-300 transition-colors"
+                      >
+                        Receipt
+                      </a>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,185 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Ban, Loader2, Plus, Search, Trash2 } from 'lucide-react';
+
+interface Suppression {
+  id: string;
+  type: 'email' | 'domain' | 'linkedin_url';
+  value: string;
+  reason: 'unsubscribed' | 'bounced' | 'manual';
+  created_at: string;
+}
+
+const typeLabels: Record<Suppression['type'], string> = {
+  email: 'Email',
+  domain: 'Domain',
+  linkedin_url: 'LinkedIn',
+};
+
+const reasonConfig: Record<Suppression['reason'], { label: string; className: string }> = {
+  unsubscribed: { label: 'Unsubscribed', className: 'bg-amber-500/10 text-amber-400' },
+  bounced: { label: 'Bounced', className: 'bg-red-500/10 text-red-400' },
+  manual: { label: 'Manual', className: 'bg-white/5 text-white/50' },
+};
+
+export default function SuppressionList() {
+  const [suppressions, setSuppressions] = useState<Suppression[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [newEntries, setNewEntries] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchSuppressions = useCallback(async (query: string) => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: '100' });
+      if (query) params.set('search', query);
+
+      const response = await fetch(`/api/suppressions?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setSuppressions(data.suppressions);
+        setTotal(data.total);
+      }
+    } catch (error) {
+      console.error('Error fetching suppressions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => fetchSuppressions(search), 300);
+    return () => clearTimeout(timeout);
+  }, [search, fetchSuppressions]);
+
+  const handleAdd = async () => {
+    const entries = newEntries
+      .split(/[\n,;]+/)
+      .map(value => value.trim())
+      .filter(Boolean);
+    if (entries.length === 0) return;
+
+    setIsAdding(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/suppressions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ entries }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage(data.error || 'Failed to add entries');
+        return;
+      }
+
+      setMessage(`Added ${data.added} ${data.added === 1 ? 'entry' : 'entries'}${data.skipped ? ` (${data.skipped} skipped)` : ''}`);
+      setNewEntries('');
+      fetchSuppressions(search);
+    } catch (error) {
+      console.error('Error adding suppressions:', error);
+      setMessage('Failed to add entries');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    const response = await fetch(`/api/suppressions/${id}`, { method: 'DELETE' });
+    if (response.ok) {
+      setSuppressions(prev => prev.filter(s => s.id !== id));
+      setTotal(prev => prev - 1);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-6"
+    >
+      <div className="bg-white/[0.03] border border-white/10 rounded-2xl p-6">
+        <h2 className="text-lg font-semibold text-white mb-2">Do Not Contact</h2>
+        <p className="text-white/50 mb-6">
+          People and companies on this list are never added to a campaign. Unsubscribes and bounces are added automatically.
+        </p>
+
+        <textarea
+          value={newEntries}
+          onChange={(e) => setNewEntries(e.target.value)}
+          rows={4}
+          placeholder={'jane@acme.com\nacme.com\nhttps://www.linkedin.com/in/janedoe'}
+          className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white text-sm font-mono outline-none focus:border-cyan-500/50 transition-colors resize-none"
+        />
+        <div className="flex items-center justify-between mt-3">
+          <p className="text-sm text-white/40">{message || 'One email, domain or LinkedIn URL per line'}</p>
+          <button
+            onClick={handleAdd}
+            disabled={isAdding || !newEntries.trim()}
+            className="flex items-center gap-2 px-4 py-2.5 bg-white/5 border border-white/10 text-white/70 text-sm font-medium rounded-xl hover:bg-white/10 transition-colors disabled:opacity-50"
+          >
+            {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Add to List
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white/[0.03] border border-white/10 rounded-2xl p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-white">
+            Suppressed <span className="text-white/40 font-normal">({total})</span>
+          </h2>
+          <div className="relative">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-white/30" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search"
+              className="pl-9 pr-4 py-2 bg-white/5 border border-white/10 rounded-xl text-white text-sm outline-none focus:border-cyan-500/50 transition-colors"
+            />
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-5 h-5 text-white/40 animate-spin" />
+          </div>
+        ) : suppressions.length === 0 ? (
+          <div className="flex flex-col items-center py-8 text-white/40">
+            <Ban className="w-6 h-6 mb-2" />
+            <p className="text-sm">No entries</p>
+          </div>
+        ) : (
+          <div>
+            {suppressions.map((suppression) => (
+              <div
+                key={suppression.id}
+                className="flex items-center gap-4 py-3 border-b border-white/5 last:border-0"
+              >
+                <span className="w-20 shrink-0 text-xs text-white/40">{typeLabels[suppression.type]}</span>
+                <span className="flex-1 text-sm text-white truncate font-mono">{suppression.value}</span>
+                <span className={`px-2 py-0.5 text-xs rounded-full ${reasonConfig[suppression.reason].className}`}>
+                  {reasonConfig[suppression.reason].label}
+                </span>
+                <button
+                  onClick={() => handleRemove(suppression.id)}
+                  className="p-1.5 text-white/30 hover:text-red-400 transition-colors"
+                  title="Remove"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,295 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Check, Copy, Loader2, Mail, Trash2, UserPlus, Users } from 'lucide-react';
+import {
+  getRoleLabel,
+  isOrganizationRole,
+  ORGANIZATION_ROLES,
+  OrganizationRole,
+} from '@/lib/services/organizationRoles';
+
+interface Member {
+  user_id: string;
+  email: string | null;
+  role: string;
+  created_at: string;
+}
+
+interface Invitation {
+  id: string;
+  email: string;
+  role: string;
+  created_at: string;
+  expires_at: string;
+}
+
+// Roles that can be given through settings - there's only ever one owner
+const ASSIGNABLE_ROLES = ORGANIZATION_ROLES.filter(role => role.key !== 'owner');
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function roleLabel(role: string): string {
+  return isOrganizationRole(role) ? getRoleLabel(role) : role;
+}
+
+export default function TeamMembers() {
+  const [members, setMembers] = useState<Member[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [canManage, setCanManage] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<OrganizationRole>('sdr');
+  const [isInviting, setIsInviting] = useState(false);
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchMembers = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/organization/members');
+      if (response.ok) {
+        const data = await response.json();
+        setMembers(data.members);
+        setInvitations(data.invitations);
+        setUserId(data.userId);
+        setCanManage(data.canManage);
+      }
+    } catch (error) {
+      console.error('Error fetching team members:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const handleInvite = async () => {
+    if (!email.trim()) return;
+
+    setIsInviting(true);
+    setMessage(null);
+    setInviteUrl(null);
+    try {
+      const response = await fetch('/api/organization/invitations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, role }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage(data.error || 'Failed to send invitation');
+        return;
+      }
+
+      setInviteUrl(data.inviteUrl);
+      setCopied(false);
+      if (!data.emailSent) {
+        setMessage('The invitation email could not be sent - share the link instead.');
+      }
+      setEmail('');
+      setInvitations(prev => [data.invitation, ...prev.filter(inv => inv.email !== data.invitation.email)]);
+    } catch (error) {
+      console.error('Error sending invitation:', error);
+      setMessage('Failed to send invitation');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!inviteUrl) return;
+    await navigator.clipboard.writeText(inviteUrl);
+    setCopied(true);
+  };
+
+  const handleRoleChange = async (memberId: string, newRole: string) => {
+    setMessage(null);
+    const response = await fetch(`/api/organization/members/${memberId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ role: newRole }),
+    });
+
+    if (response.ok) {
+      setMembers(prev => prev.map(member =>
+        member.user_id === memberId ? { ...member, role: newRole } : member
+      ));
+    } else {
+      const data = await response.json();
+      setMessage(data.error || 'Failed to update member');
+    }
+  };
+
+  const handleRemove = async (member: Member) => {
+    const leaving = member.user_id === userId;
+    if (!confirm(leaving
+      ? 'Leave this organization? You will lose access to its campaigns and inbox.'
+      : `Remove ${member.email || 'this member'} from the organization?`)) return;
+
+    const response = await fetch(`/api/organization/members/${member.user_id}`, { method: 'DELETE' });
+    if (response.ok) {
+      if (leaving) {
+        window.location.href = '/app';
+        return;
+      }
+      setMembers(prev => prev.filter(m => m.user_id !== member.user_id));
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    const response = await fetch(`/api/organization/invitations/${id}`, { method: 'DELETE' });
+    if (response.ok) {
+      setInvitations(prev => prev.filter(inv => inv.id !== id));
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/[0.03] border border-white/10 rounded-2xl p-6"
+    >
+      <h2 className="text-lg font-semibold text-white mb-2">Team</h2>
+      <p className="text-white/50 mb-6">
+        Everyone works in the same campaigns, leads and inbox. Roles decide what they can change.
+      </p>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-5 h-5 text-white/40 animate-spin" />
+        </div>
+      ) : (
+        <>
+          <div className="space-y-3 mb-6">
+            {members.map((member) => (
+              <div key={member.user_id} className="flex items-center gap-3 p-4 bg-white/5 border border-white/10 rounded-xl">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-white truncate">
+                    {member.email || 'Unknown user'}
+                    {member.user_id === userId && <span className="text-white/40"> (you)</span>}
+                  </p>
+                  <p className="text-xs text-white/40">Joined {formatDate(member.created_at)}</p>
+                </div>
+                {canManage && member.role !== 'owner' && member.user_id !== userId ? (
+                  <select
+                    value={member.role}
+                    onChange={(e) => handleRoleChange(member.user_id, e.target.value)}
+                    className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-white text-sm outline-none focus:border-cyan-500/50 transition-colors"
+                  >
+                    {ASSIGNABLE_ROLES.map(r => (
+                      <option key={r.key} value={r.key} className="bg-gray-900">{r.label}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="text-sm text-white/60">{roleLabel(member.role)}</span>
+                )}
+                {member.role !== 'owner' && (canManage || member.user_id === userId) && (
+                  <button
+                    onClick={() => handleRemove(member)}
+                    className="p-2 text-white/30 hover:text-red-400 transition-colors"
+                    title={member.user_id === userId ? 'Leave' : 'Remove'}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {invitations.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-sm font-medium text-white/70 mb-3">Pending invitations</h3>
+              <div className="space-y-2">
+                {invitations.map((invitation) => (
+                  <div key={invitation.id} className="flex items-center gap-3 px-4 py-3 bg-white/5 border border-white/10 rounded-xl">
+                    <Mail className="w-4 h-4 text-white/30" />
+                    <span className="flex-1 text-sm text-white/70 truncate">{invitation.email}</span>
+                    <span className="text-xs text-white/40">
+                      {roleLabel(invitation.role)} · expires {formatDate(invitation.expires_at)}
+                    </span>
+                    <button
+                      onClick={() => handleRevoke(invitation.id)}
+                      className="p-1.5 text-white/30 hover:text-red-400 transition-colors"
+                      title="Revoke"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {canManage ? (
+            <>
+              {inviteUrl && (
+                <div className="p-4 bg-cyan-500/10 border border-cyan-500/20 rounded-xl mb-6">
+                  <p className="text-sm text-cyan-300 mb-2">Invitation sent. You can also share this link - it won&apos;t be shown again.</p>
+                  <div className="flex items-center gap-2">
+                    <code className="flex-1 px-3 py-2 bg-white/5 rounded-lg text-white text-sm font-mono break-all">
+                      {inviteUrl}
+                    </code>
+                    <button
+                      onClick={handleCopy}
+                      className="flex items-center gap-1.5 px-3 py-2 text-sm text-cyan-400 hover:text-cyan-300 transition-colors"
+                    >
+                      {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                      {copied ? 'Copied' : 'Copy'}
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex items-center gap-3">
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleInvite()}
+                  placeholder="teammate@company.com"
+                  className="flex-1 px-4 py-2.5 bg-white/5 border border-white/10 rounded-xl text-white text-sm outline-none focus:border-cyan-500/50 transition-colors"
+                />
+                <select
+                  value={role}
+                  onChange={(e) => setRole(e.target.value as OrganizationRole)}
+                  title={ASSIGNABLE_ROLES.find(r => r.key === role)?.description}
+                  className="px-3 py-2.5 bg-white/5 border border-white/10 rounded-xl text-white text-sm outline-none focus:border-cyan-500/50 transition-colors"
+                >
+                  {ASSIGNABLE_ROLES.map(r => (
+                    <option key={r.key} value={r.key} className="bg-gray-900">{r.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleInvite}
+                  disabled={isInviting || !email.trim()}
+                  className="flex items-center gap-2 px-4 py-2.5 bg-white/5 border border-white/10 text-white/70 text-sm font-medium rounded-xl hover:bg-white/10 transition-colors disabled:opacity-50"
+                >
+                  {isInviting ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+                  Invite
+                </button>
+              </div>
+              <p className="text-xs text-white/40 mt-2">
+                {ASSIGNABLE_ROLES.find(r => r.key === role)?.description}
+              </p>
+            </>
+          ) : (
+            <div className="flex items-center gap-2 text-sm text-white/40">
+              <Users className="w-4 h-4" />
+              Ask an owner or admin to invite teammates.
+            </div>
+          )}
+          {message && <p className="text-sm text-amber-400 mt-3">{message}</p>}
+        </>
+      )}
+    </motion.div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
-import { useState } from 'react';
+import { Suspense, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { motion } from 'framer-motion';
 import { 
   User, 
@@ -12,19 +13,32 @@ import {
   Building2,
   Globe,
   Save,
-  ChevronRight
+  ChevronRight,
+  Ban,
+  Users
 } from 'lucide-react';
+import SuppressionList from './SuppressionList';
+import ApiKeys from './ApiKeys';
+import TeamMembers from './TeamMembers';
+import Billing from './Billing';
 
 const tabs = [
   { id: 'profile', label: 'Profile', icon: User },
+  { id: 'team', label: 'Team', icon: Users },
   { id: 'notifications', label: 'Notifications', icon: Bell },
   { id: 'billing', label: 'Billing', icon: CreditCard },
   { id: 'security', label: 'Security', icon: Shield },
+  { id: 'suppression', label: 'Do Not Contact', icon: Ban },
   { id: 'api', label: 'API Keys', icon: Key },
 ];
 
-export default function SettingsPage() {
-  const [activeTab, setActiveTab] = useState('profile');
+function SettingsContent() {
+  const searchParams = useSearchParams();
+  // Links back from Stripe (and elsewhere) can open a tab with ?tab=
+  const [activeTab, setActiveTab] = useState(() => {
+    const tab = searchParams.get('tab');
+    return tabs.some(t => t.id === tab) ? tab! : 'profile';
+  });
   const [isSaving, setIsSaving] = useState(false);
 
   const handleSave = () => {
@@ -198,46 +212,7 @@ export default function SettingsPage() {
             </motion.div>
           )}
 
-          {activeTab === 'billing' && (
-            <motion.div
-              initial={{ opacity: 0, y: 10 }}
-              animate={{ opacity: 1, y: 0 }}
-              className="space-y-6"
-            >
-              <div className="bg-white/[0.03] border border-white/10 rounded-2xl p-6">
-                <h2 className="text-lg font-semibold text-white mb-6">Current Plan</h2>
-                
-                <div className="flex items-center justify-between p-4 bg-cyan-500/10 border border-cyan-500/20 rounded-xl">
-                  <div>
-                    <p className="font-semibold text-white">Pay Per Campaign</p>
-                    <p className="text-sm text-white/50">No monthly fees • Pay only when you launch</p>
-                  </div>
-                  <span className="px-3 py-1 bg-cyan-500/20 text-cyan-400 text-sm font-medium rounded-full">
-                    Active
-                  </span>
-                </div>
-              </div>
-
-              <div className="bg-white/[0.03] border border-white/10 rounded-2xl p-6">
-                <h2 className="text-lg font-semibold text-white mb-6">Payment Method</h2>
-                
-                <div className="flex items-center justify-between p-4 bg-white/5 border border-white/10 rounded-xl">
-                  <div className="flex items-center gap-4">
-                    <div className="w-12 h-8 bg-white/10 rounded flex items-center justify-center text-white/60">
-                      <CreditCard className="w-5 h-5" />
-                    </div>
-                    <div>
-                      <p className="font-medium text-white">•••• •••• •••• 4242</p>
-                      <p className="text-sm text-white/40">Expires 12/25</p>
-                    </div>
-                  </div>
-                  <button className="text-sm text-cyan-400 hover:text-cyan-300 transition-colors">
-                    Update
-                  </button>
-                </div>
-              </div>
-            </motion.div>
-          )}
+          {activeTab === 'billing' && <Billing />}
 
           {activeTab === 'security' && (
             <motion.div
@@ -276,39 +251,21 @@ export default function SettingsPage() {
             </motion.div>
           )}
 
-          {activeTab === 'api' && (
-            <motion.div
-              initial={{ opacity: 0, y: 10 }}
-              animate={{ opacity: 1, y: 0 }}
-              className="bg-white/[0.03] border border-white/10 rounded-2xl p-6"
-            >
-              <h2 className="text-lg font-semibold text-white mb-2">API Keys</h2>
-              <p className="text-white/50 mb-6">Manage your API keys for programmatic access</p>
-              
-              <div className="p-4 bg-white/5 border border-white/10 rounded-xl mb-4">
-                <div className="flex items-center justify-between mb-2">
-                  <span className="text-sm font-medium text-white">Production Key</span>
-                  <span className="text-xs text-white/40">Created Dec 15, 2024</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <code className="flex-1 px-3 py-2 bg-white/5 rounded-lg text-white/60 text-sm font-mono">
-                    cm_live_••••••••••••••••
-                  </code>
-                  <button className="px-3 py-2 text-sm text-cyan-400 hover:text-cyan-300 transition-colors">
-                    Copy
-                  </button>
-                </div>
-              </div>
+          {activeTab === 'team' && <TeamMembers />}
 
-              <button className="flex items-center gap-2 px-4 py-2.5 bg-white/5 border border-white/10 text-white/70 text-sm font-medium rounded-xl hover:bg-white/10 transition-colors">
-                <Key className="w-4 h-4" />
-                Generate New Key
-              </button>
-            </motion.div>
-          )}
+          {activeTab === 'suppression' && <SuppressionList />}
+
+          {activeTab === 'api' && <ApiKeys />}
         </div>
       </div>
     </div>
   );
 }
 
+export default function SettingsPage() {
+  return (
+    <Suspense>
+      <SettingsContent />
+    </Suspense>
+  );
+}
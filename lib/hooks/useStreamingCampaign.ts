@@ -241,6 +241,55 @@ function handleSSEEvent(
       }));
       break;
 
+    case 'resume': {
+      // Reattached to a generation that was already running (e.g. after a reload)
+      // Rebuild agent state from the server's snapshot, then continue with live events
+      const completedAgents = (data.completedAgents || []) as Array<{
+        name: string;
+        duration?: number;
+        result?: string;
+        output?: unknown;
+        details?: string[];
+      }>;
+      const currentAgent = (data.currentAgent || '') as string;
+
+      completedAgents.forEach(agent => {
+        if (agent.output && typeof agent.output === 'object') {
+          const fields = agent.output as Record<string, unknown>;
+          streamingFieldsStore.update(agent.name, fields, Object.keys(fields).length, 0);
+        }
+      });
+      if (currentAgent && data.currentAgentFields) {
+        const fields = data.currentAgentFields as Record<string, unknown>;
+        streamingFieldsStore.update(currentAgent, fields, Object.keys(fields).length, 0);
+      }
+
+      setState(prev => ({
+        ...prev,
+        pipelineId: (data.pipelineId as string) || prev.pipelineId,
+        slug: (data.slug as string) || prev.slug,
+        progress: (data.progress as number) || 0,
+        currentAgent,
+        agents: prev.agents.map(agent => {
+          const completed = completedAgents.find(a => a.name === agent.name);
+          if (completed) {
+            return {
+              ...agent,
+              status: 'complete' as const,
+              duration: completed.duration,
+              result: completed.result,
+              output: completed.output,
+              details: completed.details,
+            };
+          }
+          return agent.name === currentAgent
+            ? { ...agent, status: 'running' as const }
+            : agent;
+        }),
+      }));
+      break;
+    }
+
     case 'agent_start':
       setState(prev => ({
         ...prev,
@@ -0,0 +1,154 @@
+import { LinkedInLead } from '../types';
+import { normalizeCompanyName } from '../utils/companyName';
+
+/**
+ * Account-based targeting (ABM)
+ *
+ * Instead of broad ICP filters, a campaign can target a named list of companies:
+ * search finds people at those companies with the selected persona's titles, and
+ * at most `maxContactsPerAccount` of them are kept per company.
+ */
+
+export const MAX_TARGET_ACCOUNTS = 500;
+export const DEFAULT_MAX_CONTACTS_PER_ACCOUNT = 3;
+export const MAX_CONTACTS_PER_ACCOUNT_LIMIT = 10;
+
+/**
+ * Account-level context for the email writer
+ */
+export interface AccountContext {
+  name: string;
+  domain?: string;
+  industry?: string;
+  headcount?: number;
+  description?: string;
+  // Other people at the account this campaign is also writing to
+  colleagues: Array<{ name: string; title: string }>;
+}
+
+export function isDomainAccount(account: string): boolean {
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(account);
+}
+
+function cleanAccount(value: string): string {
+  const trimmed = value.trim();
+  const asDomain = trimmed.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').split(/[/?#]/)[0];
+  return isDomainAccount(asDomain) ? asDomain : trimmed;
+}
+
+/**
+ * A company name for comparing - legal suffix, case and punctuation ignored ("Acme, Inc." matches "acme")
+ */
+function companyNameKey(name: string): string {
+  return normalizeCompanyName(name).toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Parse a pasted account list into clean, unique entries. One per line; a single line is
+ * split on commas instead (so "Initech, Inc." survives in a multi-line list).
+ * Domains are lowercased and stripped to the hostname; anything else is kept as a company name.
+ */
+export function parseTargetAccounts(input: string | string[]): string[] {
+  const values = Array.isArray(input) ? input : input.split(input.includes('\n') ? /\r?\n/ : /[,;]/);
+  const seen = new Set<string>();
+  const accounts: string[] = [];
+
+  for (const value of values) {
+    if (typeof value !== 'string') continue;
+    const account = cleanAccount(value);
+    const key = account.toLowerCase();
+    if (!account || seen.has(key)) continue;
+    seen.add(key);
+    accounts.push(account);
+  }
+
+  return accounts;
+}
+
+/**
+ * The maximum contacts per account for a campaign, within the allowed range
+ */
+export function getMaxContactsPerAccount(value: number | null | undefined): number {
+  if (!value || !Number.isInteger(value) || value < 1) return DEFAULT_MAX_CONTACTS_PER_ACCOUNT;
+  return Math.min(value, MAX_CONTACTS_PER_ACCOUNT_LIMIT);
+}
+
+/**
+ * Find which target account a lead works at.
+ * Domains match the lead's company domain (subdomains included); names match the
+ * company name with legal suffixes and punctuation ignored. A domain also matches a
+ * company name equal to its first label ("acme.com" matches "Acme Inc").
+ */
+export function matchTargetAccount(lead: LinkedInLead, accounts: string[]): string | null {
+  const leadDomain = lead.company_domain?.toLowerCase().replace(/^www\./, '');
+  const leadNames = [lead.company, lead.current_company]
+    .filter((name): name is string => !!name)
+    .map(companyNameKey)
+    .filter(Boolean);
+
+  for (const account of accounts) {
+    if (isDomainAccount(account)) {
+      if (leadDomain && (leadDomain === account || leadDomain.endsWith(`.${account}`))) {
+        return account;
+      }
+      if (leadNames.includes(companyNameKey(account.split('.')[0]))) {
+        return account;
+      }
+    } else if (leadNames.includes(companyNameKey(account))) {
+      return account;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether another contact can be taken at this lead's account
+ */
+export function hasRoomAtAccount(lead: LinkedInLead, taken: LinkedInLead[], maxContactsPerAccount: number): boolean {
+  if (!lead.target_account) return true;
+  return taken.filter(l => l.target_account === lead.target_account).length < maxContactsPerAccount;
+}
+
+/**
+ * Take incoming leads in order while their account is under the cap
+ */
+export function capContactsPerAccount(
+  taken: LinkedInLead[],
+  incoming: LinkedInLead[],
+  maxContactsPerAccount: number
+): { accepted: LinkedInLead[]; overCap: LinkedInLead[] } {
+  const accepted: LinkedInLead[] = [];
+  const overCap: LinkedInLead[] = [];
+
+  for (const lead of incoming) {
+    if (hasRoomAtAccount(lead, [...taken, ...accepted], maxContactsPerAccount)) {
+      accepted.push(lead);
+    } else {
+      overCap.push(lead);
+    }
+  }
+
+  return { accepted, overCap };
+}
+
+/**
+ * Account context for a lead at a target account, including the colleagues
+ * the campaign is also writing to
+ */
+export function buildAccountContext(lead: LinkedInLead, leads: LinkedInLead[]): AccountContext | undefined {
+  if (!lead.target_account) return undefined;
+
+  const colleagues = leads
+    .filter(other => other !== lead && other.target_account === lead.target_account)
+    .map(other => ({ name: other.full_name, title: other.job_title }));
+
+  return {
+    name: lead.company || lead.target_account,
+    domain: lead.company_domain || (isDomainAccount(lead.target_account) ? lead.target_account : undefined),
+    industry: lead.company_industry,
+    headcount: lead.company_headcount,
+    description: lead.company_description,
+    colleagues,
+  };
+}
@@ -1,22 +1,7 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { CompanyProfile } from './companyProfiler';
 import { ICPPersona } from './icpBrainstormer';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-/**
- * Clean up common LLM JSON output issues before parsing
- */
-function cleanJsonString(str: string): string {
-  return str
-    .replace(/,(\s*[}\]])/g, '$1')
-    .replace(/[\x00-\x1F\x7F]/g, (match) => {
-      if (match === '\n' || match === '\r' || match === '\t') return match;
-      return '';
-    });
-}
+import { generateStructured, s, Schema } from '../llm';
+import { definePrompt, renderPrompt } from '../prompts/registry';
 
 /**
  * Evaluation of a single persona for cold email effectiveness
@@ -41,6 +26,40 @@ export interface PersonaEvaluation {
   recommendation: string;
 }
 
+// Each factor is scored 1-10
+const score = () => s.number({ min: 1, max: 10 });
+
+export const personaEvaluationSchema: Schema<PersonaEvaluation> = s.object({
+  personaId: s.string({ nonEmpty: true }),
+  personaName: s.string(),
+  overallScore: score(),
+  inboxAccessibility: score(),
+  painUrgency: score(),
+  decisionAuthority: score(),
+  reachability: score(),
+  responselikelihood: score(),
+  strengths: s.array(s.string()),
+  weaknesses: s.array(s.string()),
+  recommendation: s.string(),
+});
+
+/**
+ * The ranker's response, which must select one of the personas it was given
+ */
+export function coldEmailRankingSchema(personas: Pick<ICPPersona, 'id'>[]) {
+  const personaIds = personas.map(p => p.id);
+
+  return s.object({
+    evaluations: s.array(personaEvaluationSchema, { min: 1 }),
+    selectedPersonaId: s.refine(
+      s.string(),
+      (id) => personaIds.includes(id) ? null : `must be one of the persona ids: ${personaIds.join(', ')}`
+    ),
+    selectedPersonaName: s.optional(s.string()),
+    selectionReasoning: s.string(),
+  });
+}
+
 /**
  * Output from Agent 3
  */
@@ -51,43 +70,36 @@ export interface ColdEmailRankingResult {
   debug: {
     prompt: string;
     response: string;
+    promptVersion: string;
   };
 }
 
-/**
- * Agent 3: Cold Email Susceptibility Ranker
- * 
- * Focused task: Evaluate each ICP persona for cold email effectiveness
- * and select the one most likely to respond.
- * 
- * This is NOT about "who would buy" but "who would RESPOND to a cold email"
- * These are different! A CEO might be the buyer but never reads cold email.
- */
-export async function rankPersonasForColdEmail(
-  companyProfile: CompanyProfile,
-  personas: ICPPersona[]
-): Promise<ColdEmailRankingResult> {
-  console.log(`[Agent3:ColdEmailRanker] Evaluating ${personas.length} personas...`);
-  const startTime = Date.now();
-
-  // Pass FULL persona data - dayToDay, goals, and whyThisPersona are crucial for cold email evaluation
-  const personasJson = personas.map(p => ({
-    id: p.id,
-    name: p.name,
-    titles: p.titles,
-    seniority: p.seniority,
-    department: p.department,
-    companySize: p.companySize,
-    companyStage: p.companyStage,
-    painPoints: p.painPoints,
-    goals: p.goals,
-    dayToDay: p.dayToDay, // Critical for predicting inbox behavior
-    buyingTriggers: p.buyingTriggers,
-    valueTheySeek: p.valueTheySeek,
-    whyThisPersona: p.whyThisPersona, // Context from brainstormer
-  }));
-
-  const prompt = `You are a cold email expert. Your job is to evaluate buyer personas and determine which one is MOST LIKELY TO RESPOND to a cold email.
+export const coldEmailRankerPrompt = definePrompt<{ companyProfile: CompanyProfile; personas: ICPPersona[] }>({
+  id: 'cold-email-ranker',
+  description: 'Scores each persona for cold email response likelihood and picks one',
+  versions: [
+    {
+      version: 'v1',
+      notes: 'Initial version',
+      render: ({ companyProfile, personas }) => {
+        // Pass FULL persona data - dayToDay, goals, and whyThisPersona are crucial for cold email evaluation
+        const personasJson = personas.map(p => ({
+          id: p.id,
+          name: p.name,
+          titles: p.titles,
+          seniority: p.seniority,
+          department: p.department,
+          companySize: p.companySize,
+          companyStage: p.companyStage,
+          painPoints: p.painPoints,
+          goals: p.goals,
+          dayToDay: p.dayToDay, // Critical for predicting inbox behavior
+          buyingTriggers: p.buyingTriggers,
+          valueTheySeek: p.valueTheySeek,
+          whyThisPersona: p.whyThisPersona, // Context from brainstormer
+        }));
+
+        return `You are a cold email expert. Your job is to evaluate buyer personas and determine which one is MOST LIKELY TO RESPOND to a cold email.
 
 ## Important Distinction
 
@@ -173,54 +185,47 @@ For each persona, score 1-10 on:
 }
 
 Be strategic. The goal is RESPONSE RATE, not just finding buyers.`;
-
-  // Use streaming to avoid timeout errors with high max_tokens
-  let responseText = '';
-  const stream = anthropic.messages.stream({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 64000,
-    messages: [
-      {
-        role: 'user',
-        content: prompt,
       },
-    ],
-  });
+    },
+  ],
+});
 
-  for await (const event of stream) {
-    if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
-      responseText += event.delta.text;
-    }
-  }
-  
-  const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('[Agent3:ColdEmailRanker] Failed to parse response as JSON');
-  }
-
-  let parsed;
-  try {
-    const cleanedJson = cleanJsonString(jsonMatch[0]);
-    parsed = JSON.parse(cleanedJson);
-  } catch (parseError) {
-    console.error('[Agent3:ColdEmailRanker] JSON parse error:', parseError);
-    console.error('[Agent3:ColdEmailRanker] Raw response (first 500 chars):', jsonMatch[0].substring(0, 500));
-    throw new Error(`[Agent3:ColdEmailRanker] Failed to parse JSON: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
-  }
+/**
+ * Agent 3: Cold Email Susceptibility Ranker
+ * 
+ * Focused task: Evaluate each ICP persona for cold email effectiveness
+ * and select the one most likely to respond.
+ * 
+ * This is NOT about "who would buy" but "who would RESPOND to a cold email"
+ * These are different! A CEO might be the buyer but never reads cold email.
+ */
+export async function rankPersonasForColdEmail(
+  companyProfile: CompanyProfile,
+  personas: ICPPersona[]
+): Promise<ColdEmailRankingResult> {
+  console.log(`[Agent3:ColdEmailRanker] Evaluating ${personas.length} personas...`);
+  const startTime = Date.now();
+
+  const prompt = renderPrompt(coldEmailRankerPrompt, { companyProfile, personas });
+
+  const { data: parsed, response: responseText } = await generateStructured({
+    agent: 'cold-email-ranker',
+    prompt: prompt.text,
+    maxTokens: 64000,
+    schema: coldEmailRankingSchema(personas),
+  });
   
-  // Find the selected persona from the original list
-  const selectedPersona = personas.find(p => p.id === parsed.selectedPersonaId);
-  if (!selectedPersona) {
-    throw new Error(`[Agent3:ColdEmailRanker] Selected persona ${parsed.selectedPersonaId} not found`);
-  }
+  // Find the selected persona from the original list (the schema checked it's there)
+  const selectedPersona = personas.find(p => p.id === parsed.selectedPersonaId)!;
 
   const result: ColdEmailRankingResult = {
     evaluations: parsed.evaluations,
     selectedPersona,
     selectionReasoning: parsed.selectionReasoning,
     debug: {
-      prompt,
+      prompt: prompt.text,
       response: responseText,
+      promptVersion: prompt.version,
     },
   };
   
@@ -1,21 +1,6 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { ScrapedWebsite } from '../websiteScraper';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-/**
- * Clean up common LLM JSON output issues before parsing
- */
-function cleanJsonString(str: string): string {
-  return str
-    .replace(/,(\s*[}\]])/g, '$1')
-    .replace(/[\x00-\x1F\x7F]/g, (match) => {
-      if (match === '\n' || match === '\r' || match === '\t') return match;
-      return '';
-    });
-}
+import { generateStructured, s, Schema } from '../llm';
+import { definePrompt, renderPrompt } from '../prompts/registry';
 
 /**
  * Geographic focus analysis
@@ -59,33 +44,40 @@ export interface CompanyProfile {
   salesMotion: 'self-serve' | 'sales-led' | 'hybrid' | 'unknown';
 }
 
-/**
- * Result from company profiler including debug info
- */
-export interface CompanyProfilerResult {
-  profile: CompanyProfile;
-  debug: {
-    prompt: string;
-    response: string;
-  };
-}
+const geographicFocusSchema: Schema<GeographicFocus> = s.object({
+  primaryMarkets: s.array(s.string()),
+  officeLocations: s.array(s.string()),
+  evidenceSignals: s.array(s.string()),
+  confidence: s.oneOf(['high', 'medium', 'low']),
+  reasoning: s.string(),
+});
 
-/**
- * Agent 1: Company Profiler
- * 
- * Focused task: Analyze the website content and extract a structured
- * understanding of what this company does and who they serve.
- * 
- * Does NOT decide ICP or LinkedIn filters - just observes and structures.
- */
-export async function profileCompany(
-  scrapedWebsite: ScrapedWebsite,
-  domain: string
-): Promise<CompanyProfilerResult> {
-  console.log(`[Agent1:CompanyProfiler] Analyzing ${domain}...`);
-  const startTime = Date.now();
+export const companyProfileSchema: Schema<CompanyProfile> = s.object({
+  name: s.string({ nonEmpty: true }),
+  domain: s.string(),
+  tagline: s.string(),
+  productOrService: s.string(),
+  problemTheySolve: s.string(),
+  howTheySolveIt: s.string(),
+  targetMarket: s.string(),
+  existingCustomerTypes: s.array(s.string()),
+  caseStudiesOrTestimonials: s.array(s.string()),
+  geography: geographicFocusSchema,
+  industry: s.string(),
+  competitiveAdvantage: s.string(),
+  pricingModel: s.string(),
+  companyMaturity: s.oneOf(['early-stage', 'growth', 'established', 'enterprise']),
+  salesMotion: s.oneOf(['self-serve', 'sales-led', 'hybrid', 'unknown']),
+});
 
-  const prompt = `You are a company research analyst. Your job is to analyze a company's website and extract a structured profile of who they are, what they do, and WHERE they focus their business.
+export const companyProfilerPrompt = definePrompt<{ scrapedWebsite: ScrapedWebsite; domain: string }>({
+  id: 'company-profiler',
+  description: 'Extracts a structured company profile from the scraped website',
+  versions: [
+    {
+      version: 'v1',
+      notes: 'Initial version',
+      render: ({ scrapedWebsite, domain }) => `You are a company research analyst. Your job is to analyze a company's website and extract a structured profile of who they are, what they do, and WHERE they focus their business.
 
 ## Website Data
 
@@ -147,41 +139,46 @@ Respond with ONLY valid JSON in this exact format:
   "salesMotion": "self-serve | sales-led | hybrid | unknown"
 }
 
-Be factual. If something isn't clear from the website, say "unknown" or leave the array empty. For geography, always provide your best assessment with appropriate confidence level.`;
-
-  // Use streaming to avoid timeout errors with high max_tokens
-  let responseText = '';
-  const stream = anthropic.messages.stream({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 64000,
-    messages: [
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ],
-  });
+Be factual. If something isn't clear from the website, say "unknown" or leave the array empty. For geography, always provide your best assessment with appropriate confidence level.`,
+    },
+  ],
+});
 
-  for await (const event of stream) {
-    if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
-      responseText += event.delta.text;
-    }
-  }
-  
-  const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('[Agent1:CompanyProfiler] Failed to parse response as JSON');
-  }
-
-  let profile: CompanyProfile;
-  try {
-    const cleanedJson = cleanJsonString(jsonMatch[0]);
-    profile = JSON.parse(cleanedJson);
-  } catch (parseError) {
-    console.error('[Agent1:CompanyProfiler] JSON parse error:', parseError);
-    console.error('[Agent1:CompanyProfiler] Raw response (first 500 chars):', jsonMatch[0].substring(0, 500));
-    throw new Error(`[Agent1:CompanyProfiler] Failed to parse JSON: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
-  }
+/**
+ * Result from company profiler including debug info
+ */
+export interface CompanyProfilerResult {
+  profile: CompanyProfile;
+  debug: {
+    prompt: string;
+    response: string;
+    promptVersion: string;
+  };
+}
+
+/**
+ * Agent 1: Company Profiler
+ * 
+ * Focused task: Analyze the website content and extract a structured
+ * understanding of what this company does and who they serve.
+ * 
+ * Does NOT decide ICP or LinkedIn filters - just observes and structures.
+ */
+export async function profileCompany(
+  scrapedWebsite: ScrapedWebsite,
+  domain: string
+): Promise<CompanyProfilerResult> {
+  console.log(`[Agent1:CompanyProfiler] Analyzing ${domain}...`);
+  const startTime = Date.now();
+
+  const prompt = renderPrompt(companyProfilerPrompt, { scrapedWebsite, domain });
+
+  const { data: profile, response: responseText } = await generateStructured({
+    agent: 'company-profiler',
+    prompt: prompt.text,
+    maxTokens: 64000,
+    schema: companyProfileSchema,
+  });
   
   const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
   console.log(`[Agent1:CompanyProfiler] Complete in ${elapsed}s - ${profile.name}`);
@@ -189,8 +186,9 @@ Be factual. If something isn't clear from the website, say "unknown" or leave th
   return {
     profile,
     debug: {
-      prompt,
+      prompt: prompt.text,
       response: responseText,
+      promptVersion: prompt.version,
     },
   };
 }
@@ -1,24 +1,6 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { CompanyProfile } from './companyProfiler';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-/**
- * Clean up common LLM JSON output issues before parsing
- */
-function cleanJsonString(str: string): string {
-  return str
-    // Remove trailing commas before ] or }
-    .replace(/,(\s*[}\]])/g, '$1')
-    // Remove any control characters that might sneak in
-    .replace(/[\x00-\x1F\x7F]/g, (match) => {
-      // Keep newlines, tabs, carriage returns (they're valid in JSON strings when escaped)
-      if (match === '\n' || match === '\r' || match === '\t') return match;
-      return '';
-    });
-}
+import { generateStructured, s, Schema } from '../llm';
+import { definePrompt, renderPrompt } from '../prompts/registry';
 
 /**
  * A single ICP persona generated by Agent 2
@@ -59,24 +41,43 @@ export interface ICPBrainstormResult {
   debug: {
     prompt: string;
     response: string;
+    promptVersion: string;
   };
 }
 
-/**
- * Agent 2: ICP Brainstormer
- * 
- * Focused task: Given a company profile, brainstorm ALL the potential
- * buyer personas who could benefit from this product/service.
- * 
- * Does NOT pick the best one or decide LinkedIn filters - just generates options.
- */
-export async function brainstormICPs(
-  companyProfile: CompanyProfile
-): Promise<ICPBrainstormResult> {
-  console.log(`[Agent2:ICPBrainstormer] Generating personas for ${companyProfile.name}...`);
-  const startTime = Date.now();
+export const icpPersonaSchema: Schema<ICPPersona> = s.object({
+  id: s.string({ nonEmpty: true }),
+  name: s.string({ nonEmpty: true }),
+  titles: s.array(s.string({ nonEmpty: true }), { min: 1 }),
+  seniority: s.oneOf(['c-level', 'vp', 'director', 'manager', 'individual-contributor']),
+  department: s.string(),
+  companySize: s.string(),
+  companyStage: s.string(),
+  industries: s.array(s.string()),
+  painPoints: s.array(s.string()),
+  goals: s.array(s.string()),
+  dayToDay: s.string(),
+  buyingTriggers: s.array(s.string()),
+  valueTheySeek: s.string(),
+  whyThisPersona: s.string(),
+});
 
-  const prompt = `You are an expert sales strategist. Your job is to brainstorm ALL potential ideal customer profiles (ICPs) for a company.
+export const icpBrainstormSchema = s.object({
+  personas: s.refine(
+    s.array(icpPersonaSchema, { min: 1 }),
+    (personas) => new Set(personas.map(p => p.id)).size === personas.length ? null : 'persona ids must be unique'
+  ),
+  reasoning: s.string(),
+});
+
+export const icpBrainstormerPrompt = definePrompt<{ companyProfile: CompanyProfile }>({
+  id: 'icp-brainstormer',
+  description: 'Brainstorms 4-5 distinct buyer personas from the company profile',
+  versions: [
+    {
+      version: 'v1',
+      notes: 'Initial version',
+      render: ({ companyProfile }) => `You are an expert sales strategist. Your job is to brainstorm ALL potential ideal customer profiles (ICPs) for a company.
 
 ## Company Profile
 
@@ -160,48 +161,41 @@ Respond with ONLY valid JSON:
   "reasoning": "Overall reasoning about the ICP landscape for this company"
 }
 
-Be opinionated. Each persona should represent ONE clear role archetype with tight title variations.`;
-
-  // Use streaming to avoid timeout errors with high max_tokens
-  let responseText = '';
-  const stream = anthropic.messages.stream({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 8192,
-    messages: [
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ],
-  });
+Be opinionated. Each persona should represent ONE clear role archetype with tight title variations.`,
+    },
+  ],
+});
 
-  for await (const event of stream) {
-    if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
-      responseText += event.delta.text;
-    }
-  }
-  
-  const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('[Agent2:ICPBrainstormer] Failed to parse response as JSON');
-  }
-
-  let parsed;
-  try {
-    const cleanedJson = cleanJsonString(jsonMatch[0]);
-    parsed = JSON.parse(cleanedJson);
-  } catch (parseError) {
-    console.error('[Agent2:ICPBrainstormer] JSON parse error:', parseError);
-    console.error('[Agent2:ICPBrainstormer] Raw response (first 500 chars):', jsonMatch[0].substring(0, 500));
-    throw new Error(`[Agent2:ICPBrainstormer] Failed to parse JSON: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
-  }
+/**
+ * Agent 2: ICP Brainstormer
+ * 
+ * Focused task: Given a company profile, brainstorm ALL the potential
+ * buyer personas who could benefit from this product/service.
+ * 
+ * Does NOT pick the best one or decide LinkedIn filters - just generates options.
+ */
+export async function brainstormICPs(
+  companyProfile: CompanyProfile
+): Promise<ICPBrainstormResult> {
+  console.log(`[Agent2:ICPBrainstormer] Generating personas for ${companyProfile.name}...`);
+  const startTime = Date.now();
+
+  const prompt = renderPrompt(icpBrainstormerPrompt, { companyProfile });
+
+  const { data: parsed, response: responseText } = await generateStructured({
+    agent: 'icp-brainstormer',
+    prompt: prompt.text,
+    maxTokens: 8192,
+    schema: icpBrainstormSchema,
+  });
   
   const result: ICPBrainstormResult = {
     personas: parsed.personas,
     reasoning: parsed.reasoning,
     debug: {
-      prompt,
+      prompt: prompt.text,
       response: responseText,
+      promptVersion: prompt.version,
     },
   };
   
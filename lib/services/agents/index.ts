@@ -21,6 +21,18 @@
 //   - Translates selected persona to LinkedIn filters
 //   - Uses exact LinkedIn IDs for industries and geos
 //   - Optimizes for Sales Navigator search
+//
+// Outside the pipeline:
+//
+// Reply Classifier
+//   - Labels inbound replies (interested, not now, wrong person, unsubscribe,
+//     out of office, objection) with a confidence score per label
+//   - Runs on every reply saved by the EmailBison webhook
+//
+// Reply Drafter
+//   - Proposes a response to an inbound reply from the thread, company profile
+//     and selected persona
+//   - Offers the meeting link, handles objections, routes referrals
 
 export { profileCompany } from './companyProfiler';
 export type { CompanyProfile, CompanyProfilerResult, GeographicFocus } from './companyProfiler';
@@ -30,4 +42,7 @@ export { rankPersonasForColdEmail } from './coldEmailRanker';
 export type { PersonaEvaluation, ColdEmailRankingResult } from './coldEmailRanker';
 export { buildLinkedInFilters } from './linkedinFilterBuilder';
 export type { LinkedInFilterResult, CompanyContext, GeographyContext } from './linkedinFilterBuilder';
-
+export { classifyReply, isReplyLabel, REPLY_LABELS } from './replyClassifier';
+export type { ReplyLabel, ReplyClassification, ReplyClassificationInput } from './replyClassifier';
+export { draftReply } from './replyDrafter';
+export type { ReplyDraft, ReplyDraftInput, ReplyDraftThreadMessage, ReplyStrategy } from './replyDrafter';
@@ -1,22 +1,20 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { ICPPersona } from './icpBrainstormer';
-import { ICPSettings, LinkedInGeoLocation, LinkedInIndustry } from '../../types';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
+import { ICPSettings } from '../../types';
+import { generateStructured, s, Schema } from '../llm';
+import { definePrompt, renderPrompt } from '../prompts/registry';
+
+// LinkedIn's filter values - an ID the search understands and its display name
+const linkedInFilterValueSchema = s.object({
+  id: s.string({ nonEmpty: true }),
+  text: s.string(),
 });
 
-/**
- * Clean up common LLM JSON output issues before parsing
- */
-function cleanJsonString(str: string): string {
-  return str
-    .replace(/,(\s*[}\]])/g, '$1')
-    .replace(/[\x00-\x1F\x7F]/g, (match) => {
-      if (match === '\n' || match === '\r' || match === '\t') return match;
-      return '';
-    });
-}
+export const icpSettingsSchema: Schema<ICPSettings> = s.object({
+  titles: s.array(s.string({ nonEmpty: true }), { min: 1 }),
+  companySize: s.string(),
+  industries: s.array(linkedInFilterValueSchema),
+  locations: s.array(linkedInFilterValueSchema, { min: 1 }),
+});
 
 /**
  * Output from Agent 4
@@ -26,6 +24,7 @@ export interface LinkedInFilterResult {
   debug: {
     prompt: string;
     response: string;
+    promptVersion: string;
   };
 }
 
@@ -51,25 +50,21 @@ export interface CompanyContext {
   geography?: GeographyContext;
 }
 
-/**
- * Agent 4: LinkedIn Filter Builder
- * 
- * Focused task: Translate a selected ICP persona into exact LinkedIn
- * Sales Navigator filters with proper IDs.
- * 
- * This agent is a LinkedIn specialist - it knows the filter system,
- * the IDs, and how to translate human descriptions into search parameters.
- */
-export async function buildLinkedInFilters(
-  persona: ICPPersona,
-  preferredLocations?: string[], // Optional user preference
-  selectionReasoning?: string, // Why this persona was chosen
-  companyContext?: CompanyContext // Company context for smarter filter decisions
-): Promise<LinkedInFilterResult> {
-  console.log(`[Agent4:LinkedInFilterBuilder] Building filters for "${persona.name}"...`);
-  const startTime = Date.now();
+export interface LinkedInFilterPromptVars {
+  persona: ICPPersona;
+  preferredLocations?: string[];
+  selectionReasoning?: string;
+  companyContext?: CompanyContext;
+}
 
-  const prompt = `You are a LinkedIn Sales Navigator expert. Your job is to translate an ICP persona into exact LinkedIn search filters.
+export const linkedInFilterBuilderPrompt = definePrompt<LinkedInFilterPromptVars>({
+  id: 'linkedin-filter-builder',
+  description: 'Translates the selected persona into Sales Navigator filters with LinkedIn ids',
+  versions: [
+    {
+      version: 'v1',
+      notes: 'Initial version',
+      render: ({ persona, preferredLocations, selectionReasoning, companyContext }) => `You are a LinkedIn Sales Navigator expert. Your job is to translate an ICP persona into exact LinkedIn search filters.
 
 ## Why This Persona Was Selected
 
@@ -196,55 +191,37 @@ Respond with ONLY valid JSON:
   ]
 }
 
-Use the EXACT IDs from the reference above. If an industry or location isn't listed, use your knowledge of LinkedIn's ID system.`;
-
-  // Use streaming to avoid timeout errors with high max_tokens
-  let responseText = '';
-  const stream = anthropic.messages.stream({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 64000,
-    messages: [
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ],
-  });
+Use the EXACT IDs from the reference above. If an industry or location isn't listed, use your knowledge of LinkedIn's ID system.`,
+    },
+  ],
+});
 
-  for await (const event of stream) {
-    if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
-      responseText += event.delta.text;
-    }
-  }
-  
-  const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('[Agent4:LinkedInFilterBuilder] Failed to parse response as JSON');
-  }
-
-  let parsed;
-  try {
-    const cleanedJson = cleanJsonString(jsonMatch[0]);
-    parsed = JSON.parse(cleanedJson);
-  } catch (parseError) {
-    console.error('[Agent4:LinkedInFilterBuilder] JSON parse error:', parseError);
-    console.error('[Agent4:LinkedInFilterBuilder] Raw response (first 500 chars):', jsonMatch[0].substring(0, 500));
-    throw new Error(`[Agent4:LinkedInFilterBuilder] Failed to parse JSON: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
-  }
-  
-  // Validate and structure the response
-  const filters: ICPSettings = {
-    titles: parsed.titles || persona.titles,
-    companySize: parsed.companySize || persona.companySize,
-    industries: (parsed.industries || []).map((ind: LinkedInIndustry) => ({
-      id: ind.id,
-      text: ind.text,
-    })),
-    locations: (parsed.locations || []).map((loc: LinkedInGeoLocation) => ({
-      id: loc.id,
-      text: loc.text,
-    })),
-  };
+/**
+ * Agent 4: LinkedIn Filter Builder
+ * 
+ * Focused task: Translate a selected ICP persona into exact LinkedIn
+ * Sales Navigator filters with proper IDs.
+ * 
+ * This agent is a LinkedIn specialist - it knows the filter system,
+ * the IDs, and how to translate human descriptions into search parameters.
+ */
+export async function buildLinkedInFilters(
+  persona: ICPPersona,
+  preferredLocations?: string[], // Optional user preference
+  selectionReasoning?: string, // Why this persona was chosen
+  companyContext?: CompanyContext // Company context for smarter filter decisions
+): Promise<LinkedInFilterResult> {
+  console.log(`[Agent4:LinkedInFilterBuilder] Building filters for "${persona.name}"...`);
+  const startTime = Date.now();
+
+  const prompt = renderPrompt(linkedInFilterBuilderPrompt, { persona, preferredLocations, selectionReasoning, companyContext });
+
+  const { data: filters, response: responseText } = await generateStructured({
+    agent: 'linkedin-filter-builder',
+    prompt: prompt.text,
+    maxTokens: 64000,
+    schema: icpSettingsSchema,
+  });
   
   const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
   console.log(`[Agent4:LinkedInFilterBuilder] Complete in ${elapsed}s`);
@@ -263,8 +240,9 @@ Use the EXACT IDs from the reference above. If an industry or location isn't lis
   return {
     filters,
     debug: {
-      prompt,
+      prompt: prompt.text,
       response: responseText,
+      promptVersion: prompt.version,
     },
   };
 }
@@ -0,0 +1,189 @@
+import { generateStructured, s } from '../llm';
+import { definePrompt, renderPrompt } from '../prompts/registry';
+
+/**
+ * What a reply to a cold email means for the sender
+ */
+export type ReplyLabel =
+  | 'interested'     // Wants to talk, asks for details/pricing, agrees to a call
+  | 'not_now'        // Open to it, but bad timing ("check back next quarter")
+  | 'wrong_person'   // Not the right contact, may refer someone else
+  | 'unsubscribe'    // Asks to stop emailing / be removed
+  | 'out_of_office'  // Auto-reply: vacation, parental leave, left the company
+  | 'objection';     // Pushes back: already has a solution, too expensive, not relevant
+
+export const REPLY_LABELS: ReplyLabel[] = [
+  'interested',
+  'not_now',
+  'wrong_person',
+  'unsubscribe',
+  'out_of_office',
+  'objection',
+];
+
+export interface ReplyClassificationInput {
+  subject: string | null;
+  body: string;
+  // The cold email this is a reply to, when known
+  originalSubject?: string | null;
+  originalBody?: string | null;
+  leadName?: string;
+  leadCompany?: string;
+}
+
+/**
+ * Output from the Reply Classifier
+ */
+export interface ReplyClassification {
+  label: ReplyLabel;
+  confidence: number; // 0-1, confidence in `label`
+  scores: Record<ReplyLabel, number>; // 0-1 per label
+  reasoning: string;
+  // Someone the lead pointed us to (wrong_person replies)
+  referral?: {
+    name?: string;
+    email?: string;
+    title?: string;
+  };
+  // When to follow up (not_now / out_of_office replies), as stated in the reply
+  followUpHint?: string;
+  debug: {
+    prompt: string;
+    response: string;
+    promptVersion: string;
+  };
+}
+
+export function isReplyLabel(value: unknown): value is ReplyLabel {
+  return typeof value === 'string' && REPLY_LABELS.includes(value as ReplyLabel);
+}
+
+/**
+ * Normalize the model's scores: clamp to 0-1 and fill in labels it left out
+ */
+function normalizeScores(raw: unknown): Record<ReplyLabel, number> {
+  const input = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  return Object.fromEntries(
+    REPLY_LABELS.map(label => {
+      const value = Number(input[label]);
+      return [label, isNaN(value) ? 0 : Math.min(1, Math.max(0, value))];
+    })
+  ) as Record<ReplyLabel, number>;
+}
+
+// Loose on purpose - scores and label are reconciled by normalizeScores below
+const replySchema = s.object({
+  label: s.optional(s.string()),
+  scores: s.unknown(),
+  reasoning: s.optional(s.string()),
+  referral: s.optional(s.object({
+    name: s.optional(s.string()),
+    email: s.optional(s.string()),
+    title: s.optional(s.string()),
+  })),
+  followUpHint: s.optional(s.string()),
+});
+
+export const replyClassifierPrompt = definePrompt<ReplyClassificationInput>({
+  id: 'reply-classifier',
+  description: 'Labels an inbound reply with a score per label',
+  versions: [
+    {
+      version: 'v1',
+      notes: 'Initial version',
+      render: (input) => {
+        // Replies quote the whole thread - the new text is at the top
+        const replyBody = input.body.length > 4000 ? `${input.body.substring(0, 4000)}\n[...]` : input.body;
+
+        return `You are an SDR manager triaging replies to cold emails. Classify the reply below.
+
+## The Cold Email We Sent
+${input.originalSubject ? `Subject: ${input.originalSubject}\n` : ''}${input.originalBody || '(not available)'}
+
+## The Reply${input.leadName ? ` from ${input.leadName}${input.leadCompany ? ` at ${input.leadCompany}` : ''}` : ''}
+Subject: ${input.subject || '(no subject)'}
+
+${replyBody}
+
+## Labels
+
+- **interested**: wants to learn more, asks a question about the offer, asks for pricing, agrees to a call or asks for a time
+- **not_now**: open to it but the timing is wrong ("reach out in Q3", "we just signed a contract, try next year")
+- **wrong_person**: not the right contact, has left the role, or points to someone else
+- **unsubscribe**: asks to stop emailing, be removed, or not be contacted again - including rude dismissals ("stop spamming me")
+- **out_of_office**: automatic reply - vacation, leave, no longer with the company, mailbox not monitored
+- **objection**: pushes back but is still talking - already uses a competitor, too expensive, doesn't see the need
+
+## Rules
+
+- Only classify the NEW text of the reply, not quoted earlier messages
+- A polite "no thanks" with no reason is an objection; "remove me" or hostility is unsubscribe
+- An auto-reply that names a different contact is out_of_office, and goes in referral
+- Scores are your confidence per label (0 to 1); they don't need to sum to 1
+
+## Response Format
+
+{
+  "label": "interested",
+  "scores": {
+    "interested": 0.9,
+    "not_now": 0.05,
+    "wrong_person": 0,
+    "unsubscribe": 0,
+    "out_of_office": 0,
+    "objection": 0.1
+  },
+  "reasoning": "One sentence explaining the label",
+  "referral": { "name": "Jane Doe", "email": "jane@acme.com", "title": "Head of Ops" },
+  "followUpHint": "Back on March 3rd"
+}
+
+Omit "referral" and "followUpHint" when the reply doesn't mention them. Respond with JSON only.`;
+      },
+    },
+  ],
+});
+
+/**
+ * Reply Classifier
+ *
+ * Focused task: read an inbound reply to a cold email and decide what the sender
+ * should do with it. Runs on every reply saved by the EmailBison webhook, so the
+ * inbox can be filtered by intent instead of only EmailBison's interested flag.
+ */
+export async function classifyReply(input: ReplyClassificationInput): Promise<ReplyClassification> {
+  const startTime = Date.now();
+  const prompt = renderPrompt(replyClassifierPrompt, input);
+
+  const { data: parsed, response: responseText } = await generateStructured({
+    agent: 'reply-classifier',
+    prompt: prompt.text,
+    maxTokens: 1024,
+    schema: replySchema,
+  });
+
+  const scores = normalizeScores(parsed.scores);
+  // Trust the scores over the stated label if they disagree
+  const topLabel = REPLY_LABELS.reduce((best, label) => scores[label] > scores[best] ? label : best, REPLY_LABELS[0]);
+  const statedLabel = parsed.label;
+  const label = isReplyLabel(statedLabel) && scores[statedLabel] >= scores[topLabel] ? statedLabel : topLabel;
+
+  const result: ReplyClassification = {
+    label,
+    confidence: scores[label],
+    scores,
+    reasoning: parsed.reasoning || '',
+    referral: parsed.referral && (parsed.referral.name || parsed.referral.email) ? parsed.referral : undefined,
+    followUpHint: parsed.followUpHint || undefined,
+    debug: {
+      prompt: prompt.text,
+      response: responseText,
+      promptVersion: prompt.version,
+    },
+  };
+
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+  console.log(`[ReplyClassifier] Complete in ${elapsed}s - ${label} (${result.confidence.toFixed(2)})`);
+
+  return result;
+}
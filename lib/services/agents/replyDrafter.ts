@@ -0,0 +1,201 @@
+import { CompanyProfile } from './companyProfiler';
+import { ICPPersona } from './icpBrainstormer';
+import { ReplyLabel } from './replyClassifier';
+import { generateStructured, s } from '../llm';
+import { definePrompt, renderPrompt } from '../prompts/registry';
+
+/**
+ * How the draft moves the conversation forward
+ */
+export type ReplyStrategy =
+  | 'book_meeting'     // Offer the meeting link / times
+  | 'handle_objection' // Address the pushback, keep the door open
+  | 'route_referral'   // Thank them, ask for an intro to the right person
+  | 'follow_up_later'  // Acknowledge the timing, confirm when to check back
+  | 'answer_question'  // Answer what they asked, then a soft CTA
+  | 'close_out';       // Polite goodbye (unsubscribe, firm no)
+
+export interface ReplyDraftThreadMessage {
+  direction: 'inbound' | 'outbound';
+  body: string | null;
+  receivedAt: string;
+}
+
+export interface ReplyDraftInput {
+  // Oldest first; the last inbound message is the one being answered
+  thread: ReplyDraftThreadMessage[];
+  subject: string | null;
+  lead: {
+    firstName: string;
+    lastName?: string | null;
+    title?: string | null;
+    company?: string | null;
+  };
+  senderCompanyName: string;
+  senderName?: string;
+  companyProfile?: CompanyProfile;
+  selectedPersona?: ICPPersona;
+  // From the Reply Classifier, when the message has been classified
+  replyLabel?: ReplyLabel | null;
+  meetingLink?: string | null;
+  // Extra guidance from the user ("mention the March promo")
+  instructions?: string;
+}
+
+/**
+ * Output from the Reply Drafter
+ */
+export interface ReplyDraft {
+  body: string;
+  strategy: ReplyStrategy;
+  reasoning: string;
+  debug: {
+    prompt: string;
+    response: string;
+    promptVersion: string;
+  };
+}
+
+const REPLY_STRATEGIES: ReplyStrategy[] = [
+  'book_meeting',
+  'handle_objection',
+  'route_referral',
+  'follow_up_later',
+  'answer_question',
+  'close_out',
+];
+
+const replySchema = s.object({
+  body: s.string({ nonEmpty: true }),
+  strategy: s.optional(s.string()),
+  reasoning: s.optional(s.string()),
+});
+
+export const replyDrafterPrompt = definePrompt<ReplyDraftInput>({
+  id: 'reply-drafter',
+  description: 'Drafts a response to an inbound reply from the thread, company profile and persona',
+  versions: [
+    {
+      version: 'v1',
+      notes: 'Initial version',
+      render: (input) => {
+        const senderName = input.senderName || 'Bella';
+
+        const threadSection = input.thread
+          .map(msg => {
+            const author = msg.direction === 'inbound' ? input.lead.firstName : `${senderName} (us)`;
+            // Inbound bodies quote the whole thread - keep the thread readable
+            const body = (msg.body || '(no content)').substring(0, 3000);
+            return `### ${author} - ${msg.receivedAt}\n${body}`;
+          })
+          .join('\n\n');
+
+        const companySection = input.companyProfile ? `
+## What We Sell
+
+Company: ${input.companyProfile.name}
+What We Sell: ${input.companyProfile.productOrService}
+Problem We Solve: ${input.companyProfile.problemTheySolve}
+How We Solve It: ${input.companyProfile.howTheySolveIt}
+Competitive Advantage: ${input.companyProfile.competitiveAdvantage}
+Pricing Model: ${input.companyProfile.pricingModel}
+${input.companyProfile.caseStudiesOrTestimonials.length > 0 ? `
+Proof Points:
+${input.companyProfile.caseStudiesOrTestimonials.map(cs => `- ${cs}`).join('\n')}
+` : ''}` : `
+## What We Sell
+
+Company: ${input.senderCompanyName}
+`;
+
+        const personaSection = input.selectedPersona ? `
+## Who We're Targeting
+
+Persona: ${input.selectedPersona.name}
+Their Pain Points: ${input.selectedPersona.painPoints.join(', ')}
+Their Goals: ${input.selectedPersona.goals.join(', ')}
+What They Value: ${input.selectedPersona.valueTheySeek}
+` : '';
+
+        return `You are an SDR for ${input.senderCompanyName} answering a reply to a cold email. Draft the response.
+${companySection}${personaSection}
+## The Lead
+
+- Name: ${input.lead.firstName}${input.lead.lastName ? ` ${input.lead.lastName}` : ''}
+- Title: ${input.lead.title || 'Unknown'}
+- Company: ${input.lead.company || 'Unknown'}
+
+## The Thread (oldest first)
+
+Subject: ${input.subject || '(no subject)'}
+
+${threadSection}
+
+${input.replyLabel ? `## Reply Classification\n\nThe latest reply was classified as: ${input.replyLabel}\n` : ''}
+## Meeting Link
+
+${input.meetingLink ? input.meetingLink : 'None - ask which times work for them instead'}
+
+## How to Respond
+
+- **Interested / asks a question**: answer the question in a sentence or two, then offer the meeting link
+- **Objection**: acknowledge it, answer it with one specific proof point, then a low-friction next step
+- **Wrong person / referral**: thank them, ask for an intro to the right person (by name if they gave one)
+- **Not now / out of office**: acknowledge the timing and confirm when you'll check back - no pitch
+- **Unsubscribe / firm no**: one polite sentence confirming you won't reach out again - no pitch, no link
+
+${input.instructions ? `## Extra Instructions From the User\n\n${input.instructions}\n` : ''}
+## Writing Style
+
+- Under 80 words, plain text, short paragraphs
+- Sounds like a person replying from their phone, not a template
+- Never invent facts, prices or customers that aren't in the context above
+- Start with "Hi ${input.lead.firstName}," and sign off with "${senderName}"
+
+## Response Format
+
+{
+  "strategy": "book_meeting" | "handle_objection" | "route_referral" | "follow_up_later" | "answer_question" | "close_out",
+  "reasoning": "One sentence on why this response",
+  "body": "Hi ${input.lead.firstName},\\n\\n...\\n\\n${senderName}"
+}
+
+Respond with JSON only.`;
+      },
+    },
+  ],
+});
+
+/**
+ * Reply Drafter
+ *
+ * Focused task: propose a response to an inbound reply, using the same company profile
+ * and persona the cold email was written from. The user edits the draft before it's sent.
+ */
+export async function draftReply(input: ReplyDraftInput): Promise<ReplyDraft> {
+  const startTime = Date.now();
+  const prompt = renderPrompt(replyDrafterPrompt, input);
+
+  const { data: parsed, response: responseText } = await generateStructured({
+    agent: 'reply-drafter',
+    prompt: prompt.text,
+    maxTokens: 1024,
+    schema: replySchema,
+  });
+
+  const result: ReplyDraft = {
+    body: parsed.body.trim(),
+    strategy: REPLY_STRATEGIES.find(strategy => strategy === parsed.strategy) || 'answer_question',
+    reasoning: parsed.reasoning || '',
+    debug: {
+      prompt: prompt.text,
+      response: responseText,
+      promptVersion: prompt.version,
+    },
+  };
+
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+  console.log(`[ReplyDrafter] Complete in ${elapsed}s - ${result.strategy}`);
+
+  return result;
+}
@@ -0,0 +1,156 @@
+import { createHash, randomBytes } from 'crypto';
+import { NextRequest } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { ApiKey } from '../types/database';
+
+const API_KEYS_TABLE = 'api_keys';
+const KEY_PREFIX = 'cm_live_';
+// Characters shown in the UI to tell keys apart (prefix + first few of the secret)
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+// last_used_at is informational - don't write it on every request
+const LAST_USED_UPDATE_INTERVAL_MS = 60_000;
+
+export const MAX_ACTIVE_API_KEYS = 20;
+
+/**
+ * An API key as shown in settings - never includes the hash
+ */
+export type ApiKeySummary = Omit<ApiKey, 'key_hash'>;
+
+/**
+ * Who a /api/v1 request is acting for
+ */
+export interface ApiKeyContext {
+  organizationId: string;
+  apiKeyId: string;
+}
+
+function hashApiKey(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function toSummary(key: ApiKey): ApiKeySummary {
+  return {
+    id: key.id,
+    organization_id: key.organization_id,
+    name: key.name,
+    key_prefix: key.key_prefix,
+    created_by: key.created_by,
+    created_at: key.created_at,
+    last_used_at: key.last_used_at,
+    revoked_at: key.revoked_at,
+  };
+}
+
+/**
+ * Create an API key for an organization.
+ *
+ * Only the SHA-256 hash is stored - the returned secret is the one chance to copy it.
+ */
+export async function createApiKey(
+  organizationId: string,
+  name: string,
+  createdBy?: string | null
+): Promise<{ apiKey: ApiKeySummary; secret: string }> {
+  const supabase = createAdminClient();
+  const secret = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+
+  const { data, error } = await supabase
+    .from(API_KEYS_TABLE)
+    .insert({
+      organization_id: organizationId,
+      name: name.trim().substring(0, 100),
+      key_prefix: secret.substring(0, DISPLAY_PREFIX_LENGTH),
+      key_hash: hashApiKey(secret),
+      created_by: createdBy || null,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create API key: ${error?.message}`);
+  }
+
+  return { apiKey: toSummary(data), secret };
+}
+
+/**
+ * List an organization's API keys, newest first (revoked keys included)
+ */
+export async function listApiKeys(organizationId: string): Promise<ApiKeySummary[]> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from(API_KEYS_TABLE)
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to list API keys: ${error.message}`);
+  }
+
+  return (data || []).map(toSummary);
+}
+
+/**
+ * Revoke an API key - requests using it fail from then on
+ *
+ * @returns false if the key doesn't exist, belongs to another organization or is already revoked
+ */
+export async function revokeApiKey(organizationId: string, apiKeyId: string): Promise<boolean> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from(API_KEYS_TABLE)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', apiKeyId)
+    .eq('organization_id', organizationId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to revoke API key: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Resolve the organization for a /api/v1 request from its API key.
+ *
+ * Accepts `Authorization: Bearer cm_live_...` or `X-API-Key: cm_live_...`.
+ *
+ * @returns null if the key is missing, unknown or revoked
+ */
+export async function authenticateApiKey(request: NextRequest): Promise<ApiKeyContext | null> {
+  const authorization = request.headers.get('authorization');
+  const secret = (authorization?.match(/^Bearer\s+(.+)$/i)?.[1] || request.headers.get('x-api-key') || '').trim();
+
+  if (!secret.startsWith(KEY_PREFIX)) return null;
+
+  const supabase = createAdminClient();
+  const keyHash = hashApiKey(secret);
+
+  const { data: key } = await supabase
+    .from(API_KEYS_TABLE)
+    .select('*')
+    .eq('key_hash', keyHash)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (!key) return null;
+
+  const lastUsed = key.last_used_at ? new Date(key.last_used_at).getTime() : 0;
+  if (Date.now() - lastUsed > LAST_USED_UPDATE_INTERVAL_MS) {
+    const { error } = await supabase
+      .from(API_KEYS_TABLE)
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', key.id);
+    if (error) {
+      console.error('[apiKeys] Failed to update last_used_at:', error.message);
+    }
+  }
+
+  return { organizationId: key.organization_id, apiKeyId: key.id };
+}
@@ -18,6 +18,7 @@
 
 import { LinkedInLead, ICPSettings, LinkedInGeoLocation, LinkedInIndustry } from '../types';
 import { LeadSearchResult } from './leadFinder';
+import { isDomainAccount } from './accountTargeting';
 
 // Default API URL from OpenAPI spec - can be overridden via AI_ARK_API_URL env var
 // Base URL: https://api.ai-ark.com/api/developer-portal
@@ -291,6 +292,9 @@ function normalizeToLinkedInLead(person: ArkPerson): LinkedInLead {
     current_company: person.company?.summary?.name || currentPositionGroup?.company?.name,
     current_title: person.profile?.title || currentPosition?.title,
     company_domain: companyDomain,  // Preserve domain for email enrichment
+    company_description: person.company?.summary?.description,
+    company_industry: person.company?.summary?.industry,
+    company_headcount: person.company?.summary?.staff?.total,
     positions: person.position_groups?.flatMap(pg => 
       pg.profile_positions?.map(pos => ({
         title: pos.title || '',
@@ -332,6 +336,7 @@ export async function searchPeopleWithArk(
   console.log('[ArkLeadFinder] Searching with AI Ark API...');
   console.log('[ArkLeadFinder] Filters:', {
     titles: icpSettings.titles,
+    accounts: icpSettings.accounts,
     industries: icpSettings.industries,
     locations: icpSettings.locations,
     companySize: icpSettings.companySize,
@@ -401,6 +406,27 @@ export async function searchPeopleWithArk(
       }
     }
 
+    // Target accounts (account-based mode). Account filters are combined with AND, so a list
+    // of domains matches on domain; a list with any company names matches every entry by name
+    if (icpSettings.accounts && icpSettings.accounts.length > 0) {
+      if (icpSettings.accounts.every(isDomainAccount)) {
+        accountFilters.domain = {
+          any: {
+            include: icpSettings.accounts,
+          },
+        };
+      } else {
+        accountFilters.name = {
+          any: {
+            include: {
+              mode: 'SMART',
+              content: icpSettings.accounts.map(account => isDomainAccount(account) ? account.split('.')[0] : account),
+            },
+          },
+        };
+      }
+    }
+
     if (Object.keys(accountFilters).length > 0) {
       requestBody.account = accountFilters;
     }
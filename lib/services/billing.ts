@@ -0,0 +1,245 @@
+import Stripe from 'stripe';
+import { stripe } from '@/lib/stripe';
+import { createAdminClient } from '@/lib/supabase/server';
+import { getPricingCampaign, getQuoteMetadata, quoteCampaignPrice } from './pricing';
+
+const RECEIPTS_LIMIT = 24;
+
+/**
+ * A card saved on the organization's Stripe customer
+ */
+export interface SavedPaymentMethod {
+  id: string;
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+  isDefault: boolean;
+}
+
+/**
+ * A payment with its Stripe-hosted receipt
+ */
+export interface BillingReceipt {
+  id: string;
+  amount: number;
+  currency: string;
+  description: string | null;
+  status: string;
+  refunded: boolean;
+  receiptUrl: string | null;
+  created: string;
+}
+
+export type TopUpResult =
+  | { success: true; paymentIntent: Stripe.PaymentIntent }
+  | { success: false; error: string; status: number };
+
+/**
+ * The organization's Stripe customer ID, if it has paid before
+ */
+export async function getOrganizationCustomerId(organizationId: string): Promise<string | null> {
+  const supabase = createAdminClient();
+
+  const { data } = await supabase
+    .from('organizations')
+    .select('stripe_customer_id')
+    .eq('id', organizationId)
+    .single();
+
+  return data?.stripe_customer_id || null;
+}
+
+/**
+ * Get the organization's Stripe customer, creating it on first use
+ */
+export async function ensureOrganizationCustomer(organizationId: string, email: string | null): Promise<string> {
+  const existing = await getOrganizationCustomerId(organizationId);
+  if (existing) return existing;
+
+  const customer = await stripe.customers.create({
+    email: email || undefined,
+    metadata: { organizationId },
+  });
+
+  await linkOrganizationCustomer(organizationId, customer.id);
+  return customer.id;
+}
+
+/**
+ * Attach a Stripe customer to an organization that doesn't have one yet.
+ * Customers created at checkout (before the organization existed) are linked this way.
+ * Throws for a customer that already belongs to another organization, so one organization's
+ * saved cards can't end up charged for another's top-ups.
+ *
+ * @returns The organization's customer ID - the existing one if it already had a customer
+ */
+export async function linkOrganizationCustomer(organizationId: string, customerId: string): Promise<string> {
+  const customer = await stripe.customers.retrieve(customerId);
+  const owner = customer.deleted ? null : customer.metadata.organizationId;
+  if (owner && owner !== organizationId) {
+    throw new Error(`Stripe customer ${customerId} belongs to organization ${owner}, not ${organizationId}`);
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: updated, error } = await supabase
+    .from('organizations')
+    .update({ stripe_customer_id: customerId })
+    .eq('id', organizationId)
+    .is('stripe_customer_id', null)
+    .select('stripe_customer_id')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to link Stripe customer: ${error.message}`);
+  }
+
+  if (!updated) {
+    return (await getOrganizationCustomerId(organizationId)) || customerId;
+  }
+
+  await stripe.customers.update(customerId, { metadata: { organizationId } });
+  return customerId;
+}
+
+/**
+ * Make a payment's card the customer's default if it has none, so top-ups can use it
+ */
+export async function saveDefaultPaymentMethod(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+  const customerId = typeof paymentIntent.customer === 'string' ? paymentIntent.customer : paymentIntent.customer?.id;
+  const paymentMethodId = typeof paymentIntent.payment_method === 'string'
+    ? paymentIntent.payment_method
+    : paymentIntent.payment_method?.id;
+  if (!customerId || !paymentMethodId) return;
+
+  const customer = await stripe.customers.retrieve(customerId);
+  if (customer.deleted || customer.invoice_settings.default_payment_method) return;
+
+  await stripe.customers.update(customerId, {
+    invoice_settings: { default_payment_method: paymentMethodId },
+  });
+}
+
+/**
+ * Cards saved on the customer, default first
+ */
+export async function listPaymentMethods(customerId: string): Promise<SavedPaymentMethod[]> {
+  const [customer, paymentMethods] = await Promise.all([
+    stripe.customers.retrieve(customerId),
+    stripe.customers.listPaymentMethods(customerId, { type: 'card' }),
+  ]);
+
+  const defaultId = !customer.deleted && customer.invoice_settings.default_payment_method;
+  const defaultPaymentMethodId = typeof defaultId === 'string' ? defaultId : defaultId ? defaultId.id : null;
+
+  return paymentMethods.data
+    .filter(method => method.card)
+    .map(method => ({
+      id: method.id,
+      brand: method.card!.brand,
+      last4: method.card!.last4,
+      expMonth: method.card!.exp_month,
+      expYear: method.card!.exp_year,
+      // Without a default, the most recent card is used
+      isDefault: defaultPaymentMethodId ? method.id === defaultPaymentMethodId : method.id === paymentMethods.data[0].id,
+    }))
+    .sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+}
+
+/**
+ * The customer's payments, newest first, with links to their receipts
+ */
+export async function listReceipts(customerId: string): Promise<BillingReceipt[]> {
+  const charges = await stripe.charges.list({ customer: customerId, limit: RECEIPTS_LIMIT });
+
+  return charges.data.map(charge => ({
+    id: charge.id,
+    amount: charge.amount,
+    currency: charge.currency,
+    description: charge.description,
+    status: charge.status,
+    refunded: charge.refunded,
+    receiptUrl: charge.receipt_url,
+    created: new Date(charge.created * 1000).toISOString(),
+  }));
+}
+
+/**
+ * Start a Stripe customer portal session (update cards, download invoices)
+ */
+export async function createPortalSession(customerId: string, returnUrl: string): Promise<string> {
+  const session = await stripe.billingPortal.sessions.create({
+    customer: customerId,
+    return_url: returnUrl,
+  });
+
+  return session.url;
+}
+
+/**
+ * Charge the organization's saved card for another batch of leads on a paid campaign.
+ * The PaymentIntent is returned as Stripe left it: succeeded, or requires_action if the
+ * bank asks the buyer to authenticate (the client confirms it with Stripe.js).
+ * A declined card is a 402 with the bank's reason.
+ *
+ * @param latestJobId - The campaign's latest lead generation run. The charge is idempotent per run
+ *   and card, so a double click or retried request can't charge twice - a fulfilled top-up
+ *   queues a new run, which allows the next one
+ */
+export async function createTopUpPayment(
+  campaign: { id: string; slug: string; company_name: string | null },
+  organizationId: string,
+  latestJobId: string | null
+): Promise<TopUpResult> {
+  const customerId = await getOrganizationCustomerId(organizationId);
+  const paymentMethod = customerId ? (await listPaymentMethods(customerId))[0] : undefined;
+
+  if (!customerId || !paymentMethod) {
+    return { success: false, error: 'Add a payment method in billing settings first', status: 400 };
+  }
+
+  // A top-up is the campaign's cheapest tier, at the campaign's own pricing
+  const pricing = await quoteCampaignPrice(await getPricingCampaign(campaign.id));
+  if (!pricing.success) return pricing;
+
+  const { tier } = pricing.quote;
+  const campaignName = `${campaign.company_name || 'Cold Outreach'} Campaign`;
+
+  let paymentIntent: Stripe.PaymentIntent;
+  try {
+    paymentIntent = await stripe.paymentIntents.create({
+      amount: pricing.quote.total,
+      currency: 'usd',
+      customer: customerId,
+      payment_method: paymentMethod.id,
+      confirm: true,
+      automatic_payment_methods: {
+        enabled: true,
+        allow_redirects: 'never',
+      },
+      metadata: {
+        kind: 'top_up',
+        campaignSlug: campaign.slug,
+        campaignId: campaign.id,
+        organizationId,
+        ...getQuoteMetadata(pricing.quote),
+        campaignName,
+      },
+      description: `${campaignName} - ${tier.emails} more emails`,
+    }, {
+      idempotencyKey: `top_up:${campaign.id}:${latestJobId || 'none'}:${paymentMethod.id}`,
+    });
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeCardError) {
+      return { success: false, error: error.message, status: 402 };
+    }
+    throw error;
+  }
+
+  if (paymentIntent.status !== 'succeeded' && paymentIntent.status !== 'requires_action') {
+    return { success: false, error: 'Payment was declined', status: 402 };
+  }
+
+  return { success: true, paymentIntent };
+}
@@ -0,0 +1,109 @@
+import { NextRequest } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { Campaign } from '../types/database';
+import { can, getMemberContext, MemberContext } from './organizationMembers';
+import { OrganizationPermission } from './organizationRoles';
+
+/**
+ * How a caller got access to a campaign:
+ * - preview: the campaign hasn't been claimed by an organization yet, so anyone with its link
+ *   can drive the public preview (/campaign/[slug])
+ * - member: the signed-in user belongs to the campaign's organization
+ * - internal: our own server or the cron scheduler, signed with CRON_SECRET
+ */
+export type CampaignAccessLevel = 'preview' | 'member' | 'internal';
+
+/**
+ * The campaign columns access decisions are made on
+ */
+export type CampaignAccessTarget = Pick<Campaign, 'id' | 'slug' | 'organization_id' | 'paid_at' | 'status'>;
+
+export interface CampaignAccessOptions {
+  // Let anyone use unclaimed preview campaigns
+  allowPreview?: boolean;
+  // Required of organization members - any member if omitted
+  permission?: OrganizationPermission;
+  // Checked for the CRON_SECRET bearer token when given
+  request?: NextRequest;
+}
+
+export type CampaignAccessResult =
+  | { success: true; campaign: CampaignAccessTarget; access: CampaignAccessLevel; member: MemberContext | null }
+  | { success: false; error: string; status: number };
+
+/**
+ * Whether a request comes from our own server or the cron scheduler
+ */
+export function isInternalRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  return request.headers.get('authorization') === `Bearer ${secret}`;
+}
+
+/**
+ * Headers for server-to-server calls that isInternalRequest accepts
+ */
+export function getInternalRequestHeaders(): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${process.env.CRON_SECRET || ''}`,
+  };
+}
+
+/**
+ * A campaign is a public preview until checkout (or an organization's own tools) claims it
+ */
+export function isPreviewCampaign(campaign: Pick<Campaign, 'organization_id' | 'paid_at'>): boolean {
+  return !campaign.organization_id && !campaign.paid_at;
+}
+
+/**
+ * Check the caller may act on a campaign before any admin-client read or write.
+ *
+ * Campaigns are looked up by ID or slug with the admin client. Callers outside the campaign's
+ * organization get a 404 rather than a 403, so campaign IDs and slugs can't be probed.
+ */
+export async function authorizeCampaign(
+  lookup: { campaignId?: string | null; slug?: string | null },
+  options: CampaignAccessOptions = {}
+): Promise<CampaignAccessResult> {
+  if (!lookup.campaignId && !lookup.slug) {
+    return { success: false, error: 'Campaign ID or slug is required', status: 400 };
+  }
+
+  const supabase = createAdminClient();
+  let query = supabase
+    .from('campaigns')
+    .select('id, slug, organization_id, paid_at, status');
+
+  query = lookup.campaignId ? query.eq('id', lookup.campaignId) : query.eq('slug', lookup.slug);
+
+  const { data: campaign } = await query.maybeSingle();
+  if (!campaign) {
+    return { success: false, error: 'Campaign not found', status: 404 };
+  }
+
+  if (options.request && isInternalRequest(options.request)) {
+    return { success: true, campaign, access: 'internal', member: null };
+  }
+
+  if (options.allowPreview && isPreviewCampaign(campaign)) {
+    return { success: true, campaign, access: 'preview', member: null };
+  }
+
+  const member = await getMemberContext();
+  if (!member) {
+    return { success: false, error: 'Unauthorized', status: 401 };
+  }
+
+  if (member.organizationId !== campaign.organization_id) {
+    return { success: false, error: 'Campaign not found', status: 404 };
+  }
+
+  if (options.permission && !can(member, options.permission)) {
+    return { success: false, error: 'Your role doesn\'t allow this', status: 403 };
+  }
+
+  return { success: true, campaign, access: 'member', member };
+}
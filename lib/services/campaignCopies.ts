@@ -0,0 +1,58 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { Campaign, CampaignInsert } from '../types/database';
+import { domainToSlug } from '../utils/slugify';
+import { getNextAvailableSlug } from './campaignSlugs';
+
+/**
+ * Create a campaign that writes with an existing campaign's company profile and personas.
+ * Used for campaigns that bring their own targeting (an uploaded list, named accounts)
+ * instead of going through website analysis again. The new campaign starts as 'generating'.
+ *
+ * @param personaId - Persona to write for instead of the source campaign's selected one
+ * @param overrides - Extra columns for the new campaign (targeting)
+ */
+export async function createCampaignFromSource(
+  source: Campaign,
+  userId: string,
+  personaId: string | undefined,
+  overrides: Partial<CampaignInsert>
+): Promise<{ id: string; slug: string }> {
+  const supabase = createAdminClient();
+  const slug = await getNextAvailableSlug(domainToSlug(source.domain || source.slug));
+  const rankings = source.persona_rankings as Record<string, unknown> | null;
+
+  const { data: campaign, error } = await supabase
+    .from('campaigns')
+    .insert({
+      slug,
+      domain: source.domain,
+      company_name: source.company_name,
+      website_url: source.website_url,
+      loom_video_url: '',
+      website_screenshot_url: '',
+      location: source.location,
+      helps_with: source.helps_with,
+      great_at: source.great_at,
+      icp_attributes: source.icp_attributes,
+      qualified_leads: [],
+      target_geo: source.target_geo,
+      company_profile: source.company_profile,
+      icp_personas: source.icp_personas,
+      persona_rankings: personaId ? { ...rankings, selectedPersonaId: personaId } : source.persona_rankings,
+      linkedin_filters: source.linkedin_filters,
+      min_email_grade: source.min_email_grade,
+      meeting_link: source.meeting_link,
+      organization_id: source.organization_id,
+      user_id: userId,
+      status: 'generating',
+      ...overrides,
+    })
+    .select('id, slug')
+    .single();
+
+  if (error || !campaign) {
+    throw new Error(`Failed to create campaign: ${error?.message}`);
+  }
+
+  return campaign;
+}
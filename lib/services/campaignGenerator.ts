@@ -5,6 +5,8 @@ import { generateEmailsForLeads } from './emailWriter';
 import { CampaignData, GenerateCampaignRequest, ICPSettings, TargetGeo, LinkedInGeoLocation } from '../types';
 import { CampaignDebugData } from '../types/debug';
 import { supabaseAdmin } from '../supabase';
+import { saveCampaignProgress } from './progressStore';
+import { getDefaultLeadSources, getLeadSourceProvider } from './leadSources';
 
 export type CampaignStatus = 
   | 'scraping_website'
@@ -63,6 +65,8 @@ export interface LiveDebugData {
     companySize: string;
   };
   salesNavUrl?: string;
+  /** Partial output of the agent currently streaming (lets a reattached stream catch up) */
+  currentAgentFields?: Record<string, unknown>;
 }
 
 /**
@@ -81,19 +85,12 @@ export interface LiveAgentResult {
   output?: unknown;
 }
 
-// In-memory store for campaign generation progress (keyed by domain, not slug)
-const campaignProgress: Map<string, CampaignProgress> = new Map();
-
-export function getCampaignProgress(domain: string): CampaignProgress | undefined {
-  // Normalize domain for lookup
-  const normalizedDomain = domain.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').split('/')[0];
-  return campaignProgress.get(normalizedDomain);
-}
+// Progress is kept in the persisted progress store (keyed by domain, not slug)
+// so any instance can serve it, and it survives restarts
+export { getCampaignProgress } from './progressStore';
 
 function updateProgress(domain: string, slug: string, progress: CampaignProgress, campaignId?: string) {
-  // Normalize domain for storage
-  const normalizedDomain = domain.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').split('/')[0];
-  campaignProgress.set(normalizedDomain, progress);
+  saveCampaignProgress(domain, progress, { slug, campaignId });
   console.log(`[CampaignGenerator] ${slug}: ${progress.status} (${progress.progress}%) - ${progress.message}`);
   
   // Persist liveDebug to database so it survives page refreshes
@@ -144,10 +141,10 @@ export async function generateCampaign(
 
   try {
     // Check if lead source is configured (Apify or AI Ark)
-    const hasApify = !!process.env.APIFY_API_TOKEN;
-    const hasArk = !!process.env.AI_ARK_TOKEN;
-    const useArk = process.env.LEAD_SOURCE === '1';
-    const hasLeadSource = useArk ? hasArk : hasApify;
+    const leadSources = getDefaultLeadSources().filter(id => getLeadSourceProvider(id).isConfigured());
+    const hasLeadSource = leadSources.length > 0;
+    const useArk = !leadSources.includes('apify'); // No Sales Navigator URL, results come back synchronously
+    const sourceNames = leadSources.map(id => getLeadSourceProvider(id).name).join(' + ');
     
     // If we have ICP settings or sales nav URL, we can start lead search EARLY (in parallel with scraping)
     let leadSearchPromise: Promise<{ leads: LinkedInLead[] }> | null = null;
@@ -167,17 +164,17 @@ export async function generateCampaign(
     };
     
     if (hasLeadSource && (salesNavigatorUrl || icpSettings)) {
-      console.log(`[CampaignGenerator] Starting lead search early with ${useArk ? 'AI Ark' : 'Apify'} (parallel with website analysis)`);
+      console.log(`[CampaignGenerator] Starting lead search early with ${sourceNames} (parallel with website analysis)`);
       
       saveProgress({
         status: 'finding_leads',
-        message: `Starting lead search with ${useArk ? 'AI Ark' : 'LinkedIn Sales Navigator'}...`,
+        message: `Starting lead search with ${sourceNames}...`,
         progress: 10,
       });
       
       // Start lead search in background - don't await yet!
-      // findLeads() handles both Apify and AI Ark based on LEAD_SOURCE env
-      leadSearchPromise = findLeads(icpSettings!, salesNavigatorUrl, 5)
+      // findLeads() queries and merges every configured lead source
+      leadSearchPromise = findLeads(icpSettings!, salesNavigatorUrl, 5, leadSources)
         .then(result => ({ leads: result.leads || [] }))
         .catch(err => {
           console.error('[CampaignGenerator] Early lead search failed:', err);
@@ -304,7 +301,7 @@ export async function generateCampaign(
       liveDebug.currentAgent = 'Lead Finder';
       saveProgress({
         status: 'finding_leads',
-        message: `Searching for qualified leads with ${useArk ? 'AI Ark' : 'LinkedIn Sales Navigator'}...`,
+        message: `Searching for qualified leads with ${sourceNames}...`,
         progress: 60,
         liveDebug,
       });
@@ -313,7 +310,7 @@ export async function generateCampaign(
       const leadSearchStart = Date.now();
       
       try {
-        console.log(`[CampaignGenerator] Using ${useArk ? 'AI Ark' : 'Apify'} for lead search`);
+        console.log(`[CampaignGenerator] Using ${sourceNames} for lead search`);
         
         saveProgress({
           status: 'waiting_for_leads',
@@ -334,14 +331,9 @@ export async function generateCampaign(
         
         console.log(`[CampaignGenerator] Pre-purchase preview: fetching ${previewCount} leads (no email enrichment)`);
         
-        let results;
-        if (useArk) {
-          // Use findLeads (not findLeadsWithEmails) - no Icypeas enrichment
-          results = await findLeads(finalICP, undefined, previewCount);
-        } else {
-          // Apify path
-          results = await findLeads(finalICP, salesNavigatorUrl, previewCount);
-        }
+        // Use findLeads (not findLeadsWithEmails) - no Icypeas enrichment
+        // (Sales Navigator URL is only used by Apify)
+        const results = await findLeads(finalICP, salesNavigatorUrl, previewCount, leadSources);
         leads = results.leads || [];
         
         // Capture lead search debug data
@@ -480,6 +472,13 @@ export async function generateCampaign(
         startedAt: debugData.analysis.startedAt,
         completedAt: debugData.analysis.completedAt,
         totalDurationMs: debugData.analysis.totalDurationMs,
+        promptVersions: {
+          'company-profiler': debugData.analysis.steps.companyProfiler?.promptVersion,
+          'icp-brainstormer': debugData.analysis.steps.icpBrainstormer?.promptVersion,
+          'cold-email-ranker': debugData.analysis.steps.coldEmailRanker?.promptVersion,
+          'linkedin-filter-builder': debugData.analysis.steps.linkedInFilterBuilder?.promptVersion,
+          'email-writer': qualifiedLeads[0]?.promptVersion,
+        },
         steps: {
           companyProfiler: debugData.analysis.steps.companyProfiler ? {
             agent: debugData.analysis.steps.companyProfiler.agent,
@@ -490,6 +489,7 @@ export async function generateCampaign(
             status: debugData.analysis.steps.companyProfiler.status,
             prompt: debugData.analysis.steps.companyProfiler.prompt,
             response: debugData.analysis.steps.companyProfiler.response,
+            promptVersion: debugData.analysis.steps.companyProfiler.promptVersion,
             output: debugData.analysis.steps.companyProfiler.output,
           } : undefined,
           icpBrainstormer: debugData.analysis.steps.icpBrainstormer ? {
@@ -501,6 +501,7 @@ export async function generateCampaign(
             status: debugData.analysis.steps.icpBrainstormer.status,
             prompt: debugData.analysis.steps.icpBrainstormer.prompt,
             response: debugData.analysis.steps.icpBrainstormer.response,
+            promptVersion: debugData.analysis.steps.icpBrainstormer.promptVersion,
             output: debugData.analysis.steps.icpBrainstormer.output,
           } : undefined,
           coldEmailRanker: debugData.analysis.steps.coldEmailRanker ? {
@@ -512,6 +513,7 @@ export async function generateCampaign(
             status: debugData.analysis.steps.coldEmailRanker.status,
             prompt: debugData.analysis.steps.coldEmailRanker.prompt,
             response: debugData.analysis.steps.coldEmailRanker.response,
+            promptVersion: debugData.analysis.steps.coldEmailRanker.promptVersion,
             output: debugData.analysis.steps.coldEmailRanker.output,
           } : undefined,
           linkedInFilterBuilder: debugData.analysis.steps.linkedInFilterBuilder ? {
@@ -523,6 +525,7 @@ export async function generateCampaign(
             status: debugData.analysis.steps.linkedInFilterBuilder.status,
             prompt: debugData.analysis.steps.linkedInFilterBuilder.prompt,
             response: debugData.analysis.steps.linkedInFilterBuilder.response,
+            promptVersion: debugData.analysis.steps.linkedInFilterBuilder.promptVersion,
             output: debugData.analysis.steps.linkedInFilterBuilder.output,
           } : undefined,
           leadFinder: debugData.leadSearch,
@@ -585,6 +588,50 @@ export async function generateCampaign(
   }
 }
 
+/**
+ * Transform a generated campaign to the campaigns table format (snake_case for Supabase)
+ */
+export function toCampaignRow(campaignData: CampaignData, domain: string) {
+  return {
+    id: campaignData.id,
+    slug: campaignData.slug,
+    domain: campaignData.domain || domain,
+    company_name: campaignData.companyName,
+    website_url: campaignData.websiteUrl,
+    loom_video_url: '',
+    website_screenshot_url: '',
+    location: campaignData.location,
+    helps_with: campaignData.helpsWith,
+    great_at: campaignData.greatAt,
+    icp_attributes: campaignData.icpAttributes,
+    qualified_leads: (campaignData.qualifiedLeads || []).map((lead) => ({
+      id: lead.id,
+      name: lead.name,
+      title: lead.title,
+      company: lead.company,
+      linkedin_url: lead.linkedinUrl,
+      profile_picture_url: lead.profilePictureUrl,
+      why_picked: lead.whyPicked,
+      email_subject: lead.emailSubject,
+      email_body: lead.emailBody,
+      prompt_version: lead.promptVersion,
+    })),
+    target_geo: campaignData.targetGeo,
+    price_tier_1: campaignData.priceTier1,
+    price_tier_1_emails: campaignData.priceTier1Emails,
+    price_tier_2: campaignData.priceTier2,
+    price_tier_2_emails: campaignData.priceTier2Emails,
+    created_at: campaignData.createdAt,
+    updated_at: campaignData.updatedAt || new Date().toISOString(),
+    sales_navigator_url: campaignData.salesNavigatorUrl || null,
+    company_profile: campaignData.companyProfile || null,
+    icp_personas: campaignData.icpPersonas || null,
+    persona_rankings: campaignData.personaRankings || null,
+    linkedin_filters: campaignData.linkedinFilters || null,
+    pipeline_debug: campaignData.pipelineDebug || null,
+  };
+}
+
 /**
  * Build targetGeo from ICP locations for map display
  */
@@ -0,0 +1,32 @@
+import { supabaseAdmin } from '../supabase';
+
+/**
+ * Find the next available slug for a domain.
+ * If 'dynamicmockups' exists, returns 'dynamicmockups-2', then 'dynamicmockups-3', etc.
+ */
+export async function getNextAvailableSlug(baseSlug: string): Promise<string> {
+  if (!supabaseAdmin) {
+    return baseSlug; // Demo mode - just use base slug
+  }
+
+  // Find all existing slugs that match the pattern: baseSlug or baseSlug-N
+  const { data: existingSlugs } = await supabaseAdmin
+    .from('campaigns')
+    .select('slug')
+    .or(`slug.eq.${baseSlug},slug.like.${baseSlug}-%`);
+
+  if (!existingSlugs || !existingSlugs.some(row => row.slug === baseSlug)) {
+    return baseSlug; // Base slug is available
+  }
+
+  // Extract the highest number suffix
+  let maxNumber = 1; // Base slug counts as "1"
+  for (const row of existingSlugs) {
+    const match = row.slug.match(new RegExp(`^${baseSlug}-(\\d+)$`));
+    if (match) {
+      maxNumber = Math.max(maxNumber, parseInt(match[1], 10));
+    }
+  }
+
+  return `${baseSlug}-${maxNumber + 1}`;
+}
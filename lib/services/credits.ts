@@ -0,0 +1,216 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { CreditLedgerEntry, CreditLedgerEntryInsert } from '../types/database';
+import { MemberContext } from './organizationMembers';
+
+const LEDGER_TABLE = 'credit_ledger';
+const LEDGER_HISTORY_LIMIT = 50;
+
+// Postgres unique_violation - the entry's idempotency_key was already recorded
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Why an organization's lead-credit balance changed:
+ * - grant: a subscription's monthly credits
+ * - rollover_expiry: credits above the plan's rollover cap, removed at renewal
+ * - campaign: credits spent launching a campaign's lead generation, and the unused ones
+ *   given back when it completes
+ * - adjustment: a manual correction by our team
+ */
+export type CreditReason = 'grant' | 'rollover_expiry' | 'campaign' | 'adjustment';
+
+export type SpendCreditsResult =
+  // leads: what the campaign's credits paid for - the earlier amount if they were already spent
+  | { success: true; balance: number; alreadySpent: boolean; leads: number }
+  | { success: false; error: string; status: number; balance: number };
+
+/**
+ * Credits the organization can spend - the sum of its ledger.
+ * One credit buys one lead.
+ */
+export async function getCreditBalance(organizationId: string): Promise<number> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from(LEDGER_TABLE)
+    .select('amount')
+    .eq('organization_id', organizationId);
+
+  if (error) {
+    throw new Error(`Failed to read credit balance: ${error.message}`);
+  }
+
+  return (data || []).reduce((sum, entry) => sum + entry.amount, 0);
+}
+
+/**
+ * The organization's latest ledger entries, newest first
+ */
+export async function listCreditLedger(organizationId: string): Promise<CreditLedgerEntry[]> {
+  const supabase = createAdminClient();
+
+  const { data } = await supabase
+    .from(LEDGER_TABLE)
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: false })
+    .limit(LEDGER_HISTORY_LIMIT);
+
+  return (data || []) as CreditLedgerEntry[];
+}
+
+/**
+ * Record a ledger entry once per idempotency key, so webhook retries and double clicks
+ * don't grant or spend twice.
+ *
+ * @returns The new entry, or null if the key was already recorded
+ */
+export async function addLedgerEntry(entry: CreditLedgerEntryInsert & { reason: CreditReason }): Promise<CreditLedgerEntry | null> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from(LEDGER_TABLE)
+    .insert(entry)
+    .select('*')
+    .single();
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) return null;
+    throw new Error(`Failed to record credits: ${error.message}`);
+  }
+
+  return data as CreditLedgerEntry;
+}
+
+/**
+ * Spend credits on a campaign's leads. The debit is written first and the balance checked
+ * after, so two campaigns launched at once can't both spend the same credits - the one
+ * that takes the balance below zero is rolled back.
+ */
+export async function spendCreditsOnCampaign(
+  organizationId: string,
+  campaignId: string,
+  leads: number,
+  userId: string | null
+): Promise<SpendCreditsResult> {
+  const idempotencyKey = `campaign:${campaignId}`;
+  const debit = await addLedgerEntry({
+    organization_id: organizationId,
+    amount: -leads,
+    reason: 'campaign',
+    campaign_id: campaignId,
+    created_by: userId,
+    idempotency_key: idempotencyKey,
+  });
+
+  const balance = await getCreditBalance(organizationId);
+  const supabase = createAdminClient();
+
+  if (!debit) {
+    const { data: existing } = await supabase
+      .from(LEDGER_TABLE)
+      .select('amount')
+      .eq('idempotency_key', idempotencyKey)
+      .maybeSingle();
+
+    return { success: true, balance, alreadySpent: true, leads: existing ? -existing.amount : leads };
+  }
+
+  if (balance < 0) {
+    await supabase.from(LEDGER_TABLE).delete().eq('id', debit.id);
+
+    return {
+      success: false,
+      error: `Not enough lead credits (${balance + leads} left, ${leads} needed)`,
+      status: 402,
+      balance: balance + leads,
+    };
+  }
+
+  return { success: true, balance, alreadySpent: false, leads };
+}
+
+/**
+ * Pay for a campaign from the member's organization credits instead of a checkout: spend the
+ * credits, then claim the campaign for the organization and mark it paid, like fulfilment does
+ * for a card payment. Calling it again for the same campaign doesn't spend twice, and keeps
+ * the lead count the credits were first spent on.
+ */
+export async function launchCampaignWithCredits(
+  campaignId: string,
+  member: MemberContext,
+  leads: number
+): Promise<SpendCreditsResult> {
+  const spent = await spendCreditsOnCampaign(member.organizationId, campaignId, leads, member.userId);
+  if (!spent.success) return spent;
+
+  const supabase = createAdminClient();
+  const { error } = await supabase
+    .from('campaigns')
+    .update({
+      user_id: member.userId,
+      organization_id: member.organizationId,
+      status: 'generating',
+      leads_purchased: spent.leads,
+      paid_at: new Date().toISOString(),
+    })
+    .eq('id', campaignId);
+
+  if (error) {
+    throw new Error(`Failed to update campaign after spending credits: ${error.message}`);
+  }
+
+  console.log(`[credits] Campaign ${campaignId} launched with ${spent.leads} credits (${spent.balance} left)`);
+  return spent;
+}
+
+/**
+ * Give back the credits spent on a campaign whose lead generation couldn't be queued
+ */
+export async function refundCampaignCredits(campaignId: string): Promise<void> {
+  const supabase = createAdminClient();
+
+  const { error } = await supabase
+    .from(LEDGER_TABLE)
+    .delete()
+    .eq('idempotency_key', `campaign:${campaignId}`);
+
+  if (error) {
+    throw new Error(`Failed to refund credits: ${error.message}`);
+  }
+}
+
+/**
+ * Give back the credits a campaign's lead generation didn't use, once its run completes.
+ * Credits are spent up front for the leads asked for, but the run drops suppressed, recently
+ * contacted and undeliverable people and its sources can run out, so fewer leads may be inserted.
+ * Only campaigns launched with credits have anything to settle, and settling twice doesn't refund twice.
+ *
+ * @returns The credits given back
+ */
+export async function settleCampaignCredits(campaignId: string, leadsInserted: number): Promise<number> {
+  const supabase = createAdminClient();
+
+  const { data: debit } = await supabase
+    .from(LEDGER_TABLE)
+    .select('organization_id, amount')
+    .eq('idempotency_key', `campaign:${campaignId}`)
+    .maybeSingle();
+
+  if (!debit) return 0;
+
+  const unused = -debit.amount - leadsInserted;
+  if (unused <= 0) return 0;
+
+  const refund = await addLedgerEntry({
+    organization_id: debit.organization_id,
+    amount: unused,
+    reason: 'campaign',
+    campaign_id: campaignId,
+    idempotency_key: `campaign-refund:${campaignId}`,
+  });
+
+  if (!refund) return 0;
+
+  console.log(`[credits] Campaign ${campaignId} refunded ${unused} unused credits (${leadsInserted} leads inserted)`);
+  return unused;
+}
@@ -0,0 +1,272 @@
+import { CompanyInfo, LinkedInLead } from '../types';
+import { normalizeCompanyName } from '../utils/companyName';
+import { EmailContent, extractPrimaryPosition, FollowUpEmail, normalizeFirstName } from './emailWriter';
+
+/**
+ * Deterministic checks on written copy, run before leads are inserted (and in evals).
+ *
+ * Errors are copy we won't send - it's rewritten, then replaced with the fallback copy.
+ * Warnings are recorded with the lead for review.
+ */
+
+export type EmailLintRule =
+  | 'spam-words'
+  | 'links'
+  | 'images'
+  | 'subject-length'
+  | 'placeholders'
+  | 'first-name'
+  | 'company-name'
+  | 'reading-level';
+
+export const EMAIL_LINT_RULES: EmailLintRule[] = [
+  'spam-words',
+  'links',
+  'images',
+  'subject-length',
+  'placeholders',
+  'first-name',
+  'company-name',
+  'reading-level',
+];
+
+export interface EmailLintIssue {
+  rule: EmailLintRule;
+  severity: 'error' | 'warning';
+  // 1 is the initial email, 2+ the follow-ups
+  step: number;
+  message: string;
+}
+
+export interface EmailLintResult {
+  // No errors (warnings allowed)
+  passed: boolean;
+  issues: EmailLintIssue[];
+}
+
+/**
+ * What's stored in leads.copy_lint when the copy needed attention
+ */
+export interface StoredEmailLint {
+  issues: EmailLintIssue[];
+  // Times the writer ran for this lead
+  attempts: number;
+  // The writer's copy was rejected (or it failed) and the generic copy was used
+  usedFallback: boolean;
+}
+
+// Merge tags EmailBison fills in - any other {{tag}} is sent as-is
+const ALLOWED_MERGE_TAGS = ['{{first_name}}', '{{company}}'];
+
+// Phrases that get cold email filtered or read as spam
+const SPAM_PHRASES = [
+  'act now',
+  'limited time',
+  'risk-free',
+  'risk free',
+  '100% free',
+  'guaranteed',
+  'no obligation',
+  'click here',
+  'buy now',
+  'order now',
+  'cash bonus',
+  'winner',
+  'congratulations',
+  'urgent',
+  'once in a lifetime',
+  'special promotion',
+  'exclusive deal',
+  'make money',
+  'earn money',
+  'double your',
+  '$$$',
+];
+
+// Greetings that show the writer didn't have (or use) the lead's name
+const GENERIC_GREETING_NAMES = ['there', 'all', 'team', 'friend', 'sir', 'madam', 'folks', 'everyone'];
+
+const MAX_LINKS = 1;
+const MAX_SUBJECT_CHARS = 60;
+const MAX_SUBJECT_WORDS = 6;
+
+// Flesch-Kincaid grade - cold email should read at about 8th grade or below
+const MAX_READING_GRADE = 9;
+// Below this the grade formula swings wildly
+const MIN_WORDS_FOR_READING_LEVEL = 30;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whether text names something as a whole word, ignoring case
+ */
+function mentions(text: string, name: string): boolean {
+  return new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(name)}(?![A-Za-z0-9])`, 'i').test(text);
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function countSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (letters.length <= 3) return 1;
+  const trimmed = letters.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, (trimmed.match(/[aeiouy]{1,2}/g) || []).length);
+}
+
+/**
+ * Flesch-Kincaid grade level, or null if the text is too short to grade
+ */
+export function getReadingGrade(text: string): number | null {
+  const words = text.replace(/\{\{[^}]*\}\}/g, '').split(/\s+/).filter(word => /[a-z]/i.test(word));
+  if (words.length < MIN_WORDS_FOR_READING_LEVEL) return null;
+
+  const sentences = Math.max(1, (text.match(/[.!?]+(\s|$)/g) || []).length);
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+
+  return 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59;
+}
+
+function lintStep(
+  subject: string,
+  body: string,
+  step: number,
+  lead: LinkedInLead,
+  // Where the lead works now (extractPrimaryPosition), before normalizing
+  leadCompany: string,
+  senderCompany: CompanyInfo
+): EmailLintIssue[] {
+  const issues: EmailLintIssue[] = [];
+  const add = (rule: EmailLintRule, severity: EmailLintIssue['severity'], message: string) =>
+    issues.push({ rule, severity, step, message });
+  const copy = `${subject}\n${body}`;
+
+  const spamPhrases = SPAM_PHRASES.filter(phrase => mentions(copy, phrase));
+  if (spamPhrases.length > 0) {
+    add('spam-words', 'error', `Spam trigger phrases: ${spamPhrases.join(', ')}`);
+  }
+  if (/!/.test(subject)) {
+    add('spam-words', 'warning', 'Subject has an exclamation mark');
+  }
+
+  const links = body.match(/https?:\/\/\S+|www\.\S+/gi) || [];
+  if (links.length > MAX_LINKS) {
+    add('links', 'error', `${links.length} links (max ${MAX_LINKS})`);
+  }
+
+  if (/<img\b|!\[[^\]]*\]\(/i.test(body)) {
+    add('images', 'error', 'Contains an image');
+  }
+
+  // Follow-ups reuse the initial subject as "Re: ..."
+  if (step === 1) {
+    if (!subject.trim()) {
+      add('subject-length', 'error', 'Subject is empty');
+    } else if (subject.length > MAX_SUBJECT_CHARS) {
+      add('subject-length', 'error', `Subject is ${subject.length} characters (max ${MAX_SUBJECT_CHARS})`);
+    } else if (countWords(subject) > MAX_SUBJECT_WORDS) {
+      add('subject-length', 'warning', `Subject is ${countWords(subject)} words (max ${MAX_SUBJECT_WORDS})`);
+    }
+  }
+
+  // Unknown {{tags}}, single-brace {tags} and [bracketed] instructions left from the prompt's example
+  const placeholders = [
+    ...(copy.match(/\{\{[^}]*\}\}/g) || []).filter(tag => !ALLOWED_MERGE_TAGS.includes(tag)),
+    ...(copy.replace(/\{\{[^}]*\}\}/g, '').match(/\{[^}]*\}/g) || []),
+    ...(copy.match(/\[[^\]]*\]/g) || []),
+  ];
+  if (placeholders.length > 0) {
+    add('placeholders', 'error', `Unresolved placeholders: ${placeholders.join(', ')}`);
+  }
+
+  const greeting = body.trim().match(/^(?:hi|hey|hello|dear)\b[ \t]*([^,\n!:\u2013\u2014]*)/i);
+  if (greeting) {
+    // "Hi Dana - saw your post" -> "Dana"
+    const name = greeting[1].trim().split(/\s+/)[0];
+    const expectedNames = [normalizeFirstName(lead.first_name, lead.full_name), lead.first_name]
+      .filter(Boolean)
+      .map(n => n.toLowerCase());
+
+    if (!name) {
+      add('first-name', 'error', 'Greeting has no name');
+    } else if (GENERIC_GREETING_NAMES.includes(name.toLowerCase())) {
+      add('first-name', 'error', `Generic greeting "${greeting[0].trim()}"`);
+    } else if (name !== '{{first_name}}' && !expectedNames.includes(name.toLowerCase())) {
+      add('first-name', 'error', `Greets "${name}", but the lead is ${lead.first_name}`);
+    }
+  }
+
+  // Companies from the lead's record that aren't where they work now, e.g. a side gig
+  // the search matched on
+  const primaryCompany = normalizeCompanyName(leadCompany);
+  const senderName = normalizeCompanyName(senderCompany.name);
+  const otherCompanies = [lead.company, lead.current_company, ...(lead.positions || []).map(p => p.company)]
+    .filter((name): name is string => !!name)
+    .map(normalizeCompanyName)
+    .filter(name =>
+      name.length >= 3
+      && !primaryCompany.toLowerCase().includes(name.toLowerCase())
+      && name.toLowerCase() !== senderName.toLowerCase()
+    );
+  const wrongCompany = [...new Set(otherCompanies)].find(name => mentions(copy, name));
+  if (wrongCompany) {
+    add('company-name', 'error', `Names ${wrongCompany}, but the lead works at ${primaryCompany}`);
+  }
+
+  // Legal names read as a mail merge ("Acme Holdings, LLC")
+  const legalName = [senderCompany.name, leadCompany, lead.company]
+    .find(name => name && normalizeCompanyName(name) !== name && mentions(copy, name));
+  if (legalName) {
+    add('company-name', 'warning', `Uses "${legalName}" instead of "${normalizeCompanyName(legalName)}"`);
+  }
+
+  const grade = getReadingGrade(body);
+  if (grade !== null && grade > MAX_READING_GRADE) {
+    add('reading-level', 'warning', `Reads at grade ${grade.toFixed(1)} (max ${MAX_READING_GRADE})`);
+  }
+
+  return issues;
+}
+
+function toResult(issues: EmailLintIssue[]): EmailLintResult {
+  return { passed: !issues.some(issue => issue.severity === 'error'), issues };
+}
+
+/**
+ * Lint a single email
+ */
+export function lintEmail(
+  email: Pick<EmailContent, 'emailSubject' | 'emailBody'>,
+  lead: LinkedInLead,
+  senderCompany: CompanyInfo
+): EmailLintResult {
+  const leadCompany = extractPrimaryPosition(lead).company;
+  return toResult(lintStep(email.emailSubject, email.emailBody, 1, lead, leadCompany, senderCompany));
+}
+
+/**
+ * Lint the initial email and every follow-up
+ */
+export function lintEmailSequence(
+  sequence: Pick<EmailContent, 'emailSubject' | 'emailBody'> & { followUps: FollowUpEmail[] },
+  lead: LinkedInLead,
+  senderCompany: CompanyInfo
+): EmailLintResult {
+  const leadCompany = extractPrimaryPosition(lead).company;
+  return toResult([
+    ...lintStep(sequence.emailSubject, sequence.emailBody, 1, lead, leadCompany, senderCompany),
+    ...sequence.followUps.flatMap(followUp =>
+      lintStep(followUp.emailSubject, followUp.emailBody, followUp.step, lead, leadCompany, senderCompany)
+    ),
+  ]);
+}
+
+/**
+ * One line per issue, for logs
+ */
+export function formatLintIssues(issues: EmailLintIssue[]): string {
+  return issues.map(issue => `step ${issue.step} ${issue.rule} (${issue.severity}): ${issue.message}`).join('; ');
+}
@@ -0,0 +1,130 @@
+// Type-only import: the stats helpers are also used by the campaign page
+import type { ICPPersona } from './agents/icpBrainstormer';
+
+/**
+ * A/B variants of a campaign's first email.
+ *
+ * Each variant is an angle taken from the selected persona - one of their pain points or
+ * buying triggers - that the email writer builds the hook and offer around. Leads are
+ * assigned variants in turn, the variant id goes to EmailBison as a custom variable, and
+ * opens and replies are counted per variant to find the angle that works.
+ */
+
+export interface EmailVariant {
+  // "A", "B", ...
+  id: string;
+  angle: string;
+  source: 'pain_point' | 'buying_trigger';
+}
+
+export interface VariantStats {
+  variantId: string;
+  angle: string;
+  leads: number;
+  sent: number;
+  opened: number;
+  replied: number;
+  // Of the leads sent to (0-1)
+  openRate: number;
+  replyRate: number;
+}
+
+const MIN_EMAIL_VARIANTS = 1;
+const MAX_EMAIL_VARIANTS = 4;
+const DEFAULT_EMAIL_VARIANTS = 2;
+
+// Sends per variant before a winner is called - below this the rates are noise
+export const MIN_SENT_FOR_WINNER = 20;
+
+/**
+ * The lead fields variant results are counted from
+ */
+export interface VariantLead {
+  variant_id: string | null;
+  sent_at: string | null;
+  opened_at: string | null;
+  replied_at: string | null;
+}
+
+/**
+ * Get the number of variants per campaign.
+ *
+ * Environment variables:
+ * - EMAIL_VARIANTS: Number of variants, clamped to 1-4 (default: 2). 1 turns A/B testing off.
+ */
+export function getEmailVariantCount(): number {
+  const configured = process.env.EMAIL_VARIANTS;
+  if (!configured) return DEFAULT_EMAIL_VARIANTS;
+
+  const parsed = parseInt(configured, 10);
+  if (isNaN(parsed)) return DEFAULT_EMAIL_VARIANTS;
+  return Math.min(MAX_EMAIL_VARIANTS, Math.max(MIN_EMAIL_VARIANTS, parsed));
+}
+
+/**
+ * Angles for a campaign's variants, alternating pain points and buying triggers so two
+ * variants test one of each. No variants when there's no persona or only one is asked for.
+ */
+export function buildEmailVariants(persona: ICPPersona | undefined, count: number = getEmailVariantCount()): EmailVariant[] {
+  if (!persona || count < 2) return [];
+
+  const angles: Omit<EmailVariant, 'id'>[] = [];
+  const longest = Math.max(persona.painPoints.length, persona.buyingTriggers.length);
+  for (let i = 0; i < longest; i++) {
+    if (persona.painPoints[i]) angles.push({ angle: persona.painPoints[i], source: 'pain_point' });
+    if (persona.buyingTriggers[i]) angles.push({ angle: persona.buyingTriggers[i], source: 'buying_trigger' });
+  }
+
+  // A single angle isn't a test
+  if (angles.length < 2) return [];
+
+  return angles.slice(0, count).map((angle, i) => ({
+    id: String.fromCharCode(65 + i),
+    ...angle,
+  }));
+}
+
+/**
+ * The variant for the campaign's nth lead - in turn, so every variant gets an even share
+ */
+export function assignEmailVariant(variants: EmailVariant[], leadIndex: number): EmailVariant | undefined {
+  return variants.length > 0 ? variants[leadIndex % variants.length] : undefined;
+}
+
+/**
+ * Per-variant results from the campaign's leads. Counted from the first sent/opened/replied
+ * timestamps rather than the status, which a later bounce or unsubscribe overwrites
+ * (a reply counts as an open and a send too - opens aren't always tracked).
+ */
+export function summarizeVariants(variants: EmailVariant[], leads: VariantLead[]): VariantStats[] {
+  return variants.map(variant => {
+    const variantLeads = leads.filter(lead => lead.variant_id === variant.id);
+    const sent = variantLeads.filter(lead => lead.sent_at || lead.opened_at || lead.replied_at).length;
+    const opened = variantLeads.filter(lead => lead.opened_at || lead.replied_at).length;
+    const replied = variantLeads.filter(lead => lead.replied_at).length;
+
+    return {
+      variantId: variant.id,
+      angle: variant.angle,
+      leads: variantLeads.length,
+      sent,
+      opened,
+      replied,
+      openRate: sent > 0 ? opened / sent : 0,
+      replyRate: sent > 0 ? replied / sent : 0,
+    };
+  });
+}
+
+/**
+ * The variant with the best reply rate (open rate breaks ties), once every variant has
+ * been sent MIN_SENT_FOR_WINNER times. Null until then, or if it's a dead heat.
+ */
+export function pickWinningVariant(stats: VariantStats[]): VariantStats | null {
+  if (stats.length < 2 || stats.some(s => s.sent < MIN_SENT_FOR_WINNER)) return null;
+
+  const ranked = [...stats].sort((a, b) => b.replyRate - a.replyRate || b.openRate - a.openRate);
+  const [best, runnerUp] = ranked;
+  if (best.replyRate === runnerUp.replyRate && best.openRate === runnerUp.openRate) return null;
+  return best;
+}
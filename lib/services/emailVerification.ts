@@ -0,0 +1,174 @@
+import { Resolver } from 'dns/promises';
+
+/**
+ * Deliverability grade, best to worst:
+ * - A: mail server found, Icypeas confirmed the mailbox, no risk flags
+ * - B: mail server found, no risk flags, but the mailbox itself wasn't confirmed
+ * - C: one risk flag (catch-all domain, role account, no MX record)
+ * - D: two or more risk flags
+ * - F: undeliverable (bad syntax, domain doesn't exist or doesn't accept mail)
+ */
+export type EmailGrade = 'A' | 'B' | 'C' | 'D' | 'F';
+
+export const EMAIL_GRADES: EmailGrade[] = ['A', 'B', 'C', 'D', 'F'];
+
+export interface EmailVerification {
+  grade: EmailGrade;
+  checks: {
+    syntax: boolean;
+    // ok: MX records found; implicit: no MX but the domain has an A record; missing: can't receive mail;
+    // unknown: DNS lookup failed (timeout, SERVFAIL)
+    mx: 'ok' | 'implicit' | 'missing' | 'unknown';
+    // null when there's no Icypeas certainty to go on
+    catchAll: boolean | null;
+    roleAccount: boolean;
+  };
+  // Icypeas certainty for enriched emails (ultra_sure, very_sure, sure, probable)
+  certainty?: string;
+  reasons: string[];
+  verifiedAt: string;
+}
+
+const EMAIL_PATTERN = /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*@([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/;
+
+// Shared inboxes - deliverable, but rarely the decision maker and quick to mark cold email as spam
+const ROLE_ACCOUNTS = new Set([
+  'admin', 'billing', 'careers', 'contact', 'enquiries', 'help', 'hello', 'hr', 'info', 'inquiries',
+  'jobs', 'marketing', 'media', 'no-reply', 'noreply', 'office', 'postmaster', 'press', 'privacy',
+  'sales', 'security', 'support', 'team', 'webmaster',
+]);
+
+// Icypeas can only guess addresses on servers that accept every recipient,
+// and marks those results 'probable'
+const CATCH_ALL_CERTAINTY = 'probable';
+
+const DNS_TIMEOUT_MS = 3000;
+const VERIFY_CONCURRENCY = 10;
+
+const resolver = new Resolver({ timeout: DNS_TIMEOUT_MS, tries: 2 });
+
+// MX results per domain for this instance - leads in a campaign share a handful of domains
+const mxCache: Map<string, Promise<EmailVerification['checks']['mx']>> = new Map();
+
+function getDnsErrorCode(error: unknown): string | undefined {
+  return (error as NodeJS.ErrnoException)?.code;
+}
+
+async function lookupMx(domain: string): Promise<EmailVerification['checks']['mx']> {
+  try {
+    const records = await resolver.resolveMx(domain);
+    // RFC 7505 null MX: the domain explicitly accepts no mail
+    const usable = records.filter(r => r.exchange && r.exchange !== '.');
+    return usable.length > 0 ? 'ok' : 'missing';
+  } catch (error) {
+    const code = getDnsErrorCode(error);
+    if (code === 'ENOTFOUND') return 'missing';
+    if (code !== 'ENODATA') return 'unknown';
+  }
+
+  // No MX records - mail falls back to the domain's A record
+  try {
+    const addresses = await resolver.resolve4(domain);
+    return addresses.length > 0 ? 'implicit' : 'missing';
+  } catch (error) {
+    const code = getDnsErrorCode(error);
+    return code === 'ENOTFOUND' || code === 'ENODATA' ? 'missing' : 'unknown';
+  }
+}
+
+function getMxStatus(domain: string): Promise<EmailVerification['checks']['mx']> {
+  let cached = mxCache.get(domain);
+  if (!cached) {
+    cached = lookupMx(domain);
+    mxCache.set(domain, cached);
+    // Don't remember transient failures
+    cached.then(status => {
+      if (status === 'unknown') mxCache.delete(domain);
+    });
+  }
+  return cached;
+}
+
+/**
+ * Check an address's syntax, mail server, catch-all status and whether it's a role account
+ *
+ * @param email - Address to check
+ * @param certainty - Icypeas certainty for the address, if it came from Icypeas
+ */
+export async function verifyEmail(email: string, certainty?: string): Promise<EmailVerification> {
+  const normalized = email.trim().toLowerCase();
+  const [localPart, domain] = normalized.split('@');
+  const syntax = EMAIL_PATTERN.test(normalized);
+  const roleAccount = ROLE_ACCOUNTS.has((localPart || '').split('+')[0]);
+  const catchAll = certainty ? certainty.toLowerCase() === CATCH_ALL_CERTAINTY : null;
+  const mx = syntax ? await getMxStatus(domain) : 'missing';
+
+  const reasons: string[] = [];
+  let grade: EmailGrade;
+
+  if (!syntax) {
+    reasons.push('Invalid email syntax');
+    grade = 'F';
+  } else if (mx === 'missing') {
+    reasons.push(`${domain} does not accept email`);
+    grade = 'F';
+  } else {
+    if (catchAll) reasons.push('Catch-all domain');
+    if (roleAccount) reasons.push('Role account');
+    if (mx === 'implicit') reasons.push('No MX record');
+    if (mx === 'unknown') reasons.push('MX lookup failed');
+
+    const riskFlags = [catchAll, roleAccount, mx === 'implicit'].filter(Boolean).length;
+    if (riskFlags >= 2) grade = 'D';
+    else if (riskFlags === 1) grade = 'C';
+    else if (catchAll === false && mx === 'ok') grade = 'A';
+    else grade = 'B';
+  }
+
+  return {
+    grade,
+    checks: { syntax, mx, catchAll, roleAccount },
+    certainty,
+    reasons,
+    verifiedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Verify many addresses, a few at a time
+ */
+export async function verifyEmails(
+  items: Array<{ email: string; certainty?: string }>
+): Promise<EmailVerification[]> {
+  const results: EmailVerification[] = [];
+  for (let i = 0; i < items.length; i += VERIFY_CONCURRENCY) {
+    const batch = items.slice(i, i + VERIFY_CONCURRENCY);
+    results.push(...await Promise.all(batch.map(item => verifyEmail(item.email, item.certainty))));
+  }
+  return results;
+}
+
+export function isEmailGrade(value: unknown): value is EmailGrade {
+  return typeof value === 'string' && EMAIL_GRADES.includes(value as EmailGrade);
+}
+
+/**
+ * Worst grade a campaign still sends to.
+ *
+ * Environment variables:
+ * - MIN_EMAIL_GRADE: Default for campaigns without campaigns.min_email_grade (A-F, default C)
+ */
+export function getMinEmailGrade(campaignMinGrade?: string | null): EmailGrade {
+  if (isEmailGrade(campaignMinGrade)) return campaignMinGrade;
+
+  const configured = process.env.MIN_EMAIL_GRADE?.trim().toUpperCase();
+  return isEmailGrade(configured) ? configured : 'C';
+}
+
+/**
+ * True if `grade` is at least as good as `minGrade`
+ */
+export function meetsMinEmailGrade(grade: string | null | undefined, minGrade: EmailGrade): boolean {
+  if (!isEmailGrade(grade)) return false;
+  return EMAIL_GRADES.indexOf(grade) <= EMAIL_GRADES.indexOf(minGrade);
+}
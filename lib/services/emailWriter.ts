@@ -1,57 +1,11 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { LinkedInLead, QualifiedLead, CompanyInfo } from '../types';
+import { normalizeCompanyName } from '../utils/companyName';
 import { CompanyProfile } from './agents/companyProfiler';
 import { ICPPersona } from './agents/icpBrainstormer';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-/**
- * Normalize a company name for use in casual email copy.
- * Strips legal suffixes like LLC, Inc., Corp., etc.
- * 
- * "Acme Corporation, Inc." -> "Acme Corporation"
- * "TechStart LLC" -> "TechStart"
- * "Global Solutions, L.L.C." -> "Global Solutions"
- */
-function normalizeCompanyName(name: string): string {
-  if (!name) return name;
-  
-  // Common legal suffixes to remove (case insensitive)
-  // Order matters - check longer patterns first
-  const suffixes = [
-    /,?\s*(L\.?L\.?C\.?|LLC)\.?$/i,
-    /,?\s*(Inc\.?|Incorporated)$/i,
-    /,?\s*(Corp\.?|Corporation)$/i,
-    /,?\s*(Ltd\.?|Limited)$/i,
-    /,?\s*(L\.?L\.?P\.?|LLP)\.?$/i,
-    /,?\s*(P\.?L\.?L\.?C\.?|PLLC)\.?$/i,
-    /,?\s*(P\.?C\.?|PC)\.?$/i,
-    /,?\s*(Co\.?)$/i,
-    /,?\s*(S\.?A\.?)$/i,         // Spanish/French
-    /,?\s*(GmbH)$/i,             // German
-    /,?\s*(B\.?V\.?)$/i,         // Dutch
-    /,?\s*(Pty\.?\s*Ltd\.?)$/i,  // Australian
-    /,?\s*(sp\.?\s*z\.?\s*o\.?\s*o\.?)$/i,  // Polish (sp. z o.o.)
-    /,?\s*(s\.?\s*r\.?\s*o\.?)$/i,          // Czech/Slovak (s.r.o.)
-    /,?\s*(A\.?S\.?|a\/s)$/i,               // Danish/Norwegian (A/S)
-    /,?\s*(AB)$/i,                          // Swedish
-    /,?\s*(AG)$/i,                          // German/Swiss
-    /,?\s*(S\.?r\.?l\.?)$/i,                // Italian/Romanian (S.r.l.)
-    /,?\s*(S\.?L\.?)$/i,                    // Spanish (S.L.)
-    /,?\s*(N\.?V\.?)$/i,                    // Dutch (N.V.)
-    /,?\s*(OÜ)$/i,                          // Estonian
-  ];
-  
-  let normalized = name.trim();
-  
-  for (const suffix of suffixes) {
-    normalized = normalized.replace(suffix, '');
-  }
-  
-  return normalized.trim();
-}
+import { AccountContext } from './accountTargeting';
+import { EmailVariant } from './emailVariants';
+import { generateStructured, s, Schema } from './llm';
+import { definePrompt, PromptVersions, renderPrompt } from './prompts/registry';
 
 /**
  * Normalize a first name for casual email use.
@@ -62,7 +16,7 @@ function normalizeCompanyName(name: string): string {
  * "Mary-Jane Watson" -> "Mary-Jane"
  * "Prof. Elizabeth" -> "Elizabeth"
  */
-function normalizeFirstName(firstName: string, fullName?: string): string {
+export function normalizeFirstName(firstName: string, fullName?: string): string {
   if (!firstName) return firstName;
   
   let name = firstName.trim();
@@ -127,7 +81,7 @@ function isValidCompanyName(name: string): boolean {
  * 
  * IMPORTANT: We validate extracted companies to avoid replacing good data with garbage.
  */
-function extractPrimaryPosition(lead: LinkedInLead): { title: string; company: string } {
+export function extractPrimaryPosition(lead: LinkedInLead): { title: string; company: string } {
   // Priority 1: Use current_company/current_title if available (most reliable)
   if (lead.current_company && lead.current_title) {
     return {
@@ -202,6 +156,19 @@ export interface EmailContent {
   emailBody: string;
 }
 
+/**
+ * An email and the version of the prompt that wrote it
+ */
+export interface GeneratedEmail extends EmailContent {
+  promptVersion: string;
+}
+
+const emailContentSchema: Schema<EmailContent> = s.object({
+  whyPicked: s.string(),
+  emailSubject: s.string({ nonEmpty: true }),
+  emailBody: s.string({ nonEmpty: true }),
+});
+
 /**
  * Enriched context for writing better emails
  */
@@ -209,19 +176,56 @@ export interface EmailWriterContext {
   companyProfile?: CompanyProfile; // Full company profile for context
   selectedPersona?: ICPPersona; // Why we're targeting this type of person
   selectionReasoning?: string; // Why this persona was chosen for cold email
+  account?: AccountContext; // Account-based campaigns: the target company and who else there we're writing to
+  variant?: EmailVariant; // A/B campaigns: the angle this lead's email is written around
+  revisionNotes?: string; // Rewrites: what the copy checks rejected in the last draft (formatLintIssues)
 }
 
 /**
- * Generate personalized email for a single lead
+ * Prompt section describing the recipient's company in account-based campaigns
  */
-export async function generateEmailForLead(
-  lead: LinkedInLead,
-  senderCompany: CompanyInfo,
-  senderName: string = 'Bella',
-  context?: EmailWriterContext
-): Promise<EmailContent> {
-  console.log(`[EmailWriter] Generating email for ${lead.full_name}...`);
-  
+function buildAccountSection(account: AccountContext | undefined): string {
+  if (!account) return '';
+
+  const details = [
+    `Company: ${normalizeCompanyName(account.name)}`,
+    account.domain && `Website: ${account.domain}`,
+    account.industry && `Industry: ${account.industry}`,
+    account.headcount && `Employees: ~${account.headcount}`,
+    account.description && `About: ${account.description}`,
+  ].filter(Boolean).join('\n');
+
+  const colleagues = account.colleagues.length > 0 ? `
+
+We're also writing to these people at the same company:
+${account.colleagues.map(c => `- ${c.name}${c.title ? `, ${c.title}` : ''}`).join('\n')}
+
+Angle this email on what THIS person's role cares about so the emails don't read as copies of each other. Never mention the colleagues or that others were contacted.` : '';
+
+  return `
+## Target Account
+
+This company is on the sender's named-account list - they chose it specifically, it wasn't found by broad filters.
+
+${details}${colleagues}
+`;
+}
+
+export interface EmailWriterPromptVars {
+  lead: LinkedInLead;
+  senderCompany: CompanyInfo;
+  senderName: string;
+  context?: EmailWriterContext;
+}
+
+/**
+ * The email writer prompt, with an optional section added after the account context.
+ * Shared by every version so a new version only adds what changed.
+ */
+function renderEmailWriterPrompt(
+  { lead, senderCompany, senderName, context }: EmailWriterPromptVars,
+  angleSection: string = ''
+): string {
   // Extract primary position (may differ from matched position if they have multiple roles)
   const primaryPosition = extractPrimaryPosition(lead);
 
@@ -270,12 +274,12 @@ Use this persona context to write an email that resonates with their specific pa
   const normalizedSenderCompany = normalizeCompanyName(senderCompany.name);
   const normalizedLeadCompany = normalizeCompanyName(primaryPosition.company);
 
-  const prompt = `You are writing a cold email for ${normalizedSenderCompany}.
+  return `You are writing a cold email for ${normalizedSenderCompany}.
 
 ${companyContextSection}
 
 ${personaContextSection}
-
+${buildAccountSection(context?.account)}${angleSection}
 ## About the Recipient
 
 - Name: ${lead.full_name}
@@ -360,30 +364,90 @@ Respond ONLY with valid JSON:
 Use {{first_name}} and {{company}} as placeholders in the email body.
 
 IMPORTANT: When mentioning company names, write them casually like a human would. Never include legal suffixes like LLC, Inc., Corp., Ltd., etc.`;
+}
 
-  const message = await anthropic.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 2048,
-    messages: [
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ],
-  });
+/**
+ * Prompt section with the A/B variant's angle
+ */
+function buildAngleSection(variant: EmailVariant | undefined): string {
+  if (!variant) return '';
+
+  const angle = variant.source === 'pain_point'
+    ? `what solving this pain point gets them: "${variant.angle}"`
+    : `this moment in their business: "${variant.angle}"`;
+
+  return `
+## Angle for This Email
+
+Build the hook and the offer around ${angle}
+Other emails in this campaign use other angles, so stick to this one. Don't quote it word for word.
+`;
+}
+
+/**
+ * Prompt section with the problems found in the last draft, when rewriting rejected copy
+ */
+function buildRevisionSection(revisionNotes: string | undefined): string {
+  if (!revisionNotes) return '';
+
+  return `
+## Fix the Last Draft
 
-  const responseText = message.content[0].type === 'text' ? message.content[0].text : '';
+Our copy checks rejected the last draft of this sequence (step 1 is the first email, 2+ the follow-ups):
+${revisionNotes}
+
+Write new copy that avoids every one of these problems.
+`;
+}
+
+export const emailWriterPrompt = definePrompt<EmailWriterPromptVars>({
+  id: 'email-writer',
+  description: 'Writes the first cold email to one lead',
+  versions: [
+    {
+      version: 'v1',
+      notes: 'Initial version',
+      render: (vars) => renderEmailWriterPrompt(vars),
+    },
+    {
+      version: 'v2',
+      notes: "Writes around the lead's A/B variant angle when the campaign has variants",
+      render: (vars) => renderEmailWriterPrompt(vars, buildAngleSection(vars.context?.variant)),
+    },
+    {
+      version: 'v3',
+      notes: 'Rewrites of copy the linter rejected get its issues to fix',
+      render: (vars) => renderEmailWriterPrompt(
+        vars,
+        buildAngleSection(vars.context?.variant) + buildRevisionSection(vars.context?.revisionNotes)
+      ),
+    },
+  ],
+});
+
+/**
+ * Generate personalized email for a single lead
+ */
+export async function generateEmailForLead(
+  lead: LinkedInLead,
+  senderCompany: CompanyInfo,
+  senderName: string = 'Bella',
+  context?: EmailWriterContext
+): Promise<GeneratedEmail> {
+  console.log(`[EmailWriter] Generating email for ${lead.full_name}...`);
   
-  const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('Failed to parse email generation response');
-  }
+  const prompt = renderPrompt(emailWriterPrompt, { lead, senderCompany, senderName, context });
 
-  const result: EmailContent = JSON.parse(jsonMatch[0]);
+  const { data: result } = await generateStructured({
+    agent: 'email-writer',
+    prompt: prompt.text,
+    maxTokens: 2048,
+    schema: emailContentSchema,
+  });
   
   console.log(`[EmailWriter] Generated email with subject: "${result.emailSubject}"`);
 
-  return result;
+  return { ...result, promptVersion: prompt.version };
 }
 
 /**
@@ -428,6 +492,7 @@ export async function generateEmailsForLeads(
           whyPicked: email.whyPicked,
           emailSubject: email.emailSubject,
           emailBody: email.emailBody,
+          promptVersion: email.promptVersion,
         } as QualifiedLead;
       } catch (error) {
         console.error(`[EmailWriter] Error generating email for ${lead.full_name}:`, error);
@@ -447,3 +512,260 @@ export async function generateEmailsForLeads(
   return qualifiedLeads;
 }
 
+
+/**
+ * A follow-up touch in a multi-step sequence.
+ * Step 1 is always the initial email (EmailContent), so follow-ups start at step 2.
+ */
+export interface FollowUpEmail {
+  step: number;
+  emailSubject: string;
+  emailBody: string;
+  waitInDays: number;
+}
+
+/**
+ * Initial email plus its follow-ups
+ */
+export interface EmailSequenceContent extends EmailContent {
+  followUps: FollowUpEmail[];
+  // The prompts that wrote the sequence - follow-up-writer is missing when the fallback was used
+  promptVersions: PromptVersions;
+}
+
+/**
+ * Follow-ups and the version of the prompt that wrote them
+ */
+export interface GeneratedFollowUps {
+  followUps: FollowUpEmail[];
+  promptVersion: string | null;
+}
+
+// Days to wait before each follow-up (index 0 = wait before step 2)
+// EmailBison sequence steps are shared by every lead in a campaign, so the cadence is fixed per campaign
+const FOLLOW_UP_WAIT_DAYS = [3, 4, 5, 7];
+
+const MIN_SEQUENCE_LENGTH = 3;
+const MAX_SEQUENCE_LENGTH = 5;
+const DEFAULT_SEQUENCE_LENGTH = 4;
+
+/**
+ * Get the number of touches (initial email + follow-ups) per lead.
+ * 
+ * Environment variables:
+ * - EMAIL_SEQUENCE_STEPS: Number of touches, clamped to 3-5 (default: 4)
+ */
+export function getSequenceLength(): number {
+  const configured = process.env.EMAIL_SEQUENCE_STEPS;
+  if (configured) {
+    const parsed = parseInt(configured, 10);
+    if (!isNaN(parsed)) {
+      return Math.min(MAX_SEQUENCE_LENGTH, Math.max(MIN_SEQUENCE_LENGTH, parsed));
+    }
+  }
+  return DEFAULT_SEQUENCE_LENGTH;
+}
+
+/**
+ * Wait (in days) before each follow-up step for a sequence of the given length
+ */
+export function getFollowUpSchedule(sequenceLength: number = getSequenceLength()): number[] {
+  return FOLLOW_UP_WAIT_DAYS.slice(0, Math.max(0, sequenceLength - 1));
+}
+
+/**
+ * Follow-ups reply in the same thread, so they reuse the initial subject
+ */
+function toReplySubject(subject: string): string {
+  return /^re:/i.test(subject.trim()) ? subject.trim() : `re: ${subject.trim()}`;
+}
+
+export interface FollowUpWriterPromptVars extends EmailWriterPromptVars {
+  initialEmail: EmailContent;
+  // Days to wait before each follow-up
+  schedule: number[];
+}
+
+/**
+ * The follow-up writer prompt, with an optional section added after the account context
+ */
+function renderFollowUpWriterPrompt(
+  { lead, senderCompany, initialEmail, senderName, context, schedule }: FollowUpWriterPromptVars,
+  revisionSection: string = ''
+): string {
+  const primaryPosition = extractPrimaryPosition(lead);
+  const normalizedSenderCompany = normalizeCompanyName(senderCompany.name);
+  const normalizedLeadCompany = normalizeCompanyName(primaryPosition.company);
+
+  const proofPoints = context?.companyProfile?.caseStudiesOrTestimonials || [];
+  const persona = context?.selectedPersona;
+
+  return `You are writing follow-up emails for a cold email sequence from ${normalizedSenderCompany}.
+
+## The First Email (already sent, no reply yet)
+
+Subject: ${initialEmail.emailSubject}
+
+${initialEmail.emailBody}
+
+## About the Sender
+
+- Company: ${normalizedSenderCompany}
+- What they do: ${context?.companyProfile?.productOrService || senderCompany.whatTheyDo}
+- Value proposition: ${context?.companyProfile?.competitiveAdvantage || senderCompany.valueProposition}
+${proofPoints.length > 0 ? `- Proof points:\n${proofPoints.map((cs) => `  - ${cs}`).join('\n')}` : ''}
+${persona ? `
+## Recipient Persona
+
+Persona: ${persona.name}
+Their Pain Points: ${persona.painPoints.join(', ')}
+Buying Triggers: ${persona.buyingTriggers.join(', ')}
+` : ''}
+${buildAccountSection(context?.account)}${revisionSection}
+## About the Recipient
+
+- Name: ${lead.full_name}
+- Title: ${primaryPosition.title}
+- Company: ${normalizedLeadCompany}
+
+## Sequence
+
+Write ${schedule.length} follow-ups. They are sent in the same thread as the first email:
+${schedule.map((days, i) => `- Follow-up ${i + 1}: sent ${days} days after the previous email`).join('\n')}
+
+## Follow-up Requirements
+
+1. Each follow-up references the first email ("Floating this back up", "Re my note last week") - never re-pitch from scratch
+2. Each follow-up adds ONE new angle: a different pain point, a proof point, a specific result, or a simpler ask
+3. Shorter than the first email: under 60 words for the body
+4. The LAST follow-up is a polite breakup email ("Should I close the loop on this?")
+5. Same voice as the first email: casual, direct, "&" instead of "and", no flattery
+
+BANNED WORDS: "just", "really", "very", "actually", "basically", "honestly", "definitely", "unique", "tailored", "leverage", "solutions", "comprehensive", "streamline"
+BANNED PATTERNS: "Just checking in", "Bumping this to the top of your inbox", "Did you get a chance to read"
+
+Respond ONLY with valid JSON:
+{
+  "followUps": [
+    { "emailBody": "Hi {{first_name}},\\n\\n[Reference the first email + new angle].\\n\\n[Simple ask]?\\n\\nBest,\\n${senderName}" }
+  ]
+}
+
+Use {{first_name}} and {{company}} as placeholders in the email body.
+
+IMPORTANT: When mentioning company names, write them casually like a human would. Never include legal suffixes like LLC, Inc., Corp., Ltd., etc.`;
+}
+
+export const followUpWriterPrompt = definePrompt<FollowUpWriterPromptVars>({
+  id: 'follow-up-writer',
+  description: 'Writes the follow-ups to the first email, sent in the same thread',
+  versions: [
+    {
+      version: 'v1',
+      notes: 'Initial version',
+      render: (vars) => renderFollowUpWriterPrompt(vars),
+    },
+    {
+      version: 'v2',
+      notes: 'Rewrites of copy the linter rejected get its issues to fix',
+      render: (vars) => renderFollowUpWriterPrompt(vars, buildRevisionSection(vars.context?.revisionNotes)),
+    },
+  ],
+});
+
+/**
+ * Generate follow-up emails that build on the initial email already written for this lead
+ */
+export async function generateFollowUpsForLead(
+  lead: LinkedInLead,
+  senderCompany: CompanyInfo,
+  initialEmail: EmailContent,
+  senderName: string = 'Bella',
+  context?: EmailWriterContext,
+  sequenceLength: number = getSequenceLength()
+): Promise<GeneratedFollowUps> {
+  const schedule = getFollowUpSchedule(sequenceLength);
+  if (schedule.length === 0) return { followUps: [], promptVersion: null };
+
+  console.log(`[EmailWriter] Generating ${schedule.length} follow-ups for ${lead.full_name}...`);
+
+  const prompt = renderPrompt(followUpWriterPrompt, { lead, senderCompany, initialEmail, senderName, context, schedule });
+
+  const { data: parsed } = await generateStructured({
+    agent: 'email-writer',
+    prompt: prompt.text,
+    maxTokens: 2048,
+    schema: s.object({
+      followUps: s.array(s.object({ emailBody: s.string({ nonEmpty: true }) }), { min: schedule.length }),
+    }),
+  });
+  const bodies = parsed.followUps.map(f => f.emailBody);
+
+  const followUps = schedule.map((waitInDays, i) => ({
+    step: i + 2,
+    emailSubject: toReplySubject(initialEmail.emailSubject),
+    emailBody: bodies[i],
+    waitInDays,
+  }));
+
+  return { followUps, promptVersion: prompt.version };
+}
+
+/**
+ * Generic follow-ups used when the writer fails for a lead.
+ * Every step needs copy because EmailBison sends the same steps to every lead in the campaign.
+ */
+export function buildFallbackFollowUps(
+  senderCompany: CompanyInfo,
+  initialSubject: string,
+  senderName: string = 'Bella',
+  sequenceLength: number = getSequenceLength()
+): FollowUpEmail[] {
+  const companyName = normalizeCompanyName(senderCompany.name);
+  const schedule = getFollowUpSchedule(sequenceLength);
+
+  return schedule.map((waitInDays, i) => {
+    const isLast = i === schedule.length - 1;
+    const body = isLast
+      ? `Hi {{first_name}},\n\nI haven't heard back, so I'll assume the timing isn't right & close the loop.\n\nIf ${companyName} could help {{company}} down the road, reply anytime.\n\nBest,\n${senderName}`
+      : `Hi {{first_name}},\n\nFloating my note below back up in case it got buried.\n\nWorth a quick look for {{company}}?\n\nBest,\n${senderName}`;
+
+    return {
+      step: i + 2,
+      emailSubject: toReplySubject(initialSubject),
+      emailBody: body,
+      waitInDays,
+    };
+  });
+}
+
+/**
+ * Generate a full multi-step sequence for a single lead (initial email + follow-ups).
+ * If only the follow-ups fail, the initial email is kept and generic follow-ups are used.
+ */
+export async function generateSequenceForLead(
+  lead: LinkedInLead,
+  senderCompany: CompanyInfo,
+  senderName: string = 'Bella',
+  context?: EmailWriterContext,
+  sequenceLength: number = getSequenceLength()
+): Promise<EmailSequenceContent> {
+  const { promptVersion, ...initialEmail } = await generateEmailForLead(lead, senderCompany, senderName, context);
+  const promptVersions: PromptVersions = { 'email-writer': promptVersion };
+
+  let followUps: FollowUpEmail[];
+  try {
+    const generated = await generateFollowUpsForLead(lead, senderCompany, initialEmail, senderName, context, sequenceLength);
+    followUps = generated.followUps;
+    if (generated.promptVersion) promptVersions['follow-up-writer'] = generated.promptVersion;
+  } catch (error) {
+    console.error(`[EmailWriter] Error generating follow-ups for ${lead.full_name}, using fallback:`, error);
+    followUps = buildFallbackFollowUps(senderCompany, initialEmail.emailSubject, senderName, sequenceLength);
+  }
+
+  return {
+    ...initialEmail,
+    followUps,
+    promptVersions,
+  };
+}
@@ -84,9 +84,11 @@ class EmailBisonClient {
 
   /**
    * Get campaign details
+   * API returns: { data: { id, name, status, sequence_id, ... } }
    */
   async getCampaign(campaignId: string): Promise<EmailBisonCampaign> {
-    return this.request<EmailBisonCampaign>(`/api/campaigns/${campaignId}`);
+    const response = await this.request<{ data: EmailBisonCampaign }>(`/api/campaigns/${campaignId}`);
+    return response.data;
   }
 
   /**
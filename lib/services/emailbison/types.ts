@@ -69,6 +69,13 @@ export interface EmailBisonWebhookPayload {
   id?: string;
 }
 
+export interface EmailBisonWebhookResult {
+  /** True when this delivery was already processed (retry/replay) */
+  duplicate: boolean;
+  /** Inbound reply saved by this event, to be classified after the response is sent */
+  inboxMessageId?: string;
+}
+
 export interface EmailBisonApiResponse<T = unknown> {
   success?: boolean;
   data?: T;
@@ -1,28 +1,163 @@
+import { createHmac, createHash, timingSafeEqual } from 'crypto';
 import { createAdminClient } from '@/lib/supabase/server';
-import { EmailBisonWebhookPayload } from './types';
+import { suppressContact, SuppressionReason } from '../suppression';
+import { EmailBisonWebhookPayload, EmailBisonWebhookResult } from './types';
+
+// Postgres unique_violation - raised when email_events already has this emailbison_event_id
+const UNIQUE_VIOLATION = '23505';
+
+// Statuses an open moves forward to 'opened' - later ones (replied, bounced) stay put
+const UNOPENED_STATUSES = ['pending', 'sent'];
+
+/**
+ * Constant-time string comparison
+ */
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Verify an incoming EmailBison webhook request.
+ * 
+ * Accepts either:
+ * - An HMAC-SHA256 hex digest of the raw body in the `x-emailbison-signature` header
+ *   (optionally prefixed with "sha256=")
+ * - The shared secret itself in the `x-webhook-secret` header or `?secret=` query param,
+ *   for webhook configurations that can only send a static value
+ * 
+ * Environment variables:
+ * - EMAILBISON_WEBHOOK_SECRET: Shared secret configured on the EmailBison webhook (required)
+ */
+export function verifyEmailBisonWebhook(
+  rawBody: string,
+  headers: Headers,
+  searchParams?: URLSearchParams
+): boolean {
+  const secret = process.env.EMAILBISON_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('[EmailBison Webhook] EMAILBISON_WEBHOOK_SECRET is not set - rejecting webhook');
+    return false;
+  }
+
+  const signature = headers.get('x-emailbison-signature');
+  if (signature) {
+    const expected = createHmac('sha256', secret).update(rawBody).digest('hex');
+    return safeEqual(signature.replace(/^sha256=/, '').toLowerCase(), expected);
+  }
+
+  const providedSecret = headers.get('x-webhook-secret') || searchParams?.get('secret');
+  if (providedSecret) {
+    return safeEqual(providedSecret, secret);
+  }
+
+  return false;
+}
+
+/**
+ * Key used to deduplicate webhook deliveries.
+ * Uses EmailBison's event id when present, otherwise a hash of the raw body
+ * (a retried delivery has an identical body).
+ */
+function getEventKey(payload: EmailBisonWebhookPayload, rawBody?: string): string | null {
+  if (payload.id) return String(payload.id);
+  if (rawBody) return `sha256:${createHash('sha256').update(rawBody).digest('hex')}`;
+  return null;
+}
+
+/**
+ * Add an unsubscribed/bounced contact to the campaign organization's suppression list.
+ * Errors are logged rather than thrown: the event is already recorded, so a retried
+ * delivery would be skipped as a duplicate and never get here again.
+ */
+async function suppressFromEvent(
+  organizationId: string | null,
+  email: string | null | undefined,
+  linkedinUrl: string | null | undefined,
+  reason: SuppressionReason,
+  leadId: string | null,
+  campaignId: string | null
+): Promise<void> {
+  if (!organizationId) {
+    console.warn(`[EmailBison Webhook] ${reason} event for ${email || 'unknown contact'} has no organization - not suppressed`);
+    return;
+  }
+
+  try {
+    await suppressContact(organizationId, { email, linkedinUrl }, reason, { leadId, campaignId });
+  } catch (error) {
+    console.error(`[EmailBison Webhook] Failed to suppress ${email || linkedinUrl} (${reason}):`, error);
+  }
+}
+
+/**
+ * Mark a lead sent on its first send. Follow-up steps send too, and must not move an opened
+ * or replied lead back to 'sent' or overwrite when the sequence started.
+ */
+async function markLeadSent(supabase: ReturnType<typeof createAdminClient>, leadId: string): Promise<void> {
+  await supabase
+    .from('leads')
+    .update({ status: 'sent' })
+    .eq('id', leadId)
+    .eq('status', 'pending');
+
+  await supabase
+    .from('leads')
+    .update({ sent_at: new Date() })
+    .eq('id', leadId)
+    .is('sent_at', null);
+}
 
 /**
  * Handle EmailBison webhook events
+ * 
+ * Idempotent: the event is recorded in email_events first, and a delivery whose
+ * emailbison_event_id is already recorded is skipped without touching leads or inbox_messages.
  */
-export async function handleEmailBisonWebhook(payload: EmailBisonWebhookPayload) {
+export async function handleEmailBisonWebhook(
+  payload: EmailBisonWebhookPayload,
+  rawBody?: string
+): Promise<EmailBisonWebhookResult> {
   const supabase = createAdminClient();
   const { event, data } = payload;
+  const eventKey = getEventKey(payload, rawBody);
+
+  // Cheap early exit for retries - the unique constraint below is the real guard
+  if (eventKey) {
+    const { data: existingEvent } = await supabase
+      .from('email_events')
+      .select('id')
+      .eq('emailbison_event_id', eventKey)
+      .limit(1)
+      .maybeSingle();
+
+    if (existingEvent) {
+      console.log(`[EmailBison Webhook] Duplicate event ${eventKey} (${event}) - skipping`);
+      return { duplicate: true };
+    }
+  }
 
   // Find campaign by emailbison_campaign_id
   let campaignId: string | null = null;
+  let organizationId: string | null = null;
   if (data.campaign_id) {
     const { data: campaign } = await supabase
       .from('campaigns')
-      .select('id')
+      .select('id, organization_id')
       .eq('emailbison_campaign_id', data.campaign_id)
       .single();
     campaignId = campaign?.id || null;
+    organizationId = campaign?.organization_id || null;
   }
 
   // Find lead by emailbison_lead_id or email
   let leadId: string | null = null;
+  let leadContact: { email: string | null; linkedinUrl: string | null } | null = null;
+  // A/B variant the lead was sent, so opens and replies are attributed to it
+  let variantId: string | null = null;
   if (data.lead_id || data.contact_id || data.email) {
-    const query = supabase.from('leads').select('id');
+    const query = supabase.from('leads').select('id, email, linkedin_url, variant_id');
     
     if (data.lead_id) {
       query.eq('emailbison_lead_id', data.lead_id);
@@ -38,63 +173,67 @@ export async function handleEmailBisonWebhook(payload: EmailBisonWebhookPayload)
 
     const { data: lead } = await query.single();
     leadId = lead?.id || null;
+    leadContact = lead ? { email: lead.email, linkedinUrl: lead.linkedin_url } : null;
+    variantId = lead?.variant_id || null;
   }
 
   // Insert event into audit trail
-  await supabase.from('email_events').insert({
+  // email_events.emailbison_event_id is unique (supabase/migrations), so concurrent retries lose here
+  const { error: eventError } = await supabase.from('email_events').insert({
     campaign_id: campaignId,
     lead_id: leadId,
     event_type: event,
-    emailbison_event_id: payload.id,
+    variant_id: variantId,
+    emailbison_event_id: eventKey,
     payload: payload as unknown as Record<string, unknown>,
     occurred_at: payload.occurred_at ? new Date(payload.occurred_at) : new Date(),
   });
 
+  if (eventError) {
+    if (eventError.code === UNIQUE_VIOLATION) {
+      console.log(`[EmailBison Webhook] Duplicate event ${eventKey} (${event}) - skipping`);
+      return { duplicate: true };
+    }
+    console.error('[EmailBison Webhook] Failed to record event:', eventError);
+  }
+
   // Handle specific events
   switch (event) {
+    // Fired for every step of the sequence - only the first send moves the lead forward
     case 'email_sent':
+    case 'contact_first_emailed':
       if (leadId) {
-        await supabase
-          .from('leads')
-          .update({
-            status: 'sent',
-            sent_at: new Date(),
-          })
-          .eq('id', leadId);
+        await markLeadSent(supabase, leadId);
       }
       break;
 
-    case 'contact_first_emailed':
+    case 'email_opened':
       if (leadId) {
+        // Derive opens_count from the deduplicated audit trail instead of read-then-increment,
+        // so replays and concurrent deliveries can't inflate it
+        const { count: opensCount } = await supabase
+          .from('email_events')
+          .select('id', { count: 'exact', head: true })
+          .eq('lead_id', leadId)
+          .eq('event_type', 'email_opened');
+
         await supabase
           .from('leads')
-          .update({
-            status: 'sent',
-            sent_at: new Date(),
-          })
+          .update({ opens_count: opensCount || 1 })
           .eq('id', leadId);
-      }
-      break;
 
-    case 'email_opened':
-      if (leadId) {
-        // Get current opens_count and increment
-        const { data: lead } = await supabase
+        // A replied lead stays replied, and opened_at keeps the first open
+        await supabase
           .from('leads')
-          .select('opens_count')
+          .update({ status: 'opened' })
           .eq('id', leadId)
-          .single();
-
-        const currentOpens = lead?.opens_count || 0;
+          .in('status', UNOPENED_STATUSES);
 
         await supabase
           .from('leads')
-          .update({
-            status: 'opened',
-            opened_at: data.opened_at ? new Date(data.opened_at) : new Date(),
-            opens_count: currentOpens + 1,
-          })
-          .eq('id', leadId);
+          .update({ opened_at: data.opened_at ? new Date(data.opened_at) : new Date() })
+          .eq('id', leadId)
+          .is('opened_at', null);
       }
       break;
 
@@ -110,7 +249,7 @@ export async function handleEmailBisonWebhook(payload: EmailBisonWebhookPayload)
           .eq('id', leadId);
 
         // Insert inbox message
-        await supabase.from('inbox_messages').insert({
+        const { data: inboxMessage } = await supabase.from('inbox_messages').insert({
           campaign_id: campaignId,
           lead_id: leadId,
           emailbison_thread_id: data.thread_id,
@@ -123,7 +262,11 @@ export async function handleEmailBisonWebhook(payload: EmailBisonWebhookPayload)
           to_email: data.to_email,
           is_interested: data.is_interested || false,
           received_at: data.replied_at ? new Date(data.replied_at) : new Date(),
-        });
+        }).select('id').single();
+
+        if (inboxMessage) {
+          return { duplicate: false, inboxMessageId: inboxMessage.id };
+        }
       }
       break;
 
@@ -156,6 +299,8 @@ export async function handleEmailBisonWebhook(payload: EmailBisonWebhookPayload)
           })
           .eq('id', leadId);
       }
+      // A hard bounce means the address is dead - never upload it again
+      await suppressFromEvent(organizationId, data.email || leadContact?.email, null, 'bounced', leadId, campaignId);
       break;
 
     case 'contact_unsubscribed':
@@ -169,6 +314,16 @@ export async function handleEmailBisonWebhook(payload: EmailBisonWebhookPayload)
           })
           .eq('id', leadId);
       }
+      // Opt-outs cover the person, so suppress their LinkedIn profile too in case
+      // a later search finds them under a different email
+      await suppressFromEvent(
+        organizationId,
+        data.email || leadContact?.email,
+        leadContact?.linkedinUrl,
+        'unsubscribed',
+        leadId,
+        campaignId
+      );
       break;
 
     case 'manual_email_sent':
@@ -193,5 +348,7 @@ export async function handleEmailBisonWebhook(payload: EmailBisonWebhookPayload)
       // Unknown event - just log it in email_events
       console.log(`Unhandled EmailBison event: ${event}`);
   }
+
+  return { duplicate: false };
 }
 
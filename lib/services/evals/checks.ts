@@ -0,0 +1,75 @@
+import { CompanyInfo, LinkedInLead } from '../../types';
+import { EmailContent } from '../emailWriter';
+import { EMAIL_LINT_RULES, lintEmail } from '../emailLinter';
+import { ColdEmailRankingResult } from '../agents/coldEmailRanker';
+import { ICPPersona } from '../agents/icpBrainstormer';
+
+// Limits the email writer prompt asks for - stricter than the lint, which only stops bad copy
+const MAX_BODY_WORDS = 100;
+const MAX_SUBJECT_WORDS = 4;
+
+export interface CheckResult {
+  name: string;
+  passed: boolean;
+  // Why it failed
+  detail?: string;
+}
+
+function check(name: string, problem: string | null): CheckResult {
+  return problem ? { name, passed: false, detail: problem } : { name, passed: true };
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Rule checks on a written email: the lengths the prompt asks for, plus every copy lint rule
+ * (warnings fail too - evals are for improving the copy, not gating it)
+ */
+export function checkEmail(email: EmailContent, lead: LinkedInLead, senderCompany: CompanyInfo): CheckResult[] {
+  const bodyWords = countWords(email.emailBody);
+  const subjectWords = countWords(email.emailSubject);
+  const lint = lintEmail(email, lead, senderCompany);
+
+  return [
+    check('body-length', bodyWords > MAX_BODY_WORDS ? `${bodyWords} words (max ${MAX_BODY_WORDS})` : null),
+    check('prompt-subject-length', subjectWords === 0 || subjectWords > MAX_SUBJECT_WORDS
+      ? `${subjectWords} words (1-${MAX_SUBJECT_WORDS})`
+      : null),
+    ...EMAIL_LINT_RULES.map(rule => {
+      const issues = lint.issues.filter(issue => issue.rule === rule);
+      return check(rule, issues.length > 0 ? issues.map(issue => issue.message).join('; ') : null);
+    }),
+  ];
+}
+
+/**
+ * Rule checks on a persona ranking: every persona scored, the pick is the top score, and it
+ * matches the fixture's known-good pick when there is one
+ */
+export function checkRanking(
+  ranking: Pick<ColdEmailRankingResult, 'evaluations' | 'selectedPersona'>,
+  personas: ICPPersona[],
+  expectedPersonaId?: string
+): CheckResult[] {
+  const evaluated = new Set(ranking.evaluations.map(e => e.personaId));
+  const missing = personas.filter(p => !evaluated.has(p.id)).map(p => p.id);
+  const topScore = Math.max(...ranking.evaluations.map(e => e.overallScore));
+  const selectedScore = ranking.evaluations.find(e => e.personaId === ranking.selectedPersona.id)?.overallScore;
+
+  const results = [
+    check('all-personas-evaluated', missing.length > 0 ? `Missing ${missing.join(', ')}` : null),
+    check('selected-top-score', selectedScore !== topScore
+      ? `Selected ${ranking.selectedPersona.id} scores ${selectedScore ?? 'nothing'}, top is ${topScore}`
+      : null),
+  ];
+
+  if (expectedPersonaId) {
+    results.push(check('expected-persona', ranking.selectedPersona.id !== expectedPersonaId
+      ? `Selected ${ranking.selectedPersona.id}, expected ${expectedPersonaId}`
+      : null));
+  }
+
+  return results;
+}
@@ -0,0 +1,197 @@
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { CompanyInfo, LinkedInLead } from '../../types';
+import { Campaign } from '../../types/database';
+import { CompanyProfile, companyProfileSchema } from '../agents/companyProfiler';
+import { ICPPersona, icpPersonaSchema } from '../agents/icpBrainstormer';
+import { ScrapedWebsite } from '../websiteScraper';
+import { s, validate } from '../llm';
+
+// Checked-in fixtures, one JSON file per campaign
+export const FIXTURES_DIR = path.join(process.cwd(), 'evals', 'fixtures');
+
+/**
+ * One campaign's inputs to the agents under evaluation, and what they produced in production
+ */
+export interface EvalFixture {
+  id: string;
+  domain: string;
+  // Not evaluated yet - kept so fixtures can cover the company profiler later
+  website?: ScrapedWebsite;
+  senderCompany: CompanyInfo;
+  companyProfile: CompanyProfile;
+  personas: ICPPersona[];
+  // Persona the emails are written for - the first one if unset
+  selectedPersonaId?: string;
+  selectionReasoning?: string;
+  leads: LinkedInLead[];
+  // Raw LLM responses, replayed by variants with replay: true
+  recorded?: {
+    coldEmailRanker?: string;
+    // By lead profile_id
+    emailWriter?: Record<string, string>;
+  };
+  // Known-good answers, checked when present
+  expected?: {
+    selectedPersonaId?: string;
+  };
+}
+
+const LEAD_TEXT_FIELDS = ['about', 'company', 'first_name', 'full_name', 'job_title', 'last_name', 'location', 'profile_id'] as const;
+
+// Leads keep every scraper field (headline, current_company...) - only the ones the writer needs are checked
+const leadSchema = s.refine(s.unknown(), (value) => {
+  const lead = value as Record<string, unknown> | null;
+  const missing = LEAD_TEXT_FIELDS.filter(field => typeof lead?.[field] !== 'string');
+  return missing.length === 0 ? null : `lead is missing ${missing.join(', ')}`;
+});
+
+const fixtureSchema = s.object({
+  id: s.string({ nonEmpty: true }),
+  domain: s.string(),
+  website: s.optional(s.object({
+    markdown: s.string(),
+    title: s.string(),
+    description: s.string(),
+    url: s.string(),
+  })),
+  senderCompany: s.object({
+    name: s.string({ nonEmpty: true }),
+    domain: s.string(),
+    description: s.string(),
+    whatTheyDo: s.string(),
+    valueProposition: s.string(),
+    targetCustomers: s.string(),
+    industry: s.string(),
+  }),
+  companyProfile: companyProfileSchema,
+  personas: s.array(icpPersonaSchema, { min: 1 }),
+  selectedPersonaId: s.optional(s.string()),
+  selectionReasoning: s.optional(s.string()),
+  leads: s.array(leadSchema),
+  recorded: s.optional(s.object({
+    coldEmailRanker: s.optional(s.string()),
+    emailWriter: s.optional(s.unknown()),
+  })),
+  expected: s.optional(s.object({
+    selectedPersonaId: s.optional(s.string()),
+  })),
+});
+
+/**
+ * Check a fixture's shape, so a stale or hand-edited file fails with the fields to fix
+ */
+export function parseEvalFixture(value: unknown, source: string): EvalFixture {
+  const result = validate(fixtureSchema, value);
+  if (!result.success) {
+    throw new Error(`[Evals] Invalid fixture ${source}:\n${result.issues.join('\n')}`);
+  }
+  return result.data as EvalFixture;
+}
+
+/**
+ * Load the checked-in fixtures, optionally only the given ids
+ */
+export async function loadEvalFixtures(ids?: string[]): Promise<EvalFixture[]> {
+  const files = (await readdir(FIXTURES_DIR)).filter(file => file.endsWith('.json')).sort();
+
+  const fixtures = await Promise.all(
+    files.map(async (file) => {
+      const contents = await readFile(path.join(FIXTURES_DIR, file), 'utf8');
+      return parseEvalFixture(JSON.parse(contents), file);
+    })
+  );
+
+  if (!ids || ids.length === 0) return fixtures;
+
+  const missing = ids.filter(id => !fixtures.some(f => f.id === id));
+  if (missing.length > 0) {
+    throw new Error(`[Evals] Unknown fixtures: ${missing.join(', ')}`);
+  }
+  return fixtures.filter(f => ids.includes(f.id));
+}
+
+interface StoredQualifiedLead {
+  id: string;
+  name: string;
+  title: string;
+  company: string;
+  linkedin_url: string;
+  profile_picture_url?: string;
+  location?: string;
+  about?: string;
+  why_picked?: string;
+  email_subject?: string;
+  email_body?: string;
+}
+
+interface StoredPersonaRankings {
+  evaluations?: unknown[];
+  selectedPersonaId?: string;
+  selectionReasoning?: string;
+}
+
+/**
+ * Seed a fixture from a generated campaign: the inputs the debug panel shows, plus the emails
+ * and ranking it produced as recorded responses (the raw ranker response when pipeline_debug
+ * captured it).
+ */
+export function buildFixtureFromCampaign(campaign: Campaign): EvalFixture | null {
+  if (!campaign.company_profile || !Array.isArray(campaign.icp_personas) || campaign.icp_personas.length === 0) {
+    return null;
+  }
+
+  const storedLeads = (campaign.qualified_leads || []) as unknown as StoredQualifiedLead[];
+  const rankings = (campaign.persona_rankings || {}) as StoredPersonaRankings;
+  const pipelineDebug = campaign.pipeline_debug as { steps?: { coldEmailRanker?: { response?: string } } } | null;
+
+  const leads: LinkedInLead[] = storedLeads.map(lead => ({
+    about: lead.about || '',
+    company: lead.company,
+    company_id: '',
+    first_name: lead.name.split(' ')[0],
+    full_name: lead.name,
+    job_title: lead.title,
+    last_name: lead.name.split(' ').slice(1).join(' '),
+    linkedin_url: lead.linkedin_url,
+    location: lead.location || campaign.location || '',
+    profile_id: lead.id,
+    profile_picture: lead.profile_picture_url,
+  }));
+
+  const recordedEmails = Object.fromEntries(
+    storedLeads
+      .filter(lead => lead.email_body)
+      .map(lead => [lead.id, JSON.stringify({
+        whyPicked: lead.why_picked || '',
+        emailSubject: lead.email_subject || '',
+        emailBody: lead.email_body,
+      })])
+  );
+
+  const recordedRanking = pipelineDebug?.steps?.coldEmailRanker?.response
+    || (rankings.evaluations ? JSON.stringify(rankings) : undefined);
+
+  return {
+    id: campaign.slug,
+    domain: campaign.domain || '',
+    senderCompany: {
+      name: campaign.company_name,
+      domain: campaign.domain || '',
+      description: campaign.helps_with || '',
+      whatTheyDo: campaign.helps_with || '',
+      valueProposition: campaign.great_at || '',
+      targetCustomers: campaign.icp_attributes?.[0] || '',
+      industry: campaign.icp_attributes?.[2] || '',
+    },
+    companyProfile: campaign.company_profile as unknown as CompanyProfile,
+    personas: campaign.icp_personas as unknown as ICPPersona[],
+    selectedPersonaId: rankings.selectedPersonaId,
+    selectionReasoning: rankings.selectionReasoning,
+    leads,
+    recorded: {
+      coldEmailRanker: recordedRanking,
+      emailWriter: recordedEmails,
+    },
+  };
+}
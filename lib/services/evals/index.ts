@@ -0,0 +1,4 @@
+export * from './checks';
+export * from './fixtures';
+export * from './judge';
+export * from './runner';
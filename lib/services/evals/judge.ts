@@ -0,0 +1,79 @@
+import { generateStructured, s } from '../llm';
+import { definePrompt, renderPrompt } from '../prompts/registry';
+
+export interface JudgeInput {
+  // What the output was for, e.g. "A cold email to this lead from this company"
+  task: string;
+  // What a good output does, one per line
+  criteria: string[];
+  // The agent's inputs, as the judge should see them
+  input: string;
+  output: string;
+}
+
+export interface JudgeScore {
+  // 1-10
+  score: number;
+  reasoning: string;
+  promptVersion: string;
+}
+
+const judgeSchema = s.object({
+  score: s.number({ min: 1, max: 10 }),
+  reasoning: s.string(),
+});
+
+export const evalJudgePrompt = definePrompt<JudgeInput>({
+  id: 'eval-judge',
+  description: 'Scores an agent output against criteria for the eval harness',
+  versions: [
+    {
+      version: 'v1',
+      notes: 'Initial version',
+      render: (input) => `You are reviewing the output of an AI agent for quality. Be strict - a 10 is an output you couldn't improve, a 5 is usable but generic, a 1 is wrong or unusable.
+
+## Task
+
+${input.task}
+
+## Criteria
+
+${input.criteria.map(c => `- ${c}`).join('\n')}
+
+## Input
+
+${input.input}
+
+## Output
+
+${input.output}
+
+## Your Response
+
+Score the output from 1 to 10 against the criteria, and explain the score in 1-3 sentences.
+
+Return ONLY a JSON object:
+{
+  "score": 7,
+  "reasoning": "..."
+}`,
+    },
+  ],
+});
+
+/**
+ * Score an output with the LLM judge. Always runs on the model, even when the output
+ * under test was replayed.
+ */
+export async function judgeOutput(input: JudgeInput): Promise<JudgeScore> {
+  const prompt = renderPrompt(evalJudgePrompt, input);
+
+  const { data } = await generateStructured({
+    agent: 'eval-judge',
+    prompt: prompt.text,
+    maxTokens: 1024,
+    schema: judgeSchema,
+  });
+
+  return { ...data, promptVersion: prompt.version };
+}
@@ -0,0 +1,283 @@
+import { LinkedInLead } from '../../types';
+import { generateEmailForLead } from '../emailWriter';
+import { rankPersonasForColdEmail } from '../agents/coldEmailRanker';
+import { withCompletionProvider } from '../llm';
+import { PromptVersions, withPromptVersions } from '../prompts/registry';
+import { checkEmail, checkRanking, CheckResult } from './checks';
+import { EvalFixture } from './fixtures';
+import { judgeOutput, JudgeScore } from './judge';
+
+/**
+ * Offline evals: run fixtures through the email writer and persona ranker under one or more
+ * variants, score each output with rule checks and (optionally) the LLM judge, and compare.
+ *
+ * A variant either replays the fixture's recorded responses - free, and checks today's rules
+ * against what shipped - or calls the model at the prompt versions it pins. To run live
+ * variants without the API, point ANTHROPIC_BASE_URL at a local stand-in for the Messages API.
+ */
+
+export type EvalTarget = 'email-writer' | 'persona-ranker';
+
+export const EVAL_TARGETS: EvalTarget[] = ['email-writer', 'persona-ranker'];
+
+export interface EvalVariant {
+  name: string;
+  // Answer with the fixture's recorded responses instead of the model
+  replay?: boolean;
+  // Prompt versions to run at, e.g. { 'email-writer': 'v1' } - the active ones if unset
+  promptVersions?: PromptVersions;
+}
+
+export const DEFAULT_VARIANTS: EvalVariant[] = [
+  { name: 'recorded', replay: true },
+  { name: 'current' },
+];
+
+export interface EvalCaseResult {
+  fixtureId: string;
+  target: EvalTarget;
+  variant: string;
+  // Lead profile_id for emails, "ranking" for the ranker
+  caseId: string;
+  promptVersion?: string;
+  output?: string;
+  // Why the agent produced no output
+  error?: string;
+  checks: CheckResult[];
+  judge?: JudgeScore;
+  judgeError?: string;
+}
+
+export interface EvalSummary {
+  variant: string;
+  target: EvalTarget;
+  cases: number;
+  errors: number;
+  checksPassed: number;
+  checksTotal: number;
+  // Null when nothing was judged
+  judgeAverage: number | null;
+}
+
+export interface EvalReport {
+  startedAt: string;
+  completedAt: string;
+  results: EvalCaseResult[];
+  summary: EvalSummary[];
+}
+
+export interface RunEvalsOptions {
+  fixtures: EvalFixture[];
+  targets?: EvalTarget[];
+  variants?: EvalVariant[];
+  // Score outputs with the LLM judge too (one model call per case)
+  judge?: boolean;
+}
+
+interface CaseRun {
+  caseId: string;
+  // The recorded response, for replay
+  recorded?: string;
+  run: () => Promise<{ output: string; promptVersion: string; checks: CheckResult[] }>;
+  judgeTask: string;
+  judgeCriteria: string[];
+  judgeInput: string;
+}
+
+const EMAIL_CRITERIA = [
+  'Reads like a person wrote it to this lead, not a template',
+  'Opens with a short hook about what the lead gets, not their pain',
+  'Specific about the offer, with no filler or hype words',
+  'Ends with one clear, low-effort ask',
+  'Subject line is 2-4 lowercase words',
+];
+
+const RANKING_CRITERIA = [
+  'The selected persona is the one most likely to answer a cold email, not just the buyer',
+  'Scores are consistent with the strengths and weaknesses given',
+  'The reasoning is specific to this company and its personas',
+];
+
+function describeLead(lead: LinkedInLead): string {
+  return [
+    `Name: ${lead.full_name}`,
+    `Title: ${lead.current_title || lead.job_title}`,
+    `Company: ${lead.current_company || lead.company}`,
+    `Location: ${lead.location}`,
+    `About: ${(lead.about || '').substring(0, 500)}`,
+  ].join('\n');
+}
+
+function getEmailCases(fixture: EvalFixture): CaseRun[] {
+  const selectedPersona = fixture.personas.find(p => p.id === fixture.selectedPersonaId) || fixture.personas[0];
+  const context = {
+    companyProfile: fixture.companyProfile,
+    selectedPersona,
+    selectionReasoning: fixture.selectionReasoning,
+  };
+
+  return fixture.leads.map(lead => ({
+    caseId: lead.profile_id,
+    recorded: fixture.recorded?.emailWriter?.[lead.profile_id],
+    run: async () => {
+      const email = await generateEmailForLead(lead, fixture.senderCompany, 'Bella', context);
+      return {
+        output: `Subject: ${email.emailSubject}\n\n${email.emailBody}`,
+        promptVersion: email.promptVersion,
+        checks: checkEmail(email, lead, fixture.senderCompany),
+      };
+    },
+    judgeTask: `A cold email from ${fixture.senderCompany.name} to this lead, who matches the "${selectedPersona.name}" persona`,
+    judgeCriteria: EMAIL_CRITERIA,
+    judgeInput: `Sender: ${fixture.senderCompany.name} - ${fixture.companyProfile.productOrService}\n\nLead:\n${describeLead(lead)}`,
+  }));
+}
+
+function getRankingCase(fixture: EvalFixture): CaseRun {
+  return {
+    caseId: 'ranking',
+    recorded: fixture.recorded?.coldEmailRanker,
+    run: async () => {
+      const ranking = await rankPersonasForColdEmail(fixture.companyProfile, fixture.personas);
+      const scores = ranking.evaluations
+        .map(e => `- ${e.personaName} (${e.personaId}): ${e.overallScore}/10`)
+        .join('\n');
+      return {
+        output: `Selected: ${ranking.selectedPersona.name}\n${ranking.selectionReasoning}\n\nScores:\n${scores}`,
+        promptVersion: ranking.debug.promptVersion,
+        checks: checkRanking(ranking, fixture.personas, fixture.expected?.selectedPersonaId),
+      };
+    },
+    judgeTask: `Choosing which persona ${fixture.companyProfile.name} should cold email`,
+    judgeCriteria: RANKING_CRITERIA,
+    judgeInput: fixture.personas
+      .map(p => `- ${p.name} (${p.id}): ${p.titles.join(', ')}. Pain points: ${p.painPoints.join('; ')}`)
+      .join('\n'),
+  };
+}
+
+async function runCase(caseRun: CaseRun, variant: EvalVariant): Promise<Pick<EvalCaseResult, 'output' | 'promptVersion' | 'checks' | 'error'>> {
+  const recorded = caseRun.recorded;
+  if (variant.replay && !recorded) {
+    return { checks: [], error: 'No recorded response' };
+  }
+
+  const run = variant.replay
+    ? () => withCompletionProvider(async () => recorded!, caseRun.run)
+    : caseRun.run;
+
+  try {
+    return await withPromptVersions(variant.promptVersions || {}, run);
+  } catch (error) {
+    return { checks: [], error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+function summarize(results: EvalCaseResult[], variants: EvalVariant[], targets: EvalTarget[]): EvalSummary[] {
+  return variants.flatMap(variant => targets.map(target => {
+    const cases = results.filter(r => r.variant === variant.name && r.target === target);
+    const checks = cases.flatMap(r => r.checks);
+    const judged = cases.filter(r => r.judge).map(r => r.judge!.score);
+
+    return {
+      variant: variant.name,
+      target,
+      cases: cases.length,
+      errors: cases.filter(r => r.error).length,
+      checksPassed: checks.filter(c => c.passed).length,
+      checksTotal: checks.length,
+      judgeAverage: judged.length > 0 ? judged.reduce((sum, score) => sum + score, 0) / judged.length : null,
+    };
+  }));
+}
+
+/**
+ * Run every fixture through each target under each variant.
+ * Cases run one at a time - they're few, and the judge's scores are easier to read in order.
+ */
+export async function runEvals(options: RunEvalsOptions): Promise<EvalReport> {
+  const targets = options.targets || EVAL_TARGETS;
+  const variants = options.variants || DEFAULT_VARIANTS;
+  const startedAt = new Date().toISOString();
+  const results: EvalCaseResult[] = [];
+
+  console.log(`[Evals] Running ${options.fixtures.length} fixtures x ${variants.length} variants (${targets.join(', ')})`);
+
+  for (const fixture of options.fixtures) {
+    const casesByTarget: Record<EvalTarget, CaseRun[]> = {
+      'email-writer': getEmailCases(fixture),
+      'persona-ranker': [getRankingCase(fixture)],
+    };
+
+    for (const variant of variants) {
+      for (const target of targets) {
+        for (const caseRun of casesByTarget[target]) {
+          const result: EvalCaseResult = {
+            fixtureId: fixture.id,
+            target,
+            variant: variant.name,
+            caseId: caseRun.caseId,
+            ...(await runCase(caseRun, variant)),
+          };
+
+          // Judged outside the variant's scope, so the judge always runs on the model
+          if (options.judge && result.output) {
+            try {
+              result.judge = await judgeOutput({
+                task: caseRun.judgeTask,
+                criteria: caseRun.judgeCriteria,
+                input: caseRun.judgeInput,
+                output: result.output,
+              });
+            } catch (error) {
+              result.judgeError = error instanceof Error ? error.message : 'Unknown error';
+            }
+          }
+
+          results.push(result);
+        }
+      }
+    }
+  }
+
+  return {
+    startedAt,
+    completedAt: new Date().toISOString(),
+    results,
+    summary: summarize(results, variants, targets),
+  };
+}
+
+/**
+ * Plain-text comparison of the variants, then every failure
+ */
+export function formatEvalReport(report: EvalReport): string {
+  const header = ['Variant', 'Target', 'Cases', 'Errors', 'Checks', 'Judge'];
+  const rows = report.summary.map(row => [
+    row.variant,
+    row.target,
+    String(row.cases),
+    String(row.errors),
+    `${row.checksPassed}/${row.checksTotal}`,
+    row.judgeAverage === null ? '-' : row.judgeAverage.toFixed(1),
+  ]);
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map(row => row[i].length)));
+  const formatRow = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+
+  const lines = [formatRow(header), formatRow(widths.map(w => '-'.repeat(w))), ...rows.map(formatRow)];
+
+  const failures = report.results.flatMap(result => {
+    const label = `[${result.variant}] ${result.fixtureId}/${result.caseId} (${result.target})`;
+    return [
+      ...(result.error ? [`${label}: error - ${result.error}`] : []),
+      ...result.checks.filter(c => !c.passed).map(c => `${label}: ${c.name} - ${c.detail}`),
+      ...(result.judgeError ? [`${label}: judge error - ${result.judgeError}`] : []),
+    ];
+  });
+
+  if (failures.length > 0) {
+    lines.push('', 'Failures:', ...failures.map(failure => `- ${failure}`));
+  }
+
+  return lines.join('\n');
+}
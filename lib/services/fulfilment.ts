@@ -0,0 +1,467 @@
+import Stripe from 'stripe';
+import { stripe } from '@/lib/stripe';
+import { createAdminClient } from '@/lib/supabase/server';
+import { Payment } from '../types/database';
+import { linkOrganizationCustomer, saveDefaultPaymentMethod } from './billing';
+import { enqueueLeadGenerationJob, enqueueTopUpJob, getPostCheckoutLeadsCount, triggerJobWorker } from './jobs';
+import { addMember } from './organizationMembers';
+import { findOrganizationMembership } from './organizationRoles';
+import { redeemPromoRedemption, releasePromoRedemption } from './pricing';
+
+const PAYMENTS_TABLE = 'payments';
+// How long a fulfilment holds its claim on a payment - longer than any route runs, so a
+// claim only outlives its request when that request crashed or timed out
+const FULFILMENT_LEASE_MS = 10 * 60_000;
+// Compare-and-set retries when top-ups race to add leads to the same campaign
+const MAX_LEADS_PURCHASED_ATTEMPTS = 5;
+
+/**
+ * What a payment bought:
+ * - campaign: the first purchase of a campaign from the public page (creates the account)
+ * - top_up: more leads for a campaign the organization already paid for
+ */
+export type PaymentKind = 'campaign' | 'top_up';
+
+export type PaymentStatus =
+  | 'succeeded'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'disputed'
+  | 'dispute_won'
+  | 'dispute_lost';
+
+/**
+ * A successful Stripe payment, from a PaymentIntent (Payment Element, top-ups)
+ * or a Checkout Session (legacy embedded checkout)
+ */
+export interface PaidCheckout {
+  // PaymentIntent or Checkout Session ID - what the client polls /api/checkout/complete with
+  stripeId: string;
+  paymentIntent: Stripe.PaymentIntent | null;
+  customerId: string | null;
+  email: string | null;
+  amount: number;
+  currency: string;
+  metadata: Stripe.Metadata;
+}
+
+function getId(value: string | { id: string } | null): string | null {
+  if (!value) return null;
+  return typeof value === 'string' ? value : value.id;
+}
+
+export function fromPaymentIntent(paymentIntent: Stripe.PaymentIntent): PaidCheckout {
+  return {
+    stripeId: paymentIntent.id,
+    paymentIntent,
+    customerId: getId(paymentIntent.customer),
+    email: paymentIntent.receipt_email,
+    amount: paymentIntent.amount_received || paymentIntent.amount,
+    currency: paymentIntent.currency,
+    metadata: paymentIntent.metadata || {},
+  };
+}
+
+export async function fromCheckoutSession(session: Stripe.Checkout.Session): Promise<PaidCheckout> {
+  const paymentIntentId = getId(session.payment_intent);
+
+  return {
+    stripeId: session.id,
+    paymentIntent: paymentIntentId ? await stripe.paymentIntents.retrieve(paymentIntentId) : null,
+    customerId: getId(session.customer),
+    email: session.customer_details?.email ?? null,
+    amount: session.amount_total || 0,
+    currency: session.currency || 'usd',
+    metadata: session.metadata || {},
+  };
+}
+
+/**
+ * Payments are only fulfilled for PaymentIntents and Sessions our checkout created
+ * (PaymentIntents behind a Checkout Session carry no metadata and are skipped)
+ */
+export function isFulfillable(paid: PaidCheckout): boolean {
+  return !!paid.metadata.campaignSlug;
+}
+
+function getPaymentKind(metadata: Stripe.Metadata): PaymentKind {
+  return metadata.kind === 'top_up' ? 'top_up' : 'campaign';
+}
+
+export async function getPaymentByStripeId(stripeId: string): Promise<Payment | null> {
+  const supabase = createAdminClient();
+
+  const { data } = await supabase
+    .from(PAYMENTS_TABLE)
+    .select('*')
+    .eq('stripe_id', stripeId)
+    .maybeSingle();
+
+  return data as Payment | null;
+}
+
+/**
+ * Fulfil a payment exactly once: create the buyer's account for a campaign purchase, mark the
+ * campaign paid and queue its lead generation.
+ *
+ * Called from the Stripe webhook for every successful payment, and directly by top-ups charged
+ * on a saved card. The payment row is leased (fulfilling_until) before anything runs, so repeated
+ * webhook deliveries (or the webhook racing a top-up) fulfil it once, and fulfilled_at is set
+ * only when the work is done. A failure releases the lease and rethrows, so Stripe's retry runs
+ * it again; a crash or timeout leaves the lease to expire.
+ *
+ * @returns The payment - without fulfilled_at if another request is fulfilling it right now
+ */
+export async function fulfillPayment(paid: PaidCheckout, origin: string): Promise<Payment> {
+  const supabase = createAdminClient();
+  const kind = getPaymentKind(paid.metadata);
+
+  const { error: insertError } = await supabase
+    .from(PAYMENTS_TABLE)
+    .upsert({
+      stripe_id: paid.stripeId,
+      stripe_payment_intent_id: paid.paymentIntent?.id || null,
+      stripe_customer_id: paid.customerId,
+      kind,
+      status: 'succeeded',
+      amount: paid.amount,
+      currency: paid.currency,
+      leads: parseInt(paid.metadata.emails || '500', 10),
+      campaign_id: paid.metadata.campaignId || null,
+      organization_id: paid.metadata.organizationId || null,
+      promo_code_id: paid.metadata.promoCodeId || null,
+      discount_amount: parseInt(paid.metadata.discount || '0', 10),
+    }, { onConflict: 'stripe_id', ignoreDuplicates: true });
+
+  if (insertError) {
+    throw new Error(`Failed to record payment: ${insertError.message}`);
+  }
+
+  const now = new Date().toISOString();
+  const { data: claimed } = await supabase
+    .from(PAYMENTS_TABLE)
+    .update({ fulfilling_until: new Date(Date.now() + FULFILMENT_LEASE_MS).toISOString(), updated_at: now })
+    .eq('stripe_id', paid.stripeId)
+    .is('fulfilled_at', null)
+    .or(`fulfilling_until.is.null,fulfilling_until.lt.${now}`)
+    .select('*')
+    .maybeSingle();
+
+  if (!claimed) {
+    const payment = (await getPaymentByStripeId(paid.stripeId))!;
+    console.log(`[fulfilment] Payment ${paid.stripeId} ${payment.fulfilled_at ? 'already fulfilled' : 'is being fulfilled'}`);
+    return payment;
+  }
+
+  const payment = claimed as Payment;
+
+  try {
+    const fulfilled = kind === 'top_up'
+      ? await fulfillTopUp(payment, origin)
+      : await fulfillCampaignPurchase(paid, payment, origin);
+
+    if (paid.metadata.promoRedemptionId) {
+      await redeemPromoRedemption(paid.metadata.promoRedemptionId, paid.stripeId);
+    }
+
+    const done = { ...fulfilled, fulfilled_at: new Date().toISOString(), fulfilling_until: null };
+    const { data: updated, error: updateError } = await supabase
+      .from(PAYMENTS_TABLE)
+      .update({ ...done, updated_at: new Date().toISOString() })
+      .eq('id', payment.id)
+      .select('*')
+      .single();
+
+    if (updateError) {
+      throw new Error(`Failed to mark payment fulfilled: ${updateError.message}`);
+    }
+
+    console.log(`[fulfilment] Fulfilled ${kind} payment ${paid.stripeId} (${payment.leads} leads)`);
+    return (updated || { ...payment, ...done }) as Payment;
+  } catch (error) {
+    await supabase
+      .from(PAYMENTS_TABLE)
+      .update({ fulfilling_until: null, updated_at: new Date().toISOString() })
+      .eq('id', payment.id);
+    throw error;
+  }
+}
+
+/**
+ * First purchase of a campaign: pay into the signed-in buyer's organization, or find or
+ * create the buyer's user and organization from their email, then mark the campaign paid
+ * and queue lead generation
+ */
+async function fulfillCampaignPurchase(
+  paid: PaidCheckout,
+  payment: Payment,
+  origin: string
+): Promise<Pick<Payment, 'user_id' | 'organization_id'>> {
+  const supabase = createAdminClient();
+
+  // Signed-in billing members pay as their organization (create-payment-intent sets the metadata),
+  // whatever email they gave for the receipt
+  const { userId, organizationId } = paid.metadata.organizationId && paid.metadata.userId
+    ? { userId: paid.metadata.userId, organizationId: paid.metadata.organizationId }
+    : await findOrCreateBuyer(paid);
+
+  // Keep the buyer's Stripe customer (and the card they paid with) on the organization
+  if (paid.customerId) {
+    try {
+      const customerId = await linkOrganizationCustomer(organizationId, paid.customerId);
+      if (paid.paymentIntent && customerId === paid.customerId) {
+        await saveDefaultPaymentMethod(paid.paymentIntent);
+      }
+    } catch (customerError) {
+      console.error('[fulfilment] Error linking Stripe customer:', customerError);
+    }
+  }
+
+  // Mark the campaign paid and queue lead generation
+  if (payment.campaign_id) {
+    const { error: updateError } = await supabase
+      .from('campaigns')
+      .update({
+        user_id: userId,
+        organization_id: organizationId,
+        status: 'generating',
+        leads_purchased: payment.leads,
+        stripe_session_id: paid.stripeId,
+        paid_at: new Date().toISOString(),
+      })
+      .eq('id', payment.campaign_id);
+
+    if (updateError) {
+      throw new Error(`Failed to update campaign: ${updateError.message}`);
+    }
+
+    const { job, created } = await enqueueLeadGenerationJob(payment.campaign_id, getPostCheckoutLeadsCount(payment.leads));
+    if (created) {
+      triggerJobWorker(origin, job.id);
+    }
+    console.log(`[fulfilment] Campaign ${payment.campaign_id} paid: ${payment.leads} leads, job ${job.id}`);
+  }
+
+  return { user_id: userId, organization_id: organizationId };
+}
+
+/**
+ * The buyer of a checkout that wasn't made signed in, by their email: an existing user and their
+ * organization, or a new user who owns a new organization
+ */
+async function findOrCreateBuyer(paid: PaidCheckout): Promise<{ userId: string; organizationId: string }> {
+  const supabase = createAdminClient();
+
+  const customerEmail = paid.email || (paid.customerId ? await getCustomerEmail(paid.customerId) : null);
+  if (!customerEmail) {
+    throw new Error(`Payment ${paid.stripeId} has no customer email`);
+  }
+
+  // 1. Check if user already exists
+  const { data: existingUsers } = await supabase.auth.admin.listUsers();
+  const existingUser = existingUsers?.users?.find(
+    (u) => u.email === customerEmail
+  );
+
+  let userId: string;
+
+  if (existingUser) {
+    userId = existingUser.id;
+    console.log(`[fulfilment] User already exists: ${userId}`);
+  } else {
+    // Create new user with the email
+    const { data: newUser, error: createError } = await supabase.auth.admin.createUser({
+      email: customerEmail,
+      email_confirm: true,
+      user_metadata: {
+        source: 'stripe_checkout',
+        stripe_id: paid.stripeId,
+      },
+    });
+
+    if (createError) {
+      throw new Error(`Failed to create user account: ${createError.message}`);
+    }
+
+    userId = newUser.user.id;
+    console.log(`[fulfilment] Created new user: ${userId}`);
+  }
+
+  // 2. Get or create organization for this user
+  let organizationId: string;
+
+  // Team members buy into the organization they already work in
+  const existingMembership = await findOrganizationMembership(supabase, userId);
+
+  if (existingMembership) {
+    organizationId = existingMembership.organizationId;
+    console.log(`[fulfilment] Using existing organization: ${organizationId}`);
+  } else {
+    const { data: newOrg, error: orgError } = await supabase
+      .from('organizations')
+      .insert({
+        owner_id: userId,
+        name: customerEmail.split('@')[0], // Default name from email
+      })
+      .select('id')
+      .single();
+
+    if (orgError) {
+      throw new Error(`Failed to create organization: ${orgError.message}`);
+    }
+
+    organizationId = newOrg.id;
+    console.log(`[fulfilment] Created new organization: ${organizationId}`);
+
+    try {
+      await addMember(organizationId, { id: userId, email: customerEmail }, 'owner');
+    } catch (memberError) {
+      // listMembers backfills the owner row - don't fail a paid checkout over it
+      console.error('[fulfilment] Error adding owner membership:', memberError);
+    }
+  }
+
+  return { userId, organizationId };
+}
+
+/**
+ * Top-up: add the leads to the campaign and queue another run to find them
+ */
+async function fulfillTopUp(
+  payment: Payment,
+  origin: string
+): Promise<Pick<Payment, 'user_id' | 'organization_id'>> {
+  const supabase = createAdminClient();
+
+  const { data: campaign } = await supabase
+    .from('campaigns')
+    .select('id, leads_purchased, user_id, organization_id')
+    .eq('id', payment.campaign_id)
+    .single();
+
+  if (!campaign) {
+    throw new Error(`Top-up ${payment.stripe_id} paid for missing campaign ${payment.campaign_id}`);
+  }
+
+  await addPurchasedLeads(campaign.id, campaign.leads_purchased, payment.leads);
+
+  // A run that's still going takes the leads as a follow-up once it finishes
+  const { job, created } = await enqueueTopUpJob(campaign.id, getPostCheckoutLeadsCount(payment.leads));
+  if (created) {
+    triggerJobWorker(origin, job.id);
+  }
+
+  console.log(`[fulfilment] Top-up ${payment.stripe_id}: ${payment.leads} more leads for campaign ${campaign.id} (${created ? 'job' : 'follow-up of job'} ${job.id})`);
+  return { user_id: campaign.user_id, organization_id: campaign.organization_id };
+}
+
+/**
+ * Add a top-up's leads to the campaign's purchased total. Compare-and-set on the total read,
+ * so two top-ups fulfilled at once can't overwrite each other's leads.
+ */
+async function addPurchasedLeads(campaignId: string, leadsPurchased: number | null, leads: number): Promise<void> {
+  const supabase = createAdminClient();
+  let current = leadsPurchased;
+
+  for (let attempt = 0; attempt < MAX_LEADS_PURCHASED_ATTEMPTS; attempt++) {
+    const update = supabase
+      .from('campaigns')
+      .update({ leads_purchased: (current || 0) + leads, status: 'generating' })
+      .eq('id', campaignId);
+
+    const { data: updated, error } = await (current === null ? update.is('leads_purchased', null) : update.eq('leads_purchased', current))
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update campaign after top-up: ${error.message}`);
+    }
+    if (updated) return;
+
+    const { data: latest } = await supabase
+      .from('campaigns')
+      .select('leads_purchased')
+      .eq('id', campaignId)
+      .single();
+
+    current = latest?.leads_purchased ?? null;
+  }
+
+  throw new Error(`Failed to update campaign ${campaignId} after top-up: too many concurrent updates`);
+}
+
+async function getCustomerEmail(customerId: string): Promise<string | null> {
+  const customer = await stripe.customers.retrieve(customerId);
+  return customer.deleted ? null : customer.email;
+}
+
+/**
+ * Record a refund against its payment. A fully refunded campaign purchase loses its paid
+ * status, so it can't be topped up or have lead generation queued again.
+ */
+export async function recordRefund(charge: Stripe.Charge): Promise<void> {
+  const paymentIntentId = getId(charge.payment_intent);
+  if (!paymentIntentId) return;
+
+  const supabase = createAdminClient();
+  const fullyRefunded = charge.amount_refunded >= charge.amount;
+
+  const { data: payment } = await supabase
+    .from(PAYMENTS_TABLE)
+    .update({
+      status: fullyRefunded ? 'refunded' : 'partially_refunded',
+      amount_refunded: charge.amount_refunded,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('stripe_payment_intent_id', paymentIntentId)
+    .select('*')
+    .maybeSingle();
+
+  if (!payment) {
+    console.warn(`[fulfilment] Refund for unknown payment ${paymentIntentId}`);
+    return;
+  }
+
+  if (fullyRefunded && payment.kind === 'campaign' && payment.campaign_id) {
+    await supabase
+      .from('campaigns')
+      .update({ paid_at: null })
+      .eq('id', payment.campaign_id);
+  }
+
+  // A refunded payment doesn't count towards its promo code's limit
+  if (fullyRefunded && payment.promo_code_id) {
+    await releasePromoRedemption({ stripeId: payment.stripe_id });
+  }
+
+  console.warn(`[fulfilment] Payment ${payment.stripe_id} ${fullyRefunded ? 'refunded' : 'partially refunded'} (${charge.amount_refunded}/${charge.amount})`);
+}
+
+/**
+ * Record a dispute opening or closing against its payment
+ */
+export async function recordDispute(dispute: Stripe.Dispute): Promise<void> {
+  const paymentIntentId = getId(dispute.payment_intent);
+  if (!paymentIntentId) return;
+
+  const status: PaymentStatus = dispute.status === 'won'
+    ? 'dispute_won'
+    : dispute.status === 'lost'
+    ? 'dispute_lost'
+    : 'disputed';
+
+  const supabase = createAdminClient();
+  const { data: payment } = await supabase
+    .from(PAYMENTS_TABLE)
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq('stripe_payment_intent_id', paymentIntentId)
+    .select('stripe_id, campaign_id')
+    .maybeSingle();
+
+  if (!payment) {
+    console.warn(`[fulfilment] Dispute ${dispute.id} for unknown payment ${paymentIntentId}`);
+    return;
+  }
+
+  console.warn(`[fulfilment] Payment ${payment.stripe_id} (campaign ${payment.campaign_id}) dispute ${dispute.id}: ${dispute.status}`);
+}
@@ -130,6 +130,7 @@ export async function analyzeCompanyAndICP(
       status: 'completed',
       prompt: companyProfilerResult.debug.prompt,
       response: companyProfilerResult.debug.response,
+      promptVersion: companyProfilerResult.debug.promptVersion,
       input: {
         url: scrapedWebsite.url,
         title: scrapedWebsite.title,
@@ -179,6 +180,7 @@ export async function analyzeCompanyAndICP(
       status: 'completed',
       prompt: icpResult.debug.prompt,
       response: icpResult.debug.response,
+      promptVersion: icpResult.debug.promptVersion,
       input: {
         companyName: companyProfile.name,
         productOrService: companyProfile.productOrService,
@@ -233,6 +235,7 @@ export async function analyzeCompanyAndICP(
       status: 'completed',
       prompt: rankingResult.debug.prompt,
       response: rankingResult.debug.response,
+      promptVersion: rankingResult.debug.promptVersion,
       input: {
         companyName: companyProfile.name,
         personaCount: icpResult.personas.length,
@@ -317,6 +320,7 @@ export async function analyzeCompanyAndICP(
       status: 'completed',
       prompt: filterResult.debug.prompt,
       response: filterResult.debug.response,
+      promptVersion: filterResult.debug.promptVersion,
       input: {
         personaName: rankingResult.selectedPersona.name,
         titles: rankingResult.selectedPersona.titles,
@@ -491,6 +495,7 @@ export async function analyzeCompanyAndICPWithDetails(
           status: 'completed',
           prompt: companyProfilerResult.debug.prompt,
           response: companyProfilerResult.debug.response,
+          promptVersion: companyProfilerResult.debug.promptVersion,
           input: {
             url: scrapedWebsite.url,
             title: scrapedWebsite.title,
@@ -508,6 +513,7 @@ export async function analyzeCompanyAndICPWithDetails(
           status: 'completed',
           prompt: icpResult.debug.prompt,
           response: icpResult.debug.response,
+          promptVersion: icpResult.debug.promptVersion,
           input: {
             companyName: companyProfileDetail.name,
             productOrService: companyProfileDetail.productOrService,
@@ -527,6 +533,7 @@ export async function analyzeCompanyAndICPWithDetails(
           status: 'completed',
           prompt: rankingResult.debug.prompt,
           response: rankingResult.debug.response,
+          promptVersion: rankingResult.debug.promptVersion,
           input: {
             companyName: companyProfileDetail.name,
             personaCount: icpResult.personas.length,
@@ -548,6 +555,7 @@ export async function analyzeCompanyAndICPWithDetails(
           status: 'completed',
           prompt: filterResult.debug.prompt,
           response: filterResult.debug.response,
+          promptVersion: filterResult.debug.promptVersion,
           input: {
             personaName: rankingResult.selectedPersona.name,
             titles: rankingResult.selectedPersona.titles,
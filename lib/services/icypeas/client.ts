@@ -1,4 +1,5 @@
 import {
+  IcypeasEmailResult,
   IcypeasEmailSearchRequest,
   IcypeasEmailSearchResponse,
   IcypeasSearchResultResponse,
@@ -133,6 +134,21 @@ class IcypeasClient {
     maxAttempts: number = 10,
     pollDelayMs: number = 1000
   ): Promise<string | null> {
+    const result = await this.findEmailResult(firstname, lastname, domainOrCompany, maxAttempts, pollDelayMs);
+    return result?.email || null;
+  }
+
+  /**
+   * Same as findEmail, but returns the full result including Icypeas' certainty
+   * (used by email verification to spot catch-all domains)
+   */
+  async findEmailResult(
+    firstname: string,
+    lastname: string,
+    domainOrCompany: string,
+    maxAttempts: number = 10,
+    pollDelayMs: number = 1000
+  ): Promise<IcypeasEmailResult | null> {
     try {
       // Initiate search
       const searchResponse = await this.searchEmail(firstname, lastname, domainOrCompany);
@@ -162,8 +178,8 @@ class IcypeasClient {
 
         // FOUND or NOT_FOUND means search is complete
         if (item.status === 'FOUND') {
-          const email = item.results?.emails?.[0]?.email;
-          if (email) {
+          const email = item.results?.emails?.[0];
+          if (email?.email) {
             return email;
           }
           // Status is FOUND but no email in results
@@ -177,8 +193,8 @@ class IcypeasClient {
 
         // DEBITED means credits were used - check for email in results
         if (item.status === 'DEBITED') {
-          const email = item.results?.emails?.[0]?.email;
-          return email || null;
+          const email = item.results?.emails?.[0];
+          return email?.email ? email : null;
         }
 
         // DEBITED_NOT_FOUND means credits used but no email found
@@ -214,7 +230,7 @@ class IcypeasClient {
    * @param batchDelayMs - Delay between batches in milliseconds (default: 500ms)
    * @returns Array of leads with email field populated (if found)
    */
-  async enrichLeadsBatch<T extends { first_name: string; last_name: string; company?: string; company_domain?: string; email?: string }>(
+  async enrichLeadsBatch<T extends { first_name: string; last_name: string; company?: string; company_domain?: string; email?: string; email_certainty?: string }>(
     leads: T[],
     batchSize: number = 5,
     batchDelayMs: number = 500
@@ -240,11 +256,12 @@ class IcypeasClient {
           return lead;
         }
 
-        const email = await this.findEmail(lead.first_name, lead.last_name, domain);
+        const result = await this.findEmailResult(lead.first_name, lead.last_name, domain);
         
         return {
           ...lead,
-          email: email || undefined,
+          email: result?.email || undefined,
+          email_certainty: result?.certainty || undefined,
         };
       });
 
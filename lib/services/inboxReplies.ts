@@ -0,0 +1,86 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { emailBisonClient } from './emailbison';
+
+export type SendInboxReplyResult =
+  | { success: true; outboundMessage: Record<string, unknown> | null }
+  | { success: false; error: string; notFound?: boolean };
+
+/**
+ * Reply to an inbound inbox message through EmailBison and record the outbound message.
+ *
+ * @param supabase - Client used to load the message; the session client applies RLS,
+ *   the admin client must only be passed a message ID already checked against the organization
+ * @param senderEmailId - EmailBison sender; defaults to the campaign's emailbison_sender_email_id
+ */
+export async function sendInboxReply(
+  supabase: SupabaseClient,
+  messageId: string,
+  replyBody: string,
+  senderEmailId?: number | string | null
+): Promise<SendInboxReplyResult> {
+  // Get the original message
+  const { data: message, error: messageError } = await supabase
+    .from('inbox_messages')
+    .select('*, leads(*), campaigns(*)')
+    .eq('id', messageId)
+    .single();
+
+  if (messageError || !message) {
+    return { success: false, error: 'Message not found', notFound: true };
+  }
+
+  // EmailBison uses reply_id (the message ID) not thread_id
+  const replyId = message.emailbison_reply_id || message.emailbison_thread_id;
+  if (!replyId) {
+    return { success: false, error: 'Reply ID not found - cannot send reply' };
+  }
+
+  // Get sender email ID - either from request or campaign settings
+  // TODO: Store sender_email_id on campaign when it's configured in EmailBison
+  const senderEmailIdToUse = senderEmailId || message.campaigns?.emailbison_sender_email_id;
+  if (!senderEmailIdToUse) {
+    return { success: false, error: 'Sender email ID not configured - please set up sender in EmailBison' };
+  }
+
+  // Build recipient info from the original message
+  const toEmails = [{
+    name: message.leads?.first_name
+      ? `${message.leads.first_name} ${message.leads.last_name || ''}`.trim()
+      : 'Recipient',
+    email_address: message.from_email,
+  }];
+
+  // Send reply via EmailBison API
+  await emailBisonClient.sendReply(
+    replyId,
+    replyBody,
+    senderEmailIdToUse,
+    toEmails,
+    'html'
+  );
+
+  // Insert outbound message into inbox_messages
+  const { data: outboundMessage, error: insertError } = await supabase
+    .from('inbox_messages')
+    .insert({
+      campaign_id: message.campaign_id,
+      lead_id: message.lead_id,
+      emailbison_thread_id: message.emailbison_thread_id,
+      direction: 'outbound',
+      subject: message.subject?.startsWith('Re:') ? message.subject : `Re: ${message.subject || ''}`,
+      body: replyBody,
+      from_email: null, // Will be set by EmailBison
+      to_email: message.from_email,
+      received_at: new Date(),
+      is_read: true,
+    })
+    .select()
+    .single();
+
+  if (insertError) {
+    console.error('Error inserting outbound message:', insertError);
+    // Don't fail - the reply was sent via EmailBison
+  }
+
+  return { success: true, outboundMessage };
+}
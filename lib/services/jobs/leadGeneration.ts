@@ -0,0 +1,987 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { getArkSearchLimits } from '../leadFinder';
+import { getLeadSourceProvider, isLeadSourceId, mergeLeads, resolveLeadSources } from '../leadSources';
+import { icypeasClient } from '../icypeas';
+import { filterSuppressedLeads, getSuppressionMatch, loadSuppressionList, SuppressionList } from '../suppression';
+import { ContactedLeadIndex, findDuplicateLead, getLeadCooldownDays, loadContactedLeads } from '../leadDedupe';
+import { getMinEmailGrade, meetsMinEmailGrade, verifyEmails } from '../emailVerification';
+import {
+  buildAccountContext,
+  capContactsPerAccount,
+  getMaxContactsPerAccount,
+  hasRoomAtAccount,
+  matchTargetAccount,
+} from '../accountTargeting';
+import {
+  generateSequenceForLead,
+  buildFallbackFollowUps,
+  getSequenceLength,
+  getFollowUpSchedule,
+  FollowUpEmail,
+  EmailWriterContext,
+  EmailSequenceContent,
+} from '../emailWriter';
+import { EmailLintResult, formatLintIssues, lintEmailSequence, StoredEmailLint } from '../emailLinter';
+import { assignEmailVariant, buildEmailVariants, EmailVariant } from '../emailVariants';
+import { CompanyProfile } from '../agents/companyProfiler';
+import { ICPPersona } from '../agents/icpBrainstormer';
+import { emailBisonClient, EmailBisonSequenceStep, EmailBisonCustomVariable } from '../emailbison';
+import { CompanyInfo, ICPSettings, LinkedInLead } from '../../types';
+import { Campaign, LeadInsert } from '../../types/database';
+import {
+  LeadGenerationJob,
+  LeadGenerationJobState,
+  LeadGenerationStage,
+  SkippedLead,
+  SkippedLeadsSummary,
+  StageStepResult,
+} from './types';
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+interface StageContext {
+  supabase: AdminClient;
+  campaign: Campaign;
+  state: LeadGenerationJobState;
+}
+
+const WRITE_BATCH_SIZE = 10; // Leads per parallel email generation batch
+const INSERT_BATCH_SIZE = 50;
+const ENRICH_BATCH_SIZE = 10;
+const VERIFY_BATCH_SIZE = 25;
+const MAX_WRITE_ATTEMPTS = 2; // The writer's first draft plus one rewrite if it fails the copy lint
+
+/**
+ * Get the number of leads to generate for post-purchase lead generation.
+ *
+ * Environment variables:
+ * - POST_CHECKOUT_LEADS_MAX: Caps the maximum leads for post-purchase generation
+ *   (e.g., set to 10 during testing to save API credits)
+ *
+ * Note: LEADS_COUNT_OVERRIDE is for PRE-purchase preview in campaignGenerator.ts
+ */
+export function getPostCheckoutLeadsCount(requestedCount: number): number {
+  const maxCap = process.env.POST_CHECKOUT_LEADS_MAX;
+  if (maxCap) {
+    const parsed = parseInt(maxCap, 10);
+    if (!isNaN(parsed) && parsed > 0 && requestedCount > parsed) {
+      console.log(`[generate-leads] Capping to POST_CHECKOUT_LEADS_MAX: ${parsed} (requested: ${requestedCount})`);
+      return parsed;
+    }
+  }
+
+  return requestedCount;
+}
+
+/**
+ * Build the EmailBison sequence steps for a campaign.
+ * Step 1 uses {{custom.email_subject}}/{{custom.email_body}}; follow-up N uses
+ * {{custom.email_subject_N}}/{{custom.email_body_N}} so each lead gets its own copy.
+ */
+function buildSequenceSteps(sequenceLength: number): EmailBisonSequenceStep[] {
+  const followUpSteps = getFollowUpSchedule(sequenceLength).map((waitInDays, i) => ({
+    email_subject: `{{custom.email_subject_${i + 2}}}`,
+    email_body: `{{custom.email_body_${i + 2}}}`,
+    wait_in_days: waitInDays,
+  }));
+
+  return [
+    {
+      email_subject: '{{custom.email_subject}}',
+      email_body: '{{custom.email_body}}',
+      wait_in_days: 0,
+    },
+    ...followUpSteps,
+  ];
+}
+
+/**
+ * Custom variables holding each follow-up's copy (email_subject_2, email_body_2, ...)
+ * Newlines are converted to <br> tags for HTML rendering
+ */
+function buildFollowUpVariables(followUps: FollowUpEmail[] | null): EmailBisonCustomVariable[] {
+  return (followUps || []).flatMap(followUp => [
+    { name: `email_subject_${followUp.step}`, value: followUp.emailSubject },
+    { name: `email_body_${followUp.step}`, value: followUp.emailBody.replace(/\n/g, '<br>') },
+  ]);
+}
+
+/**
+ * Extract ICP settings from the campaign.
+ * Account-based campaigns search their target accounts for the selected persona's titles,
+ * without the industry, size and location filters (the account list already decides those).
+ */
+function getIcpSettings(campaign: Campaign): ICPSettings {
+  if (campaign.target_accounts && campaign.target_accounts.length > 0) {
+    const personas = campaign.icp_personas as unknown as ICPPersona[] | null;
+    const rankings = campaign.persona_rankings as { selectedPersonaId?: string } | null;
+    const persona = personas?.find(p => p.id === rankings?.selectedPersonaId) || personas?.[0];
+    const filters = campaign.linkedin_filters as unknown as ICPSettings | null;
+
+    return {
+      titles: persona?.titles || filters?.titles || ['Founder', 'CEO'],
+      companySize: '',
+      industries: [],
+      locations: [],
+      accounts: campaign.target_accounts,
+    };
+  }
+
+  const icpAttributes = campaign.icp_attributes as string[] | null;
+  return (campaign.linkedin_filters as unknown as ICPSettings) || {
+    titles: icpAttributes?.[0]?.split(', ') || ['Founder', 'CEO'],
+    companySize: icpAttributes?.[1] || '10-200 employees',
+    industries: icpAttributes?.[2]?.split(', ') || ['SaaS', 'Technology'],
+    locations: [campaign.location || 'United States'],
+  };
+}
+
+/**
+ * Build company info and email writer context from the campaign
+ */
+function getEmailWriterInputs(campaign: Campaign): { companyInfo: CompanyInfo; emailContext?: EmailWriterContext } {
+  const companyProfile = campaign.company_profile as unknown as CompanyProfile | null;
+  const personas = campaign.icp_personas as unknown as ICPPersona[] | null;
+  const rankings = campaign.persona_rankings as { selectedPersonaId?: string; selectionReasoning?: string } | null;
+
+  const companyInfo: CompanyInfo = {
+    name: campaign.company_name,
+    domain: campaign.domain || '',
+    description: companyProfile?.tagline || '',
+    whatTheyDo: campaign.helps_with || companyProfile?.productOrService || '',
+    valueProposition: campaign.great_at || companyProfile?.competitiveAdvantage || '',
+    targetCustomers: companyProfile?.targetMarket || '',
+    industry: companyProfile?.industry || '',
+  };
+
+  // Email writer context for better personalization
+  const emailContext = companyProfile ? {
+    companyProfile,
+    selectedPersona: personas?.find(p => p.id === rankings?.selectedPersonaId),
+    selectionReasoning: rankings?.selectionReasoning,
+  } : undefined;
+
+  return { companyInfo, emailContext };
+}
+
+interface LeadBlocklists {
+  suppressionList: SuppressionList;
+  contacted: ContactedLeadIndex;
+}
+
+/**
+ * Load what a campaign's leads are checked against: the organization's suppression list
+ * and the leads already in its other campaigns (within the cooldown window).
+ * Top-up runs also check the campaign's own leads from earlier runs.
+ */
+async function loadLeadBlocklists(campaign: Campaign, state: LeadGenerationJobState): Promise<LeadBlocklists> {
+  const [suppressionList, contacted] = await Promise.all([
+    loadSuppressionList(campaign.organization_id),
+    loadContactedLeads(campaign.organization_id, { excludeCampaignId: state.existingLeads ? undefined : campaign.id }),
+  ]);
+  return { suppressionList, contacted };
+}
+
+function toSkippedLead(
+  lead: LinkedInLead,
+  skip: Pick<SkippedLead, 'reason' | 'matchedOn' | 'existingCampaignId' | 'emailGrade'>
+): SkippedLead {
+  return {
+    name: lead.full_name || `${lead.first_name} ${lead.last_name}`.trim(),
+    company: lead.company,
+    email: lead.email,
+    linkedin_url: lead.linkedin_url || undefined,
+    ...skip,
+  };
+}
+
+/**
+ * Split leads into those the campaign can use and those to skip, with the reason for each skip
+ */
+function excludeBlockedLeads(
+  leads: LinkedInLead[],
+  { suppressionList, contacted }: LeadBlocklists
+): { allowed: LinkedInLead[]; skipped: SkippedLead[] } {
+  const allowed: LinkedInLead[] = [];
+  const skipped: SkippedLead[] = [];
+
+  for (const lead of leads) {
+    const suppressedBy = getSuppressionMatch(lead, suppressionList);
+    if (suppressedBy) {
+      skipped.push(toSkippedLead(lead, { reason: 'suppressed', matchedOn: suppressedBy }));
+      continue;
+    }
+
+    const duplicate = findDuplicateLead(lead, contacted);
+    if (duplicate) {
+      skipped.push(toSkippedLead(lead, { reason: 'duplicate', matchedOn: duplicate.match, existingCampaignId: duplicate.campaignId }));
+      continue;
+    }
+
+    allowed.push(lead);
+  }
+
+  return { allowed, skipped };
+}
+
+/**
+ * Add newly skipped leads, ignoring ones already recorded (later pages can return the same person)
+ */
+function appendSkipped(existing: SkippedLead[] = [], added: SkippedLead[]): SkippedLead[] {
+  const keyOf = (lead: SkippedLead) => (lead.linkedin_url || lead.email || `${lead.name}|${lead.company}`).toLowerCase();
+  const seen = new Set(existing.map(keyOf));
+  return [...existing, ...added.filter(lead => !seen.has(keyOf(lead)))];
+}
+
+/**
+ * Skipped leads for API responses, with counts per reason
+ *
+ * @param limit - Maximum number of individual leads to include
+ */
+export function getSkippedLeadsSummary(state: LeadGenerationJobState, limit: number = 100): SkippedLeadsSummary {
+  const skipped = state.skipped || [];
+  return {
+    total: skipped.length,
+    suppressed: skipped.filter(lead => lead.reason === 'suppressed').length,
+    duplicates: skipped.filter(lead => lead.reason === 'duplicate').length,
+    undeliverable: skipped.filter(lead => lead.reason === 'undeliverable').length,
+    cooldownDays: getLeadCooldownDays(),
+    leads: skipped.slice(0, limit),
+  };
+}
+
+/**
+ * search for an imported list: the uploaded leads are the candidates. The same suppression
+ * and cross-campaign checks apply, so a list can't be used to mail someone who opted out.
+ */
+async function runImportSearchStep(
+  campaign: Campaign,
+  state: LeadGenerationJobState,
+  imported: NonNullable<LeadGenerationJobState['imported']>
+): Promise<StageStepResult> {
+  const { allowed, skipped } = excludeBlockedLeads(imported.leads, await loadLeadBlocklists(campaign, state));
+  console.log(`[generate-leads] Imported list: ${imported.leads.length} leads, ${skipped.length} skipped (suppressed or already contacted)`);
+
+  return {
+    state: {
+      ...state,
+      sources: [],
+      candidates: mergeLeads([], allowed).leads,
+      skipped: appendSkipped(state.skipped, skipped),
+    },
+    progress: {
+      stage: 'search',
+      completed: 0,
+      total: state.leadsCount,
+      message: `Imported ${allowed.length} leads`,
+    },
+    next: 'enrich',
+  };
+}
+
+/**
+ * search: fetch the next page from every lead source that still has results.
+ * Paged providers (AI Ark) return one page per step so a timeout only loses that page;
+ * Apify returns all results in a single call. Results are merged and deduplicated, and
+ * suppressed people or people already in the organization's other campaigns are dropped before enrichment.
+ */
+async function runSearchStep({ campaign, state }: StageContext): Promise<StageStepResult> {
+  if (state.imported) {
+    return runImportSearchStep(campaign, state, state.imported);
+  }
+
+  const icpSettings = state.icpSettings || getIcpSettings(campaign);
+  const sources = state.sources || resolveLeadSources(campaign.lead_sources);
+  const { batchSize, maxPages, maxLeads } = getArkSearchLimits(state.leadsCount);
+  const blocklists = await loadLeadBlocklists(campaign, state);
+  const search = { ...state.search };
+  let candidates = state.candidates || [];
+  let skipped = state.skipped || [];
+
+  const active = sources.filter(id => !search[id]?.exhausted);
+  const errors: string[] = [];
+
+  for (const id of active) {
+    const provider = getLeadSourceProvider(id);
+    const cursor = search[id] || { page: 0, totalPages: 1, fetched: 0, exhausted: false };
+
+    if (!provider.isConfigured()) {
+      search[id] = { ...cursor, exhausted: true, error: `${provider.name} is not configured` };
+      errors.push(search[id]!.error!);
+      continue;
+    }
+
+    try {
+      console.log(`[generate-leads] Fetching page ${cursor.page} from ${provider.name} (${state.leads?.length || 0}/${state.leadsCount} leads so far)...`);
+      const result = await provider.search(icpSettings, {
+        limit: provider.supportsPaging ? batchSize : state.leadsCount,
+        page: cursor.page,
+        salesNavigatorUrl: campaign.sales_navigator_url || undefined,
+      });
+
+      // Account-based: search matches company names loosely, keep only people at a listed account
+      const found = icpSettings.accounts
+        ? result.leads.flatMap(lead => {
+          const account = matchTargetAccount(lead, icpSettings.accounts!);
+          return account ? [{ ...lead, target_account: account }] : [];
+        })
+        : result.leads;
+      if (found.length < result.leads.length) {
+        console.log(`[generate-leads] ${provider.name}: dropped ${result.leads.length - found.length} leads outside the target accounts`);
+      }
+
+      const { allowed, skipped: blocked } = excludeBlockedLeads(found, blocklists);
+      const merged = mergeLeads(candidates, allowed);
+      candidates = merged.leads;
+      skipped = appendSkipped(skipped, blocked);
+
+      const next = {
+        page: cursor.page + 1,
+        totalPages: result.totalPages ?? cursor.totalPages,
+        fetched: cursor.fetched + result.leads.length,
+        exhausted: result.exhausted || !provider.supportsPaging,
+      };
+      // Safety limits to prevent runaway API calls
+      if (next.page >= maxPages || next.fetched >= maxLeads) {
+        next.exhausted = true;
+      }
+      search[id] = next;
+
+      console.log(`[generate-leads] ${provider.name}: ${result.leads.length} leads, ${blocked.length} skipped (suppressed or already contacted), ${merged.added} new after dedupe`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push(`${provider.name}: ${message}`);
+      search[id] = { ...cursor, error: message };
+    }
+  }
+
+  // Retry the stage if every source failed; otherwise carry on with the ones that worked
+  if (active.length > 0 && errors.length === active.length) {
+    throw new Error(`All lead sources failed - ${errors.join('; ')}`);
+  }
+  for (const id of active) {
+    if (search[id]?.error) {
+      console.warn(`[generate-leads] Dropping lead source ${id}: ${search[id]!.error}`);
+      search[id] = { ...search[id]!, exhausted: true };
+    }
+  }
+
+  return {
+    state: { ...state, icpSettings, sources, search, candidates, skipped },
+    progress: {
+      stage: 'search',
+      completed: state.leads?.length || 0,
+      total: state.leadsCount,
+      message: `Found ${candidates.length} leads from ${sources.join(', ')}`,
+    },
+    next: 'enrich',
+  };
+}
+
+/**
+ * enrich: find emails with Icypeas for candidates from providers that need it (or imported rows
+ * missing one, when the import asked for it), one small batch per step.
+ * Goes back to search for more when candidates run out before the target is reached.
+ * Found emails are checked against the suppression list and the organization's other campaigns
+ * again (search only knew the profile). Account-based campaigns keep at most
+ * max_contacts_per_account people per target account.
+ */
+async function runEnrichStep({ campaign, state }: StageContext): Promise<StageStepResult> {
+  const candidates = state.candidates || [];
+  const leads = state.leads || [];
+  const enrich = state.enrich || { cursor: 0, consecutiveEmpty: 0 };
+  const { maxEmptyBatches } = getArkSearchLimits(state.leadsCount);
+
+  if (enrich.cursor >= candidates.length || leads.length >= state.leadsCount) {
+    const sources = state.sources || [];
+    const allExhausted = sources.every(id => state.search?.[id]?.exhausted);
+    let stopReason: string | null = null;
+    if (leads.length >= state.leadsCount) stopReason = 'Target reached';
+    else if (allExhausted) stopReason = 'Sources exhausted';
+    else if (enrich.consecutiveEmpty >= maxEmptyBatches) stopReason = `${maxEmptyBatches} consecutive batches with 0 emails`;
+
+    if (stopReason) {
+      console.log(`[generate-leads] ${stopReason}. ${leads.length} leads ready (target: ${state.leadsCount})`);
+      return {
+        state: { ...state, leads: leads.slice(0, state.leadsCount) },
+        progress: { stage: 'enrich', completed: Math.min(leads.length, state.leadsCount), total: state.leadsCount, message: stopReason },
+        next: 'verify',
+      };
+    }
+
+    return {
+      state,
+      progress: { stage: 'enrich', completed: leads.length, total: state.leadsCount },
+      next: 'search',
+    };
+  }
+
+  const pending = candidates.slice(enrich.cursor, enrich.cursor + ENRICH_BATCH_SIZE);
+  // Account-based: don't pay to enrich people at accounts that already have enough contacts
+  const maxContactsPerAccount = getMaxContactsPerAccount(campaign.max_contacts_per_account);
+  const batch = pending.filter(lead => hasRoomAtAccount(lead, leads, maxContactsPerAccount));
+  const needsEnrichment = batch.filter(lead =>
+    state.imported
+      ? state.imported.enrichMissingEmails && !lead.email
+      : isLeadSourceId(lead.source) && getLeadSourceProvider(lead.source).needsEmailEnrichment
+  );
+  // Leads from providers without enrichment (Apify) and imported rows that already have an email are used as-is
+  const passThrough = batch.filter(lead => !needsEnrichment.includes(lead));
+
+  const enriched = needsEnrichment.length > 0
+    ? await icypeasClient.enrichLeadsBatch(needsEnrichment, ENRICH_BATCH_SIZE, 100)
+    : [];
+  const withEmails = enriched.filter(lead => lead.email);
+  // Imported rows stay in the campaign without an email (they're never uploaded) so the customer
+  // can see who from their list couldn't be reached; searched leads without one are replaced instead
+  const found = state.imported ? enriched : withEmails;
+  const { allowed, skipped } = excludeBlockedLeads([...passThrough, ...found], await loadLeadBlocklists(campaign, state));
+  const { accepted } = capContactsPerAccount(leads, allowed, maxContactsPerAccount);
+  const nextLeads = [...leads, ...accepted];
+
+  if (needsEnrichment.length > 0) {
+    console.log(`[generate-leads] Found emails for ${withEmails.length}/${needsEnrichment.length} leads (${nextLeads.length}/${state.leadsCount})`);
+  }
+  if (skipped.length > 0) {
+    console.log(`[generate-leads] Skipped ${skipped.length} leads (suppressed or already contacted)`);
+  }
+
+  return {
+    state: {
+      ...state,
+      leads: nextLeads,
+      skipped: appendSkipped(state.skipped, skipped),
+      enrich: {
+        cursor: enrich.cursor + pending.length,
+        // Only batches that went through Icypeas count towards the empty-batch limit
+        consecutiveEmpty: needsEnrichment.length === 0
+          ? enrich.consecutiveEmpty
+          : withEmails.length === 0 ? enrich.consecutiveEmpty + 1 : 0,
+      },
+    },
+    progress: { stage: 'enrich', completed: Math.min(nextLeads.length, state.leadsCount), total: state.leadsCount },
+  };
+}
+
+/**
+ * verify: grade each lead's email (syntax, MX records, catch-all, role account) one batch per step,
+ * and drop leads below the campaign's minimum grade before any copy is written for them.
+ * Goes back to enrich for replacements when that leaves the campaign short.
+ */
+async function runVerifyStep({ campaign, state }: StageContext): Promise<StageStepResult> {
+  const leads = state.leads || [];
+  const verify = state.verify || { dropped: 0 };
+  const minGrade = getMinEmailGrade(campaign.min_email_grade);
+  // Leads without an email can't be graded - they're never uploaded anyway
+  const pending = leads.filter(lead => lead.email && !lead.email_verification);
+
+  if (pending.length === 0) {
+    if (verify.dropped > 0 && leads.length < state.leadsCount) {
+      console.log(`[generate-leads] ${verify.dropped} leads below grade ${minGrade} - looking for replacements`);
+      return {
+        state: { ...state, verify: { dropped: 0 } },
+        progress: { stage: 'verify', completed: leads.length, total: state.leadsCount, message: 'Finding replacements for undeliverable emails' },
+        next: 'enrich',
+      };
+    }
+
+    return {
+      state,
+      progress: { stage: 'verify', completed: leads.length, total: leads.length },
+      next: 'write',
+    };
+  }
+
+  const batch = pending.slice(0, VERIFY_BATCH_SIZE);
+  const results = await verifyEmails(batch.map(lead => ({ email: lead.email!, certainty: lead.email_certainty })));
+  const verified = new Map(batch.map((lead, i) => [lead, results[i]]));
+
+  const nextLeads: LinkedInLead[] = [];
+  const skipped: SkippedLead[] = [];
+  for (const lead of leads) {
+    const verification = verified.get(lead);
+    if (!verification) {
+      nextLeads.push(lead);
+    } else if (meetsMinEmailGrade(verification.grade, minGrade)) {
+      nextLeads.push({ ...lead, email_verification: verification });
+    } else {
+      skipped.push(toSkippedLead(lead, { reason: 'undeliverable', matchedOn: 'email_grade', emailGrade: verification.grade }));
+    }
+  }
+
+  const graded = nextLeads.filter(lead => lead.email_verification).length;
+  console.log(`[generate-leads] Verified ${batch.length} emails, ${skipped.length} below grade ${minGrade} (${graded}/${nextLeads.length} graded)`);
+
+  return {
+    state: {
+      ...state,
+      leads: nextLeads,
+      skipped: appendSkipped(state.skipped, skipped),
+      verify: { dropped: verify.dropped + skipped.length },
+    },
+    progress: { stage: 'verify', completed: graded, total: nextLeads.length },
+  };
+}
+
+/**
+ * The campaign's A/B variants, chosen the first time its emails are written and stored so
+ * later batches, retries and top-ups keep assigning the same ones. An empty list means the
+ * campaign isn't A/B tested.
+ *
+ * Read from the database rather than the campaign loaded when the job started, and saved only
+ * while the campaign has none, so a batch never replaces variants another batch already stored.
+ */
+async function getCampaignVariants(
+  supabase: AdminClient,
+  campaign: Campaign,
+  persona: ICPPersona | undefined
+): Promise<EmailVariant[]> {
+  const { data: stored, error: readError } = await supabase
+    .from('campaigns')
+    .select('email_variants')
+    .eq('id', campaign.id)
+    .single();
+
+  if (readError) {
+    throw new Error(`Failed to load email variants: ${readError.message}`);
+  }
+
+  if (Array.isArray(stored.email_variants)) {
+    return stored.email_variants as unknown as EmailVariant[];
+  }
+
+  const variants = buildEmailVariants(persona);
+  const { data: saved, error } = await supabase
+    .from('campaigns')
+    .update({ email_variants: variants as unknown as Campaign['email_variants'] })
+    .eq('id', campaign.id)
+    .is('email_variants', null)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to save email variants: ${error.message}`);
+  }
+
+  // Another batch stored them first - use those
+  if (!saved) {
+    const { data: current } = await supabase
+      .from('campaigns')
+      .select('email_variants')
+      .eq('id', campaign.id)
+      .single();
+
+    return Array.isArray(current?.email_variants) ? current.email_variants as unknown as EmailVariant[] : [];
+  }
+
+  if (variants.length > 0) {
+    console.log(`[generate-leads] A/B testing ${variants.length} variants: ${variants.map(v => `${v.id} (${v.source})`).join(', ')}`);
+  }
+  return variants;
+}
+
+/**
+ * Write a lead's sequence and lint it, rewriting once with the issues as feedback if the copy has errors.
+ * Content is null when the writer failed or its copy still has errors, so the fallback copy
+ * is used instead - lint is then the last rejected draft's.
+ */
+async function writeCheckedSequence(
+  lead: LinkedInLead,
+  companyInfo: CompanyInfo,
+  context: EmailWriterContext | undefined,
+  sequenceLength: number
+): Promise<{ content: EmailSequenceContent | null; lint: EmailLintResult | null; attempts: number }> {
+  let lint: EmailLintResult | null = null;
+
+  for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+    // A rewrite is told what the last draft got wrong
+    const attemptContext = lint ? { ...context, revisionNotes: formatLintIssues(lint.issues) } : context;
+
+    let content: EmailSequenceContent;
+    try {
+      content = await generateSequenceForLead(lead, companyInfo, 'Bella', attemptContext, sequenceLength);
+    } catch (emailError) {
+      console.error(`[generate-leads] Error generating email for ${lead.full_name}:`, emailError);
+      return { content: null, lint, attempts: attempt };
+    }
+
+    lint = lintEmailSequence(content, lead, companyInfo);
+    if (lint.passed) {
+      return { content, lint, attempts: attempt };
+    }
+
+    console.warn(`[generate-leads] Copy for ${lead.full_name} failed lint (attempt ${attempt}/${MAX_WRITE_ATTEMPTS}): ${formatLintIssues(lint.issues)}`);
+  }
+
+  return { content: null, lint, attempts: MAX_WRITE_ATTEMPTS };
+}
+
+/**
+ * leads.copy_lint - only set when the copy has issues or the fallback was used
+ */
+function toStoredLint(lint: EmailLintResult | null, attempts: number, usedFallback: boolean): StoredEmailLint | null {
+  const issues = lint?.issues || [];
+  if (issues.length === 0 && !usedFallback) return null;
+  return { issues, attempts, usedFallback };
+}
+
+/**
+ * write: generate the email sequence for one batch of leads
+ */
+async function runWriteStep({ supabase, campaign, state }: StageContext): Promise<StageStepResult> {
+  const leads = state.leads || [];
+  const written = state.written || [];
+
+  if (written.length >= leads.length) {
+    return {
+      state,
+      progress: { stage: 'write', completed: written.length, total: leads.length },
+      next: 'insert',
+    };
+  }
+
+  const { companyInfo, emailContext } = getEmailWriterInputs(campaign);
+  const variants = await getCampaignVariants(supabase, campaign, emailContext?.selectedPersona);
+  const sequenceLength = getSequenceLength();
+  const batch = leads.slice(written.length, written.length + WRITE_BATCH_SIZE);
+  // Position of the batch's first lead in the campaign, counting earlier runs' leads
+  const firstLeadIndex = (state.existingLeads || 0) + written.length;
+
+  // Generate emails in parallel for this batch
+  const rows: LeadInsert[] = await Promise.all(
+    batch.map(async (lead, i) => {
+      const baseRow = {
+        campaign_id: campaign.id,
+        first_name: lead.first_name,
+        last_name: lead.last_name,
+        email: lead.email || null, // Use enriched email from Icypeas
+        title: lead.job_title,
+        company: lead.company,
+        linkedin_url: lead.linkedin_url,
+        profile_picture_url: lead.profile_picture || null,
+        location: lead.location,
+        about: lead.about,
+        lead_source: lead.source || null,
+        email_grade: lead.email_verification?.grade || null,
+        email_verification: (lead.email_verification || null) as unknown as LeadInsert['email_verification'],
+        email_verified_at: lead.email_verification?.verifiedAt || null,
+        status: 'pending',
+      };
+
+      const account = buildAccountContext(lead, leads);
+      const accountContext = account ? { ...emailContext, account } : emailContext;
+      const variant = assignEmailVariant(variants, firstLeadIndex + i);
+      const leadContext = variant ? { ...accountContext, variant } : accountContext;
+      const sequence = await writeCheckedSequence(lead, companyInfo, leadContext, sequenceLength);
+
+      if (sequence.content) {
+        const { content, lint } = sequence;
+        return {
+          ...baseRow,
+          why_picked: content.whyPicked,
+          email_subject: content.emailSubject,
+          email_body: content.emailBody,
+          email_sequence: content.followUps as unknown as LeadInsert['email_sequence'],
+          prompt_versions: content.promptVersions,
+          copy_lint: toStoredLint(lint, sequence.attempts, false) as unknown as LeadInsert['copy_lint'],
+          variant_id: variant?.id || null,
+        };
+      }
+
+      // Return lead without personalized email - use a fallback
+      const fallbackSubject = `Quick question for ${lead.first_name}`;
+      return {
+        ...baseRow,
+        why_picked: `${lead.job_title} at ${lead.company}`,
+        email_subject: fallbackSubject,
+        email_body: `Hi {{first_name}},\n\nI came across {{company}} and thought you might be interested in what we do at ${companyInfo.name}.\n\n${companyInfo.whatTheyDo}\n\nWould you be open to a quick chat?\n\nBest,\nBella`,
+        email_sequence: buildFallbackFollowUps(companyInfo, fallbackSubject, 'Bella', sequenceLength) as unknown as LeadInsert['email_sequence'],
+        copy_lint: toStoredLint(sequence.lint, sequence.attempts, true) as unknown as LeadInsert['copy_lint'],
+      };
+    })
+  );
+
+  const nextWritten = [...written, ...rows];
+  console.log(`[generate-leads] Wrote emails for ${nextWritten.length}/${leads.length} leads`);
+
+  return {
+    state: { ...state, written: nextWritten },
+    progress: { stage: 'write', completed: nextWritten.length, total: leads.length },
+    next: nextWritten.length >= leads.length ? 'insert' : undefined,
+  };
+}
+
+/**
+ * insert: insert one batch of written leads.
+ * The cursor is re-derived from the leads table (less the leads from earlier runs) so a
+ * batch that was inserted just before a crash isn't inserted twice.
+ */
+async function runInsertStep({ supabase, campaign, state }: StageContext): Promise<StageStepResult> {
+  const written = state.written || [];
+
+  const { count: existingCount } = await supabase
+    .from('leads')
+    .select('*', { count: 'exact', head: true })
+    .eq('campaign_id', campaign.id);
+
+  const inserted = Math.max(state.inserted || 0, (existingCount || 0) - (state.existingLeads || 0));
+
+  if (inserted >= written.length) {
+    return {
+      state: { ...state, inserted },
+      progress: { stage: 'insert', completed: written.length, total: written.length },
+      next: 'upload',
+    };
+  }
+
+  const batch = written.slice(inserted, inserted + INSERT_BATCH_SIZE);
+  const { error: insertError } = await supabase
+    .from('leads')
+    .insert(batch);
+
+  if (insertError) {
+    throw new Error(`Failed to insert leads: ${insertError.message}`);
+  }
+
+  const nextInserted = inserted + batch.length;
+  console.log(`[generate-leads] Inserted ${nextInserted}/${written.length} leads`);
+
+  return {
+    state: { ...state, inserted: nextInserted },
+    progress: { stage: 'insert', completed: nextInserted, total: written.length },
+    next: nextInserted >= written.length ? 'upload' : undefined,
+  };
+}
+
+/**
+ * upload: create the EmailBison campaign, add the sequence, upload leads and launch.
+ * Each sub-step is recorded so a retry picks up after the last one that succeeded.
+ * The suppression list and email grades are checked once more right before upload, since an
+ * unsubscribe can arrive (or the campaign's minimum grade change) while the job is still writing emails.
+ */
+async function runUploadStep({ supabase, campaign, state }: StageContext): Promise<StageStepResult> {
+  const upload = { ...state.upload };
+  const progress = (completed: number, message: string) => ({ stage: 'upload' as const, completed, total: 4, message });
+
+  const { count: leadsWithEmails } = await supabase
+    .from('leads')
+    .select('*', { count: 'exact', head: true })
+    .eq('campaign_id', campaign.id)
+    .not('email', 'is', null);
+
+  if (!leadsWithEmails) {
+    console.log(`[generate-leads] No leads with email addresses - skipping EmailBison`);
+    return { state, progress: progress(4, 'No leads with email addresses'), next: 'done' };
+  }
+
+  // 1. Create campaign in EmailBison (reuse one created by an earlier attempt)
+  if (!upload.emailbisonCampaignId) {
+    if (campaign.emailbison_campaign_id) {
+      upload.emailbisonCampaignId = campaign.emailbison_campaign_id;
+    } else {
+      const campaignName = `ColdMessage - ${campaign.company_name} - ${campaign.slug}`;
+      const ebCampaign = await emailBisonClient.createCampaign(campaignName);
+      upload.emailbisonCampaignId = ebCampaign.campaign_id;
+
+      await supabase
+        .from('campaigns')
+        .update({
+          emailbison_campaign_id: ebCampaign.campaign_id,
+          emailbison_status: 'draft',
+        })
+        .eq('id', campaign.id);
+
+      console.log(`[generate-leads] EmailBison campaign created: ${ebCampaign.campaign_id}`);
+    }
+
+    return { state: { ...state, upload }, progress: progress(1, 'EmailBison campaign created') };
+  }
+
+  const emailbisonCampaignId = upload.emailbisonCampaignId;
+
+  // 2. Add sequence steps using template variables
+  // Each lead's personalized emails are stored in custom_variables
+  // (email_subject/email_body for step 1, email_subject_N/email_body_N for follow-ups)
+  if (!upload.sequenceAdded) {
+    // A reused campaign (top-up, rerun, or a retry after the steps went in but before the
+    // state was saved) may already have its sequence - adding it again duplicates the steps
+    const existing = await emailBisonClient.getCampaign(emailbisonCampaignId);
+    if (existing?.sequence_id) {
+      console.log(`[generate-leads] EmailBison campaign ${emailbisonCampaignId} already has a sequence`);
+    } else {
+      const sequenceSteps = buildSequenceSteps(getSequenceLength());
+      await emailBisonClient.addSequenceSteps(emailbisonCampaignId, {
+        title: 'Initial Outreach',
+        sequence_steps: sequenceSteps,
+      });
+      console.log(`[generate-leads] Added ${sequenceSteps.length} sequence steps to EmailBison campaign`);
+    }
+
+    return { state: { ...state, upload: { ...upload, sequenceAdded: true } }, progress: progress(2, 'Sequence added') };
+  }
+
+  // 3. Upload leads that don't have an EmailBison ID yet
+  if (!upload.leadsUploaded) {
+    const { data: unsentLeads } = await supabase
+      .from('leads')
+      .select('id, email, email_grade, first_name, last_name, company, title, linkedin_url, why_picked, email_subject, email_body, email_sequence, variant_id')
+      .eq('campaign_id', campaign.id)
+      .not('email', 'is', null)
+      .is('emailbison_lead_id', null);
+
+    const suppressionList = await loadSuppressionList(campaign.organization_id);
+    const { allowed, suppressed } = filterSuppressedLeads(unsentLeads || [], suppressionList);
+
+    // The campaign's minimum grade may have been raised since verify ran.
+    // Ungraded leads predate verification and are uploaded as before.
+    const minGrade = getMinEmailGrade(campaign.min_email_grade);
+    const pendingLeads = allowed.filter(lead => !lead.email_grade || meetsMinEmailGrade(lead.email_grade, minGrade));
+    const undeliverable = allowed.filter(lead => !pendingLeads.includes(lead));
+
+    if (suppressed.length > 0) {
+      await supabase
+        .from('leads')
+        .update({ status: 'suppressed' })
+        .in('id', suppressed.map(lead => lead.id));
+
+      console.log(`[generate-leads] Skipping ${suppressed.length} leads on the suppression list`);
+    }
+
+    if (undeliverable.length > 0) {
+      await supabase
+        .from('leads')
+        .update({ status: 'undeliverable' })
+        .in('id', undeliverable.map(lead => lead.id));
+
+      console.log(`[generate-leads] Skipping ${undeliverable.length} leads below email grade ${minGrade}`);
+    }
+
+    if (pendingLeads.length > 0) {
+      // Create lookup function to find existing EmailBison lead IDs from our DB
+      const lookupExistingLeadId = async (email: string): Promise<string | null> => {
+        const { data } = await supabase
+          .from('leads')
+          .select('emailbison_lead_id')
+          .eq('email', email)
+          .not('emailbison_lead_id', 'is', null)
+          .limit(1)
+          .single();
+        return data?.emailbison_lead_id || null;
+      };
+
+      // Convert email_body newlines to <br> tags for HTML rendering
+      // EmailBison expects custom_variables as array of { name, value } objects
+      const ebLeads = pendingLeads.map(lead => ({
+        email: lead.email!,
+        first_name: lead.first_name,
+        last_name: lead.last_name,
+        company: lead.company,
+        title: lead.title,
+        custom_variables: [
+          { name: 'email_subject', value: lead.email_subject || '' },
+          { name: 'email_body', value: (lead.email_body || '').replace(/\n/g, '<br>') },
+          { name: 'linkedin_url', value: lead.linkedin_url || '' },
+          { name: 'why_picked', value: lead.why_picked || '' },
+          { name: 'variant_id', value: lead.variant_id || '' },
+          ...buildFollowUpVariables(lead.email_sequence as unknown as FollowUpEmail[] | null),
+        ],
+      }));
+
+      const uploadResponse = await emailBisonClient.uploadLeads(
+        emailbisonCampaignId,
+        ebLeads,
+        lookupExistingLeadId
+      );
+
+      console.log(`[generate-leads] Uploaded ${uploadResponse.uploaded} leads to EmailBison (${uploadResponse.skipped_active} skipped - already in active sequences)`);
+
+      // Map EmailBison lead IDs back to our leads using the emailToLeadId mapping
+      if (uploadResponse.emailToLeadId) {
+        for (const lead of pendingLeads) {
+          const ebLeadId = uploadResponse.emailToLeadId[lead.email!];
+          if (ebLeadId) {
+            await supabase
+              .from('leads')
+              .update({ emailbison_lead_id: ebLeadId })
+              .eq('id', lead.id);
+          }
+        }
+      }
+    }
+
+    return { state: { ...state, upload: { ...upload, leadsUploaded: true } }, progress: progress(3, 'Leads uploaded') };
+  }
+
+  // 4. Resume campaign to start sending
+  await emailBisonClient.resumeCampaign(emailbisonCampaignId);
+
+  await supabase
+    .from('campaigns')
+    .update({ emailbison_status: 'active' })
+    .eq('id', campaign.id);
+
+  console.log(`[generate-leads] EmailBison campaign launched`);
+
+  return { state: { ...state, upload: { ...upload, launched: true } }, progress: progress(4, 'Campaign launched'), next: 'done' };
+}
+
+const STAGE_RUNNERS: Record<LeadGenerationStage, (ctx: StageContext) => Promise<StageStepResult>> = {
+  search: runSearchStep,
+  enrich: runEnrichStep,
+  verify: runVerifyStep,
+  write: runWriteStep,
+  insert: runInsertStep,
+  upload: runUploadStep,
+};
+
+/**
+ * Run one unit of work for the job's current stage
+ */
+export async function runLeadGenerationStep(
+  supabase: AdminClient,
+  job: LeadGenerationJob,
+  campaign: Campaign
+): Promise<StageStepResult> {
+  return STAGE_RUNNERS[job.stage]({ supabase, campaign, state: job.state });
+}
+
+/**
+ * Clear the state produced by `stage` and every stage after it, so the job can rerun from there.
+ * search and enrich feed each other, so rerunning either restarts both.
+ */
+export function resetStateFromStage(
+  state: LeadGenerationJobState,
+  stage: LeadGenerationStage
+): LeadGenerationJobState {
+  const next: LeadGenerationJobState = { ...state };
+
+  if (stage === 'search' || stage === 'enrich') {
+    delete next.search;
+    delete next.candidates;
+    delete next.enrich;
+    delete next.leads;
+    delete next.skipped;
+    delete next.verify;
+  }
+  if (stage === 'verify' && next.leads) {
+    // Regrade the remaining leads against the campaign's current minimum grade
+    next.leads = next.leads.map(lead => ({ ...lead, email_verification: undefined }));
+    delete next.verify;
+  }
+  if (stage !== 'insert' && stage !== 'upload') {
+    delete next.written;
+  }
+  if (stage !== 'upload') {
+    delete next.inserted;
+  }
+  // The EmailBison campaign and its sequence outlive a rerun - only the leads are uploaded
+  // (and the campaign resumed) again
+  if (next.upload) {
+    next.upload = {
+      emailbisonCampaignId: next.upload.emailbisonCampaignId,
+      sequenceAdded: next.upload.sequenceAdded,
+    };
+  }
+
+  return next;
+}
@@ -0,0 +1,501 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { runLeadGenerationStep, resetStateFromStage } from './leadGeneration';
+import { getInternalRequestHeaders } from '../campaignAccess';
+import { settleCampaignCredits } from '../credits';
+import {
+  JobStatus,
+  LeadGenerationJob,
+  LeadGenerationJobState,
+  LeadGenerationStage,
+  LEAD_GENERATION_STAGES,
+} from './types';
+
+const JOBS_TABLE = 'lead_generation_jobs';
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 30_000;
+// Compare-and-set retries when top-ups race to add leads to the same job
+const MAX_PENDING_LEADS_ATTEMPTS = 5;
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+/**
+ * How long one worker invocation may run before handing the job back to the queue.
+ *
+ * Environment variables:
+ * - JOB_TIME_BUDGET_MS: Per-invocation time budget (default 240000, below the 300s route limit)
+ */
+export function getJobTimeBudgetMs(): number {
+  const budget = process.env.JOB_TIME_BUDGET_MS;
+  if (budget) {
+    const parsed = parseInt(budget, 10);
+    if (!isNaN(parsed) && parsed > 0) {
+      return parsed;
+    }
+  }
+
+  return 240_000;
+}
+
+/**
+ * Get a job by ID
+ */
+export async function getLeadGenerationJob(jobId: string): Promise<LeadGenerationJob | null> {
+  const supabase = createAdminClient();
+
+  const { data } = await supabase
+    .from(JOBS_TABLE)
+    .select('*')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  return data as LeadGenerationJob | null;
+}
+
+/**
+ * Get the most recent job for a campaign
+ */
+export async function getLatestLeadGenerationJob(campaignId: string): Promise<LeadGenerationJob | null> {
+  const supabase = createAdminClient();
+
+  const { data } = await supabase
+    .from(JOBS_TABLE)
+    .select('*')
+    .eq('campaign_id', campaignId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data as LeadGenerationJob | null;
+}
+
+/**
+ * Queue lead generation for a campaign.
+ * Returns the existing job instead of creating a second one if the campaign already has one.
+ *
+ * @param imported - Leads from an uploaded list, used instead of searching the lead sources
+ */
+export async function enqueueLeadGenerationJob(
+  campaignId: string,
+  leadsCount: number,
+  imported?: LeadGenerationJobState['imported']
+): Promise<{ job: LeadGenerationJob; created: boolean }> {
+  const existingJob = await getLatestLeadGenerationJob(campaignId);
+  if (existingJob) {
+    return { job: existingJob, created: false };
+  }
+
+  return insertJob(campaignId, { leadsCount, ...(imported && { imported }) });
+}
+
+/**
+ * Queue another run for a campaign that already has leads (a top-up purchase).
+ * New leads are added to the campaign and deduped against its existing ones.
+ * If the campaign's last run hasn't finished yet, the leads are added to it as pending
+ * instead and that job is returned - they're queued as a follow-up run when it completes.
+ */
+export async function enqueueTopUpJob(
+  campaignId: string,
+  leadsCount: number
+): Promise<{ job: LeadGenerationJob; created: boolean }> {
+  const existingJob = await getLatestLeadGenerationJob(campaignId);
+  if (existingJob && (existingJob.status === 'queued' || existingJob.status === 'running')) {
+    const job = await addPendingLeads(existingJob, leadsCount);
+    if (job) {
+      console.log(`[jobs] Added ${leadsCount} pending leads to job ${job.id} (${job.pending_leads} pending)`);
+      return { job, created: false };
+    }
+    // It completed or failed in the meantime - queue the run now
+  }
+
+  const supabase = createAdminClient();
+  const { count: existingLeads } = await supabase
+    .from('leads')
+    .select('*', { count: 'exact', head: true })
+    .eq('campaign_id', campaignId);
+
+  return insertJob(campaignId, { leadsCount, existingLeads: existingLeads || 0 });
+}
+
+/**
+ * Add leads to an active job's pending count. Compare-and-set on the count read, so two
+ * top-ups fulfilled at once don't overwrite each other.
+ *
+ * @returns The updated job, or null once the job is no longer queued or running
+ */
+async function addPendingLeads(job: LeadGenerationJob, leads: number): Promise<LeadGenerationJob | null> {
+  const supabase = createAdminClient();
+  let pending = job.pending_leads;
+
+  for (let attempt = 0; attempt < MAX_PENDING_LEADS_ATTEMPTS; attempt++) {
+    const { data: updated } = await supabase
+      .from(JOBS_TABLE)
+      .update({ pending_leads: pending + leads, updated_at: new Date().toISOString() })
+      .eq('id', job.id)
+      .eq('pending_leads', pending)
+      .in('status', ['queued', 'running'])
+      .select('*')
+      .maybeSingle();
+
+    if (updated) return updated as LeadGenerationJob;
+
+    const latest = await getLeadGenerationJob(job.id);
+    if (!latest || (latest.status !== 'queued' && latest.status !== 'running')) return null;
+    pending = latest.pending_leads;
+  }
+
+  throw new Error(`Failed to add pending leads to job ${job.id}`);
+}
+
+/**
+ * Queue the leads top-ups bought while a job ran, now that it has completed. The count is
+ * taken (and zeroed) only after the job is marked completed - from then on top-ups queue
+ * their own run instead of adding to it.
+ */
+async function queueFollowUpRun(supabase: AdminClient, job: LeadGenerationJob): Promise<LeadGenerationJob | null> {
+  const { data } = await supabase
+    .from(JOBS_TABLE)
+    .select('pending_leads')
+    .eq('id', job.id)
+    .single();
+
+  const pending = data?.pending_leads || 0;
+  if (pending === 0) return null;
+
+  // Zeroed first, so a job completed twice (a rerun from the dashboard) can't queue it again
+  const { data: taken } = await supabase
+    .from(JOBS_TABLE)
+    .update({ pending_leads: 0 })
+    .eq('id', job.id)
+    .eq('pending_leads', pending)
+    .select('id')
+    .maybeSingle();
+
+  if (!taken) return null;
+
+  let followUp: LeadGenerationJob;
+  try {
+    ({ job: followUp } = await enqueueTopUpJob(job.campaign_id, pending));
+  } catch (error) {
+    // Put them back, so they're visible on the job rather than lost
+    await supabase.from(JOBS_TABLE).update({ pending_leads: pending }).eq('id', job.id);
+    throw error;
+  }
+
+  console.log(`[jobs] Queued follow-up job ${followUp.id} for ${pending} leads bought during job ${job.id}`);
+  return followUp;
+}
+
+async function insertJob(
+  campaignId: string,
+  state: LeadGenerationJobState
+): Promise<{ job: LeadGenerationJob; created: boolean }> {
+  const supabase = createAdminClient();
+  const { leadsCount } = state;
+
+  const { data: job, error } = await supabase
+    .from(JOBS_TABLE)
+    .insert({
+      campaign_id: campaignId,
+      status: 'queued',
+      stage: 'search',
+      max_attempts: DEFAULT_MAX_ATTEMPTS,
+      state,
+      progress: { stage: 'search', completed: 0, total: leadsCount },
+    })
+    .select('*')
+    .single();
+
+  if (error || !job) {
+    throw new Error(`Failed to enqueue lead generation job: ${error?.message}`);
+  }
+
+  console.log(`[jobs] Queued lead generation job ${job.id} for campaign ${campaignId} (${leadsCount} leads)`);
+  return { job: job as LeadGenerationJob, created: true };
+}
+
+/**
+ * Atomically claim a job: only succeeds if it's queued and due, or running with an expired lock
+ * (the previous worker timed out or crashed mid-stage).
+ */
+async function claimJob(supabase: AdminClient, jobId: string, lockMs: number): Promise<LeadGenerationJob | null> {
+  const now = new Date().toISOString();
+
+  const { data } = await supabase
+    .from(JOBS_TABLE)
+    .update({
+      status: 'running',
+      locked_until: new Date(Date.now() + lockMs).toISOString(),
+      started_at: now,
+      updated_at: now,
+    })
+    .eq('id', jobId)
+    .lte('run_after', now)
+    .or(`status.eq.queued,and(status.eq.running,locked_until.lt.${now})`)
+    .select('*')
+    .maybeSingle();
+
+  return data as LeadGenerationJob | null;
+}
+
+/**
+ * Find runnable jobs, oldest first
+ */
+async function findRunnableJobIds(supabase: AdminClient, limit: number): Promise<string[]> {
+  const now = new Date().toISOString();
+
+  const { data } = await supabase
+    .from(JOBS_TABLE)
+    .select('id')
+    .lte('run_after', now)
+    .or(`status.eq.queued,and(status.eq.running,locked_until.lt.${now})`)
+    .order('run_after', { ascending: true })
+    .limit(limit);
+
+  return (data || []).map(row => row.id);
+}
+
+/**
+ * Record a stage failure: schedule a retry with exponential backoff,
+ * or mark the job failed once it runs out of attempts.
+ */
+async function recordFailure(supabase: AdminClient, job: LeadGenerationJob, error: unknown): Promise<JobStatus> {
+  const message = error instanceof Error ? error.message : String(error);
+  const attempts = job.attempts + 1;
+  const exhausted = attempts >= job.max_attempts;
+
+  console.error(`[jobs] Job ${job.id} failed at stage ${job.stage} (attempt ${attempts}/${job.max_attempts}):`, error);
+
+  await supabase
+    .from(JOBS_TABLE)
+    .update({
+      status: exhausted ? 'failed' : 'queued',
+      attempts,
+      error: message,
+      failed_stage: exhausted ? job.stage : null,
+      run_after: new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)).toISOString(),
+      locked_until: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', job.id);
+
+  return exhausted ? 'failed' : 'queued';
+}
+
+/**
+ * Run a claimed job stage by stage until it completes, fails, or the deadline passes.
+ * State is saved after every unit of work so the next run resumes from there.
+ */
+async function runJob(supabase: AdminClient, job: LeadGenerationJob, deadline: number): Promise<LeadGenerationJob> {
+  const { data: campaign } = await supabase
+    .from('campaigns')
+    .select('*')
+    .eq('id', job.campaign_id)
+    .single();
+
+  if (!campaign) {
+    const status = await recordFailure(supabase, { ...job, attempts: job.max_attempts }, new Error('Campaign not found'));
+    return { ...job, status };
+  }
+
+  let current = job;
+
+  while (Date.now() < deadline) {
+    let result;
+    try {
+      result = await runLeadGenerationStep(supabase, current, campaign);
+    } catch (error) {
+      const status = await recordFailure(supabase, current, error);
+      return { ...current, status };
+    }
+
+    const done = result.next === 'done';
+    const stage: LeadGenerationStage = !result.next || result.next === 'done' ? current.stage : result.next;
+    const now = new Date().toISOString();
+
+    const update = {
+      state: result.state,
+      progress: result.progress,
+      stage,
+      // Retries are counted per stage
+      attempts: stage === current.stage ? current.attempts : 0,
+      error: null,
+      updated_at: now,
+      ...(done && { status: 'completed' as const, completed_at: now, locked_until: null }),
+    };
+
+    await supabase
+      .from(JOBS_TABLE)
+      .update(update)
+      .eq('id', current.id);
+
+    current = { ...current, ...update };
+
+    if (done) {
+      console.log(`[jobs] Job ${current.id} completed for campaign ${current.campaign_id}`);
+
+      // Credits were spent on the leads asked for - give back the ones the run didn't insert.
+      // Top-up runs are card purchases, so only the campaign's first run is settled.
+      if (current.state.existingLeads === undefined) {
+        try {
+          await settleCampaignCredits(current.campaign_id, current.state.inserted || 0);
+        } catch (error) {
+          console.error(`[jobs] Failed to settle credits for campaign ${current.campaign_id}:`, error);
+        }
+      }
+
+      let followUp: LeadGenerationJob | null = null;
+      try {
+        followUp = await queueFollowUpRun(supabase, current);
+      } catch (error) {
+        console.error(`[jobs] Failed to queue follow-up run for job ${current.id}:`, error);
+      }
+
+      // Leads are in and uploaded - campaign goes live, unless a follow-up run is still to come
+      // (no leads found still marks it ready, just with 0 leads)
+      if (!followUp) {
+        await supabase
+          .from('campaigns')
+          .update({ status: current.state.inserted || current.state.existingLeads ? 'active' : 'ready' })
+          .eq('id', current.campaign_id);
+      }
+
+      return current;
+    }
+  }
+
+  // Out of time - hand the job back to the queue for the next invocation
+  await supabase
+    .from(JOBS_TABLE)
+    .update({ status: 'queued', locked_until: null, updated_at: new Date().toISOString() })
+    .eq('id', current.id);
+
+  console.log(`[jobs] Job ${current.id} paused at stage ${current.stage} (time budget reached)`);
+  return { ...current, status: 'queued' };
+}
+
+/**
+ * Worker entry point: claim and run jobs until the time budget is used up.
+ * Pass a jobId to run a specific job (e.g. right after it was queued).
+ *
+ * @returns Jobs processed and whether any runnable work is left
+ */
+export async function processLeadGenerationJobs(options: { jobId?: string; timeBudgetMs?: number } = {}): Promise<{
+  processed: Array<{ id: string; status: string; stage: LeadGenerationStage }>;
+  hasMore: boolean;
+}> {
+  const supabase = createAdminClient();
+  const timeBudgetMs = options.timeBudgetMs ?? getJobTimeBudgetMs();
+  const deadline = Date.now() + timeBudgetMs;
+  // Lock outlives the budget so a slow final step doesn't let another worker in
+  const lockMs = timeBudgetMs + 60_000;
+
+  const processed: Array<{ id: string; status: string; stage: LeadGenerationStage }> = [];
+  const candidateIds = options.jobId ? [options.jobId] : await findRunnableJobIds(supabase, 5);
+
+  for (const jobId of candidateIds) {
+    if (Date.now() >= deadline) break;
+
+    const job = await claimJob(supabase, jobId, lockMs);
+    if (!job) continue; // Another worker got it, or it isn't due yet
+
+    const result = await runJob(supabase, job, deadline);
+    processed.push({ id: result.id, status: result.status, stage: result.stage });
+  }
+
+  const remaining = await findRunnableJobIds(supabase, 1);
+  return { processed, hasMore: remaining.length > 0 };
+}
+
+/**
+ * Requeue a job from the dashboard.
+ * Without `fromStage` the job resumes the stage it stopped at; with it, that stage
+ * and every later one are rerun from scratch.
+ */
+export async function retryLeadGenerationJob(
+  job: LeadGenerationJob,
+  fromStage?: LeadGenerationStage
+): Promise<LeadGenerationJob> {
+  if (job.status === 'running' && job.locked_until && new Date(job.locked_until) > new Date()) {
+    throw new Error('Job is currently running');
+  }
+
+  if (fromStage && !LEAD_GENERATION_STAGES.includes(fromStage)) {
+    throw new Error(`Unknown stage: ${fromStage}`);
+  }
+
+  const supabase = createAdminClient();
+  const stage = fromStage || job.failed_stage || job.stage;
+  let state = job.state;
+
+  if (fromStage) {
+    // Rerunning anything before upload rebuilds the leads table for this campaign
+    if (LEAD_GENERATION_STAGES.indexOf(fromStage) <= LEAD_GENERATION_STAGES.indexOf('insert')) {
+      const { data: campaign } = await supabase
+        .from('campaigns')
+        .select('emailbison_status')
+        .eq('id', job.campaign_id)
+        .single();
+
+      if (campaign?.emailbison_status === 'active') {
+        throw new Error('Campaign is already sending - leads can no longer be regenerated');
+      }
+
+      // The leads table can't tell a top-up's leads apart from the earlier runs' ones
+      if (job.state.existingLeads) {
+        throw new Error('Top-up runs can only be resumed, not rerun from an earlier stage');
+      }
+
+      await supabase
+        .from('leads')
+        .delete()
+        .eq('campaign_id', job.campaign_id);
+    }
+
+    state = resetStateFromStage(job.state, fromStage);
+  }
+
+  const { data: updated, error } = await supabase
+    .from(JOBS_TABLE)
+    .update({
+      status: 'queued',
+      stage,
+      state,
+      attempts: 0,
+      error: null,
+      failed_stage: null,
+      run_after: new Date().toISOString(),
+      locked_until: null,
+      completed_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', job.id)
+    .select('*')
+    .single();
+
+  if (error || !updated) {
+    throw new Error(`Failed to requeue job: ${error?.message}`);
+  }
+
+  // Campaign goes back to generating while the job reruns
+  await supabase
+    .from('campaigns')
+    .update({ status: 'generating' })
+    .eq('id', job.campaign_id);
+
+  console.log(`[jobs] Job ${job.id} requeued at stage ${stage}`);
+  return updated as LeadGenerationJob;
+}
+
+/**
+ * Nudge the worker route to start processing now instead of waiting for the cron tick.
+ * Fire and forget - the cron (or the next status poll) picks up anything this misses.
+ */
+export function triggerJobWorker(origin: string, jobId?: string): void {
+  fetch(`${origin}/api/jobs/worker`, {
+    method: 'POST',
+    headers: getInternalRequestHeaders(),
+    body: JSON.stringify({ jobId }),
+  }).catch(err => {
+    console.error('[jobs] Failed to trigger worker:', err);
+  });
+}
@@ -0,0 +1,144 @@
+import { ICPSettings, LinkedInLead } from '../../types';
+import { LeadInsert } from '../../types/database';
+import { LeadSourceId } from '../leadSources';
+import { DuplicateMatch } from '../leadDedupe';
+import { SuppressionType } from '../suppression';
+import { EmailGrade } from '../emailVerification';
+
+// Post-checkout lead generation runs as a persisted job, one stage at a time
+export type LeadGenerationStage = 'search' | 'enrich' | 'verify' | 'write' | 'insert' | 'upload';
+
+export const LEAD_GENERATION_STAGES: LeadGenerationStage[] = ['search', 'enrich', 'verify', 'write', 'insert', 'upload'];
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface LeadSourceCursor {
+  page: number;
+  totalPages: number;
+  fetched: number;
+  exhausted: boolean;
+  error?: string;
+}
+
+/**
+ * A lead found by search but left out of the campaign
+ * - suppressed: on the organization's do-not-contact list
+ * - duplicate: already in another of the organization's campaigns within the cooldown window
+ * - undeliverable: email graded below the campaign's minimum by the verify stage
+ */
+export interface SkippedLead {
+  name: string;
+  company: string;
+  email?: string;
+  linkedin_url?: string;
+  reason: 'suppressed' | 'duplicate' | 'undeliverable';
+  matchedOn: SuppressionType | DuplicateMatch | 'email_grade';
+  // Campaign that already has this lead (duplicates only)
+  existingCampaignId?: string;
+  // Deliverability grade (undeliverable only)
+  emailGrade?: EmailGrade;
+}
+
+export interface SkippedLeadsSummary {
+  total: number;
+  suppressed: number;
+  duplicates: number;
+  undeliverable: number;
+  cooldownDays: number;
+  leads: SkippedLead[];
+}
+
+/**
+ * Everything a stage needs to resume where the previous run stopped.
+ * Stored as JSON on the job row and saved after every unit of work.
+ */
+export interface LeadGenerationJobState {
+  leadsCount: number;
+  // Leads the campaign already had when this run was queued (top-up purchases add to them)
+  existingLeads?: number;
+  // Lead source providers for this run (resolved from the campaign when the job starts)
+  sources?: LeadSourceId[];
+  icpSettings?: ICPSettings;
+
+  // Set for campaigns built from an uploaded list: search uses these leads instead of the providers
+  imported?: {
+    leads: LinkedInLead[];
+    // Look up missing emails with Icypeas (otherwise rows without one are kept but never sent)
+    enrichMissingEmails: boolean;
+  };
+
+  // search: paging cursor per provider (non-paged providers are exhausted after one call)
+  search?: Partial<Record<LeadSourceId, LeadSourceCursor>>;
+
+  // Found by search, waiting for Icypeas enrichment
+  candidates?: LinkedInLead[];
+
+  // enrich: position in candidates + consecutive batches with no emails
+  enrich?: {
+    cursor: number;
+    consecutiveEmpty: number;
+  };
+
+  // Leads ready for verification, then for the email writer
+  leads?: LinkedInLead[];
+
+  // verify: leads dropped since the last trip back to enrich
+  verify?: {
+    dropped: number;
+  };
+
+  // Leads dropped by search/enrich, reported back by GET /api/generate-leads
+  skipped?: SkippedLead[];
+
+  // Lead rows with generated copy, ready to insert
+  written?: LeadInsert[];
+
+  // Number of written rows already in the leads table
+  inserted?: number;
+
+  // upload: EmailBison sub-steps completed so far
+  upload?: {
+    emailbisonCampaignId?: string;
+    sequenceAdded?: boolean;
+    leadsUploaded?: boolean;
+    launched?: boolean;
+  };
+}
+
+export interface LeadGenerationJobProgress {
+  stage: LeadGenerationStage;
+  completed: number;
+  total: number;
+  message?: string;
+}
+
+export interface LeadGenerationJob {
+  id: string;
+  campaign_id: string;
+  status: JobStatus;
+  stage: LeadGenerationStage;
+  attempts: number;
+  max_attempts: number;
+  state: LeadGenerationJobState;
+  progress: LeadGenerationJobProgress | null;
+  error: string | null;
+  failed_stage: LeadGenerationStage | null;
+  // Leads top-ups bought while this job was queued or running - run as a follow-up job once it completes
+  pending_leads: number;
+  run_after: string;
+  locked_until: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Result of one unit of stage work.
+ * `next` moves the job to another stage ('done' completes it); omitted means stay on this stage.
+ */
+export interface StageStepResult {
+  state: LeadGenerationJobState;
+  progress: LeadGenerationJobProgress;
+  next?: LeadGenerationStage | 'done';
+}
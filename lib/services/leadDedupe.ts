@@ -0,0 +1,182 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { normalizeLinkedInUrl } from './leadSources/normalize';
+
+const LOAD_PAGE_SIZE = 1000;
+const DEFAULT_COOLDOWN_DAYS = 90;
+
+// Legal suffixes dropped when comparing company names ("Acme, Inc." == "Acme")
+const COMPANY_SUFFIXES = /\b(inc|llc|ltd|limited|corp|corporation|co|gmbh|sa|sas|bv|ag|plc|pty)\b/g;
+
+export type DuplicateMatch = 'email' | 'linkedin_url' | 'name_company';
+
+/**
+ * Anything that can be compared with existing leads - LinkedInLead and lead rows both fit
+ */
+export interface DedupeCandidate {
+  email?: string | null;
+  linkedin_url?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  company?: string | null;
+}
+
+/**
+ * Leads the organization already has in other campaigns, keyed for lookup.
+ * Values are the campaign ID holding the existing lead.
+ */
+export interface ContactedLeadIndex {
+  keys: Map<string, string>;
+}
+
+export interface DuplicateLead<T> {
+  lead: T;
+  match: DuplicateMatch;
+  campaignId: string;
+}
+
+/**
+ * How long a lead stays off-limits to the organization's other campaigns after it was added.
+ *
+ * Environment variables:
+ * - LEAD_COOLDOWN_DAYS: Cooldown window in days (default 90, 0 disables cross-campaign dedupe)
+ */
+export function getLeadCooldownDays(): number {
+  const days = process.env.LEAD_COOLDOWN_DAYS;
+  if (days) {
+    const parsed = parseInt(days, 10);
+    if (!isNaN(parsed) && parsed >= 0) {
+      return parsed;
+    }
+  }
+
+  return DEFAULT_COOLDOWN_DAYS;
+}
+
+function normalizeText(value: string | null | undefined): string {
+  return (value || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Keys a lead is matched on: email, LinkedIn profile, and name + company
+ */
+export function getDedupeKeys(lead: DedupeCandidate): Array<{ match: DuplicateMatch; key: string }> {
+  const keys: Array<{ match: DuplicateMatch; key: string }> = [];
+
+  const email = lead.email?.trim().toLowerCase();
+  if (email) {
+    keys.push({ match: 'email', key: `email:${email}` });
+  }
+
+  const linkedinUrl = normalizeLinkedInUrl(lead.linkedin_url).toLowerCase();
+  if (linkedinUrl) {
+    keys.push({ match: 'linkedin_url', key: `url:${linkedinUrl}` });
+  }
+
+  const name = normalizeText(`${lead.first_name || ''} ${lead.last_name || ''}`);
+  const company = normalizeText(lead.company).replace(COMPANY_SUFFIXES, '').replace(/\s+/g, ' ').trim();
+  // Both halves are needed - a first name alone or a bare company would match far too much
+  if (name.includes(' ') && company) {
+    keys.push({ match: 'name_company', key: `name:${name}|${company}` });
+  }
+
+  return keys;
+}
+
+/**
+ * Load the leads an organization added to its other campaigns within the cooldown window
+ *
+ * @param organizationId - Campaigns without an organization get an empty index
+ * @param options.excludeCampaignId - The campaign being generated (its own leads are deduped separately)
+ * @param options.cooldownDays - Defaults to LEAD_COOLDOWN_DAYS
+ */
+export async function loadContactedLeads(
+  organizationId: string | null | undefined,
+  options: { excludeCampaignId?: string; cooldownDays?: number } = {}
+): Promise<ContactedLeadIndex> {
+  const index: ContactedLeadIndex = { keys: new Map() };
+  const cooldownDays = options.cooldownDays ?? getLeadCooldownDays();
+  if (!organizationId || cooldownDays === 0) return index;
+
+  const supabase = createAdminClient();
+
+  const { data: campaigns, error: campaignsError } = await supabase
+    .from('campaigns')
+    .select('id')
+    .eq('organization_id', organizationId);
+
+  if (campaignsError) {
+    throw new Error(`Failed to load organization campaigns: ${campaignsError.message}`);
+  }
+
+  const campaignIds = (campaigns || [])
+    .map(c => c.id)
+    .filter(id => id !== options.excludeCampaignId);
+  if (campaignIds.length === 0) return index;
+
+  const since = new Date(Date.now() - cooldownDays * 24 * 60 * 60 * 1000).toISOString();
+
+  for (let from = 0; ; from += LOAD_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('leads')
+      .select('id, email, linkedin_url, first_name, last_name, company, campaign_id')
+      .in('campaign_id', campaignIds)
+      .gte('created_at', since)
+      .order('id', { ascending: true })
+      .range(from, from + LOAD_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load existing leads: ${error.message}`);
+    }
+
+    for (const lead of data || []) {
+      for (const { key } of getDedupeKeys(lead)) {
+        if (!index.keys.has(key)) index.keys.set(key, lead.campaign_id);
+      }
+    }
+
+    if (!data || data.length < LOAD_PAGE_SIZE) break;
+  }
+
+  return index;
+}
+
+/**
+ * The first key a lead shares with an existing lead, or null if it's new to the organization
+ */
+export function findDuplicateLead(
+  lead: DedupeCandidate,
+  index: ContactedLeadIndex
+): { match: DuplicateMatch; campaignId: string } | null {
+  for (const { match, key } of getDedupeKeys(lead)) {
+    const campaignId = index.keys.get(key);
+    if (campaignId) return { match, campaignId };
+  }
+  return null;
+}
+
+/**
+ * Split leads into ones new to the organization and ones already in another campaign
+ */
+export function filterDuplicateLeads<T extends DedupeCandidate>(
+  leads: T[],
+  index: ContactedLeadIndex
+): { unique: T[]; duplicates: DuplicateLead<T>[] } {
+  const unique: T[] = [];
+  const duplicates: DuplicateLead<T>[] = [];
+
+  for (const lead of leads) {
+    const duplicate = findDuplicateLead(lead, index);
+    if (duplicate) {
+      duplicates.push({ lead, ...duplicate });
+    } else {
+      unique.push(lead);
+    }
+  }
+
+  return { unique, duplicates };
+}
@@ -0,0 +1,163 @@
+// Type-only imports: the column list is also used by the leads page export dialog
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Lead } from '../types/database';
+
+const EXPORT_PAGE_SIZE = 1000;
+// Selected IDs go in the query string - keep each request's URL reasonable
+const LEAD_ID_CHUNK_SIZE = 200;
+
+export type LeadExportFormat = 'csv' | 'xlsx';
+
+export type LeadExportColumn =
+  | 'first_name'
+  | 'last_name'
+  | 'title'
+  | 'company'
+  | 'email'
+  | 'email_grade'
+  | 'linkedin_url'
+  | 'location'
+  | 'campaign'
+  | 'why_picked'
+  | 'email_subject'
+  | 'email_body'
+  | 'status'
+  | 'created_at'
+  | 'sent_at'
+  | 'opened_at'
+  | 'replied_at';
+
+/**
+ * A lead row with its campaign name, as loaded for export
+ */
+export type ExportLead = Lead & { campaign_name?: string };
+
+/**
+ * Exportable columns in output order, with their header labels
+ */
+export const LEAD_EXPORT_COLUMNS: Array<{ key: LeadExportColumn; label: string }> = [
+  { key: 'first_name', label: 'First Name' },
+  { key: 'last_name', label: 'Last Name' },
+  { key: 'title', label: 'Title' },
+  { key: 'company', label: 'Company' },
+  { key: 'email', label: 'Email' },
+  { key: 'email_grade', label: 'Email Grade' },
+  { key: 'linkedin_url', label: 'LinkedIn URL' },
+  { key: 'location', label: 'Location' },
+  { key: 'campaign', label: 'Campaign' },
+  { key: 'why_picked', label: 'Why Picked' },
+  { key: 'email_subject', label: 'Email Subject' },
+  { key: 'email_body', label: 'Email Body' },
+  { key: 'status', label: 'Status' },
+  { key: 'created_at', label: 'Added At' },
+  { key: 'sent_at', label: 'Sent At' },
+  { key: 'opened_at', label: 'Opened At' },
+  { key: 'replied_at', label: 'Replied At' },
+];
+
+// Everything except the email copy, which makes CRM imports unwieldy
+export const DEFAULT_LEAD_EXPORT_COLUMNS: LeadExportColumn[] = LEAD_EXPORT_COLUMNS
+  .map(c => c.key)
+  .filter(key => key !== 'email_subject' && key !== 'email_body');
+
+export function isLeadExportColumn(value: unknown): value is LeadExportColumn {
+  return typeof value === 'string' && LEAD_EXPORT_COLUMNS.some(c => c.key === value);
+}
+
+export function isLeadExportFormat(value: unknown): value is LeadExportFormat {
+  return value === 'csv' || value === 'xlsx';
+}
+
+/**
+ * Header labels for the selected columns, in output order
+ */
+export function getExportHeaders(columns: LeadExportColumn[]): string[] {
+  return LEAD_EXPORT_COLUMNS.filter(c => columns.includes(c.key)).map(c => c.label);
+}
+
+/**
+ * Cell values for one lead, in the same order as getExportHeaders
+ */
+export function getExportValues(lead: ExportLead, columns: LeadExportColumn[]): string[] {
+  return LEAD_EXPORT_COLUMNS
+    .filter(c => columns.includes(c.key))
+    .map(({ key }) => {
+      const value = key === 'campaign' ? lead.campaign_name : lead[key];
+      return value === null || value === undefined ? '' : String(value);
+    });
+}
+
+/**
+ * One CSV line (RFC 4180 quoting)
+ *
+ * Values starting with =, +, - or @ (after any leading whitespace), a tab or a carriage
+ * return get a leading apostrophe so spreadsheets don't run scraped LinkedIn text as a formula.
+ */
+export function toCsvLine(values: string[]): string {
+  return values
+    .map(value => {
+      const safe = /^(\s*[=+\-@]|[\t\r])/.test(value) ? `'${value}` : value;
+      return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+    })
+    .join(',') + '\r\n';
+}
+
+/**
+ * Page through the leads to export, newest first
+ *
+ * @param campaigns - The organization's campaigns (leads outside them are never returned)
+ * @param options.leadIds - Only these leads
+ */
+export async function* iterateExportLeads(
+  supabase: SupabaseClient,
+  campaigns: Array<{ id: string; company_name: string }>,
+  options: { leadIds?: string[] } = {}
+): AsyncGenerator<ExportLead[]> {
+  if (campaigns.length === 0) return;
+
+  const campaignNames = new Map(campaigns.map(c => [c.id, c.company_name]));
+  const campaignIds = [...campaignNames.keys()];
+  const withCampaignNames = (leads: Lead[]): ExportLead[] =>
+    leads.map(lead => ({ ...lead, campaign_name: campaignNames.get(lead.campaign_id) }));
+
+  if (options.leadIds) {
+    for (let i = 0; i < options.leadIds.length; i += LEAD_ID_CHUNK_SIZE) {
+      const { data, error } = await supabase
+        .from('leads')
+        .select('*')
+        .in('campaign_id', campaignIds)
+        .in('id', options.leadIds.slice(i, i + LEAD_ID_CHUNK_SIZE))
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw new Error(`Failed to load leads for export: ${error.message}`);
+      }
+
+      if (data && data.length > 0) {
+        yield withCampaignNames(data as Lead[]);
+      }
+    }
+    return;
+  }
+
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('leads')
+      .select('*')
+      .in('campaign_id', campaignIds)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: true })
+      .range(from, from + EXPORT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load leads for export: ${error.message}`);
+    }
+
+    const leads = (data || []) as Lead[];
+    if (leads.length > 0) {
+      yield withCampaignNames(leads);
+    }
+
+    if (leads.length < EXPORT_PAGE_SIZE) break;
+  }
+}
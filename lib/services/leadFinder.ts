@@ -2,7 +2,9 @@ import { ApifyClient } from 'apify-client';
 import { LinkedInLead, ApifySearchResult, ICPSettings } from '../types';
 import { buildSalesNavigatorUrl } from './salesNavUrlBuilder';
 import { searchPeopleWithArk, shouldUseArk, isArkConfigured } from './arkLeadFinder';
+import { searchLeadSources, getDefaultLeadSources, LeadSourceId } from './leadSources';
 import { icypeasClient } from './icypeas';
+import { filterSuppressedLeads, getSuppressionMatch, SuppressionList } from './suppression';
 
 const apifyClient = new ApifyClient({
   token: process.env.APIFY_API_TOKEN,
@@ -20,68 +22,53 @@ export interface LeadSearchResult {
 }
 
 /**
- * Unified lead finder that dispatches to the appropriate source based on LEAD_SOURCE env variable
+ * Unified lead finder that queries the configured lead source providers and merges their results
  * 
- * LEAD_SOURCE=0 or undefined: Use Apify/LinkedIn Sales Navigator (default)
- * LEAD_SOURCE=1: Use AI Ark People Search API
+ * Sources default to LEAD_SOURCES / LEAD_SOURCE (see getDefaultLeadSources);
+ * pass `sources` to use a campaign's own choice instead.
  * 
  * @param icpSettings - ICP filter settings
  * @param salesNavigatorUrl - Optional Sales Navigator URL (only used for Apify)
  * @param limit - Maximum number of leads to return
+ * @param sources - Lead source providers to query (deduplicated and merged)
+ * @param suppressionList - Organization do-not-contact list; matching leads are dropped
  */
 export async function findLeads(
   icpSettings: ICPSettings,
   salesNavigatorUrl?: string,
-  limit: number = 25
+  limit: number = 25,
+  sources: LeadSourceId[] = getDefaultLeadSources(),
+  suppressionList?: SuppressionList
 ): Promise<LeadSearchResult> {
-  // Check if we should use AI Ark
-  if (shouldUseArk()) {
-    console.log('[LeadFinder] Using AI Ark as lead source (LEAD_SOURCE=1)');
-    
-    if (!isArkConfigured()) {
-      console.error('[LeadFinder] AI_ARK_TOKEN not configured but LEAD_SOURCE=1');
-      return {
-        requestId: 'config-error',
-        status: 'error',
-        message: 'AI Ark selected but AI_ARK_TOKEN not configured',
-        leads: [],
-      };
-    }
-    
-    // AI Ark doesn't support Sales Navigator URLs, uses ICP directly
-    if (salesNavigatorUrl) {
-      console.log('[LeadFinder] Note: Sales Navigator URL ignored when using AI Ark');
-    }
-    
-    // AI Ark returns results synchronously - no polling needed!
-    return searchPeopleWithArk(icpSettings, limit);
-  }
-  
-  // Default: Use Apify/LinkedIn Sales Navigator
-  console.log('[LeadFinder] Using Apify as lead source (LEAD_SOURCE=0 or undefined)');
-  
-  // If a Sales Navigator URL is provided, use it directly
-  if (salesNavigatorUrl) {
-    const result = await initializeLeadSearch(salesNavigatorUrl, limit);
-    
-    // If initiated, wait for results
-    if (result.status === 'initiated' && result.requestId) {
-      return waitForLeadResults(result.requestId);
-    }
-    
-    return result;
+  console.log(`[LeadFinder] Using lead sources: ${sources.join(', ')}`);
+
+  const result = await searchLeadSources(sources, icpSettings, { limit, salesNavigatorUrl });
+  const failed = result.sources.filter(s => s.error);
+
+  if (failed.length === result.sources.length) {
+    return {
+      requestId: 'sources-error',
+      status: 'error',
+      message: failed.map(s => `${s.source}: ${s.error}`).join('; '),
+      leads: [],
+    };
   }
-  
-  // Otherwise, build URL from ICP settings
-  const url = buildSalesNavigatorUrl(icpSettings);
-  const result = await initializeLeadSearch(url, limit);
-  
-  // If initiated, wait for results
-  if (result.status === 'initiated' && result.requestId) {
-    return waitForLeadResults(result.requestId);
+
+  const { allowed, suppressed } = suppressionList
+    ? filterSuppressedLeads(result.leads, suppressionList)
+    : { allowed: result.leads, suppressed: [] };
+  if (suppressed.length > 0) {
+    console.log(`[LeadFinder] Dropped ${suppressed.length} suppressed leads`);
   }
-  
-  return result;
+
+  const leads = allowed.slice(0, limit);
+  return {
+    requestId: 'sources-complete',
+    status: 'complete',
+    leads,
+    totalCount: leads.length,
+    message: failed.length > 0 ? `Some sources failed: ${failed.map(s => s.source).join(', ')}` : undefined,
+  };
 }
 
 /**
@@ -237,6 +224,38 @@ export function buildSalesNavUrl(icp: ICPSettings): string {
   return buildSalesNavigatorUrl(icp);
 }
 
+export interface ArkSearchLimits {
+  batchSize: number;
+  maxPages: number;
+  maxEmptyBatches: number;
+  maxLeads: number;
+}
+
+/**
+ * Paging and safety limits for the AI Ark + Icypeas enrichment loop.
+ * Shared by findLeadsWithEmails() and the resumable lead generation job.
+ */
+export function getArkSearchLimits(targetCount: number): ArkSearchLimits {
+  // Smart batch sizing: request ~2x target to account for email discovery rate (~50%)
+  // but cap at 100 (AI Ark max). For small targets, don't over-fetch.
+  const batchSize = Math.min(100, Math.max(10, targetCount * 2));
+  
+  // ABSOLUTE HARD CAP - prevents runaway costs regardless of targetCount
+  // Default 200 leads from AI Ark = ~$6 at $0.03/lead
+  // Override with MAX_ARK_LEADS env var
+  const ABSOLUTE_MAX_ARK_LEADS = process.env.MAX_ARK_LEADS 
+    ? parseInt(process.env.MAX_ARK_LEADS, 10) 
+    : 200;
+  
+  return {
+    batchSize,
+    // Safety limits to prevent runaway API calls
+    maxPages: 10,  // Never fetch more than 10 pages
+    maxEmptyBatches: 3,  // Stop if 3 consecutive batches have 0 emails
+    maxLeads: Math.min(ABSOLUTE_MAX_ARK_LEADS, targetCount * 10),
+  };
+}
+
 /**
  * Find leads with email addresses using the "tango dance" between AI Ark and Icypeas
  * 
@@ -248,16 +267,18 @@ export function buildSalesNavUrl(icp: ICPSettings): string {
  * 
  * @param icpSettings - ICP filter settings
  * @param targetCount - Target number of leads WITH emails to return
+ * @param suppressionList - Organization do-not-contact list, checked before and after enrichment
  * @returns LeadSearchResult with enriched leads (email field populated)
  */
 export async function findLeadsWithEmails(
   icpSettings: ICPSettings,
-  targetCount: number
+  targetCount: number,
+  suppressionList?: SuppressionList
 ): Promise<LeadSearchResult> {
   // This function only works with AI Ark (needs pagination)
   if (!shouldUseArk()) {
     console.warn('[LeadFinder] findLeadsWithEmails() requires AI Ark (LEAD_SOURCE=1). Falling back to regular findLeads().');
-    return findLeads(icpSettings, undefined, targetCount);
+    return findLeads(icpSettings, undefined, targetCount, getDefaultLeadSources(), suppressionList);
   }
 
   if (!isArkConfigured()) {
@@ -277,21 +298,12 @@ export async function findLeadsWithEmails(
   let totalLeadsFetched = 0;
   let consecutiveEmptyBatches = 0;
   
-  // Smart batch sizing: request ~2x target to account for email discovery rate (~50%)
-  // but cap at 100 (AI Ark max). For small targets, don't over-fetch.
-  const batchSize = Math.min(100, Math.max(10, targetCount * 2));
-  
-  // Safety limits to prevent runaway API calls
-  const MAX_PAGES = 10;  // Never fetch more than 10 pages
-  const MAX_EMPTY_BATCHES = 3;  // Stop if 3 consecutive batches have 0 emails
-  
-  // ABSOLUTE HARD CAP - prevents runaway costs regardless of targetCount
-  // Default 200 leads from AI Ark = ~$6 at $0.03/lead
-  // Override with MAX_ARK_LEADS env var
-  const ABSOLUTE_MAX_ARK_LEADS = process.env.MAX_ARK_LEADS 
-    ? parseInt(process.env.MAX_ARK_LEADS, 10) 
-    : 200;
-  const MAX_LEADS = Math.min(ABSOLUTE_MAX_ARK_LEADS, targetCount * 10);
+  const {
+    batchSize,
+    maxPages: MAX_PAGES,
+    maxEmptyBatches: MAX_EMPTY_BATCHES,
+    maxLeads: MAX_LEADS,
+  } = getArkSearchLimits(targetCount);
   
   console.log(`[LeadFinder] Batch size: ${batchSize} (target: ${targetCount}, max AI Ark leads: ${MAX_LEADS}, max pages: ${MAX_PAGES})`);
 
@@ -333,11 +345,18 @@ export async function findLeadsWithEmails(
 
     console.log(`[LeadFinder] Fetched ${batch.leads.length} leads from AI Ark. Enriching with Icypeas...`);
 
+    // Don't spend Icypeas lookups on suppressed profiles
+    const toEnrich = suppressionList
+      ? filterSuppressedLeads(batch.leads, suppressionList).allowed
+      : batch.leads;
+
     // 2. Enrich with Icypeas (parallel batches of 10)
-    const enriched = await icypeasClient.enrichLeadsBatch(batch.leads, 10, 100);
+    const enriched = await icypeasClient.enrichLeadsBatch(toEnrich, 10, 100);
 
-    // 3. Keep only leads with emails
-    const withEmails = enriched.filter(lead => lead.email);
+    // 3. Keep only leads with emails that aren't suppressed
+    const withEmails = enriched.filter(lead =>
+      lead.email && !(suppressionList && getSuppressionMatch(lead, suppressionList))
+    );
     console.log(`[LeadFinder] Found emails for ${withEmails.length}/${batch.leads.length} leads in this batch`);
     
     // Track consecutive empty batches
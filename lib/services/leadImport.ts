@@ -0,0 +1,162 @@
+// No server-only imports: the campaign page import dialog maps and previews rows with these too
+import type { LinkedInLead } from '../types';
+import { normalizeLinkedInUrl } from './leadSources/normalize';
+
+// Tier 2 is the largest campaign a customer can buy
+export const MAX_IMPORT_ROWS = 2500;
+
+// Lead source recorded on imported leads (leads.lead_source)
+export const IMPORT_LEAD_SOURCE = 'csv';
+
+export type LeadImportField =
+  | 'first_name'
+  | 'last_name'
+  | 'full_name'
+  | 'email'
+  | 'job_title'
+  | 'company'
+  | 'company_domain'
+  | 'linkedin_url'
+  | 'location'
+  | 'about';
+
+/**
+ * CSV column index for each LinkedInLead field (unmapped fields are left out)
+ */
+export type LeadImportMapping = Partial<Record<LeadImportField, number>>;
+
+export interface RejectedImportRow {
+  // Row number as a spreadsheet shows it (the header is row 1)
+  line: number;
+  reason: string;
+}
+
+/**
+ * Mappable fields in display order, with the header names they're matched against
+ */
+export const LEAD_IMPORT_FIELDS: Array<{ key: LeadImportField; label: string; aliases: string[] }> = [
+  { key: 'first_name', label: 'First Name', aliases: ['first name', 'firstname', 'first', 'given name'] },
+  { key: 'last_name', label: 'Last Name', aliases: ['last name', 'lastname', 'last', 'surname', 'family name'] },
+  { key: 'full_name', label: 'Full Name', aliases: ['full name', 'fullname', 'name', 'contact name', 'contact'] },
+  { key: 'email', label: 'Email', aliases: ['email', 'email address', 'e-mail', 'work email', 'business email'] },
+  { key: 'job_title', label: 'Job Title', aliases: ['title', 'job title', 'position', 'role', 'job'] },
+  { key: 'company', label: 'Company', aliases: ['company', 'company name', 'organization', 'organisation', 'account', 'account name'] },
+  { key: 'company_domain', label: 'Company Domain', aliases: ['domain', 'company domain', 'website', 'company website', 'url'] },
+  { key: 'linkedin_url', label: 'LinkedIn URL', aliases: ['linkedin', 'linkedin url', 'linkedin profile', 'profile url', 'person linkedin url'] },
+  { key: 'location', label: 'Location', aliases: ['location', 'city', 'country', 'region'] },
+  { key: 'about', label: 'Notes', aliases: ['notes', 'note', 'about', 'bio', 'summary', 'description'] },
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ');
+}
+
+export function isLeadImportField(value: unknown): value is LeadImportField {
+  return typeof value === 'string' && LEAD_IMPORT_FIELDS.some(f => f.key === value);
+}
+
+/**
+ * Validate a mapping received from the client: known fields pointing at columns in range
+ */
+export function isLeadImportMapping(value: unknown, columnCount: number): value is LeadImportMapping {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  return Object.entries(value).every(([field, column]) =>
+    isLeadImportField(field) && Number.isInteger(column) && column >= 0 && column < columnCount
+  );
+}
+
+/**
+ * Suggest a mapping from the header row. Each column is used for at most one field.
+ */
+export function guessLeadImportMapping(headers: string[]): LeadImportMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: LeadImportMapping = {};
+
+  for (const field of LEAD_IMPORT_FIELDS) {
+    const column = normalized.findIndex((header, i) => !used.has(i) && field.aliases.includes(header));
+    if (column !== -1) {
+      mapping[field.key] = column;
+      used.add(column);
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Turn a company website into a bare domain ("https://www.acme.com/about" -> "acme.com")
+ */
+function toDomain(value: string): string {
+  return value.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').split(/[/?#]/)[0];
+}
+
+/**
+ * Build leads from CSV rows (header excluded) using the column mapping.
+ *
+ * A row needs a name and either an email or a company to look one up by. Rows repeating
+ * an email or LinkedIn profile already seen in the file are rejected as duplicates.
+ */
+export function mapImportRows(
+  rows: string[][],
+  mapping: LeadImportMapping
+): { leads: LinkedInLead[]; rejected: RejectedImportRow[] } {
+  const leads: LinkedInLead[] = [];
+  const rejected: RejectedImportRow[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach((row, index) => {
+    const line = index + 2;
+    const get = (field: LeadImportField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (row[column] || '').trim();
+    };
+
+    const fullName = get('full_name');
+    const firstName = get('first_name') || fullName.split(' ')[0] || '';
+    const lastName = get('last_name') || fullName.split(' ').slice(1).join(' ');
+    const rawEmail = get('email').toLowerCase();
+    const email = EMAIL_PATTERN.test(rawEmail) ? rawEmail : '';
+    const companyDomain = toDomain(get('company_domain'));
+    const company = get('company') || companyDomain;
+    const linkedinUrl = normalizeLinkedInUrl(get('linkedin_url'));
+
+    if (!firstName) {
+      rejected.push({ line, reason: 'Missing name' });
+      return;
+    }
+    if (!email && !company) {
+      rejected.push({ line, reason: rawEmail ? `Invalid email "${rawEmail}" and no company` : 'Missing email and company' });
+      return;
+    }
+
+    const keys = [email && `email:${email}`, linkedinUrl && `url:${linkedinUrl.toLowerCase()}`].filter(Boolean) as string[];
+    if (keys.some(key => seen.has(key))) {
+      rejected.push({ line, reason: 'Duplicate of an earlier row' });
+      return;
+    }
+    keys.forEach(key => seen.add(key));
+
+    const profileIdMatch = linkedinUrl.match(/linkedin\.com\/in\/([^/]+)/);
+
+    leads.push({
+      about: get('about'),
+      company,
+      company_id: '',
+      first_name: firstName,
+      full_name: fullName || `${firstName} ${lastName}`.trim(),
+      job_title: get('job_title'),
+      last_name: lastName,
+      linkedin_url: linkedinUrl,
+      location: get('location'),
+      profile_id: profileIdMatch?.[1] || '',
+      ...(email && { email }),
+      ...(companyDomain && { company_domain: companyDomain }),
+      source: IMPORT_LEAD_SOURCE,
+    });
+  });
+
+  return { leads, rejected };
+}
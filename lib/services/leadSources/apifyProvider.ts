@@ -0,0 +1,40 @@
+import { buildSalesNavigatorUrl } from '../salesNavUrlBuilder';
+import { initializeLeadSearch, waitForLeadResults } from '../leadFinder';
+import { LeadSourceProvider } from './types';
+import { normalizeLead } from './normalize';
+
+/**
+ * Apify LinkedIn Sales Navigator scraper.
+ * One search returns everything (no paging); leads come without emails.
+ */
+export const apifyProvider: LeadSourceProvider = {
+  id: 'apify',
+  name: 'LinkedIn Sales Navigator',
+  needsEmailEnrichment: false,
+  supportsPaging: false,
+
+  isConfigured() {
+    return !!process.env.APIFY_API_TOKEN;
+  },
+
+  async search(icpSettings, { limit, salesNavigatorUrl }) {
+    // Use the Sales Navigator URL directly if provided, otherwise build one from ICP settings
+    const url = salesNavigatorUrl || buildSalesNavigatorUrl(icpSettings);
+    let result = await initializeLeadSearch(url, limit);
+
+    // If initiated, wait for results
+    if (result.status === 'initiated' && result.requestId) {
+      result = await waitForLeadResults(result.requestId);
+    }
+
+    if (result.status === 'error') {
+      throw new Error(result.message || 'Apify search failed');
+    }
+
+    return {
+      leads: (result.leads || []).map(lead => normalizeLead(lead, 'apify')),
+      exhausted: true,
+      message: result.message,
+    };
+  },
+};
@@ -0,0 +1,41 @@
+import { searchPeopleWithArk, isArkConfigured } from '../arkLeadFinder';
+import { LeadSourceProvider } from './types';
+import { normalizeLead } from './normalize';
+
+/**
+ * AI Ark People Search API.
+ * Paged and synchronous; leads need Icypeas enrichment for emails.
+ */
+export const arkProvider: LeadSourceProvider = {
+  id: 'ark',
+  name: 'AI Ark',
+  needsEmailEnrichment: true,
+  supportsPaging: true,
+
+  isConfigured() {
+    return isArkConfigured();
+  },
+
+  async search(icpSettings, { limit, page = 0, salesNavigatorUrl }) {
+    // AI Ark doesn't support Sales Navigator URLs, uses ICP directly
+    if (salesNavigatorUrl) {
+      console.log('[LeadSources] Note: Sales Navigator URL ignored when using AI Ark');
+    }
+
+    const result = await searchPeopleWithArk(icpSettings, limit, page);
+
+    if (result.status === 'error') {
+      throw new Error(result.message || `AI Ark search failed at page ${page}`);
+    }
+
+    const leads = (result.leads || []).map(lead => normalizeLead(lead, 'ark'));
+    const totalPages = result.totalPages ?? 1;
+
+    return {
+      leads,
+      totalPages,
+      exhausted: leads.length === 0 || page >= totalPages - 1,
+      message: result.message,
+    };
+  },
+};
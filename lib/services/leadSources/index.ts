@@ -0,0 +1,167 @@
+import { ICPSettings, LinkedInLead } from '../../types';
+import { apifyProvider } from './apifyProvider';
+import { arkProvider } from './arkProvider';
+import { mergeLeads } from './normalize';
+import {
+  LeadSourceId,
+  LeadSourceProvider,
+  LeadSourceSearchOptions,
+  LeadSourceSearchSummary,
+  MultiSourceSearchResult,
+} from './types';
+
+export * from './types';
+export { getLeadKey, mergeLeads, normalizeLead, normalizeLinkedInUrl } from './normalize';
+
+const PROVIDERS: Record<LeadSourceId, LeadSourceProvider> = {
+  apify: apifyProvider,
+  ark: arkProvider,
+};
+
+export function isLeadSourceId(value: unknown): value is LeadSourceId {
+  return typeof value === 'string' && value in PROVIDERS;
+}
+
+export function getLeadSourceProvider(id: LeadSourceId): LeadSourceProvider {
+  return PROVIDERS[id];
+}
+
+/**
+ * Validate a campaign's lead source choice from a request body.
+ * An empty list is valid and means the campaign uses the deployment default.
+ *
+ * @returns The deduplicated source IDs, or null when the value isn't an array of
+ *   configured provider IDs
+ */
+export function parseLeadSources(value: unknown): LeadSourceId[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const sources = value.filter(isLeadSourceId);
+  if (sources.length !== value.length || !sources.every(id => PROVIDERS[id].isConfigured())) {
+    return null;
+  }
+  return [...new Set(sources)];
+}
+
+/**
+ * The providers a campaign can choose from, for settings screens
+ */
+export function listLeadSources(): Array<{ id: LeadSourceId; name: string; configured: boolean }> {
+  return Object.values(PROVIDERS).map(provider => ({
+    id: provider.id,
+    name: provider.name,
+    configured: provider.isConfigured(),
+  }));
+}
+
+/**
+ * Lead sources used when a campaign doesn't choose its own.
+ *
+ * Environment variables:
+ * - LEAD_SOURCES: Comma-separated provider IDs, e.g. "ark,apify"
+ * - LEAD_SOURCE: Legacy single-source switch (0 or undefined = Apify, 1 = AI Ark),
+ *   used when LEAD_SOURCES is not set
+ */
+export function getDefaultLeadSources(): LeadSourceId[] {
+  const configured = (process.env.LEAD_SOURCES || '')
+    .split(',')
+    .map(s => s.trim().toLowerCase())
+    .filter(isLeadSourceId);
+
+  if (configured.length > 0) {
+    return [...new Set(configured)];
+  }
+
+  return [process.env.LEAD_SOURCE === '1' ? 'ark' : 'apify'];
+}
+
+/**
+ * Resolve a campaign's lead sources (campaigns.lead_sources) to known providers.
+ * Falls back to the deployment default when the campaign has none set.
+ */
+export function resolveLeadSources(campaignSources?: unknown): LeadSourceId[] {
+  const sources = Array.isArray(campaignSources)
+    ? [...new Set(campaignSources.filter(isLeadSourceId))]
+    : [];
+
+  return sources.length > 0 ? sources : getDefaultLeadSources();
+}
+
+/**
+ * Interleave per-source results round-robin so a capped list still represents every source
+ */
+function interleave(lists: LinkedInLead[][]): LinkedInLead[] {
+  const result: LinkedInLead[] = [];
+  const longest = Math.max(0, ...lists.map(list => list.length));
+  for (let i = 0; i < longest; i++) {
+    for (const list of lists) {
+      if (i < list.length) result.push(list[i]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Query several providers in parallel and merge their results.
+ * Leads are deduplicated by linkedin_url/profile_id (first source wins) and keep
+ * `source` set to the provider that found them. A failing provider doesn't fail the search.
+ *
+ * @param sources - Provider IDs, in priority order
+ * @param icpSettings - ICP filter settings
+ * @param options - limit and page are passed to each provider (page only matters for paged ones)
+ * @param existing - Leads already collected (e.g. earlier pages) to dedupe against
+ * @returns Only the new leads, interleaved across sources - callers cap the total
+ */
+export async function searchLeadSources(
+  sources: LeadSourceId[],
+  icpSettings: ICPSettings,
+  options: LeadSourceSearchOptions,
+  existing: LinkedInLead[] = []
+): Promise<MultiSourceSearchResult> {
+  const results = await Promise.allSettled(
+    sources.map(async (id) => {
+      const provider = getLeadSourceProvider(id);
+      if (!provider.isConfigured()) {
+        throw new Error(`${provider.name} is not configured`);
+      }
+      console.log(`[LeadSources] Searching ${provider.name} (limit: ${options.limit}, page: ${options.page ?? 0})`);
+      return provider.search(icpSettings, options);
+    })
+  );
+
+  const summaries: LeadSourceSearchSummary[] = [];
+  const perSource: LinkedInLead[][] = [];
+
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      perSource.push(result.value.leads);
+      summaries.push({
+        source: sources[i],
+        found: result.value.leads.length,
+        added: 0,
+        totalPages: result.value.totalPages,
+        exhausted: result.value.exhausted,
+      });
+    } else {
+      const message = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      console.error(`[LeadSources] ${sources[i]} search failed:`, message);
+      perSource.push([]);
+      summaries.push({ source: sources[i], found: 0, added: 0, exhausted: true, error: message });
+    }
+  });
+
+  // Count what each source contributed after dedupe
+  const { leads: merged } = mergeLeads(existing, interleave(perSource));
+  const newLeads = merged.slice(existing.length);
+  for (const lead of newLeads) {
+    const summary = summaries.find(s => s.source === lead.source);
+    if (summary) summary.added++;
+  }
+
+  console.log(`[LeadSources] Merged ${newLeads.length} new leads: ${summaries.map(s => `${s.source}=${s.added}/${s.found}${s.error ? ' (error)' : ''}`).join(', ')}`);
+
+  return {
+    leads: newLeads,
+    sources: summaries,
+  };
+}
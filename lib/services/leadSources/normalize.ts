@@ -0,0 +1,79 @@
+import { LinkedInLead } from '../../types';
+import { LeadSourceId } from './types';
+
+/**
+ * Canonical form of a LinkedIn profile URL: https://www.linkedin.com/in/<id>
+ * (sources differ in protocol, subdomain, trailing slashes and query strings)
+ */
+export function normalizeLinkedInUrl(url: string | null | undefined): string {
+  if (!url) return '';
+  const match = url.match(/linkedin\.com\/(in|sales\/lead|sales\/people)\/([^/?#,]+)/i);
+  if (!match) return url.trim();
+  return `https://www.linkedin.com/${match[1].toLowerCase()}/${decodePathSegment(match[2])}`;
+}
+
+/**
+ * Percent-decode a URL path segment, or keep it as-is if it's malformed (e.g. "foo%E0")
+ */
+function decodePathSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Key used to deduplicate leads across sources - profile URL first, then profile ID
+ */
+export function getLeadKey(lead: Pick<LinkedInLead, 'linkedin_url' | 'profile_id'>): string | null {
+  const url = normalizeLinkedInUrl(lead.linkedin_url);
+  if (url) return `url:${url.toLowerCase()}`;
+  if (lead.profile_id) return `id:${lead.profile_id.toLowerCase()}`;
+  return null;
+}
+
+/**
+ * Fill the fields one source leaves empty so every provider returns the same LinkedInLead shape
+ */
+export function normalizeLead(lead: LinkedInLead, source: LeadSourceId): LinkedInLead {
+  const linkedinUrl = normalizeLinkedInUrl(lead.linkedin_url);
+  const profileIdMatch = linkedinUrl.match(/linkedin\.com\/in\/([^/]+)/);
+  const firstName = lead.first_name || lead.full_name?.split(' ')[0] || '';
+  const lastName = lead.last_name || lead.full_name?.split(' ').slice(1).join(' ') || '';
+
+  return {
+    ...lead,
+    about: lead.about || lead.headline || '',
+    company: lead.company || lead.current_company || '',
+    company_id: lead.company_id || '',
+    first_name: firstName,
+    last_name: lastName,
+    full_name: lead.full_name || `${firstName} ${lastName}`.trim(),
+    job_title: lead.job_title || lead.current_title || '',
+    linkedin_url: linkedinUrl,
+    location: lead.location || '',
+    profile_id: lead.profile_id || profileIdMatch?.[1] || '',
+    source,
+  };
+}
+
+/**
+ * Append incoming leads that aren't already present (by getLeadKey).
+ * Returns the merged list and how many were added.
+ */
+export function mergeLeads(existing: LinkedInLead[], incoming: LinkedInLead[]): { leads: LinkedInLead[]; added: number } {
+  const seen = new Set(existing.map(getLeadKey).filter((key): key is string => key !== null));
+  const leads = [...existing];
+  let added = 0;
+
+  for (const lead of incoming) {
+    const key = getLeadKey(lead);
+    if (key && seen.has(key)) continue;
+    if (key) seen.add(key);
+    leads.push(lead);
+    added++;
+  }
+
+  return { leads, added };
+}
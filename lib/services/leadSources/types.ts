@@ -0,0 +1,54 @@
+import { ICPSettings, LinkedInLead } from '../../types';
+
+export type LeadSourceId = 'apify' | 'ark';
+
+export interface LeadSourceSearchOptions {
+  limit: number;
+  /** 0-based page, only meaningful for providers with supportsPaging */
+  page?: number;
+  /** Sales Navigator URL (Apify only - other providers search by ICP) */
+  salesNavigatorUrl?: string;
+}
+
+export interface LeadSourcePage {
+  /** Normalized leads, each tagged with the provider they came from */
+  leads: LinkedInLead[];
+  totalPages?: number;
+  /** True when asking for the next page won't return anything new */
+  exhausted: boolean;
+  message?: string;
+}
+
+/**
+ * A source of LinkedIn leads. Implementations normalize their results to LinkedInLead
+ * so callers can mix providers freely.
+ */
+export interface LeadSourceProvider {
+  id: LeadSourceId;
+  name: string;
+  /** Whether leads need Icypeas email enrichment after search */
+  needsEmailEnrichment: boolean;
+  /** Whether search() can be called again with the next page for more results */
+  supportsPaging: boolean;
+  isConfigured(): boolean;
+  /** Throws when the provider fails (an empty result is not an error) */
+  search(icpSettings: ICPSettings, options: LeadSourceSearchOptions): Promise<LeadSourcePage>;
+}
+
+/**
+ * Per-provider outcome of a multi-source search
+ */
+export interface LeadSourceSearchSummary {
+  source: LeadSourceId;
+  found: number;
+  /** New leads contributed after deduplication */
+  added: number;
+  totalPages?: number;
+  exhausted: boolean;
+  error?: string;
+}
+
+export interface MultiSourceSearchResult {
+  leads: LinkedInLead[];
+  sources: LeadSourceSearchSummary[];
+}
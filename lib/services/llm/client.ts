@@ -0,0 +1,197 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import Anthropic from '@anthropic-ai/sdk';
+import { Schema, validate } from './schema';
+
+const anthropic = new Anthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY,
+});
+
+export const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
+
+// First try plus two corrections
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+// Only the first few problems are fed back - a badly wrong response can have hundreds
+const MAX_ISSUES_IN_FEEDBACK = 10;
+
+/**
+ * Every caller of the LLM, used for logging and per-agent model overrides
+ */
+export type LLMAgent =
+  | 'company-profiler'
+  | 'icp-brainstormer'
+  | 'cold-email-ranker'
+  | 'linkedin-filter-builder'
+  | 'email-writer'
+  | 'reply-classifier'
+  | 'reply-drafter'
+  | 'eval-judge';
+
+export interface LLMRequest {
+  agent: LLMAgent;
+  prompt: string;
+  maxTokens: number;
+  // Overrides the configured model for this call
+  model?: string;
+  // Called as tokens stream in, with the response so far
+  onText?: (responseText: string) => void | Promise<void>;
+}
+
+export interface StructuredRequest<T> extends LLMRequest {
+  schema: Schema<T>;
+  maxAttempts?: number;
+}
+
+/**
+ * Stands in for the model, e.g. to replay recorded responses in evals (lib/services/evals)
+ */
+export type CompletionProvider = (call: {
+  agent: LLMAgent;
+  model: string;
+  messages: Anthropic.MessageParam[];
+}) => Promise<string>;
+
+// Scoped to one async call chain so a stand-in never answers anyone else's requests
+const completionProviderScope = new AsyncLocalStorage<CompletionProvider>();
+
+export interface StructuredResult<T> {
+  data: T;
+  // Raw text of the response that passed validation
+  response: string;
+  attempts: number;
+  model: string;
+}
+
+/**
+ * The model an agent runs on.
+ *
+ * Environment variables:
+ * - LLM_MODEL: Model for every agent (default claude-sonnet-4-20250514)
+ * - LLM_MODEL_<AGENT>: Model for one agent, e.g. LLM_MODEL_COLD_EMAIL_RANKER
+ */
+export function getAgentModel(agent: LLMAgent): string {
+  const agentKey = `LLM_MODEL_${agent.toUpperCase().replace(/-/g, '_')}`;
+  return process.env[agentKey] || process.env.LLM_MODEL || DEFAULT_MODEL;
+}
+
+/**
+ * Clean up common LLM JSON output issues before parsing
+ */
+export function cleanJsonString(str: string): string {
+  return str
+    // Remove trailing commas before ] or }
+    .replace(/,(\s*[}\]])/g, '$1')
+    // Remove any control characters that might sneak in
+    .replace(/[\x00-\x1F\x7F]/g, (match) => {
+      // Keep newlines, tabs, carriage returns (they're valid in JSON strings when escaped)
+      if (match === '\n' || match === '\r' || match === '\t') return match;
+      return '';
+    });
+}
+
+/**
+ * Parse the JSON object in a response, ignoring any prose or code fences around it
+ */
+export function parseJsonResponse(responseText: string): { success: true; value: unknown } | { success: false; error: string } {
+  const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    return { success: false, error: 'The response contains no JSON object' };
+  }
+
+  try {
+    return { success: true, value: JSON.parse(cleanJsonString(jsonMatch[0])) };
+  } catch (parseError) {
+    return { success: false, error: `The JSON is malformed: ${parseError instanceof Error ? parseError.message : 'Unknown error'}` };
+  }
+}
+
+/**
+ * Answer every LLM call made while fn runs with the provider instead of the model
+ */
+export function withCompletionProvider<T>(provider: CompletionProvider, fn: () => Promise<T>): Promise<T> {
+  return completionProviderScope.run(provider, fn);
+}
+
+async function streamCompletion(
+  request: LLMRequest,
+  model: string,
+  messages: Anthropic.MessageParam[]
+): Promise<string> {
+  const provider = completionProviderScope.getStore();
+  if (provider) {
+    const responseText = await provider({ agent: request.agent, model, messages });
+    await request.onText?.(responseText);
+    return responseText;
+  }
+
+  // Streaming avoids request timeouts with high max_tokens
+  const stream = anthropic.messages.stream({
+    model,
+    max_tokens: request.maxTokens,
+    messages,
+  });
+
+  let responseText = '';
+  for await (const event of stream) {
+    if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+      responseText += event.delta.text;
+      await request.onText?.(responseText);
+    }
+  }
+
+  return responseText;
+}
+
+/**
+ * Run a prompt and return the response text
+ */
+export async function generateText(request: LLMRequest): Promise<string> {
+  const model = request.model || getAgentModel(request.agent);
+  return streamCompletion(request, model, [{ role: 'user', content: request.prompt }]);
+}
+
+/**
+ * Run a prompt that asks for JSON and validate the response against a schema.
+ * A response that isn't valid JSON or doesn't match is sent back to the model with the
+ * problems listed, up to maxAttempts times in all.
+ */
+export async function generateStructured<T>(request: StructuredRequest<T>): Promise<StructuredResult<T>> {
+  const model = request.model || getAgentModel(request.agent);
+  const maxAttempts = request.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const messages: Anthropic.MessageParam[] = [{ role: 'user', content: request.prompt }];
+  let lastError = '';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const responseText = await streamCompletion(request, model, messages);
+
+    const parsed = parseJsonResponse(responseText);
+    let problems: string[];
+
+    if (parsed.success) {
+      const result = validate(request.schema, parsed.value);
+      if (result.success) {
+        if (attempt > 1) {
+          console.log(`[LLM:${request.agent}] Valid response on attempt ${attempt}`);
+        }
+        return { data: result.data, response: responseText, attempts: attempt, model };
+      }
+      problems = result.issues;
+    } else {
+      problems = [parsed.error];
+    }
+
+    lastError = problems.slice(0, MAX_ISSUES_IN_FEEDBACK).join('\n');
+    console.warn(`[LLM:${request.agent}] Invalid response (attempt ${attempt}/${maxAttempts}):\n${lastError}`);
+    console.warn(`[LLM:${request.agent}] Raw response (first 500 chars): ${responseText.substring(0, 500)}`);
+
+    messages.push(
+      { role: 'assistant', content: responseText.trim() || '(empty response)' },
+      {
+        role: 'user',
+        content: `Your response couldn't be used:\n${lastError}\n\nRespond again with ONLY the corrected JSON, in the format asked for above.`,
+      }
+    );
+  }
+
+  throw new Error(`[LLM:${request.agent}] No valid response after ${maxAttempts} attempts: ${lastError}`);
+}
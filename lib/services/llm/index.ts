@@ -0,0 +1,13 @@
+export {
+  cleanJsonString,
+  DEFAULT_MODEL,
+  generateStructured,
+  generateText,
+  getAgentModel,
+  parseJsonResponse,
+  withCompletionProvider,
+} from './client';
+export type { CompletionProvider, LLMAgent, LLMRequest, StructuredRequest, StructuredResult } from './client';
+export * as s from './schema';
+export { validate } from './schema';
+export type { Infer, Schema, SchemaResult } from './schema';
@@ -0,0 +1,147 @@
+/**
+ * Minimal runtime schemas for LLM output.
+ *
+ * Each schema checks a parsed JSON value and returns it typed, collecting every problem
+ * (with its path, e.g. "personas[2].seniority") so the model can be told exactly what to fix.
+ * Object schemas drop keys they don't declare.
+ */
+
+export interface Schema<T> {
+  check(value: unknown, path: string, issues: string[]): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export type SchemaResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: string[] };
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : JSON.stringify(value);
+}
+
+function at(path: string): string {
+  return path || 'response';
+}
+
+export function string(options: { nonEmpty?: boolean } = {}): Schema<string> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== 'string') {
+        issues.push(`${at(path)}: expected a string, got ${describe(value)}`);
+        return '';
+      }
+      if (options.nonEmpty && !value.trim()) {
+        issues.push(`${at(path)}: must not be empty`);
+      }
+      return value;
+    },
+  };
+}
+
+export function number(options: { min?: number; max?: number } = {}): Schema<number> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push(`${at(path)}: expected a number, got ${describe(value)}`);
+        return 0;
+      }
+      if ((options.min !== undefined && value < options.min) || (options.max !== undefined && value > options.max)) {
+        issues.push(`${at(path)}: must be between ${options.min ?? '-∞'} and ${options.max ?? '∞'}, got ${value}`);
+      }
+      return value;
+    },
+  };
+}
+
+export function oneOf<const T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== 'string' || !values.includes(value as T)) {
+        issues.push(`${at(path)}: must be one of ${values.map(v => `"${v}"`).join(', ')}, got ${describe(value)}`);
+        return values[0];
+      }
+      return value as T;
+    },
+  };
+}
+
+/**
+ * Anything - for fields the caller normalizes itself
+ */
+export function unknown(): Schema<unknown> {
+  return { check: (value) => value };
+}
+
+export function array<T>(item: Schema<T>, options: { min?: number } = {}): Schema<T[]> {
+  return {
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push(`${at(path)}: expected an array, got ${describe(value)}`);
+        return [];
+      }
+      if (options.min !== undefined && value.length < options.min) {
+        issues.push(`${at(path)}: expected at least ${options.min} item${options.min === 1 ? '' : 's'}, got ${value.length}`);
+      }
+      return value.map((entry, i) => item.check(entry, `${path}[${i}]`, issues));
+    },
+  };
+}
+
+/**
+ * A field that may be missing (null counts as missing)
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    check(value, path, issues) {
+      return value === undefined || value === null ? undefined : schema.check(value, path, issues);
+    },
+  };
+}
+
+export function object<S extends Record<string, Schema<unknown>>>(
+  shape: S
+): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+  return {
+    check(value, path, issues) {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        issues.push(`${at(path)}: expected an object, got ${describe(value)}`);
+        return {} as { [K in keyof S]: Infer<S[K]> };
+      }
+
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      for (const key of Object.keys(shape)) {
+        const checked = shape[key].check(input[key], path ? `${path}.${key}` : key, issues);
+        if (checked !== undefined) output[key] = checked;
+      }
+      return output as { [K in keyof S]: Infer<S[K]> };
+    },
+  };
+}
+
+/**
+ * Add a check the shape alone can't express, e.g. "selectedPersonaId is one of the personas".
+ * The check returns a problem to report, or null.
+ */
+export function refine<T>(schema: Schema<T>, check: (value: T) => string | null): Schema<T> {
+  return {
+    check(value, path, issues) {
+      const before = issues.length;
+      const checked = schema.check(value, path, issues);
+      if (issues.length === before) {
+        const problem = check(checked);
+        if (problem) issues.push(`${at(path)}: ${problem}`);
+      }
+      return checked;
+    },
+  };
+}
+
+export function validate<T>(schema: Schema<T>, value: unknown): SchemaResult<T> {
+  const issues: string[] = [];
+  const data = schema.check(value, '', issues);
+  return issues.length === 0 ? { success: true, data } : { success: false, issues };
+}
@@ -0,0 +1,247 @@
+import { createHash, randomBytes } from 'crypto';
+import { createAdminClient } from '@/lib/supabase/server';
+import { OrganizationInvitation } from '../types/database';
+import { addMember } from './organizationMembers';
+import { findOrganizationMembership, isOrganizationRole, OrganizationRole } from './organizationRoles';
+
+const INVITATIONS_TABLE = 'organization_invitations';
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const MAX_PENDING_INVITATIONS = 50;
+
+/**
+ * An invitation as shown in settings - never includes the token hash
+ */
+export type InvitationSummary = Omit<OrganizationInvitation, 'token_hash'>;
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+const INVITATION_STATUS_ERRORS: Record<Exclude<InvitationStatus, 'pending'>, string> = {
+  accepted: 'This invitation has already been used',
+  revoked: 'This invitation was revoked',
+  expired: 'This invitation has expired - ask for a new one',
+};
+
+export type AcceptInvitationResult =
+  | { success: true; organizationId: string; role: OrganizationRole }
+  | { success: false; error: string; status: number };
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function toSummary(invitation: OrganizationInvitation): InvitationSummary {
+  return {
+    id: invitation.id,
+    organization_id: invitation.organization_id,
+    email: invitation.email,
+    role: invitation.role,
+    invited_by: invitation.invited_by,
+    created_at: invitation.created_at,
+    expires_at: invitation.expires_at,
+    accepted_at: invitation.accepted_at,
+    accepted_by: invitation.accepted_by,
+    revoked_at: invitation.revoked_at,
+  };
+}
+
+export function getInvitationStatus(invitation: OrganizationInvitation | InvitationSummary): InvitationStatus {
+  if (invitation.accepted_at) return 'accepted';
+  if (invitation.revoked_at) return 'revoked';
+  if (new Date(invitation.expires_at).getTime() < Date.now()) return 'expired';
+  return 'pending';
+}
+
+export function getInvitationPath(token: string): string {
+  return `/app/invitations/${token}`;
+}
+
+/**
+ * Invite someone to an organization by email.
+ *
+ * Any pending invitation for the same email is revoked. The email is a Supabase magic link
+ * that signs the invitee in (creating their account if needed) and lands on the accept page.
+ * Only the token's hash is stored - the returned URL is the one chance to copy the link.
+ *
+ * @param origin - Site origin for the link in the email
+ */
+export async function createInvitation(
+  organizationId: string,
+  email: string,
+  role: Exclude<OrganizationRole, 'owner'>,
+  invitedBy: string,
+  origin: string
+): Promise<{ invitation: InvitationSummary; inviteUrl: string; emailSent: boolean }> {
+  const supabase = createAdminClient();
+  const normalizedEmail = email.trim().toLowerCase();
+  const token = randomBytes(24).toString('base64url');
+
+  await supabase
+    .from(INVITATIONS_TABLE)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('organization_id', organizationId)
+    .eq('email', normalizedEmail)
+    .is('accepted_at', null)
+    .is('revoked_at', null);
+
+  const { data, error } = await supabase
+    .from(INVITATIONS_TABLE)
+    .insert({
+      organization_id: organizationId,
+      email: normalizedEmail,
+      role,
+      token_hash: hashToken(token),
+      invited_by: invitedBy,
+      expires_at: new Date(Date.now() + INVITATION_TTL_MS).toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create invitation: ${error?.message}`);
+  }
+
+  const inviteUrl = `${origin}${getInvitationPath(token)}`;
+  const { error: emailError } = await supabase.auth.signInWithOtp({
+    email: normalizedEmail,
+    options: {
+      emailRedirectTo: `${origin}/auth/callback?next=${encodeURIComponent(getInvitationPath(token))}`,
+    },
+  });
+
+  if (emailError) {
+    console.error(`[invitations] Failed to send invitation email to ${normalizedEmail}:`, emailError.message);
+  }
+
+  return { invitation: toSummary(data), inviteUrl, emailSent: !emailError };
+}
+
+/**
+ * List an organization's invitations that haven't been accepted, revoked or expired
+ */
+export async function listPendingInvitations(organizationId: string): Promise<InvitationSummary[]> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from(INVITATIONS_TABLE)
+    .select('*')
+    .eq('organization_id', organizationId)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to list invitations: ${error.message}`);
+  }
+
+  return (data || []).map(toSummary);
+}
+
+/**
+ * Revoke a pending invitation - its link stops working
+ *
+ * @returns false if the invitation doesn't exist, belongs to another organization or isn't pending
+ */
+export async function revokeInvitation(organizationId: string, invitationId: string): Promise<boolean> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from(INVITATIONS_TABLE)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', invitationId)
+    .eq('organization_id', organizationId)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to revoke invitation: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Look up an invitation from the token in its link, with the organization's name
+ */
+export async function getInvitationByToken(
+  token: string
+): Promise<{ invitation: InvitationSummary; organizationName: string | null } | null> {
+  const supabase = createAdminClient();
+
+  const { data } = await supabase
+    .from(INVITATIONS_TABLE)
+    .select('*, organizations(name)')
+    .eq('token_hash', hashToken(token))
+    .maybeSingle();
+
+  if (!data) return null;
+
+  const { organizations, ...invitation } = data;
+  return {
+    invitation: toSummary(invitation as OrganizationInvitation),
+    organizationName: organizations?.name || null,
+  };
+}
+
+/**
+ * Accept an invitation as the signed-in user.
+ *
+ * The user must be signed in with the invited email. Users already in another organization
+ * can't join a second one - the dashboard works in a single organization per user.
+ */
+export async function acceptInvitation(
+  token: string,
+  user: { id: string; email?: string | null }
+): Promise<AcceptInvitationResult> {
+  const supabase = createAdminClient();
+
+  const { data: invitation } = await supabase
+    .from(INVITATIONS_TABLE)
+    .select('*')
+    .eq('token_hash', hashToken(token))
+    .maybeSingle();
+
+  if (!invitation) {
+    return { success: false, error: 'Invitation not found', status: 404 };
+  }
+
+  const status = getInvitationStatus(invitation);
+  if (status !== 'pending') {
+    return { success: false, error: INVITATION_STATUS_ERRORS[status], status: 410 };
+  }
+
+  if (!user.email || user.email.toLowerCase() !== invitation.email) {
+    return { success: false, error: `This invitation is for ${invitation.email} - sign in with that email to accept it`, status: 403 };
+  }
+
+  if (!isOrganizationRole(invitation.role) || invitation.role === 'owner') {
+    return { success: false, error: 'Invalid invitation', status: 400 };
+  }
+
+  const existing = await findOrganizationMembership(supabase, user.id);
+  if (existing && existing.organizationId !== invitation.organization_id) {
+    return { success: false, error: 'You already belong to another organization', status: 409 };
+  }
+
+  // Joining again with a different role shouldn't demote an owner
+  if (existing?.role !== 'owner') {
+    await addMember(invitation.organization_id, user, invitation.role, invitation.invited_by);
+  }
+
+  const { error } = await supabase
+    .from(INVITATIONS_TABLE)
+    .update({ accepted_at: new Date().toISOString(), accepted_by: user.id })
+    .eq('id', invitation.id);
+
+  if (error) {
+    console.error('[invitations] Failed to mark invitation accepted:', error.message);
+  }
+
+  return {
+    success: true,
+    organizationId: invitation.organization_id,
+    role: existing?.role === 'owner' ? 'owner' : invitation.role,
+  };
+}
@@ -0,0 +1,164 @@
+import { createAdminClient, createClient } from '@/lib/supabase/server';
+import { OrganizationMember } from '../types/database';
+import {
+  findOrganizationMembership,
+  hasPermission,
+  OrganizationPermission,
+  OrganizationRole,
+} from './organizationRoles';
+
+const MEMBERS_TABLE = 'organization_members';
+
+/**
+ * The signed-in user of a dashboard request, with their organization and role
+ */
+export interface MemberContext {
+  userId: string;
+  email: string | null;
+  organizationId: string;
+  role: OrganizationRole;
+}
+
+/**
+ * Resolve the signed-in user's organization and role.
+ *
+ * Membership is read with the admin client, so routes work for members whatever the
+ * RLS policies on the organization's tables allow.
+ *
+ * @returns null if nobody is signed in or the user belongs to no organization
+ */
+export async function getMemberContext(): Promise<MemberContext | null> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const membership = await findOrganizationMembership(createAdminClient(), user.id);
+  if (!membership) return null;
+
+  return {
+    userId: user.id,
+    email: user.email || null,
+    organizationId: membership.organizationId,
+    role: membership.role,
+  };
+}
+
+/**
+ * Whether the member's role allows an action
+ */
+export function can(member: MemberContext, permission: OrganizationPermission): boolean {
+  return hasPermission(member.role, permission);
+}
+
+/**
+ * Add a user to an organization (or change their role if they're already in it)
+ */
+export async function addMember(
+  organizationId: string,
+  user: { id: string; email?: string | null },
+  role: OrganizationRole,
+  invitedBy?: string | null
+): Promise<void> {
+  const supabase = createAdminClient();
+
+  const { error } = await supabase
+    .from(MEMBERS_TABLE)
+    .upsert({
+      organization_id: organizationId,
+      user_id: user.id,
+      email: user.email?.toLowerCase() || null,
+      role,
+      invited_by: invitedBy || null,
+    }, { onConflict: 'organization_id,user_id' });
+
+  if (error) {
+    throw new Error(`Failed to add member: ${error.message}`);
+  }
+}
+
+/**
+ * List an organization's members, owner first.
+ * Backfills the owner's member row for organizations created before team members existed.
+ */
+export async function listMembers(organizationId: string): Promise<OrganizationMember[]> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from(MEMBERS_TABLE)
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to list members: ${error.message}`);
+  }
+
+  const members = (data || []) as OrganizationMember[];
+
+  if (!members.some(member => member.role === 'owner')) {
+    const { data: org } = await supabase
+      .from('organizations')
+      .select('owner_id')
+      .eq('id', organizationId)
+      .single();
+
+    if (org) {
+      const { data: { user: owner } } = await supabase.auth.admin.getUserById(org.owner_id);
+      await addMember(organizationId, { id: org.owner_id, email: owner?.email }, 'owner');
+      return listMembers(organizationId);
+    }
+  }
+
+  return members.sort((a, b) => Number(b.role === 'owner') - Number(a.role === 'owner'));
+}
+
+/**
+ * Change a member's role. The owner's role can't be changed and nobody can be made owner.
+ *
+ * @returns false if the user isn't a non-owner member of the organization
+ */
+export async function updateMemberRole(
+  organizationId: string,
+  userId: string,
+  role: Exclude<OrganizationRole, 'owner'>
+): Promise<boolean> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from(MEMBERS_TABLE)
+    .update({ role })
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId)
+    .neq('role', 'owner')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to update member: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Remove a member from an organization. The owner can't be removed.
+ *
+ * @returns false if the user isn't a non-owner member of the organization
+ */
+export async function removeMember(organizationId: string, userId: string): Promise<boolean> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from(MEMBERS_TABLE)
+    .delete()
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId)
+    .neq('role', 'owner')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to remove member: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
@@ -0,0 +1,81 @@
+// Type-only imports: roles and the membership lookup are also used by the dashboard pages
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type OrganizationRole = 'owner' | 'admin' | 'sdr' | 'viewer';
+
+export type OrganizationPermission =
+  | 'billing:manage'
+  | 'campaigns:manage'
+  | 'inbox:reply'
+  | 'leads:export'
+  | 'members:manage'
+  | 'settings:manage';
+
+/**
+ * Roles from most to least access, with their labels for settings
+ */
+export const ORGANIZATION_ROLES: Array<{ key: OrganizationRole; label: string; description: string }> = [
+  { key: 'owner', label: 'Owner', description: 'Full access, including billing. One per organization.' },
+  { key: 'admin', label: 'Admin', description: 'Manage campaigns, team members, API keys and the do-not-contact list' },
+  { key: 'sdr', label: 'SDR', description: 'Work the inbox and export leads' },
+  { key: 'viewer', label: 'Viewer', description: 'Read-only access to campaigns, leads and the inbox' },
+];
+
+// Every member can read campaigns, leads and the inbox - these are the extras
+const ROLE_PERMISSIONS: Record<OrganizationRole, OrganizationPermission[]> = {
+  owner: ['billing:manage', 'campaigns:manage', 'inbox:reply', 'leads:export', 'members:manage', 'settings:manage'],
+  admin: ['campaigns:manage', 'inbox:reply', 'leads:export', 'members:manage', 'settings:manage'],
+  sdr: ['inbox:reply', 'leads:export'],
+  viewer: [],
+};
+
+/**
+ * The organization a user works in and their role there
+ */
+export interface OrganizationMembership {
+  organizationId: string;
+  role: OrganizationRole;
+}
+
+export function isOrganizationRole(value: unknown): value is OrganizationRole {
+  return typeof value === 'string' && ORGANIZATION_ROLES.some(role => role.key === value);
+}
+
+export function hasPermission(role: OrganizationRole, permission: OrganizationPermission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function getRoleLabel(role: OrganizationRole): string {
+  return ORGANIZATION_ROLES.find(r => r.key === role)?.label || role;
+}
+
+/**
+ * Find the organization a user belongs to.
+ *
+ * Organizations created before team members existed have no member row for their owner,
+ * so `organizations.owner_id` is checked as a fallback.
+ */
+export async function findOrganizationMembership(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<OrganizationMembership | null> {
+  const { data: member } = await supabase
+    .from('organization_members')
+    .select('organization_id, role')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (member && isOrganizationRole(member.role)) {
+    return { organizationId: member.organization_id, role: member.role };
+  }
+
+  const { data: org } = await supabase
+    .from('organizations')
+    .select('id')
+    .eq('owner_id', userId)
+    .maybeSingle();
+
+  return org ? { organizationId: org.id, role: 'owner' } : null;
+}
@@ -0,0 +1,324 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { PricingTier } from '../types';
+import { Campaign, PromoCode } from '../types/database';
+
+// Stripe won't charge less than $0.50
+const MIN_CHARGE_CENTS = 50;
+
+const REDEMPTIONS_TABLE = 'promo_code_redemptions';
+// How long a checkout holds one of a promo code's uses before it's paid for
+const PROMO_RESERVATION_MS = 60 * 60_000;
+
+/**
+ * Tiers used when the database has no default pricing plan
+ */
+export const DEFAULT_PRICING_TIERS: PricingTier[] = [
+  { key: 'tier1', label: 'Starter', emails: 500, priceInCents: 99900 }, // $999
+  { key: 'tier2', label: 'Growth', emails: 1000, priceInCents: 189900 }, // $1,899
+];
+
+export type DiscountType = 'percent' | 'fixed';
+
+/**
+ * What a buyer pays for one tier, after any promo code
+ */
+export interface PriceQuote {
+  tier: PricingTier;
+  subtotal: number;
+  discount: number;
+  total: number;
+  currency: 'usd';
+  promoCode: { id: string; code: string; description: string | null } | null;
+}
+
+export type PriceQuoteResult =
+  | { success: true; quote: PriceQuote; tiers: PricingTier[] }
+  | { success: false; error: string; status: number };
+
+export type PricingCampaign = Pick<Campaign, 'pricing_plan_id' | 'pricing_tiers'>;
+
+/**
+ * Read tiers stored as JSON (pricing_plans.tiers, campaigns.pricing_tiers), dropping malformed
+ * entries. Tiers are sorted cheapest first.
+ */
+export function parsePricingTiers(value: unknown): PricingTier[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter((tier): tier is PricingTier =>
+      !!tier &&
+      typeof tier.key === 'string' &&
+      typeof tier.label === 'string' &&
+      Number.isInteger(tier.emails) && tier.emails > 0 &&
+      Number.isInteger(tier.priceInCents) && tier.priceInCents >= MIN_CHARGE_CENTS
+    )
+    .map(({ key, label, emails, priceInCents }) => ({ key, label, emails, priceInCents }))
+    .sort((a, b) => a.priceInCents - b.priceInCents);
+}
+
+/**
+ * The tiers a campaign is sold at:
+ * 1. Its own overrides (campaigns.pricing_tiers)
+ * 2. Its pricing plan (campaigns.pricing_plan_id), e.g. a partner plan
+ * 3. The default plan
+ * 4. DEFAULT_PRICING_TIERS
+ */
+export async function getCampaignPricingTiers(campaign: PricingCampaign | null): Promise<PricingTier[]> {
+  const overrides = parsePricingTiers(campaign?.pricing_tiers);
+  if (overrides.length > 0) return overrides;
+
+  const supabase = createAdminClient();
+  let query = supabase
+    .from('pricing_plans')
+    .select('tiers')
+    .eq('active', true);
+
+  query = campaign?.pricing_plan_id ? query.eq('id', campaign.pricing_plan_id) : query.eq('is_default', true);
+
+  const { data: plan } = await query.limit(1).maybeSingle();
+
+  const tiers = parsePricingTiers(plan?.tiers);
+  if (tiers.length > 0) return tiers;
+
+  // A plan that was deactivated (or has no valid tiers) falls back to the default
+  return campaign?.pricing_plan_id ? getCampaignPricingTiers(null) : DEFAULT_PRICING_TIERS;
+}
+
+/**
+ * Promo codes are matched case-insensitively
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Amount a promo code takes off a price, in cents
+ */
+export function getDiscountAmount(promo: Pick<PromoCode, 'discount_type' | 'discount_value'>, subtotal: number): number {
+  const discount = promo.discount_type === 'percent'
+    ? Math.round(subtotal * Math.min(promo.discount_value, 100) / 100)
+    : Math.round(promo.discount_value);
+
+  return Math.max(0, Math.min(discount, subtotal));
+}
+
+/**
+ * Uses of a promo code that count towards max_redemptions: paid for (and not refunded),
+ * or reserved by a checkout that may still be paid
+ */
+async function countActiveRedemptions(promoCodeId: string): Promise<number> {
+  const supabase = createAdminClient();
+
+  const { count, error } = await supabase
+    .from(REDEMPTIONS_TABLE)
+    .select('*', { count: 'exact', head: true })
+    .eq('promo_code_id', promoCodeId)
+    .or(`status.eq.redeemed,and(status.eq.reserved,expires_at.gt.${new Date().toISOString()})`);
+
+  if (error) {
+    throw new Error(`Failed to count promo code redemptions: ${error.message}`);
+  }
+
+  return count || 0;
+}
+
+/**
+ * Find a promo code that can be used right now: active, not expired, under its usage limit
+ * (countActiveRedemptions) and, if it's tied to a plan, for that plan's campaigns
+ */
+async function findUsablePromoCode(
+  code: string,
+  campaign: PricingCampaign | null
+): Promise<{ promo: PromoCode } | { error: string }> {
+  const supabase = createAdminClient();
+
+  const { data: promo } = await supabase
+    .from('promo_codes')
+    .select('*')
+    .eq('code', normalizePromoCode(code))
+    .maybeSingle();
+
+  if (!promo || !promo.active) {
+    return { error: 'This promo code isn\'t valid' };
+  }
+
+  if (promo.expires_at && new Date(promo.expires_at) <= new Date()) {
+    return { error: 'This promo code has expired' };
+  }
+
+  if (promo.pricing_plan_id && promo.pricing_plan_id !== campaign?.pricing_plan_id) {
+    return { error: 'This promo code doesn\'t apply to this campaign' };
+  }
+
+  if (promo.max_redemptions !== null) {
+    if (await countActiveRedemptions(promo.id) >= promo.max_redemptions) {
+      return { error: 'This promo code has been used up' };
+    }
+  }
+
+  return { promo: promo as PromoCode };
+}
+
+/**
+ * Price one of a campaign's tiers, applying a promo code if given.
+ * Used by the checkout routes to set the amount charged, and by the checkout sheet to show it.
+ *
+ * @param tierKey - Defaults to the campaign's cheapest tier
+ */
+export async function quoteCampaignPrice(
+  campaign: PricingCampaign | null,
+  tierKey?: string | null,
+  promoCode?: string | null
+): Promise<PriceQuoteResult> {
+  const tiers = await getCampaignPricingTiers(campaign);
+  const tier = tierKey ? tiers.find(t => t.key === tierKey) : tiers[0];
+
+  if (!tier) {
+    return { success: false, error: 'Unknown pricing tier', status: 400 };
+  }
+
+  let discount = 0;
+  let appliedCode: PriceQuote['promoCode'] = null;
+
+  if (promoCode?.trim()) {
+    const found = await findUsablePromoCode(promoCode, campaign);
+    if ('error' in found) {
+      return { success: false, error: found.error, status: 400 };
+    }
+
+    discount = getDiscountAmount(found.promo, tier.priceInCents);
+    if (tier.priceInCents - discount < MIN_CHARGE_CENTS) {
+      return { success: false, error: 'This promo code can\'t be used at checkout', status: 400 };
+    }
+
+    appliedCode = { id: found.promo.id, code: found.promo.code, description: found.promo.description };
+  }
+
+  return {
+    success: true,
+    tiers,
+    quote: {
+      tier,
+      subtotal: tier.priceInCents,
+      discount,
+      total: tier.priceInCents - discount,
+      currency: 'usd',
+      promoCode: appliedCode,
+    },
+  };
+}
+
+/**
+ * Hold one of a quote's promo code uses for a checkout about to be created. The reservation is
+ * written first and the limit checked after, so two checkouts racing for a code's last use
+ * can't both get it - the one that goes over the limit is rolled back.
+ * Pass the reservation to the checkout's metadata as promoRedemptionId.
+ *
+ * @returns The reservation ID (null when the quote has no promo code), or an error if the
+ *   code was used up in the meantime
+ */
+export async function reservePromoRedemption(
+  quote: PriceQuote
+): Promise<{ redemptionId: string | null } | { error: string }> {
+  if (!quote.promoCode) return { redemptionId: null };
+
+  const supabase = createAdminClient();
+  const { data: reservation, error } = await supabase
+    .from(REDEMPTIONS_TABLE)
+    .insert({
+      promo_code_id: quote.promoCode.id,
+      status: 'reserved',
+      expires_at: new Date(Date.now() + PROMO_RESERVATION_MS).toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (error || !reservation) {
+    throw new Error(`Failed to reserve promo code: ${error?.message}`);
+  }
+
+  const { data: promo } = await supabase
+    .from('promo_codes')
+    .select('max_redemptions')
+    .eq('id', quote.promoCode.id)
+    .single();
+
+  if (promo && promo.max_redemptions !== null && await countActiveRedemptions(quote.promoCode.id) > promo.max_redemptions) {
+    await supabase.from(REDEMPTIONS_TABLE).delete().eq('id', reservation.id);
+    return { error: 'This promo code has been used up' };
+  }
+
+  return { redemptionId: reservation.id };
+}
+
+/**
+ * Turn a checkout's reservation into a use of the code, once its payment is fulfilled
+ */
+export async function redeemPromoRedemption(redemptionId: string, stripeId: string): Promise<void> {
+  const supabase = createAdminClient();
+
+  const { error } = await supabase
+    .from(REDEMPTIONS_TABLE)
+    .update({ status: 'redeemed', stripe_id: stripeId, updated_at: new Date().toISOString() })
+    .eq('id', redemptionId);
+
+  if (error) {
+    throw new Error(`Failed to redeem promo code: ${error.message}`);
+  }
+}
+
+/**
+ * Give a promo code use back: a reservation whose checkout failed or was cancelled
+ * (by reservation ID), or the use of a payment that was refunded (by its stripe_id)
+ */
+export async function releasePromoRedemption(lookup: { redemptionId?: string; stripeId?: string }): Promise<void> {
+  if (!lookup.redemptionId && !lookup.stripeId) return;
+
+  const supabase = createAdminClient();
+  let query = supabase
+    .from(REDEMPTIONS_TABLE)
+    .update({ status: 'released', updated_at: new Date().toISOString() });
+
+  query = lookup.redemptionId
+    ? query.eq('id', lookup.redemptionId).eq('status', 'reserved')
+    : query.eq('stripe_id', lookup.stripeId!);
+
+  const { error } = await query;
+  if (error) {
+    throw new Error(`Failed to release promo code: ${error.message}`);
+  }
+}
+
+/**
+ * Load the pricing columns of a campaign, if there is one
+ */
+export async function getPricingCampaign(campaignId: string | null | undefined): Promise<PricingCampaign | null> {
+  if (!campaignId) return null;
+
+  const supabase = createAdminClient();
+  const { data } = await supabase
+    .from('campaigns')
+    .select('pricing_plan_id, pricing_tiers')
+    .eq('id', campaignId)
+    .maybeSingle();
+
+  return data;
+}
+
+/**
+ * Stripe metadata describing a quote - read back by fulfilment (lib/services/fulfilment.ts)
+ *
+ * @param promoRedemptionId - The checkout's promo code reservation (reservePromoRedemption)
+ */
+export function getQuoteMetadata(quote: PriceQuote, promoRedemptionId?: string | null): Record<string, string> {
+  return {
+    tier: quote.tier.key,
+    emails: quote.tier.emails.toString(),
+    ...(quote.promoCode && {
+      promoCodeId: quote.promoCode.id,
+      promoCode: quote.promoCode.code,
+      discount: quote.discount.toString(),
+    }),
+    ...(promoRedemptionId && { promoRedemptionId }),
+  };
+}
@@ -0,0 +1,155 @@
+import { supabaseAdmin } from '../supabase';
+import type { CampaignProgress } from './campaignGenerator';
+
+const PROGRESS_TABLE = 'campaign_progress';
+
+// A generation that hasn't written progress for this long is treated as dead
+// (instance restarted or crashed mid-run). Running generations heartbeat well inside this.
+const PROGRESS_STALE_MS = 3 * 60 * 1000;
+
+/**
+ * Progress as stored - the CampaignProgress shape plus where it came from
+ */
+export interface StoredCampaignProgress extends CampaignProgress {
+  domain: string;
+  slug?: string;
+  campaignId?: string;
+  updatedAt: string;
+}
+
+// Write-through cache for this instance; also the only store when Supabase isn't configured
+const localProgress: Map<string, StoredCampaignProgress> = new Map();
+
+// Serialize writes per domain so a slow write can't land after a newer one
+const pendingWrites: Map<string, Promise<void>> = new Map();
+
+/**
+ * Normalize a domain for use as the progress key
+ */
+export function normalizeDomain(domain: string): string {
+  return domain.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').split('/')[0];
+}
+
+/**
+ * True while a generation is still running and has written progress recently
+ */
+export function isProgressActive(progress: StoredCampaignProgress | null | undefined): progress is StoredCampaignProgress {
+  if (!progress || progress.status === 'complete' || progress.status === 'error') {
+    return false;
+  }
+  return Date.now() - new Date(progress.updatedAt).getTime() < PROGRESS_STALE_MS;
+}
+
+/**
+ * Save progress for a domain. Readable from any instance once the write lands.
+ * Returns a promise that resolves when persisted (callers may fire and forget).
+ */
+export function saveCampaignProgress(
+  domain: string,
+  progress: CampaignProgress,
+  meta: { slug?: string; campaignId?: string } = {}
+): Promise<void> {
+  const key = normalizeDomain(domain);
+  const previous = localProgress.get(key);
+  const stored: StoredCampaignProgress = {
+    ...progress,
+    domain: key,
+    slug: meta.slug ?? previous?.slug,
+    campaignId: meta.campaignId ?? previous?.campaignId,
+    updatedAt: new Date().toISOString(),
+  };
+  localProgress.set(key, stored);
+
+  if (!supabaseAdmin) {
+    return Promise.resolve();
+  }
+  const client = supabaseAdmin;
+
+  const write = (pendingWrites.get(key) || Promise.resolve()).then(async () => {
+    const { error } = await client
+      .from(PROGRESS_TABLE)
+      .upsert({
+        domain: key,
+        campaign_id: stored.campaignId || null,
+        slug: stored.slug || null,
+        status: stored.status,
+        progress: stored,
+        updated_at: stored.updatedAt,
+      }, { onConflict: 'domain' });
+
+    if (error) {
+      console.error(`[ProgressStore] Failed to persist progress for ${key}:`, error.message);
+    }
+  });
+
+  pendingWrites.set(key, write);
+  write.finally(() => {
+    if (pendingWrites.get(key) === write) {
+      pendingWrites.delete(key);
+    }
+  });
+
+  return write;
+}
+
+/**
+ * Load progress by domain
+ */
+export async function getCampaignProgress(domain: string): Promise<StoredCampaignProgress | null> {
+  const key = normalizeDomain(domain);
+
+  if (!supabaseAdmin) {
+    return localProgress.get(key) || null;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from(PROGRESS_TABLE)
+    .select('progress')
+    .eq('domain', key)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[ProgressStore] Failed to load progress for ${key}:`, error.message);
+    return localProgress.get(key) || null;
+  }
+
+  return (data?.progress as StoredCampaignProgress) || null;
+}
+
+/**
+ * Load the latest progress for a campaign by ID or slug
+ */
+export async function getCampaignProgressFor(
+  lookup: { campaignId?: string; slug?: string }
+): Promise<StoredCampaignProgress | null> {
+  if (!lookup.campaignId && !lookup.slug) {
+    return null;
+  }
+
+  if (!supabaseAdmin) {
+    const matches = [...localProgress.values()].filter(p =>
+      (lookup.campaignId && p.campaignId === lookup.campaignId) || (lookup.slug && p.slug === lookup.slug)
+    );
+    return matches.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0] || null;
+  }
+
+  let query = supabaseAdmin
+    .from(PROGRESS_TABLE)
+    .select('progress');
+
+  query = lookup.campaignId
+    ? query.eq('campaign_id', lookup.campaignId)
+    : query.eq('slug', lookup.slug);
+
+  const { data, error } = await query
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[ProgressStore] Failed to load progress:', error.message);
+    return null;
+  }
+
+  return (data?.progress as StoredCampaignProgress) || null;
+}
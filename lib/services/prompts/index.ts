@@ -0,0 +1,29 @@
+// Prompt registry
+//
+// Every agent's prompt template, by id. Templates live next to the agent that runs them;
+// registry.ts holds the versioning (see there for pinning a version).
+
+import { companyProfilerPrompt } from '../agents/companyProfiler';
+import { icpBrainstormerPrompt } from '../agents/icpBrainstormer';
+import { coldEmailRankerPrompt } from '../agents/coldEmailRanker';
+import { linkedInFilterBuilderPrompt } from '../agents/linkedinFilterBuilder';
+import { replyClassifierPrompt } from '../agents/replyClassifier';
+import { replyDrafterPrompt } from '../agents/replyDrafter';
+import { emailWriterPrompt, followUpWriterPrompt } from '../emailWriter';
+import { evalJudgePrompt } from '../evals/judge';
+import { PromptDefinition, PromptId } from './registry';
+
+export const PROMPTS = {
+  'company-profiler': companyProfilerPrompt,
+  'icp-brainstormer': icpBrainstormerPrompt,
+  'cold-email-ranker': coldEmailRankerPrompt,
+  'linkedin-filter-builder': linkedInFilterBuilderPrompt,
+  'email-writer': emailWriterPrompt,
+  'follow-up-writer': followUpWriterPrompt,
+  'reply-classifier': replyClassifierPrompt,
+  'reply-drafter': replyDrafterPrompt,
+  'eval-judge': evalJudgePrompt,
+} satisfies Record<PromptId, PromptDefinition<never>>;
+
+export { definePrompt, getActivePromptVersion, renderPrompt, withPromptVersions } from './registry';
+export type { PromptDefinition, PromptId, PromptVersion, PromptVersions, RenderedPrompt } from './registry';
@@ -0,0 +1,118 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * Versioned prompt templates.
+ *
+ * Every agent prompt is defined once with definePrompt and rendered with renderPrompt.
+ * Changing a prompt's wording means adding a version, not editing the existing one, so the
+ * version recorded with a campaign (pipeline_debug.promptVersions) and its leads
+ * (leads.prompt_versions) always identifies the exact template that was used.
+ *
+ * The latest version is used unless pinned, by withPromptVersions (evals comparing versions)
+ * or the environment.
+ *
+ * Environment variables:
+ * - PROMPT_VERSION_<ID>: Version to use for one prompt, e.g. PROMPT_VERSION_EMAIL_WRITER=v1
+ *   to roll the email writer back to v1
+ */
+
+export type PromptId =
+  | 'company-profiler'
+  | 'icp-brainstormer'
+  | 'cold-email-ranker'
+  | 'linkedin-filter-builder'
+  | 'email-writer'
+  | 'follow-up-writer'
+  | 'reply-classifier'
+  | 'reply-drafter'
+  | 'eval-judge';
+
+export interface PromptVersion<V> {
+  version: string;
+  // What changed from the previous version
+  notes: string;
+  render: (vars: V) => string;
+}
+
+export interface PromptDefinition<V> {
+  id: PromptId;
+  description: string;
+  // Oldest first - the last one is used unless another is pinned
+  versions: PromptVersion<V>[];
+}
+
+export interface RenderedPrompt {
+  id: PromptId;
+  version: string;
+  text: string;
+}
+
+/**
+ * The version each prompt ran at, keyed by prompt id
+ */
+export type PromptVersions = Partial<Record<PromptId, string>>;
+
+// Pins for one async call chain, set by withPromptVersions
+const pinnedVersionsScope = new AsyncLocalStorage<PromptVersions>();
+
+export function definePrompt<V>(definition: PromptDefinition<V>): PromptDefinition<V> {
+  const versions = definition.versions.map(v => v.version);
+  if (versions.length === 0) {
+    throw new Error(`[Prompts] ${definition.id} has no versions`);
+  }
+  if (new Set(versions).size !== versions.length) {
+    throw new Error(`[Prompts] ${definition.id} has duplicate versions: ${versions.join(', ')}`);
+  }
+  return definition;
+}
+
+function getPinEnvKey(id: PromptId): string {
+  return `PROMPT_VERSION_${id.toUpperCase().replace(/-/g, '_')}`;
+}
+
+/**
+ * Render every prompt made while fn runs at the given versions, ahead of environment pins
+ */
+export function withPromptVersions<T>(versions: PromptVersions, fn: () => Promise<T>): Promise<T> {
+  return pinnedVersionsScope.run(versions, fn);
+}
+
+/**
+ * The version of a prompt that runs by default: the pinned one, else the latest.
+ * A pin that doesn't match any version is ignored (and logged) rather than failing every run.
+ */
+export function getActivePromptVersion<V>(definition: PromptDefinition<V>): PromptVersion<V> {
+  const latest = definition.versions[definition.versions.length - 1];
+  const scopedPin = pinnedVersionsScope.getStore()?.[definition.id];
+  const envKey = getPinEnvKey(definition.id);
+  const pinned = scopedPin || process.env[envKey];
+
+  if (!pinned) return latest;
+
+  const version = definition.versions.find(v => v.version === pinned);
+  if (!version) {
+    const source = scopedPin ? 'Pinned version' : envKey;
+    console.warn(`[Prompts] ${source}=${pinned} is not a version of ${definition.id} - using ${latest.version}`);
+    return latest;
+  }
+  return version;
+}
+
+/**
+ * Render a prompt at its active version, or at a specific one (e.g. to compare versions)
+ */
+export function renderPrompt<V>(definition: PromptDefinition<V>, vars: V, version?: string): RenderedPrompt {
+  const template = version
+    ? definition.versions.find(v => v.version === version)
+    : getActivePromptVersion(definition);
+
+  if (!template) {
+    throw new Error(`[Prompts] ${definition.id} has no version ${version}`);
+  }
+
+  return {
+    id: definition.id,
+    version: template.version,
+    text: template.render(vars),
+  };
+}
@@ -0,0 +1,85 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { classifyReply, ReplyClassification } from './agents/replyClassifier';
+import { suppressContact } from './suppression';
+
+// Below this, a label is shown in the inbox but doesn't change the lead
+const ACTION_CONFIDENCE = 0.7;
+
+/**
+ * Classify an inbound inbox message and store the result on the row.
+ *
+ * Confident labels also act on the lead: `interested` sets is_interested (same as EmailBison's
+ * contact_interested event) and `unsubscribe` adds the contact to the organization's suppression list.
+ *
+ * @returns The classification, or null if the message isn't an inbound reply with a body
+ */
+export async function classifyInboxMessage(messageId: string): Promise<ReplyClassification | null> {
+  const supabase = createAdminClient();
+
+  const { data: message, error } = await supabase
+    .from('inbox_messages')
+    .select('*, leads(*), campaigns(*)')
+    .eq('id', messageId)
+    .single();
+
+  if (error || !message) {
+    throw new Error(`Inbox message ${messageId} not found`);
+  }
+
+  if (message.direction !== 'inbound' || !message.body?.trim()) {
+    return null;
+  }
+
+  const lead = message.leads;
+  const classification = await classifyReply({
+    subject: message.subject,
+    body: message.body,
+    originalSubject: lead?.email_subject,
+    originalBody: lead?.email_body,
+    leadName: lead ? `${lead.first_name} ${lead.last_name}` : undefined,
+    leadCompany: lead?.company,
+  });
+
+  // The prompt/response debug copy isn't worth storing on every message
+  const stored = { ...classification, debug: undefined };
+  const isConfident = classification.confidence >= ACTION_CONFIDENCE;
+
+  await supabase
+    .from('inbox_messages')
+    .update({
+      reply_label: classification.label,
+      reply_confidence: classification.confidence,
+      reply_classification: stored,
+      classified_at: new Date().toISOString(),
+      ...(isConfident && classification.label === 'interested' && { is_interested: true }),
+    })
+    .eq('id', message.id);
+
+  if (isConfident && lead) {
+    if (classification.label === 'interested') {
+      await supabase
+        .from('leads')
+        .update({ is_interested: true })
+        .eq('id', lead.id);
+    }
+
+    if (classification.label === 'unsubscribe') {
+      await supabase
+        .from('leads')
+        .update({ unsubscribed_at: new Date().toISOString() })
+        .eq('id', lead.id);
+
+      const organizationId = message.campaigns?.organization_id;
+      if (organizationId) {
+        await suppressContact(
+          organizationId,
+          { email: lead.email || message.from_email, linkedinUrl: lead.linkedin_url },
+          'unsubscribed',
+          { leadId: lead.id, campaignId: message.campaign_id }
+        );
+      }
+    }
+  }
+
+  return classification;
+}
@@ -1,4 +1,5 @@
 import { ICPSettings, LinkedInGeoLocation, LinkedInIndustry } from '../types';
+import { isDomainAccount } from './accountTargeting';
 
 /**
  * LinkedIn Sales Navigator URL Builder
@@ -17,7 +18,7 @@ import { ICPSettings, LinkedInGeoLocation, LinkedInIndustry } from '../types';
  * - INDUSTRY: Industry categories
  * - REGION: Person's geographic location
  * - COMPANY_HEADQUARTERS: Company HQ location
- * - CURRENT_COMPANY: Specific companies
+ * - CURRENT_COMPANY: Specific companies (account-based mode)
  * 
  * COMPANY SEARCH:
  * - COMPANY_HEADCOUNT: Company size ranges
@@ -169,6 +170,18 @@ export function buildPeopleSearchUrl(icp: ICPSettings): string {
     }
   }
 
+  // 3. Process target accounts - CURRENT_COMPANY matches by name, so domains use their first label
+  if (icp.accounts && icp.accounts.length > 0) {
+    filters.push({
+      type: 'CURRENT_COMPANY',
+      values: icp.accounts.map(account => ({
+        id: '',
+        text: isDomainAccount(account) ? account.split('.')[0] : account,
+        selectionType: 'INCLUDED',
+      })),
+    });
+  }
+
   // 4. Process company size
   if (icp.companySize) {
     const sizeValues = parseCompanySize(icp.companySize);
@@ -367,8 +380,8 @@ function buildUrl(mode: SearchMode, filters: Filter[]): string {
     const filtersStr = filters.map(f => {
       const valuesStr = f.values
         .map(v => {
-          // CURRENT_TITLE uses text-only matching (no ID)
-          if (f.type === 'CURRENT_TITLE') {
+          // CURRENT_TITLE and CURRENT_COMPANY (without a company ID) use text-only matching
+          if (f.type === 'CURRENT_TITLE' || (f.type === 'CURRENT_COMPANY' && !v.id)) {
             return `(text:${v.text},selectionType:${v.selectionType})`;
           }
           return `(id:${v.id},text:${v.text},selectionType:${v.selectionType})`;
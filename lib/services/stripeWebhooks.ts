@@ -0,0 +1,161 @@
+import Stripe from 'stripe';
+import { stripe } from '@/lib/stripe';
+import { createAdminClient } from '@/lib/supabase/server';
+import {
+  fromCheckoutSession,
+  fromPaymentIntent,
+  fulfillPayment,
+  isFulfillable,
+  PaidCheckout,
+  recordDispute,
+  recordRefund,
+} from './fulfilment';
+import { releasePromoRedemption } from './pricing';
+import { grantInvoiceCredits, syncSubscription } from './subscriptions';
+
+const EVENTS_TABLE = 'stripe_events';
+
+// Postgres unique_violation - raised when stripe_events already has this event id
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Verify and parse an incoming Stripe webhook request.
+ *
+ * Environment variables:
+ * - STRIPE_WEBHOOK_SECRET: Signing secret of the webhook endpoint (required)
+ *
+ * @returns null if the signature is missing or invalid
+ */
+export function verifyStripeWebhook(rawBody: string, signature: string | null): Stripe.Event | null {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('[Stripe Webhook] STRIPE_WEBHOOK_SECRET is not set - rejecting webhook');
+    return null;
+  }
+
+  if (!signature) return null;
+
+  try {
+    return stripe.webhooks.constructEvent(rawBody, signature, secret);
+  } catch (error) {
+    console.warn('[Stripe Webhook] Signature verification failed:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Record the event before handling it. Returns false if an earlier delivery already
+ * processed it; a delivery that failed part-way is processed again.
+ */
+async function claimEvent(event: Stripe.Event): Promise<boolean> {
+  const supabase = createAdminClient();
+
+  const { error } = await supabase
+    .from(EVENTS_TABLE)
+    .insert({ id: event.id, type: event.type });
+
+  if (!error) return true;
+
+  if (error.code !== UNIQUE_VIOLATION) {
+    throw new Error(`Failed to record Stripe event: ${error.message}`);
+  }
+
+  const { data: existing } = await supabase
+    .from(EVENTS_TABLE)
+    .select('processed_at')
+    .eq('id', event.id)
+    .single();
+
+  return !existing?.processed_at;
+}
+
+async function markEventProcessed(eventId: string): Promise<void> {
+  const supabase = createAdminClient();
+
+  await supabase
+    .from(EVENTS_TABLE)
+    .update({ processed_at: new Date().toISOString() })
+    .eq('id', eventId);
+}
+
+async function fulfillIfOurs(paid: PaidCheckout, origin: string): Promise<void> {
+  if (!isFulfillable(paid)) {
+    console.log(`[Stripe Webhook] Skipping ${paid.stripeId} - not created by our checkout`);
+    return;
+  }
+
+  const payment = await fulfillPayment(paid, origin);
+
+  // Another request holds the payment - fail so Stripe retries, in case that one never finishes
+  if (!payment.fulfilled_at) {
+    throw new Error(`Payment ${paid.stripeId} is being fulfilled by another request`);
+  }
+}
+
+/**
+ * Handle a verified Stripe event.
+ *
+ * - payment_intent.succeeded: Payment Element checkouts and top-ups
+ * - checkout.session.completed / async_payment_succeeded: legacy embedded checkout
+ * - payment_intent.canceled / checkout.session.expired: release the checkout's promo code reservation
+ * - charge.refunded: mark the payment refunded
+ * - charge.dispute.created / closed: track the dispute on the payment
+ * - customer.subscription.*: mirror lead-credit subscriptions
+ * - invoice.paid: grant a subscription's monthly lead credits
+ *
+ * Errors are thrown so the route returns 500 and Stripe retries the delivery.
+ *
+ * @param origin - Base URL the lead generation worker is triggered on
+ */
+export async function handleStripeEvent(event: Stripe.Event, origin: string): Promise<{ duplicate: boolean }> {
+  if (!(await claimEvent(event))) {
+    console.log(`[Stripe Webhook] Duplicate event ${event.id} (${event.type})`);
+    return { duplicate: true };
+  }
+
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+      await fulfillIfOurs(fromPaymentIntent(event.data.object), origin);
+      break;
+
+    case 'checkout.session.completed':
+    case 'checkout.session.async_payment_succeeded': {
+      const session = event.data.object;
+      // Delayed payment methods complete the session before the money arrives
+      if (session.payment_status === 'paid') {
+        await fulfillIfOurs(await fromCheckoutSession(session), origin);
+      }
+      break;
+    }
+
+    case 'payment_intent.canceled':
+    case 'checkout.session.expired':
+      await releasePromoRedemption({ redemptionId: event.data.object.metadata?.promoRedemptionId });
+      break;
+
+    case 'charge.refunded':
+      await recordRefund(event.data.object);
+      break;
+
+    case 'charge.dispute.created':
+    case 'charge.dispute.closed':
+      await recordDispute(event.data.object);
+      break;
+
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted':
+      await syncSubscription(event.data.object);
+      break;
+
+    case 'invoice.paid':
+      await grantInvoiceCredits(event.data.object);
+      break;
+
+    default:
+      console.log(`[Stripe Webhook] Ignoring event type ${event.type}`);
+  }
+
+  await markEventProcessed(event.id);
+  return { duplicate: false };
+}
@@ -0,0 +1,240 @@
+import Stripe from 'stripe';
+import { stripe } from '@/lib/stripe';
+import { createAdminClient } from '@/lib/supabase/server';
+import { Subscription, SubscriptionPlan } from '../types/database';
+import { ensureOrganizationCustomer } from './billing';
+import { addLedgerEntry, getCreditBalance } from './credits';
+
+const SUBSCRIPTIONS_TABLE = 'subscriptions';
+
+// Stripe statuses in which the organization is still subscribed
+const LIVE_STATUSES = ['active', 'trialing', 'past_due'];
+
+// Invoices that start a billing period - each grants the plan's monthly credits.
+// Mid-period plan changes (subscription_update) grant the new amount from the next period.
+const CREDIT_GRANTING_REASONS: Stripe.Invoice.BillingReason[] = ['subscription_create', 'subscription_cycle'];
+
+export type SubscriptionCheckoutResult =
+  | { success: true; url: string }
+  | { success: false; error: string; status: number };
+
+function getId(value: string | { id: string } | null): string | null {
+  if (!value) return null;
+  return typeof value === 'string' ? value : value.id;
+}
+
+function toIsoDate(timestamp: number | undefined): string | null {
+  return timestamp ? new Date(timestamp * 1000).toISOString() : null;
+}
+
+/**
+ * Plans an organization can subscribe to, smallest first
+ */
+export async function listSubscriptionPlans(): Promise<SubscriptionPlan[]> {
+  const supabase = createAdminClient();
+
+  const { data } = await supabase
+    .from('subscription_plans')
+    .select('*')
+    .eq('active', true)
+    .order('monthly_credits', { ascending: true });
+
+  return (data || []) as SubscriptionPlan[];
+}
+
+/**
+ * The organization's most recent subscription, live or not
+ */
+export async function getOrganizationSubscription(organizationId: string): Promise<Subscription | null> {
+  const supabase = createAdminClient();
+
+  const { data } = await supabase
+    .from(SUBSCRIPTIONS_TABLE)
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data as Subscription | null;
+}
+
+export function isLiveSubscription(subscription: Pick<Subscription, 'status'> | null): boolean {
+  return !!subscription && LIVE_STATUSES.includes(subscription.status);
+}
+
+/**
+ * Start a Stripe-hosted Checkout for a subscription plan. Plan changes and cancellation
+ * go through the customer portal once subscribed.
+ */
+export async function createSubscriptionCheckout(
+  organizationId: string,
+  email: string | null,
+  planId: string,
+  returnUrl: string
+): Promise<SubscriptionCheckoutResult> {
+  const supabase = createAdminClient();
+
+  const { data: plan } = await supabase
+    .from('subscription_plans')
+    .select('*')
+    .eq('id', planId)
+    .eq('active', true)
+    .maybeSingle();
+
+  if (!plan) {
+    return { success: false, error: 'Plan not found', status: 404 };
+  }
+
+  if (isLiveSubscription(await getOrganizationSubscription(organizationId))) {
+    return { success: false, error: 'Your organization is already subscribed - change plans in the billing portal', status: 409 };
+  }
+
+  const customerId = await ensureOrganizationCustomer(organizationId, email);
+
+  const session = await stripe.checkout.sessions.create({
+    mode: 'subscription',
+    customer: customerId,
+    line_items: [{ price: plan.stripe_price_id, quantity: 1 }],
+    subscription_data: {
+      metadata: { organizationId, planId: plan.id },
+    },
+    success_url: returnUrl,
+    cancel_url: returnUrl,
+  });
+
+  if (!session.url) {
+    return { success: false, error: 'Failed to start checkout', status: 500 };
+  }
+
+  return { success: true, url: session.url };
+}
+
+async function getOrganizationIdForCustomer(customerId: string | null): Promise<string | null> {
+  if (!customerId) return null;
+
+  const supabase = createAdminClient();
+  const { data } = await supabase
+    .from('organizations')
+    .select('id')
+    .eq('stripe_customer_id', customerId)
+    .maybeSingle();
+
+  return data?.id || null;
+}
+
+async function getPlanByPriceId(priceId: string | undefined): Promise<SubscriptionPlan | null> {
+  if (!priceId) return null;
+
+  const supabase = createAdminClient();
+  const { data } = await supabase
+    .from('subscription_plans')
+    .select('*')
+    .eq('stripe_price_id', priceId)
+    .maybeSingle();
+
+  return data as SubscriptionPlan | null;
+}
+
+/**
+ * Mirror a Stripe subscription into the subscriptions table (created, plan changed,
+ * renewed, cancelled)
+ */
+export async function syncSubscription(stripeSubscription: Stripe.Subscription): Promise<Subscription | null> {
+  const customerId = getId(stripeSubscription.customer);
+  const organizationId = stripeSubscription.metadata.organizationId || await getOrganizationIdForCustomer(customerId);
+
+  if (!organizationId || !customerId) {
+    console.warn(`[subscriptions] Subscription ${stripeSubscription.id} has no organization - skipping`);
+    return null;
+  }
+
+  const item = stripeSubscription.items.data[0];
+  const plan = await getPlanByPriceId(item?.price.id);
+
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from(SUBSCRIPTIONS_TABLE)
+    .upsert({
+      stripe_subscription_id: stripeSubscription.id,
+      stripe_customer_id: customerId,
+      organization_id: organizationId,
+      plan_id: plan?.id || null,
+      status: stripeSubscription.status,
+      cancel_at_period_end: stripeSubscription.cancel_at_period_end,
+      current_period_start: toIsoDate(item?.current_period_start),
+      current_period_end: toIsoDate(item?.current_period_end),
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'stripe_subscription_id' })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save subscription: ${error.message}`);
+  }
+
+  console.log(`[subscriptions] Subscription ${stripeSubscription.id} for organization ${organizationId}: ${stripeSubscription.status}`);
+  return data as Subscription;
+}
+
+/**
+ * Grant a paid subscription invoice's monthly credits. At renewal, credits above the plan's
+ * rollover cap expire first:
+ * - max_rollover_credits null: everything rolls over
+ * - max_rollover_credits 0: unused credits expire each month
+ */
+export async function grantInvoiceCredits(invoice: Stripe.Invoice): Promise<void> {
+  const subscriptionId = getId(invoice.parent?.subscription_details?.subscription || null);
+  if (!subscriptionId || !invoice.billing_reason || !CREDIT_GRANTING_REASONS.includes(invoice.billing_reason)) {
+    return;
+  }
+
+  // Synced here too - Stripe doesn't guarantee customer.subscription.created arrives first
+  const subscription = await syncSubscription(await stripe.subscriptions.retrieve(subscriptionId));
+  if (!subscription?.plan_id) {
+    throw new Error(`Invoice ${invoice.id} is for subscription ${subscriptionId} with no known plan`);
+  }
+
+  const supabase = createAdminClient();
+  const { data: plan } = await supabase
+    .from('subscription_plans')
+    .select('*')
+    .eq('id', subscription.plan_id)
+    .single();
+
+  if (!plan) {
+    throw new Error(`Subscription plan ${subscription.plan_id} not found`);
+  }
+
+  const organizationId = subscription.organization_id;
+
+  if (invoice.billing_reason === 'subscription_cycle' && plan.max_rollover_credits !== null) {
+    const balance = await getCreditBalance(organizationId);
+    const expiring = balance - plan.max_rollover_credits;
+
+    if (expiring > 0) {
+      await addLedgerEntry({
+        organization_id: organizationId,
+        amount: -expiring,
+        reason: 'rollover_expiry',
+        subscription_id: subscription.id,
+        stripe_invoice_id: invoice.id,
+        idempotency_key: `rollover_expiry:${invoice.id}`,
+      });
+      console.log(`[subscriptions] Expired ${expiring} unused credits for organization ${organizationId}`);
+    }
+  }
+
+  const grant = await addLedgerEntry({
+    organization_id: organizationId,
+    amount: plan.monthly_credits,
+    reason: 'grant',
+    subscription_id: subscription.id,
+    stripe_invoice_id: invoice.id,
+    idempotency_key: `grant:${invoice.id}`,
+  });
+
+  if (grant) {
+    console.log(`[subscriptions] Granted ${plan.monthly_credits} credits to organization ${organizationId} (invoice ${invoice.id})`);
+  }
+}
@@ -0,0 +1,277 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { Suppression, SuppressionInsert } from '../types/database';
+import { normalizeLinkedInUrl } from './leadSources/normalize';
+
+const SUPPRESSIONS_TABLE = 'suppressions';
+const LOAD_PAGE_SIZE = 1000;
+
+export type SuppressionType = 'email' | 'domain' | 'linkedin_url';
+export type SuppressionReason = 'unsubscribed' | 'bounced' | 'manual';
+
+export const SUPPRESSION_TYPES: SuppressionType[] = ['email', 'domain', 'linkedin_url'];
+
+export interface SuppressionEntry {
+  type: SuppressionType;
+  value: string;
+  reason: SuppressionReason;
+  leadId?: string | null;
+  campaignId?: string | null;
+}
+
+/**
+ * An organization's do-not-contact list, loaded once per search/upload and checked in memory
+ */
+export interface SuppressionList {
+  emails: Set<string>;
+  domains: Set<string>;
+  linkedinUrls: Set<string>;
+}
+
+/**
+ * Anything that can be matched against the list - LinkedInLead and lead rows both fit
+ */
+export interface SuppressionCandidate {
+  email?: string | null;
+  linkedin_url?: string | null;
+  company_domain?: string | null;
+}
+
+export function isSuppressionType(value: unknown): value is SuppressionType {
+  return typeof value === 'string' && SUPPRESSION_TYPES.includes(value as SuppressionType);
+}
+
+function normalizeEmail(email: string): string | null {
+  const normalized = email.trim().toLowerCase();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalized) ? normalized : null;
+}
+
+function normalizeSuppressionDomain(domain: string): string | null {
+  const normalized = domain
+    .trim()
+    .toLowerCase()
+    .replace(/^.*@/, '')
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .split(/[/?#]/)[0];
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(normalized) ? normalized : null;
+}
+
+/**
+ * Canonical form of a suppression value, or null if it isn't valid for the type
+ */
+export function normalizeSuppressionValue(type: SuppressionType, value: string | null | undefined): string | null {
+  if (!value) return null;
+
+  switch (type) {
+    case 'email':
+      return normalizeEmail(value);
+    case 'domain':
+      return normalizeSuppressionDomain(value);
+    case 'linkedin_url': {
+      const url = normalizeLinkedInUrl(value);
+      return /linkedin\.com\//i.test(url) ? url.toLowerCase() : null;
+    }
+  }
+}
+
+/**
+ * Guess the entry type for a pasted value: LinkedIn URL, email, otherwise a domain
+ */
+export function detectSuppressionType(value: string): SuppressionType {
+  if (/linkedin\.com\//i.test(value)) return 'linkedin_url';
+  if (value.includes('@') && !value.trim().startsWith('@')) return 'email';
+  return 'domain';
+}
+
+export function createEmptySuppressionList(): SuppressionList {
+  return { emails: new Set(), domains: new Set(), linkedinUrls: new Set() };
+}
+
+/**
+ * Load an organization's suppression list.
+ * Campaigns without an organization (pre-checkout previews) get an empty list.
+ */
+export async function loadSuppressionList(organizationId: string | null | undefined): Promise<SuppressionList> {
+  const list = createEmptySuppressionList();
+  if (!organizationId) return list;
+
+  const supabase = createAdminClient();
+
+  for (let from = 0; ; from += LOAD_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(SUPPRESSIONS_TABLE)
+      .select('type, value')
+      .eq('organization_id', organizationId)
+      .order('id', { ascending: true })
+      .range(from, from + LOAD_PAGE_SIZE - 1);
+
+    // Failing open would mean emailing people who opted out - callers must not continue
+    if (error) {
+      throw new Error(`Failed to load suppression list: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      if (row.type === 'email') list.emails.add(row.value);
+      else if (row.type === 'domain') list.domains.add(row.value);
+      else if (row.type === 'linkedin_url') list.linkedinUrls.add(row.value);
+    }
+
+    if (!data || data.length < LOAD_PAGE_SIZE) break;
+  }
+
+  return list;
+}
+
+/**
+ * Which entry type a lead matches, or null if it can be contacted.
+ * Domains match both the email domain and the lead's company domain.
+ */
+export function getSuppressionMatch(lead: SuppressionCandidate, list: SuppressionList): SuppressionType | null {
+  const email = normalizeSuppressionValue('email', lead.email);
+  if (email && list.emails.has(email)) return 'email';
+
+  const linkedinUrl = normalizeSuppressionValue('linkedin_url', lead.linkedin_url);
+  if (linkedinUrl && list.linkedinUrls.has(linkedinUrl)) return 'linkedin_url';
+
+  const domains = [
+    email ? normalizeSuppressionValue('domain', email) : null,
+    normalizeSuppressionValue('domain', lead.company_domain),
+  ];
+  if (domains.some(domain => domain && list.domains.has(domain))) return 'domain';
+
+  return null;
+}
+
+/**
+ * Split leads into those that can be contacted and those on the suppression list
+ */
+export function filterSuppressedLeads<T extends SuppressionCandidate>(
+  leads: T[],
+  list: SuppressionList
+): { allowed: T[]; suppressed: T[] } {
+  const allowed: T[] = [];
+  const suppressed: T[] = [];
+
+  for (const lead of leads) {
+    if (getSuppressionMatch(lead, list)) {
+      suppressed.push(lead);
+    } else {
+      allowed.push(lead);
+    }
+  }
+
+  return { allowed, suppressed };
+}
+
+/**
+ * Add entries to an organization's suppression list.
+ * Invalid values are skipped and existing entries are left untouched (the first reason wins).
+ *
+ * @returns Number of valid entries submitted
+ */
+export async function addSuppressions(organizationId: string, entries: SuppressionEntry[]): Promise<number> {
+  const rows = new Map<string, SuppressionInsert>();
+
+  for (const entry of entries) {
+    const value = normalizeSuppressionValue(entry.type, entry.value);
+    if (!value) continue;
+
+    rows.set(`${entry.type}:${value}`, {
+      organization_id: organizationId,
+      type: entry.type,
+      value,
+      reason: entry.reason,
+      lead_id: entry.leadId || null,
+      campaign_id: entry.campaignId || null,
+    });
+  }
+
+  if (rows.size === 0) return 0;
+
+  const supabase = createAdminClient();
+  const { error } = await supabase
+    .from(SUPPRESSIONS_TABLE)
+    .upsert([...rows.values()], { onConflict: 'organization_id,type,value', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to add suppressions: ${error.message}`);
+  }
+
+  return rows.size;
+}
+
+/**
+ * Suppress a contact by email and LinkedIn URL (whichever are known), e.g. after an unsubscribe or bounce
+ */
+export async function suppressContact(
+  organizationId: string,
+  contact: { email?: string | null; linkedinUrl?: string | null },
+  reason: SuppressionReason,
+  source: { leadId?: string | null; campaignId?: string | null } = {}
+): Promise<number> {
+  const entries: SuppressionEntry[] = [];
+  if (contact.email) {
+    entries.push({ type: 'email', value: contact.email, reason, ...source });
+  }
+  if (contact.linkedinUrl) {
+    entries.push({ type: 'linkedin_url', value: contact.linkedinUrl, reason, ...source });
+  }
+
+  return addSuppressions(organizationId, entries);
+}
+
+/**
+ * List an organization's suppressions, newest first
+ */
+export async function listSuppressions(
+  organizationId: string,
+  options: { type?: SuppressionType; search?: string; limit?: number; offset?: number } = {}
+): Promise<{ suppressions: Suppression[]; total: number }> {
+  const supabase = createAdminClient();
+  const limit = options.limit ?? 100;
+  const offset = options.offset ?? 0;
+
+  let query = supabase
+    .from(SUPPRESSIONS_TABLE)
+    .select('*', { count: 'exact' })
+    .eq('organization_id', organizationId);
+
+  if (options.type) {
+    query = query.eq('type', options.type);
+  }
+  if (options.search) {
+    query = query.ilike('value', `%${options.search.trim().toLowerCase()}%`);
+  }
+
+  const { data, count, error } = await query
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    throw new Error(`Failed to list suppressions: ${error.message}`);
+  }
+
+  return { suppressions: data || [], total: count || 0 };
+}
+
+/**
+ * Remove an entry from an organization's suppression list
+ *
+ * @returns false if the entry doesn't exist or belongs to another organization
+ */
+export async function removeSuppression(organizationId: string, suppressionId: string): Promise<boolean> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from(SUPPRESSIONS_TABLE)
+    .delete()
+    .eq('id', suppressionId)
+    .eq('organization_id', organizationId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to remove suppression: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
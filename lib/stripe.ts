@@ -22,20 +22,3 @@ export const stripe = new Proxy({} as Stripe, {
     return getStripe()[prop as keyof Stripe];
   },
 });
-
-// Price configuration
-export const PRICE_CONFIG = {
-  tier1: {
-    emails: 500,
-    priceInCents: 99900, // $999
-  },
-  tier2: {
-    emails: 1000,
-    priceInCents: 189900, // $1,899
-  },
-} as const;
-
-export function getPriceForTier(tier: 'tier1' | 'tier2') {
-  return PRICE_CONFIG[tier];
-}
-
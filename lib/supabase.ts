@@ -45,6 +45,7 @@ export interface SupabaseCampaignRow {
     why_picked: string;
     email_subject: string;
     email_body: string;
+    prompt_version?: string;
   }>;
   target_geo: TargetGeo;
   price_tier_1: number;
@@ -91,6 +92,7 @@ export function transformSupabaseCampaign(row: SupabaseCampaignRow): CampaignDat
       whyPicked: lead.why_picked,
       emailSubject: lead.email_subject,
       emailBody: lead.email_body,
+      promptVersion: lead.prompt_version,
     })),
     targetGeo: row.target_geo,
     priceTier1: row.price_tier_1,
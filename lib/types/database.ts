@@ -9,21 +9,73 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      api_keys: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          key_hash: string
+          key_prefix: string
+          last_used_at: string | null
+          name: string
+          organization_id: string
+          revoked_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          key_hash: string
+          key_prefix: string
+          last_used_at?: string | null
+          name: string
+          organization_id: string
+          revoked_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          key_hash?: string
+          key_prefix?: string
+          last_used_at?: string | null
+          name?: string
+          organization_id?: string
+          revoked_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_keys_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       campaigns: {
         Row: {
           company_name: string
           company_profile: Json | null
           created_at: string | null
           domain: string | null
+          email_variants: Json | null
+          emailbison_campaign_id: string | null
+          emailbison_status: string | null
+          generation_error: string | null
           great_at: string | null
           helps_with: string | null
           icp_attributes: string[] | null
           icp_personas: Json | null
           id: string
+          lead_sources: string[] | null
           leads_purchased: number | null
           linkedin_filters: Json | null
           location: string | null
           loom_video_url: string | null
+          max_contacts_per_account: number | null
+          meeting_link: string | null
+          min_email_grade: string | null
           organization_id: string | null
           paid_at: string | null
           persona_rankings: Json | null
@@ -32,11 +84,14 @@ export type Database = {
           price_tier_1_emails: number | null
           price_tier_2: number | null
           price_tier_2_emails: number | null
+          pricing_plan_id: string | null
+          pricing_tiers: Json | null
           qualified_leads: Json | null
           sales_navigator_url: string | null
           slug: string
           status: string | null
           stripe_session_id: string | null
+          target_accounts: string[] | null
           target_geo: Json | null
           updated_at: string | null
           user_id: string | null
@@ -48,15 +103,23 @@ export type Database = {
           company_profile?: Json | null
           created_at?: string | null
           domain?: string | null
+          email_variants?: Json | null
+          emailbison_campaign_id?: string | null
+          emailbison_status?: string | null
+          generation_error?: string | null
           great_at?: string | null
           helps_with?: string | null
           icp_attributes?: string[] | null
           icp_personas?: Json | null
           id?: string
+          lead_sources?: string[] | null
           leads_purchased?: number | null
           linkedin_filters?: Json | null
           location?: string | null
           loom_video_url?: string | null
+          max_contacts_per_account?: number | null
+          meeting_link?: string | null
+          min_email_grade?: string | null
           organization_id?: string | null
           paid_at?: string | null
           persona_rankings?: Json | null
@@ -65,11 +128,14 @@ export type Database = {
           price_tier_1_emails?: number | null
           price_tier_2?: number | null
           price_tier_2_emails?: number | null
+          pricing_plan_id?: string | null
+          pricing_tiers?: Json | null
           qualified_leads?: Json | null
           sales_navigator_url?: string | null
           slug: string
           status?: string | null
           stripe_session_id?: string | null
+          target_accounts?: string[] | null
           target_geo?: Json | null
           updated_at?: string | null
           user_id?: string | null
@@ -81,15 +147,23 @@ export type Database = {
           company_profile?: Json | null
           created_at?: string | null
           domain?: string | null
+          email_variants?: Json | null
+          emailbison_campaign_id?: string | null
+          emailbison_status?: string | null
+          generation_error?: string | null
           great_at?: string | null
           helps_with?: string | null
           icp_attributes?: string[] | null
           icp_personas?: Json | null
           id?: string
+          lead_sources?: string[] | null
           leads_purchased?: number | null
           linkedin_filters?: Json | null
           location?: string | null
           loom_video_url?: string | null
+          max_contacts_per_account?: number | null
+          meeting_link?: string | null
+          min_email_grade?: string | null
           organization_id?: string | null
           paid_at?: string | null
           persona_rankings?: Json | null
@@ -98,11 +172,14 @@ export type Database = {
           price_tier_1_emails?: number | null
           price_tier_2?: number | null
           price_tier_2_emails?: number | null
+          pricing_plan_id?: string | null
+          pricing_tiers?: Json | null
           qualified_leads?: Json | null
           sales_navigator_url?: string | null
           slug?: string
           status?: string | null
           stripe_session_id?: string | null
+          target_accounts?: string[] | null
           target_geo?: Json | null
           updated_at?: string | null
           user_id?: string | null
@@ -119,68 +196,221 @@ export type Database = {
           },
         ]
       }
+      credit_ledger: {
+        Row: {
+          amount: number
+          campaign_id: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          idempotency_key: string
+          organization_id: string
+          reason: string
+          stripe_invoice_id: string | null
+          subscription_id: string | null
+        }
+        Insert: {
+          amount: number
+          campaign_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          idempotency_key: string
+          organization_id: string
+          reason: string
+          stripe_invoice_id?: string | null
+          subscription_id?: string | null
+        }
+        Update: {
+          amount?: number
+          campaign_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          idempotency_key?: string
+          organization_id?: string
+          reason?: string
+          stripe_invoice_id?: string | null
+          subscription_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_ledger_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_ledger_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_ledger_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_generation_jobs: {
+        Row: {
+          attempts: number
+          campaign_id: string
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          failed_stage: string | null
+          id: string
+          locked_until: string | null
+          max_attempts: number
+          pending_leads: number
+          progress: Json | null
+          run_after: string
+          stage: string
+          started_at: string | null
+          state: Json
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          campaign_id: string
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          failed_stage?: string | null
+          id?: string
+          locked_until?: string | null
+          max_attempts?: number
+          pending_leads?: number
+          progress?: Json | null
+          run_after?: string
+          stage?: string
+          started_at?: string | null
+          state: Json
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          campaign_id?: string
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          failed_stage?: string | null
+          id?: string
+          locked_until?: string | null
+          max_attempts?: number
+          pending_leads?: number
+          progress?: Json | null
+          run_after?: string
+          stage?: string
+          started_at?: string | null
+          state?: Json
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_generation_jobs_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       leads: {
         Row: {
           about: string | null
           campaign_id: string
           company: string
+          copy_lint: Json | null
           created_at: string | null
           email: string | null
           email_body: string | null
+          email_grade: string | null
+          email_sequence: Json | null
           email_subject: string | null
+          email_verification: Json | null
+          email_verified_at: string | null
           first_name: string
           id: string
           last_name: string
+          lead_source: string | null
           linkedin_url: string | null
           location: string | null
           opened_at: string | null
           profile_picture_url: string | null
+          prompt_versions: Json | null
           replied_at: string | null
           sent_at: string | null
           status: string | null
           title: string
+          variant_id: string | null
           why_picked: string | null
         }
         Insert: {
           about?: string | null
           campaign_id: string
           company: string
+          copy_lint?: Json | null
           created_at?: string | null
           email?: string | null
           email_body?: string | null
+          email_grade?: string | null
+          email_sequence?: Json | null
           email_subject?: string | null
+          email_verification?: Json | null
+          email_verified_at?: string | null
           first_name: string
           id?: string
           last_name: string
+          lead_source?: string | null
           linkedin_url?: string | null
           location?: string | null
           opened_at?: string | null
           profile_picture_url?: string | null
+          prompt_versions?: Json | null
           replied_at?: string | null
           sent_at?: string | null
           status?: string | null
           title: string
+          variant_id?: string | null
           why_picked?: string | null
         }
         Update: {
           about?: string | null
           campaign_id?: string
           company?: string
+          copy_lint?: Json | null
           created_at?: string | null
           email?: string | null
           email_body?: string | null
+          email_grade?: string | null
+          email_sequence?: Json | null
           email_subject?: string | null
+          email_verification?: Json | null
+          email_verified_at?: string | null
           first_name?: string
           id?: string
           last_name?: string
+          lead_source?: string | null
           linkedin_url?: string | null
           location?: string | null
           opened_at?: string | null
           profile_picture_url?: string | null
+          prompt_versions?: Json | null
           replied_at?: string | null
           sent_at?: string | null
           status?: string | null
           title?: string
+          variant_id?: string | null
           why_picked?: string | null
         }
         Relationships: [
@@ -193,6 +423,94 @@ export type Database = {
           },
         ]
       }
+      organization_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          organization_id: string
+          revoked_at: string | null
+          role: string
+          token_hash: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email: string
+          expires_at: string
+          id?: string
+          invited_by?: string | null
+          organization_id: string
+          revoked_at?: string | null
+          role: string
+          token_hash: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id?: string
+          revoked_at?: string | null
+          role?: string
+          token_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_invitations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          email: string | null
+          id: string
+          invited_by: string | null
+          organization_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          invited_by?: string | null
+          organization_id: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          invited_by?: string | null
+          organization_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       organizations: {
         Row: {
           created_at: string | null
@@ -217,6 +535,357 @@ export type Database = {
         }
         Relationships: []
       }
+      payments: {
+        Row: {
+          amount: number
+          amount_refunded: number
+          campaign_id: string | null
+          created_at: string
+          currency: string
+          discount_amount: number
+          fulfilled_at: string | null
+          fulfilling_until: string | null
+          id: string
+          kind: string
+          leads: number
+          organization_id: string | null
+          promo_code_id: string | null
+          status: string
+          stripe_customer_id: string | null
+          stripe_id: string
+          stripe_payment_intent_id: string | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          amount: number
+          amount_refunded?: number
+          campaign_id?: string | null
+          created_at?: string
+          currency: string
+          discount_amount?: number
+          fulfilled_at?: string | null
+          fulfilling_until?: string | null
+          id?: string
+          kind: string
+          leads: number
+          organization_id?: string | null
+          promo_code_id?: string | null
+          status: string
+          stripe_customer_id?: string | null
+          stripe_id: string
+          stripe_payment_intent_id?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          amount?: number
+          amount_refunded?: number
+          campaign_id?: string | null
+          created_at?: string
+          currency?: string
+          discount_amount?: number
+          fulfilled_at?: string | null
+          fulfilling_until?: string | null
+          id?: string
+          kind?: string
+          leads?: number
+          organization_id?: string | null
+          promo_code_id?: string | null
+          status?: string
+          stripe_customer_id?: string | null
+          stripe_id?: string
+          stripe_payment_intent_id?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pricing_plans: {
+        Row: {
+          active: boolean
+          created_at: string
+          id: string
+          is_default: boolean
+          name: string
+          tiers: Json
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name: string
+          tiers: Json
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name?: string
+          tiers?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      promo_code_redemptions: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          promo_code_id: string
+          status: string
+          stripe_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          id?: string
+          promo_code_id: string
+          status: string
+          stripe_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          promo_code_id?: string
+          status?: string
+          stripe_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promo_code_redemptions_promo_code_id_fkey"
+            columns: ["promo_code_id"]
+            isOneToOne: false
+            referencedRelation: "promo_codes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      promo_codes: {
+        Row: {
+          active: boolean
+          code: string
+          created_at: string
+          description: string | null
+          discount_type: string
+          discount_value: number
+          expires_at: string | null
+          id: string
+          max_redemptions: number | null
+          pricing_plan_id: string | null
+        }
+        Insert: {
+          active?: boolean
+          code: string
+          created_at?: string
+          description?: string | null
+          discount_type: string
+          discount_value: number
+          expires_at?: string | null
+          id?: string
+          max_redemptions?: number | null
+          pricing_plan_id?: string | null
+        }
+        Update: {
+          active?: boolean
+          code?: string
+          created_at?: string
+          description?: string | null
+          discount_type?: string
+          discount_value?: number
+          expires_at?: string | null
+          id?: string
+          max_redemptions?: number | null
+          pricing_plan_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promo_codes_pricing_plan_id_fkey"
+            columns: ["pricing_plan_id"]
+            isOneToOne: false
+            referencedRelation: "pricing_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stripe_events: {
+        Row: {
+          created_at: string
+          id: string
+          processed_at: string | null
+          type: string
+        }
+        Insert: {
+          created_at?: string
+          id: string
+          processed_at?: string | null
+          type: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          processed_at?: string | null
+          type?: string
+        }
+        Relationships: []
+      }
+      subscription_plans: {
+        Row: {
+          active: boolean
+          created_at: string
+          description: string | null
+          id: string
+          max_rollover_credits: number | null
+          monthly_credits: number
+          name: string
+          stripe_price_id: string
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          description?: string | null
+          id?: string
+          max_rollover_credits?: number | null
+          monthly_credits: number
+          name: string
+          stripe_price_id: string
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          description?: string | null
+          id?: string
+          max_rollover_credits?: number | null
+          monthly_credits?: number
+          name?: string
+          stripe_price_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      subscriptions: {
+        Row: {
+          cancel_at_period_end: boolean
+          created_at: string
+          current_period_end: string | null
+          current_period_start: string | null
+          id: string
+          organization_id: string
+          plan_id: string | null
+          status: string
+          stripe_customer_id: string
+          stripe_subscription_id: string
+          updated_at: string
+        }
+        Insert: {
+          cancel_at_period_end?: boolean
+          created_at?: string
+          current_period_end?: string | null
+          current_period_start?: string | null
+          id?: string
+          organization_id: string
+          plan_id?: string | null
+          status: string
+          stripe_customer_id: string
+          stripe_subscription_id: string
+          updated_at?: string
+        }
+        Update: {
+          cancel_at_period_end?: boolean
+          created_at?: string
+          current_period_end?: string | null
+          current_period_start?: string | null
+          id?: string
+          organization_id?: string
+          plan_id?: string | null
+          status?: string
+          stripe_customer_id?: string
+          stripe_subscription_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subscriptions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subscriptions_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "subscription_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      suppressions: {
+        Row: {
+          campaign_id: string | null
+          created_at: string
+          id: string
+          lead_id: string | null
+          organization_id: string
+          reason: string
+          type: string
+          value: string
+        }
+        Insert: {
+          campaign_id?: string | null
+          created_at?: string
+          id?: string
+          lead_id?: string | null
+          organization_id: string
+          reason: string
+          type: string
+          value: string
+        }
+        Update: {
+          campaign_id?: string | null
+          created_at?: string
+          id?: string
+          lead_id?: string | null
+          organization_id?: string
+          reason?: string
+          type?: string
+          value?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "suppressions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -234,15 +903,44 @@ export type Database = {
 }
 
 // Helper types for easier use
+export type ApiKey = Database['public']['Tables']['api_keys']['Row']
+export type ApiKeyInsert = Database['public']['Tables']['api_keys']['Insert']
+
 export type Campaign = Database['public']['Tables']['campaigns']['Row']
 export type CampaignInsert = Database['public']['Tables']['campaigns']['Insert']
 export type CampaignUpdate = Database['public']['Tables']['campaigns']['Update']
 
+export type CreditLedgerEntry = Database['public']['Tables']['credit_ledger']['Row']
+export type CreditLedgerEntryInsert = Database['public']['Tables']['credit_ledger']['Insert']
+
 export type Lead = Database['public']['Tables']['leads']['Row']
 export type LeadInsert = Database['public']['Tables']['leads']['Insert']
 export type LeadUpdate = Database['public']['Tables']['leads']['Update']
 
+export type OrganizationInvitation = Database['public']['Tables']['organization_invitations']['Row']
+export type OrganizationInvitationInsert = Database['public']['Tables']['organization_invitations']['Insert']
+
+export type OrganizationMember = Database['public']['Tables']['organization_members']['Row']
+export type OrganizationMemberInsert = Database['public']['Tables']['organization_members']['Insert']
+
 export type Organization = Database['public']['Tables']['organizations']['Row']
 export type OrganizationInsert = Database['public']['Tables']['organizations']['Insert']
 export type OrganizationUpdate = Database['public']['Tables']['organizations']['Update']
 
+export type Payment = Database['public']['Tables']['payments']['Row']
+export type PaymentInsert = Database['public']['Tables']['payments']['Insert']
+
+export type PricingPlan = Database['public']['Tables']['pricing_plans']['Row']
+
+export type PromoCode = Database['public']['Tables']['promo_codes']['Row']
+export type PromoCodeRedemption = Database['public']['Tables']['promo_code_redemptions']['Row']
+
+export type StripeEvent = Database['public']['Tables']['stripe_events']['Row']
+
+export type Subscription = Database['public']['Tables']['subscriptions']['Row']
+
+export type SubscriptionPlan = Database['public']['Tables']['subscription_plans']['Row']
+
+export type Suppression = Database['public']['Tables']['suppressions']['Row']
+export type SuppressionInsert = Database['public']['Tables']['suppressions']['Insert']
+
@@ -23,6 +23,8 @@ export interface AgentStep {
   prompt?: string;
   /** The raw response from the LLM */
   response?: string;
+  /** Version of the prompt template (see lib/services/prompts) */
+  promptVersion?: string;
 }
 
 /**
@@ -14,6 +14,8 @@ export interface QualifiedLead {
   whyPicked: string;
   emailSubject: string;
   emailBody: string;
+  // Version of the email-writer prompt that wrote the email
+  promptVersion?: string;
 }
 
 export interface LinkedInGeoLocation {
@@ -31,6 +33,7 @@ export interface ICPSettings {
   companySize: string;
   industries: string[] | LinkedInIndustry[];  // Support both formats for backwards compatibility
   locations: string[] | LinkedInGeoLocation[]; // Support both formats for backwards compatibility
+  accounts?: string[];  // Account-based mode: only people at these companies (domains or names)
 }
 
 export interface CompanyInfo {
@@ -47,6 +50,8 @@ export interface CompanyInfo {
 import { CompanyProfile } from '../services/agents/companyProfiler';
 import { ICPPersona } from '../services/agents/icpBrainstormer';
 import { PersonaEvaluation } from '../services/agents/coldEmailRanker';
+import { EmailVerification } from '../services/emailVerification';
+import { PromptVersions } from '../services/prompts/registry';
 
 export interface PersonaRankings {
   evaluations: PersonaEvaluation[];
@@ -68,6 +73,8 @@ export interface PipelineDebug {
   startedAt: string;
   completedAt: string;
   totalDurationMs: number;
+  // Prompt id -> version each agent ran at
+  promptVersions?: PromptVersions;
   steps: {
     companyProfiler?: unknown;
     icpBrainstormer?: unknown;
@@ -78,6 +85,16 @@ export interface PipelineDebug {
   };
 }
 
+/**
+ * One purchasable option of a pricing plan (see lib/services/pricing.ts)
+ */
+export interface PricingTier {
+  key: string;
+  label: string;
+  emails: number;
+  priceInCents: number;
+}
+
 export interface CampaignData {
   id: string;
   slug: string;
@@ -93,6 +110,8 @@ export interface CampaignData {
   priceTier1Emails: number;
   priceTier2: number;
   priceTier2Emails: number;
+  // Tiers the campaign is sold at, resolved from its pricing plan (unset in demo mode)
+  pricingTiers?: PricingTier[];
   createdAt: string;
   // New fields for full data persistence (camelCase to match existing pattern)
   domain?: string;
@@ -201,7 +220,20 @@ export interface LinkedInLead {
   
   // Enrichment fields
   email?: string;  // Enriched via Icypeas
+  email_certainty?: string;  // Icypeas certainty for the enriched email
+  email_verification?: EmailVerification;  // Set by the job's verify stage
   company_domain?: string;  // Company domain for email enrichment (e.g., "acme.com")
+  
+  // Account fields (AI Ark returns these with each person)
+  company_description?: string;
+  company_industry?: string;
+  company_headcount?: number;
+  
+  // Account-based campaigns: the entry from the target account list this lead works at
+  target_account?: string;
+  
+  // Which lead source provider found this lead ('apify' | 'ark')
+  source?: string;
 }
 
 export interface ApifySearchResult {
@@ -0,0 +1,38 @@
+/**
+ * Wait for a checkout to be fulfilled after payment.
+ *
+ * The Stripe webhook does the fulfilment, usually within a second or two of payment.
+ * /api/checkout/complete answers 202 until then, so it's polled here.
+ */
+
+const POLL_INTERVAL_MS = 1500;
+const MAX_POLLS = 20;
+
+export interface CheckoutCompletion {
+  status?: 'processing' | 'fulfilled';
+  email?: string | null;
+  autoLoginUrl?: string | null;
+  error?: string;
+}
+
+/**
+ * @param body - { paymentIntentId } or { sessionId }, plus campaignSlug and origin for the login link
+ * @returns The last response - still 'processing' if the webhook hadn't run by the final poll
+ */
+export async function waitForCheckoutCompletion(body: Record<string, unknown>): Promise<CheckoutCompletion> {
+  let data: CheckoutCompletion = {};
+
+  for (let poll = 0; poll < MAX_POLLS; poll++) {
+    const response = await fetch('/api/checkout/complete', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    data = await response.json();
+
+    if (response.status !== 202) return data;
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  return data;
+}
@@ -0,0 +1,45 @@
+/**
+ * Normalize a company name for use in casual email copy.
+ * Strips legal suffixes like LLC, Inc., Corp., etc.
+ * 
+ * "Acme Corporation, Inc." -> "Acme Corporation"
+ * "TechStart LLC" -> "TechStart"
+ * "Global Solutions, L.L.C." -> "Global Solutions"
+ */
+export function normalizeCompanyName(name: string): string {
+  if (!name) return name;
+  
+  // Common legal suffixes to remove (case insensitive)
+  // Order matters - check longer patterns first
+  const suffixes = [
+    /,?\s*(L\.?L\.?C\.?|LLC)\.?$/i,
+    /,?\s*(Inc\.?|Incorporated)$/i,
+    /,?\s*(Corp\.?|Corporation)$/i,
+    /,?\s*(Ltd\.?|Limited)$/i,
+    /,?\s*(L\.?L\.?P\.?|LLP)\.?$/i,
+    /,?\s*(P\.?L\.?L\.?C\.?|PLLC)\.?$/i,
+    /,?\s*(P\.?C\.?|PC)\.?$/i,
+    /,?\s*(Co\.?)$/i,
+    /,?\s*(S\.?A\.?)$/i,         // Spanish/French
+    /,?\s*(GmbH)$/i,             // German
+    /,?\s*(B\.?V\.?)$/i,         // Dutch
+    /,?\s*(Pty\.?\s*Ltd\.?)$/i,  // Australian
+    /,?\s*(sp\.?\s*z\.?\s*o\.?\s*o\.?)$/i,  // Polish (sp. z o.o.)
+    /,?\s*(s\.?\s*r\.?\s*o\.?)$/i,          // Czech/Slovak (s.r.o.)
+    /,?\s*(A\.?S\.?|a\/s)$/i,               // Danish/Norwegian (A/S)
+    /,?\s*(AB)$/i,                          // Swedish
+    /,?\s*(AG)$/i,                          // German/Swiss
+    /,?\s*(S\.?r\.?l\.?)$/i,                // Italian/Romanian (S.r.l.)
+    /,?\s*(S\.?L\.?)$/i,                    // Spanish (S.L.)
+    /,?\s*(N\.?V\.?)$/i,                    // Dutch (N.V.)
+    /,?\s*(OÜ)$/i,                          // Estonian
+  ];
+  
+  let normalized = name.trim();
+  
+  for (const suffix of suffixes) {
+    normalized = normalized.replace(suffix, '');
+  }
+  
+  return normalized.trim();
+}
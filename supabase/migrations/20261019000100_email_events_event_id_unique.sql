@@ -0,0 +1,9 @@
+-- EmailBison webhook deduplication (lib/services/emailbison/webhooks.ts).
+-- A retried delivery whose event id is already recorded fails its insert with
+-- unique_violation and is skipped, so concurrent retries can't both apply side effects.
+-- Events without an id (NULL) aren't deduplicated.
+
+alter table email_events add column if not exists emailbison_event_id text;
+
+create unique index if not exists email_events_emailbison_event_id_key
+  on email_events (emailbison_event_id);
@@ -0,0 +1,55 @@
+-- Organization members can read their organization's data from the dashboard.
+-- The dashboard pages (app/app) read organization_members, organizations, campaigns and leads
+-- with the browser client, so RLS decides what they see. The original policies only matched the
+-- organization's owner, so invited members saw empty dashboards.
+-- These add read access alongside the existing policies. Writes still go through the API routes,
+-- which check the member's role (lib/services/organizationRoles.ts).
+
+-- Security definer so policies on organization_members can use it without recursing
+create or replace function public.is_organization_member(org_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from organization_members
+    where organization_id = org_id and user_id = auth.uid()
+  ) or exists (
+    select 1 from organizations
+    where id = org_id and owner_id = auth.uid()
+  );
+$$;
+
+revoke all on function public.is_organization_member(uuid) from public;
+grant execute on function public.is_organization_member(uuid) to authenticated;
+
+drop policy if exists "Members can read their organization's memberships" on organization_members;
+create policy "Members can read their organization's memberships"
+  on organization_members for select
+  to authenticated
+  using (user_id = auth.uid() or public.is_organization_member(organization_id));
+
+drop policy if exists "Members can read their organization" on organizations;
+create policy "Members can read their organization"
+  on organizations for select
+  to authenticated
+  using (public.is_organization_member(id));
+
+drop policy if exists "Members can read their organization's campaigns" on campaigns;
+create policy "Members can read their organization's campaigns"
+  on campaigns for select
+  to authenticated
+  using (organization_id is not null and public.is_organization_member(organization_id));
+
+drop policy if exists "Members can read their organization's leads" on leads;
+create policy "Members can read their organization's leads"
+  on leads for select
+  to authenticated
+  using (exists (
+    select 1 from campaigns
+    where campaigns.id = leads.campaign_id
+      and campaigns.organization_id is not null
+      and public.is_organization_member(campaigns.organization_id)
+  ));
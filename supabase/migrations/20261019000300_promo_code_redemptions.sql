@@ -0,0 +1,36 @@
+-- Promo code usage limits (lib/services/pricing.ts).
+-- A redemption is reserved when a checkout is created with the code, so two buyers can't both
+-- take a code's last use before either payment is fulfilled. Fulfilment marks it redeemed;
+-- a cancelled checkout or a full refund releases it, and a reservation nobody paid for lapses
+-- at expires_at. max_redemptions counts redeemed rows and unexpired reservations.
+
+create table if not exists promo_code_redemptions (
+  id uuid primary key default gen_random_uuid(),
+  promo_code_id uuid not null references promo_codes (id) on delete cascade,
+  -- reserved | redeemed | released
+  status text not null,
+  -- PaymentIntent or Checkout Session, set when the payment is fulfilled
+  stripe_id text,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists promo_code_redemptions_promo_code_id_idx
+  on promo_code_redemptions (promo_code_id, status);
+
+create index if not exists promo_code_redemptions_stripe_id_idx
+  on promo_code_redemptions (stripe_id);
+
+-- Server-only, like payments
+alter table promo_code_redemptions enable row level security;
+
+-- Payments made before reservations existed, except refunded ones
+insert into promo_code_redemptions (promo_code_id, status, stripe_id, expires_at, created_at)
+select promo_code_id, 'redeemed', stripe_id, created_at, created_at
+from payments
+where promo_code_id is not null
+  and status <> 'refunded'
+  and not exists (
+    select 1 from promo_code_redemptions r where r.stripe_id = payments.stripe_id
+  );